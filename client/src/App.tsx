@@ -4,16 +4,23 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/components/theme-provider";
+import { ValueBasisProvider } from "@/components/value-basis-provider";
 import NotFound from "@/pages/not-found";
 import Dashboard from "@/pages/dashboard";
 import Discover from "@/pages/discover";
 import Methodology from "@/pages/methodology";
+import Review from "@/pages/review";
+import Portfolios from "@/pages/portfolios";
+import Duplicates from "@/pages/duplicates";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Dashboard} />
       <Route path="/discover" component={Discover} />
+      <Route path="/review" component={Review} />
+      <Route path="/portfolios" component={Portfolios} />
+      <Route path="/duplicates" component={Duplicates} />
       <Route path="/methodology" component={Methodology} />
       <Route component={NotFound} />
     </Switch>
@@ -23,12 +30,14 @@ function Router() {
 function App() {
   return (
     <ThemeProvider>
-      <QueryClientProvider client={queryClient}>
-        <TooltipProvider>
-          <Toaster />
-          <Router />
-        </TooltipProvider>
-      </QueryClientProvider>
+      <ValueBasisProvider>
+        <QueryClientProvider client={queryClient}>
+          <TooltipProvider>
+            <Toaster />
+            <Router />
+          </TooltipProvider>
+        </QueryClientProvider>
+      </ValueBasisProvider>
     </ThemeProvider>
   );
 }
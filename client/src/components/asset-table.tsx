@@ -1,20 +1,32 @@
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { ChevronDown, ChevronUp, ChevronsUpDown, MapPin, Building2 } from "lucide-react";
+import { ChevronDown, ChevronUp, ChevronsUpDown, MapPin, Building2, ShieldCheck, ShieldAlert, ShieldX, ShieldQuestion } from "lucide-react";
 import { useState, useMemo } from "react";
-import type { Asset } from "@shared/schema";
+import type { Asset, SourceCheckStatus } from "@shared/schema";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { useValueBasis } from "@/components/value-basis-provider";
+
+export type SortField = "facilityName" | "assetType" | "country" | "city" | "valueUsd" | "companyName";
+export type SortDir = "asc" | "desc";
+
+export interface ServerPaging {
+  page: number;
+  pageSize: number;
+  total: number;
+  sortField: SortField;
+  sortDir: SortDir;
+  onPageChange: (page: number) => void;
+  onSortChange: (field: SortField, dir: SortDir) => void;
+}
 
 interface AssetTableProps {
   assets: Asset[];
   isLoading: boolean;
   showCompany?: boolean;
+  server?: ServerPaging;
 }
 
-type SortField = "facilityName" | "assetType" | "country" | "city" | "valueUsd" | "companyName";
-type SortDir = "asc" | "desc";
-
 function formatCurrency(value: number | null): string {
   if (!value) return "—";
   if (value >= 1e9) return `$${(value / 1e9).toFixed(2)}B`;
@@ -30,6 +42,14 @@ function getCertaintyLabel(certainty: number | null): { text: string; variant: "
   return { text: "Approx", variant: "outline" };
 }
 
+const SOURCE_STATUS_LABELS: Record<SourceCheckStatus, { text: string; variant: "default" | "secondary" | "outline" | "destructive"; icon: typeof ShieldCheck }> = {
+  verified: { text: "Verified", variant: "default", icon: ShieldCheck },
+  location_only: { text: "City only", variant: "secondary", icon: ShieldAlert },
+  unsupported: { text: "Unsupported", variant: "destructive", icon: ShieldX },
+  unreadable: { text: "Unreadable", variant: "outline", icon: ShieldQuestion },
+  dead: { text: "Dead link", variant: "destructive", icon: ShieldX },
+};
+
 function getAssetTypeColor(type: string | null): string {
   if (!type) return "bg-muted text-muted-foreground";
   const t = type.toLowerCase();
@@ -42,16 +62,26 @@ function getAssetTypeColor(type: string | null): string {
   return "bg-muted text-muted-foreground";
 }
 
-export function AssetTable({ assets, isLoading, showCompany = false }: AssetTableProps) {
-  const [sortField, setSortField] = useState<SortField>("valueUsd");
-  const [sortDir, setSortDir] = useState<SortDir>("desc");
-  const [page, setPage] = useState(0);
-  const pageSize = 25;
+export function AssetTable({ assets, isLoading, showCompany = false, server }: AssetTableProps) {
+  const { basis, assetValue } = useValueBasis();
+  const [localSortField, setLocalSortField] = useState<SortField>("valueUsd");
+  const [localSortDir, setLocalSortDir] = useState<SortDir>("desc");
+  const [localPage, setLocalPage] = useState(0);
+
+  const sortField = server ? server.sortField : localSortField;
+  const sortDir = server ? server.sortDir : localSortDir;
+  const page = server ? server.page : localPage;
+  const pageSize = server ? server.pageSize : 25;
+  const setPage = (update: (p: number) => number) => {
+    if (server) server.onPageChange(update(server.page));
+    else setLocalPage(update);
+  };
 
   const sorted = useMemo(() => {
+    if (server) return assets;
     return [...assets].sort((a, b) => {
-      let aVal = a[sortField];
-      let bVal = b[sortField];
+      let aVal = sortField === "valueUsd" ? assetValue(a) : a[sortField];
+      let bVal = sortField === "valueUsd" ? assetValue(b) : b[sortField];
       if (aVal == null) aVal = "" as any;
       if (bVal == null) bVal = "" as any;
       if (typeof aVal === "string" && typeof bVal === "string") {
@@ -59,19 +89,24 @@ export function AssetTable({ assets, isLoading, showCompany = false }: AssetTabl
       }
       return sortDir === "asc" ? (aVal as number) - (bVal as number) : (bVal as number) - (aVal as number);
     });
-  }, [assets, sortField, sortDir]);
+  }, [assets, sortField, sortDir, server, assetValue]);
 
-  const paged = useMemo(() => sorted.slice(page * pageSize, (page + 1) * pageSize), [sorted, page]);
-  const totalPages = Math.ceil(sorted.length / pageSize);
+  const paged = useMemo(
+    () => (server ? sorted : sorted.slice(page * pageSize, (page + 1) * pageSize)),
+    [sorted, page, pageSize, server],
+  );
+  const totalCount = server ? server.total : sorted.length;
+  const totalPages = Math.ceil(totalCount / pageSize);
 
   const handleSort = (field: SortField) => {
-    if (sortField === field) {
-      setSortDir((d) => (d === "asc" ? "desc" : "asc"));
-    } else {
-      setSortField(field);
-      setSortDir("desc");
+    const nextDir: SortDir = sortField === field ? (sortDir === "asc" ? "desc" : "asc") : "desc";
+    if (server) {
+      server.onSortChange(field, nextDir);
+      return;
     }
-    setPage(0);
+    setLocalSortField(field);
+    setLocalSortDir(nextDir);
+    setLocalPage(0);
   };
 
   const SortIcon = ({ field }: { field: SortField }) => {
@@ -133,7 +168,7 @@ export function AssetTable({ assets, isLoading, showCompany = false }: AssetTabl
               </TableHead>
               <TableHead className="text-right">
                 <button className="flex items-center gap-1 text-xs font-medium ml-auto" onClick={() => handleSort("valueUsd")} data-testid="button-sort-value">
-                  Value <SortIcon field="valueUsd" />
+                  {basis === "attributable" ? "Attributable" : "Value"} <SortIcon field="valueUsd" />
                 </button>
               </TableHead>
               <TableHead>
@@ -142,11 +177,15 @@ export function AssetTable({ assets, isLoading, showCompany = false }: AssetTabl
               <TableHead className="text-center">
                 <span className="text-xs font-medium">Precision</span>
               </TableHead>
+              <TableHead className="text-center">
+                <span className="text-xs font-medium">Source</span>
+              </TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {paged.map((asset) => {
               const certainty = getCertaintyLabel(asset.coordinateCertainty);
+              const source = asset.sourceStatus ? SOURCE_STATUS_LABELS[asset.sourceStatus as SourceCheckStatus] : undefined;
               return (
                 <TableRow key={asset.id} className="hover-elevate" data-testid={`row-asset-${asset.id}`}>
                   {showCompany && (
@@ -173,7 +212,10 @@ export function AssetTable({ assets, isLoading, showCompany = false }: AssetTabl
                     {asset.country || "—"}
                   </TableCell>
                   <TableCell className="text-right font-mono text-sm tabular-nums" data-testid={`text-value-${asset.id}`}>
-                    {formatCurrency(asset.valueUsd)}
+                    {formatCurrency(assetValue(asset))}
+                    {asset.ownershipShare != null && asset.ownershipShare < 100 && (
+                      <span className="ml-1 text-xs text-muted-foreground" data-testid={`text-ownership-${asset.id}`}>({asset.ownershipShare}%)</span>
+                    )}
                   </TableCell>
                   <TableCell className="text-xs font-mono text-muted-foreground whitespace-nowrap" data-testid={`text-coords-${asset.id}`}>
                     {asset.latitude != null && asset.longitude != null
@@ -197,6 +239,33 @@ export function AssetTable({ assets, isLoading, showCompany = false }: AssetTabl
                       <span className="text-xs text-muted-foreground">N/A</span>
                     )}
                   </TableCell>
+                  <TableCell className="text-center">
+                    {source ? (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <a href={asset.sourceUrl || undefined} target="_blank" rel="noopener noreferrer">
+                            <Badge variant={source.variant} className="text-xs whitespace-nowrap" data-testid={`badge-source-${asset.id}`}>
+                              <source.icon className="w-3 h-3 mr-1" />
+                              {source.text}
+                            </Badge>
+                          </a>
+                        </TooltipTrigger>
+                        <TooltipContent className="max-w-xs">
+                          <p className="text-xs">
+                            {asset.sourceHttpStatus != null && `HTTP ${asset.sourceHttpStatus}`}
+                            {asset.sourceContentType && ` · ${asset.sourceContentType.split(";")[0]}`}
+                          </p>
+                          {asset.sourceEvidence && <p className="text-xs italic mt-1">{asset.sourceEvidence}</p>}
+                        </TooltipContent>
+                      </Tooltip>
+                    ) : asset.sourceUrl ? (
+                      <a href={asset.sourceUrl} target="_blank" rel="noopener noreferrer" className="text-xs text-muted-foreground underline" data-testid={`link-source-${asset.id}`}>
+                        Unchecked
+                      </a>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">—</span>
+                    )}
+                  </TableCell>
                 </TableRow>
               );
             })}
@@ -207,7 +276,7 @@ export function AssetTable({ assets, isLoading, showCompany = false }: AssetTabl
       {totalPages > 1 && (
         <div className="flex items-center justify-between gap-4 mt-3">
           <p className="text-xs text-muted-foreground">
-            Showing {page * pageSize + 1}–{Math.min((page + 1) * pageSize, sorted.length)} of {sorted.length} assets
+            Showing {page * pageSize + 1}–{Math.min((page + 1) * pageSize, totalCount)} of {totalCount} assets
           </p>
           <div className="flex items-center gap-1">
             <Button
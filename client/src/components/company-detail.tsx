@@ -4,6 +4,7 @@ import { Building2, MapPin, DollarSign, Layers, Globe, Navigation, Shield, Datab
 import type { Asset } from "@shared/schema";
 import { useMemo, useEffect, useRef } from "react";
 import { AssetTable } from "./asset-table";
+import { useValueBasis } from "./value-basis-provider";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
 
@@ -104,6 +105,12 @@ function AssetMap({ assets }: { assets: Asset[] }) {
         ownLabel.textContent = "Ownership: ";
         popupDiv.appendChild(ownLabel);
         popupDiv.appendChild(document.createTextNode(`${asset.ownershipShare}%`));
+
+        popupDiv.appendChild(document.createElement("br"));
+        const attrLabel = document.createElement("strong");
+        attrLabel.textContent = "Attributable: ";
+        popupDiv.appendChild(attrLabel);
+        popupDiv.appendChild(document.createTextNode(formatCurrency(asset.attributableValueUsd || 0)));
       }
 
       popupDiv.appendChild(document.createElement("br"));
@@ -142,6 +149,7 @@ function AssetMap({ assets }: { assets: Asset[] }) {
 }
 
 function AssetDetailCard({ asset }: { asset: Asset }) {
+  const { assetValue } = useValueBasis();
   return (
     <Card className="hover-elevate" data-testid={`card-asset-detail-${asset.id}`}>
       <CardContent className="p-4">
@@ -156,7 +164,7 @@ function AssetDetailCard({ asset }: { asset: Asset }) {
             </div>
           </div>
           <p className="text-sm font-mono font-semibold tabular-nums whitespace-nowrap" data-testid={`text-asset-value-${asset.id}`}>
-            {formatCurrency(asset.valueUsd || 0)}
+            {formatCurrency(assetValue(asset))}
           </p>
         </div>
 
@@ -225,6 +233,17 @@ function AssetDetailCard({ asset }: { asset: Asset }) {
               <span>{asset.ownershipShare}%</span>
             </div>
           )}
+          {asset.consensusCount != null && asset.consensusTotal != null && (
+            <div className="col-span-2" data-testid={`text-consensus-${asset.id}`}>
+              <span className="text-muted-foreground">Model Consensus:</span>{" "}
+              <span>
+                {asset.consensusCount} of {asset.consensusTotal} models
+                {asset.valueLowUsd != null && asset.valueHighUsd != null && asset.valueHighUsd > asset.valueLowUsd &&
+                  ` · value ${formatCurrency(asset.valueLowUsd)}–${formatCurrency(asset.valueHighUsd)}`}
+                {asset.coordinateSpreadKm != null && asset.coordinateSpreadKm > 0 && ` · location spread ${asset.coordinateSpreadKm.toFixed(1)} km`}
+              </span>
+            </div>
+          )}
           {asset.dataSource && (
             <div className="col-span-2">
               <span className="text-muted-foreground">Data Source:</span>{" "}
@@ -250,8 +269,9 @@ function AssetDetailCard({ asset }: { asset: Asset }) {
 }
 
 export function CompanyDetail({ companyName, assets }: CompanyDetailProps) {
+  const { basis, assetValue } = useValueBasis();
   const stats = useMemo(() => {
-    const totalValue = assets.reduce((sum, a) => sum + (a.valueUsd || 0), 0);
+    const totalValue = assets.reduce((sum, a) => sum + assetValue(a), 0);
     const withCoords = assets.filter((a) => a.latitude && a.longitude).length;
     const countries = new Set(assets.map((a) => a.country).filter(Boolean));
     const types = new Map<string, number>();
@@ -263,11 +283,11 @@ export function CompanyDetail({ companyName, assets }: CompanyDetailProps) {
       ? Math.round(assets.reduce((sum, a) => sum + (a.valuationConfidence || 0), 0) / assets.length)
       : 0;
     return { totalValue, withCoords, countriesCount: countries.size, types, avgConfidence };
-  }, [assets]);
+  }, [assets, assetValue]);
 
   const summaryCards = [
     { label: "Total Assets", value: assets.length.toString(), icon: Building2 },
-    { label: "Total Value", value: formatCurrency(stats.totalValue), icon: DollarSign },
+    { label: basis === "attributable" ? "Attributable Value" : "Total Value", value: formatCurrency(stats.totalValue), icon: DollarSign },
     { label: "Countries", value: stats.countriesCount.toString(), icon: Globe },
     { label: "Geocoded", value: `${stats.withCoords}/${assets.length}`, icon: Navigation },
     { label: "Asset Types", value: stats.types.size.toString(), icon: Layers },
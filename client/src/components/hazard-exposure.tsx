@@ -0,0 +1,262 @@
+import { Fragment, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useValueBasis } from "@/components/value-basis-provider";
+import { CloudRain, RefreshCw, AlertTriangle } from "lucide-react";
+import type { HazardType } from "@shared/schema";
+
+interface HazardLayerInfo {
+  id: string;
+  name: string;
+  hazard: HazardType;
+  format: string;
+  unit: string | null;
+  returnPeriod: number | null;
+  featureCount: number;
+}
+
+interface HazardLayersResponse {
+  directory: string;
+  layers: HazardLayerInfo[];
+  errors: Array<{ layer?: string; file?: string; message: string }>;
+}
+
+interface CompanyHazardExposure {
+  company_name: string;
+  isin: string | null;
+  asset_count: number;
+  exposed_asset_count: number;
+  total_value_usd: number;
+  total_attributable_value_usd: number;
+  value_at_risk_usd: number;
+  attributable_value_at_risk_usd: number;
+  var_percent: number;
+  by_hazard: Partial<Record<HazardType, number>>;
+  attributable_by_hazard: Partial<Record<HazardType, number>>;
+}
+
+interface CompanyExposureResponse {
+  layers: string[];
+  total_value_usd: number;
+  total_attributable_value_usd: number;
+  total_value_at_risk_usd: number;
+  total_attributable_value_at_risk_usd: number;
+  companies: CompanyHazardExposure[];
+}
+
+interface AssetExposure {
+  asset_id: number;
+  facility_name: string;
+  country: string | null;
+  value_usd: number;
+  attributable_value_usd: number;
+  exposures: Array<{ layer_id: string; hazard: HazardType; intensity: number; damage_ratio: number }>;
+  exposure_score: number;
+  value_at_risk_usd: number;
+  attributable_value_at_risk_usd: number;
+}
+
+function formatCurrency(value: number): string {
+  if (!value) return "—";
+  if (value >= 1e12) return `$${(value / 1e12).toFixed(2)}T`;
+  if (value >= 1e9) return `$${(value / 1e9).toFixed(2)}B`;
+  if (value >= 1e6) return `$${(value / 1e6).toFixed(1)}M`;
+  if (value >= 1e3) return `$${(value / 1e3).toFixed(0)}K`;
+  return `$${value.toFixed(0)}`;
+}
+
+function CompanyAssetExposure({ isin, hazard }: { isin: string; hazard: string }) {
+  const { basis } = useValueBasis();
+  const query = hazard === "all" ? "" : `?hazard=${hazard}`;
+  const { data, isLoading } = useQuery<{ assets: AssetExposure[] }>({
+    queryKey: [`/api/hazards/exposure/isin/${isin}${query}`],
+  });
+
+  if (isLoading) return <Skeleton className="h-16 w-full" />;
+  const exposed = data?.assets.filter((a) => a.exposures.length > 0) ?? [];
+  if (exposed.length === 0) return <p className="text-xs text-muted-foreground px-3 py-2">No assets intersect the loaded hazard layers.</p>;
+
+  return (
+    <table className="w-full text-xs">
+      <tbody className="divide-y divide-border">
+        {exposed.map((a) => (
+          <tr key={a.asset_id} data-testid={`row-hazard-asset-${a.asset_id}`}>
+            <td className="px-3 py-1.5 pl-8">{a.facility_name}</td>
+            <td className="px-3 py-1.5 text-muted-foreground">{a.country || "—"}</td>
+            <td className="px-3 py-1.5">
+              <div className="flex flex-wrap gap-1">
+                {a.exposures.map((e) => (
+                  <Badge key={e.layer_id} variant="outline" className="text-[10px]">
+                    {e.layer_id}: {e.intensity} ({Math.round(e.damage_ratio * 100)}%)
+                  </Badge>
+                ))}
+              </div>
+            </td>
+            <td className="px-3 py-1.5 text-right font-mono tabular-nums">{a.exposure_score}</td>
+            <td className="px-3 py-1.5 text-right font-mono tabular-nums">{formatCurrency(basis === "attributable" ? a.attributable_value_at_risk_usd : a.value_at_risk_usd)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export function HazardExposure() {
+  const { toast } = useToast();
+  const [hazardFilter, setHazardFilter] = useState("all");
+  const [expandedIsin, setExpandedIsin] = useState<string | null>(null);
+  const [reloading, setReloading] = useState(false);
+  const { basis } = useValueBasis();
+  const attributable = basis === "attributable";
+
+  const { data: layerInfo, isLoading: layersLoading } = useQuery<HazardLayersResponse>({
+    queryKey: ["/api/hazards/layers"],
+  });
+
+  const exposureKey = hazardFilter === "all" ? "/api/hazards/exposure/companies" : `/api/hazards/exposure/companies?hazard=${hazardFilter}`;
+  const { data: exposure, isLoading: exposureLoading } = useQuery<CompanyExposureResponse>({
+    queryKey: [exposureKey],
+    enabled: (layerInfo?.layers.length ?? 0) > 0,
+  });
+
+  const handleReload = async () => {
+    setReloading(true);
+    try {
+      const res = await apiRequest("POST", "/api/hazards/reload");
+      const result: HazardLayersResponse = await res.json();
+      queryClient.setQueryData(["/api/hazards/layers"], result);
+      queryClient.invalidateQueries({ predicate: (q) => String(q.queryKey[0]).startsWith("/api/hazards/exposure") });
+      toast({ title: "Hazard layers reloaded", description: `${result.layers.length} layers loaded, ${result.errors.length} errors.` });
+    } catch (err) {
+      toast({ title: "Reload failed", description: (err as Error).message, variant: "destructive" });
+    } finally {
+      setReloading(false);
+    }
+  };
+
+  const hazards = Array.from(new Set(layerInfo?.layers.map((l) => l.hazard) ?? []));
+  const hazardColumns = hazardFilter === "all" ? hazards : hazards.filter((h) => h === hazardFilter);
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-4">
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <h3 className="text-sm font-medium">Physical Hazard Exposure</h3>
+          <div className="flex items-center gap-2">
+            <Select value={hazardFilter} onValueChange={(v) => { setHazardFilter(v); setExpandedIsin(null); }}>
+              <SelectTrigger className="w-[180px]" data-testid="select-hazard-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All hazards</SelectItem>
+                {hazards.map((h) => (
+                  <SelectItem key={h} value={h}>{h}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={handleReload} disabled={reloading} data-testid="button-reload-hazards">
+              <RefreshCw className={`w-3.5 h-3.5 mr-1.5 ${reloading ? "animate-spin" : ""}`} />
+              Reload Layers
+            </Button>
+          </div>
+        </div>
+
+        {layersLoading ? (
+          <Skeleton className="h-8 w-full" />
+        ) : (
+          <div className="flex flex-wrap gap-1.5" data-testid="list-hazard-layers">
+            {layerInfo?.layers.map((l) => (
+              <Badge key={l.id} variant="secondary" data-testid={`badge-hazard-layer-${l.id}`}>
+                {l.name}
+                {l.unit && <span className="ml-1 text-muted-foreground">({l.unit})</span>}
+              </Badge>
+            ))}
+            {layerInfo?.errors.map((e, i) => (
+              <Badge key={i} variant="destructive" className="gap-1">
+                <AlertTriangle className="w-3 h-3" />
+                {e.layer || e.file}: {e.message}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {layerInfo && layerInfo.layers.length === 0 && (
+          <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+            <CloudRain className="w-12 h-12 mb-3 opacity-30" />
+            <p className="text-sm">No hazard layers loaded</p>
+            <p className="text-xs mt-1">Add a layers.json manifest to <span className="font-mono">{layerInfo.directory}</span> or set HAZARD_LAYERS_DIR.</p>
+          </div>
+        )}
+
+        {exposureLoading && (
+          <div className="space-y-2">
+            {Array.from({ length: 6 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        )}
+
+        {exposure && (
+          <>
+            <p className="text-sm text-muted-foreground" data-testid="text-hazard-total">
+              {attributable
+                ? `${formatCurrency(exposure.total_attributable_value_at_risk_usd)} attributable value at risk of ${formatCurrency(exposure.total_attributable_value_usd)} total`
+                : `${formatCurrency(exposure.total_value_at_risk_usd)} value at risk of ${formatCurrency(exposure.total_value_usd)} total`}
+            </p>
+            <div className="rounded-md border border-border overflow-hidden">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="bg-muted/50 text-left">
+                    <th className="px-3 py-2 text-xs font-medium">Company</th>
+                    <th className="px-3 py-2 text-xs font-medium">ISIN</th>
+                    <th className="px-3 py-2 text-xs font-medium text-right">Exposed Assets</th>
+                    <th className="px-3 py-2 text-xs font-medium text-right">Total Value</th>
+                    {hazardColumns.map((h) => (
+                      <th key={h} className="px-3 py-2 text-xs font-medium text-right capitalize">{h}</th>
+                    ))}
+                    <th className="px-3 py-2 text-xs font-medium text-right">Value at Risk</th>
+                    <th className="px-3 py-2 text-xs font-medium text-right">VaR %</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {exposure.companies.map((c) => (
+                    <Fragment key={c.isin || c.company_name}>
+                      <tr
+                        className="hover-elevate cursor-pointer"
+                        onClick={() => c.isin && setExpandedIsin(expandedIsin === c.isin ? null : c.isin)}
+                        data-testid={`row-hazard-company-${c.isin}`}
+                      >
+                        <td className="px-3 py-2 font-medium">{c.company_name}</td>
+                        <td className="px-3 py-2 font-mono text-xs text-muted-foreground">{c.isin || "—"}</td>
+                        <td className="px-3 py-2 text-right">{c.exposed_asset_count} / {c.asset_count}</td>
+                        <td className="px-3 py-2 text-right font-mono tabular-nums">{formatCurrency(attributable ? c.total_attributable_value_usd : c.total_value_usd)}</td>
+                        {hazardColumns.map((h) => (
+                          <td key={h} className="px-3 py-2 text-right font-mono tabular-nums text-muted-foreground">{formatCurrency((attributable ? c.attributable_by_hazard : c.by_hazard)[h] ?? 0)}</td>
+                        ))}
+                        <td className="px-3 py-2 text-right font-mono tabular-nums font-medium">{formatCurrency(attributable ? c.attributable_value_at_risk_usd : c.value_at_risk_usd)}</td>
+                        <td className="px-3 py-2 text-right font-mono tabular-nums">{c.var_percent.toFixed(1)}%</td>
+                      </tr>
+                      {expandedIsin && expandedIsin === c.isin && (
+                        <tr>
+                          <td colSpan={6 + hazardColumns.length} className="bg-muted/20 p-0">
+                            <CompanyAssetExposure isin={c.isin} hazard={hazardFilter} />
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
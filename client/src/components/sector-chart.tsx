@@ -2,6 +2,7 @@ import { Card, CardContent } from "@/components/ui/card";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from "recharts";
 import type { Asset } from "@shared/schema";
 import { useMemo } from "react";
+import { useValueBasis } from "@/components/value-basis-provider";
 
 const CHART_COLORS = [
   "hsl(var(--chart-1))",
@@ -21,25 +22,29 @@ function formatValue(value: number): string {
   return `$${value.toFixed(0)}`;
 }
 
-export function SectorValueChart({ assets }: { assets: Asset[] }) {
-  const sectorData = useMemo(() => {
-    const map = new Map<string, number>();
-    assets.forEach((a) => {
-      const sector = a.sector || "Other";
-      map.set(sector, (map.get(sector) || 0) + (a.valueUsd || 0));
-    });
-    return Array.from(map.entries())
-      .map(([name, value]) => ({ name, value }))
-      .sort((a, b) => b.value - a.value)
-      .slice(0, 8);
-  }, [assets]);
+/** A sector's or company's totals from GET /api/stats; `name` is null for assets without a sector. */
+export interface ValueGroup {
+  name: string | null;
+  asset_count: number;
+  value_usd: number;
+  attributable_value_usd: number;
+}
+
+export function SectorValueChart({ groups }: { groups: ValueGroup[] }) {
+  const { basis } = useValueBasis();
+  const sectorData = useMemo(
+    () => groups
+      .map((g) => ({ name: g.name || "Other", value: basis === "attributable" ? g.attributable_value_usd : g.value_usd }))
+      .slice(0, 8),
+    [groups, basis],
+  );
 
   if (sectorData.length === 0) return null;
 
   return (
     <Card>
       <CardContent className="p-4">
-        <h3 className="text-sm font-medium mb-4">Value by Sector</h3>
+        <h3 className="text-sm font-medium mb-4">{basis === "attributable" ? "Attributable Value by Sector" : "Value by Sector"}</h3>
         <div className="h-64">
           <ResponsiveContainer width="100%" height="100%">
             <BarChart data={sectorData} layout="vertical" margin={{ left: 0, right: 16, top: 0, bottom: 0 }}>
@@ -145,24 +150,19 @@ export function AssetTypeChart({ assets }: { assets: Asset[] }) {
   );
 }
 
-export function TopCompaniesChart({ assets }: { assets: Asset[] }) {
-  const companyData = useMemo(() => {
-    const map = new Map<string, number>();
-    assets.forEach((a) => {
-      map.set(a.companyName, (map.get(a.companyName) || 0) + (a.valueUsd || 0));
-    });
-    return Array.from(map.entries())
-      .map(([name, value]) => ({ name, value }))
-      .sort((a, b) => b.value - a.value)
-      .slice(0, 10);
-  }, [assets]);
+export function TopCompaniesChart({ groups }: { groups: ValueGroup[] }) {
+  const { basis } = useValueBasis();
+  const companyData = useMemo(
+    () => groups.map((g) => ({ name: g.name ?? "", value: basis === "attributable" ? g.attributable_value_usd : g.value_usd })),
+    [groups, basis],
+  );
 
   if (companyData.length === 0) return null;
 
   return (
     <Card>
       <CardContent className="p-4">
-        <h3 className="text-sm font-medium mb-4">Top 10 Companies by Asset Value</h3>
+        <h3 className="text-sm font-medium mb-4">Top 10 Companies by {basis === "attributable" ? "Attributable" : "Asset"} Value</h3>
         <div className="h-64">
           <ResponsiveContainer width="100%" height="100%">
             <BarChart data={companyData} margin={{ left: 0, right: 16, top: 0, bottom: 0 }}>
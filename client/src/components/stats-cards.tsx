@@ -1,4 +1,5 @@
 import { Card, CardContent } from "@/components/ui/card";
+import { useValueBasis } from "@/components/value-basis-provider";
 import { Building2, MapPin, DollarSign, Globe2, TrendingUp, BarChart3 } from "lucide-react";
 
 interface StatsData {
@@ -22,6 +23,7 @@ function formatNumber(value: number): string {
 }
 
 export function StatsCards({ stats, isLoading }: { stats: StatsData | null; isLoading: boolean }) {
+  const { basis } = useValueBasis();
   const cards = [
     {
       label: "Total Companies",
@@ -38,7 +40,7 @@ export function StatsCards({ stats, isLoading }: { stats: StatsData | null; isLo
       bgColor: "bg-chart-2/10",
     },
     {
-      label: "Portfolio Value",
+      label: basis === "attributable" ? "Attributable Value" : "Portfolio Value",
       value: stats ? formatCurrency(stats.totalValue) : "—",
       icon: DollarSign,
       color: "text-chart-4",
@@ -0,0 +1,48 @@
+import { useState, useEffect, createContext, useContext } from "react";
+import type { Asset, Company, ValueBasis } from "@shared/schema";
+
+export type { ValueBasis };
+
+interface ValueBasisContextType {
+  basis: ValueBasis;
+  setBasis: (basis: ValueBasis) => void;
+  assetValue: (asset: Asset) => number;
+  companyValue: (company: Company) => number | null;
+}
+
+const grossValue = (asset: Asset) => asset.valueUsd || 0;
+const attributableAssetValue = (asset: Asset) => asset.attributableValueUsd || 0;
+
+const ValueBasisContext = createContext<ValueBasisContextType>({
+  basis: "gross",
+  setBasis: () => {},
+  assetValue: grossValue,
+  companyValue: (company) => company.totalAssets,
+});
+
+export function ValueBasisProvider({ children }: { children: React.ReactNode }) {
+  const [basis, setBasis] = useState<ValueBasis>(() => {
+    if (typeof window !== "undefined") {
+      return (localStorage.getItem("valueBasis") as ValueBasis) || "gross";
+    }
+    return "gross";
+  });
+
+  useEffect(() => {
+    localStorage.setItem("valueBasis", basis);
+  }, [basis]);
+
+  const assetValue = basis === "attributable" ? attributableAssetValue : grossValue;
+  const companyValue = (company: Company) =>
+    basis === "attributable" ? company.attributableAssets ?? company.totalAssets : company.totalAssets;
+
+  return (
+    <ValueBasisContext.Provider value={{ basis, setBasis, assetValue, companyValue }}>
+      {children}
+    </ValueBasisContext.Provider>
+  );
+}
+
+export function useValueBasis() {
+  return useContext(ValueBasisContext);
+}
@@ -0,0 +1,24 @@
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useValueBasis, type ValueBasis } from "./value-basis-provider";
+
+export function ValueBasisToggle() {
+  const { basis, setBasis } = useValueBasis();
+
+  return (
+    <ToggleGroup
+      type="single"
+      size="sm"
+      variant="outline"
+      value={basis}
+      onValueChange={(v) => v && setBasis(v as ValueBasis)}
+      data-testid="toggle-value-basis"
+    >
+      <ToggleGroupItem value="gross" className="text-xs" title="Full asset value" data-testid="toggle-value-gross">
+        Gross
+      </ToggleGroupItem>
+      <ToggleGroupItem value="attributable" className="text-xs" title="Value × ownership share" data-testid="toggle-value-attributable">
+        Attributable
+      </ToggleGroupItem>
+    </ToggleGroup>
+  );
+}
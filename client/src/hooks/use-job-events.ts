@@ -0,0 +1,46 @@
+import { useEffect, useState } from "react";
+import { queryClient } from "@/lib/queryClient";
+import type { JobEvent, JobEventType } from "@shared/schema";
+
+const MAX_EVENTS = 200;
+const RESULT_EVENTS = new Set<JobEventType>(["saved", "failed", "quarantined", "job_status"]);
+
+function isActiveStatus(status: string | undefined): boolean {
+  return status === "running" || status === "pending";
+}
+
+/**
+ * Streams a discovery job's progress events. Each finished company or status change refreshes the
+ * cached job queries, so the page no longer polls while a job runs.
+ */
+export function useJobEvents(jobId: number | null): JobEvent[] {
+  const [events, setEvents] = useState<JobEvent[]>([]);
+
+  useEffect(() => {
+    setEvents([]);
+    if (jobId === null) return;
+
+    const source = new EventSource(`/api/discover/jobs/${jobId}/events`);
+    const refreshJobs = () =>
+      queryClient.invalidateQueries({ predicate: (q) => String(q.queryKey[0]).startsWith("/api/discover/jobs") });
+
+    // The server ends the stream once the job stops; close so EventSource does not reconnect.
+    source.addEventListener("snapshot", (e) => {
+      const job = JSON.parse((e as MessageEvent).data) as { status: string };
+      if (!isActiveStatus(job.status)) {
+        source.close();
+        refreshJobs();
+      }
+    });
+    source.onmessage = (e) => {
+      const event = JSON.parse(e.data) as JobEvent;
+      setEvents((prev) => (prev.some((p) => p.id === event.id) ? prev : [...prev, event].slice(-MAX_EVENTS)));
+      if (RESULT_EVENTS.has(event.type)) refreshJobs();
+      if (event.type === "job_status" && !isActiveStatus(event.status)) source.close();
+    };
+
+    return () => source.close();
+  }, [jobId]);
+
+  return events;
+}
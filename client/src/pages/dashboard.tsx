@@ -1,21 +1,26 @@
 import { useQuery } from "@tanstack/react-query";
-import { useState, useMemo, useRef } from "react";
+import { useState, useMemo, useRef, useEffect } from "react";
 import { StatsCards } from "@/components/stats-cards";
 import { CompanySelector } from "@/components/company-selector";
-import { AssetTable } from "@/components/asset-table";
+import { AssetTable, type SortField, type SortDir } from "@/components/asset-table";
 import { CompanyDetail } from "@/components/company-detail";
-import { SectorValueChart, TopCompaniesChart } from "@/components/sector-chart";
+import { HazardExposure } from "@/components/hazard-exposure";
+import { SectorValueChart, TopCompaniesChart, type ValueGroup } from "@/components/sector-chart";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { ValueBasisToggle } from "@/components/value-basis-toggle";
+import { useValueBasis } from "@/components/value-basis-provider";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { Download, Search, Database, BarChart3, Building2, Table2, Sparkles, BookOpen, Upload, DollarSign, Loader2, CheckCircle2, X } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Download, Search, Database, BarChart3, Building2, Table2, Sparkles, BookOpen, Upload, DollarSign, Loader2, CheckCircle2, X, ClipboardCheck, CopyCheck, CloudRain, Briefcase, ShieldCheck } from "lucide-react";
 import type { Asset, Company } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Link } from "wouter";
-import { queryClient } from "@/lib/queryClient";
+import { queryClient, apiRequest } from "@/lib/queryClient";
 
 interface UpdateResult {
   isin: string;
@@ -25,6 +30,15 @@ interface UpdateResult {
   assetsScaled: number;
 }
 
+const EXPORT_FORMATS = {
+  csv: { label: "CSV", path: "/api/assets/export/csv", filename: "corporate_assets.csv" },
+  geojson: { label: "GeoJSON", path: "/api/assets/export/geojson", filename: "corporate_assets.geojson" },
+  kml: { label: "KML", path: "/api/assets/export/kml", filename: "corporate_assets.kml" },
+  shapefile: { label: "Shapefile (zip)", path: "/api/assets/export/shapefile", filename: "corporate_assets_shp.zip" },
+} as const;
+
+type ExportFormat = keyof typeof EXPORT_FORMATS;
+
 function parseCSVLine(line: string): string[] {
   const fields: string[] = [];
   let current = "";
@@ -38,6 +52,50 @@ function parseCSVLine(line: string): string[] {
   return fields;
 }
 
+interface AssetPage {
+  total_matching: number;
+  page: number;
+  page_size: number;
+  total_pages: number;
+  assets: Asset[];
+}
+
+const ASSET_PAGE_SIZE = 25;
+interface StatsResponse {
+  total_assets: number;
+  assets_with_coordinates: number;
+  total_value_usd: number;
+  total_attributable_value_usd: number;
+  total_companies: number;
+  countries_count: number;
+  by_sector: ValueGroup[];
+  top_companies: ValueGroup[];
+}
+
+// Citation filter choices: "hide-bad" drops dead and unsupported citations, the rest pick one status.
+const SOURCE_FILTERS = [
+  { value: "all", label: "All citations" },
+  { value: "hide-bad", label: "Hide dead & unsupported" },
+  { value: "verified", label: "Verified" },
+  { value: "location_only", label: "City only" },
+  { value: "unsupported", label: "Unsupported" },
+  { value: "unreadable", label: "Unreadable" },
+  { value: "dead", label: "Dead links" },
+  { value: "unchecked", label: "Unchecked" },
+] as const;
+
+interface SourceCheckStatusResponse {
+  running: boolean;
+  last_run: { status: string; urls: number; checked_urls: number; assets: number } | null;
+}
+
+function applySourceFilter(params: URLSearchParams | Record<string, string>, filter: string) {
+  if (filter === "all") return;
+  const [key, value] = filter === "hide-bad" ? ["excludeSourceStatus", "dead,unsupported"] : ["sourceStatus", filter];
+  if (params instanceof URLSearchParams) params.set(key, value);
+  else params[key] = value;
+}
+
 function formatCurrency(value: number): string {
   if (value >= 1e12) return `$${(value / 1e12).toFixed(2)}T`;
   if (value >= 1e9) return `$${(value / 1e9).toFixed(1)}B`;
@@ -54,56 +112,113 @@ export default function Dashboard() {
   const [updateRunning, setUpdateRunning] = useState(false);
   const [updateResults, setUpdateResults] = useState<{ updated: number; skipped: number; errors: number; results: UpdateResult[] } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [assetPage, setAssetPage] = useState(0);
+  const [assetSort, setAssetSort] = useState<{ field: SortField; dir: SortDir }>({ field: "valueUsd", dir: "desc" });
+  const [countryFilter, setCountryFilter] = useState("all");
+  const { basis, companyValue } = useValueBasis();
+  const [assetTypeFilter, setAssetTypeFilter] = useState("all");
+  const [sourceFilter, setSourceFilter] = useState("all");
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearch(globalSearch.trim());
+      setAssetPage(0);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [globalSearch]);
+
+  const assetQueryParams = useMemo(() => {
+    const params: Record<string, string> = {
+      page: String(assetPage + 1),
+      pageSize: String(ASSET_PAGE_SIZE),
+      sort: assetSort.field === "valueUsd" && basis === "attributable" ? "attributableValueUsd" : assetSort.field,
+      order: assetSort.dir,
+    };
+    if (debouncedSearch) params.search = debouncedSearch;
+    if (countryFilter !== "all") params.country = countryFilter;
+    if (assetTypeFilter !== "all") params.assetType = assetTypeFilter;
+    applySourceFilter(params, sourceFilter);
+    return params;
+  }, [assetPage, assetSort, basis, debouncedSearch, countryFilter, assetTypeFilter, sourceFilter]);
+
+  const { data: assetPageResponse, isLoading: assetPageLoading } = useQuery<AssetPage>({
+    queryKey: ["/api/assets", assetQueryParams],
+    queryFn: async () => {
+      const res = await fetch(`/api/assets?${new URLSearchParams(assetQueryParams)}`, { credentials: "include" });
+      if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+      return res.json();
+    },
+    placeholderData: (previous) => previous,
+  });
+
+  const { data: sourceChecks } = useQuery<SourceCheckStatusResponse>({
+    queryKey: ["/api/source-checks"],
+    refetchInterval: (query) => (query.state.data?.running ? 3000 : false),
+  });
+  const sourceCheckRunning = sourceChecks?.running ?? false;
+  const wasCheckingSources = useRef(false);
+
+  useEffect(() => {
+    if (wasCheckingSources.current && !sourceCheckRunning) {
+      queryClient.invalidateQueries({ queryKey: ["/api/assets"] });
+    }
+    wasCheckingSources.current = sourceCheckRunning;
+  }, [sourceCheckRunning]);
+
+  const handleCheckSources = async () => {
+    try {
+      await apiRequest("POST", "/api/source-checks", {});
+      queryClient.invalidateQueries({ queryKey: ["/api/source-checks"] });
+      toast({ title: "Source check started", description: "Cited URLs are being fetched; statuses update as each page is checked." });
+    } catch (err) {
+      toast({ title: "Source check failed to start", description: err instanceof Error ? err.message : String(err), variant: "destructive" });
+    }
+  };
+
+  const { data: facets } = useQuery<{ countries: string[]; assetTypes: string[]; sectors: string[] }>({
+    queryKey: ["/api/assets/facets"],
+  });
+
+  // Cards and charts are aggregated server-side; the basis only changes how the groups are ranked.
+  const { data: statsResponse, isLoading: statsLoading } = useQuery<StatsResponse>({
+    queryKey: ["/api/stats", basis],
+    queryFn: async () => {
+      const res = await fetch(`/api/stats?${new URLSearchParams({ basis })}`, { credentials: "include" });
+      if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+      return res.json();
+    },
+    placeholderData: (previous) => previous,
+  });
 
-  const { data: assetsResponse, isLoading: assetsLoading } = useQuery<{
-    total_assets: number;
-    assets_with_coordinates: number;
-    coordinate_coverage_percent: string;
-    assets: Asset[];
-  }>({
-    queryKey: ["/api/assets"],
+  const { data: companyAssetsResponse } = useQuery<{ assets: Asset[] }>({
+    queryKey: ["/api/assets", "company", selectedCompany],
+    queryFn: async () => {
+      const res = await fetch(`/api/assets/company/${encodeURIComponent(selectedCompany)}`, { credentials: "include" });
+      if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+      return res.json();
+    },
+    enabled: !!selectedCompany,
   });
 
   const { data: companiesResponse, isLoading: companiesLoading } = useQuery<Company[]>({
     queryKey: ["/api/companies"],
   });
 
-  const allAssets = assetsResponse?.assets || [];
   const companies = companiesResponse || [];
+  const companyAssets = (selectedCompany && companyAssetsResponse?.assets) || [];
 
   const stats = useMemo(() => {
-    if (!allAssets.length) return null;
-    const countriesSet = new Set(allAssets.map((a) => a.country).filter(Boolean));
-    const assetsWithCoords = allAssets.filter((a) => a.latitude && a.longitude).length;
-    const totalValue = allAssets.reduce((sum, a) => sum + (a.valueUsd || 0), 0);
-    const companiesSet = new Set(allAssets.map((a) => a.companyName));
+    if (!statsResponse?.total_assets) return null;
     return {
-      totalCompanies: companiesSet.size,
-      totalAssets: allAssets.length,
-      assetsWithCoords,
-      totalValue,
-      countriesCount: countriesSet.size,
-      avgAssetsPerCompany: companiesSet.size > 0 ? allAssets.length / companiesSet.size : 0,
+      totalCompanies: statsResponse.total_companies,
+      totalAssets: statsResponse.total_assets,
+      assetsWithCoords: statsResponse.assets_with_coordinates,
+      totalValue: basis === "attributable" ? statsResponse.total_attributable_value_usd : statsResponse.total_value_usd,
+      countriesCount: statsResponse.countries_count,
+      avgAssetsPerCompany: statsResponse.total_companies > 0 ? statsResponse.total_assets / statsResponse.total_companies : 0,
     };
-  }, [allAssets]);
-
-  const companyAssets = useMemo(() => {
-    if (!selectedCompany) return [];
-    return allAssets.filter((a) => a.companyName === selectedCompany);
-  }, [allAssets, selectedCompany]);
-
-  const filteredAssets = useMemo(() => {
-    if (!globalSearch) return allAssets;
-    const lower = globalSearch.toLowerCase();
-    return allAssets.filter(
-      (a) =>
-        a.facilityName.toLowerCase().includes(lower) ||
-        a.companyName.toLowerCase().includes(lower) ||
-        (a.city && a.city.toLowerCase().includes(lower)) ||
-        (a.country && a.country.toLowerCase().includes(lower)) ||
-        (a.assetType && a.assetType.toLowerCase().includes(lower))
-    );
-  }, [allAssets, globalSearch]);
+  }, [statsResponse, basis]);
 
   const companyList = useMemo(() => {
     return companies.map((c) => ({
@@ -113,20 +228,27 @@ export default function Dashboard() {
     }));
   }, [companies]);
 
-  const handleExportCSV = async () => {
+  const handleExport = async (format: ExportFormat) => {
+    const { label, path, filename } = EXPORT_FORMATS[format];
+    const filterParams = new URLSearchParams();
+    if (debouncedSearch) filterParams.set("search", debouncedSearch);
+    if (countryFilter !== "all") filterParams.set("country", countryFilter);
+    if (assetTypeFilter !== "all") filterParams.set("assetType", assetTypeFilter);
+    applySourceFilter(filterParams, sourceFilter);
+    const query = filterParams.toString();
     try {
-      const res = await fetch("/api/assets/export/csv");
+      const res = await fetch(query ? `${path}?${query}` : path);
       if (!res.ok) throw new Error("Export failed");
       const blob = await res.blob();
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement("a");
       a.href = url;
-      a.download = "corporate_assets.csv";
+      a.download = filename;
       a.click();
       window.URL.revokeObjectURL(url);
-      toast({ title: "Export complete", description: "CSV file downloaded successfully." });
+      toast({ title: "Export complete", description: `${label} file downloaded successfully.` });
     } catch {
-      toast({ title: "Export failed", description: "Could not export CSV file.", variant: "destructive" });
+      toast({ title: "Export failed", description: `Could not export ${label} file.`, variant: "destructive" });
     }
   };
 
@@ -193,6 +315,7 @@ export default function Dashboard() {
         setUpdateResults(result);
 
         queryClient.invalidateQueries({ queryKey: ["/api/assets"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
         queryClient.invalidateQueries({ queryKey: ["/api/companies"] });
 
         toast({
@@ -235,16 +358,46 @@ export default function Dashboard() {
                   Discover
                 </Button>
               </Link>
+              <Link href="/review">
+                <Button variant="outline" size="sm" data-testid="button-review">
+                  <ClipboardCheck className="w-3.5 h-3.5 mr-1.5" />
+                  Review
+                </Button>
+              </Link>
+              <Link href="/duplicates">
+                <Button variant="outline" size="sm" data-testid="button-duplicates">
+                  <CopyCheck className="w-3.5 h-3.5 mr-1.5" />
+                  Duplicates
+                </Button>
+              </Link>
+              <Link href="/portfolios">
+                <Button variant="outline" size="sm" data-testid="button-portfolios">
+                  <Briefcase className="w-3.5 h-3.5 mr-1.5" />
+                  Portfolios
+                </Button>
+              </Link>
               <Link href="/methodology">
                 <Button variant="outline" size="sm" data-testid="button-methodology">
                   <BookOpen className="w-3.5 h-3.5 mr-1.5" />
                   Methodology
                 </Button>
               </Link>
-              <Button variant="outline" size="sm" onClick={handleExportCSV} data-testid="button-export-csv">
-                <Download className="w-3.5 h-3.5 mr-1.5" />
-                Export CSV
-              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" data-testid="button-export">
+                    <Download className="w-3.5 h-3.5 mr-1.5" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+                    <DropdownMenuItem key={format} onClick={() => handleExport(format)} data-testid={`button-export-${format}`}>
+                      {EXPORT_FORMATS[format].label}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <ValueBasisToggle />
               <ThemeToggle />
             </div>
           </div>
@@ -343,7 +496,7 @@ export default function Dashboard() {
           </Card>
         )}
 
-        <StatsCards stats={stats} isLoading={assetsLoading} />
+        <StatsCards stats={stats} isLoading={statsLoading} />
 
         <div className="flex items-center gap-3 flex-wrap">
           <CompanySelector
@@ -387,12 +540,16 @@ export default function Dashboard() {
                 <Building2 className="w-3.5 h-3.5 mr-1.5" />
                 Companies
               </TabsTrigger>
+              <TabsTrigger value="hazards" data-testid="tab-hazards">
+                <CloudRain className="w-3.5 h-3.5 mr-1.5" />
+                Hazards
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="overview" className="space-y-4 mt-4">
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-                <SectorValueChart assets={allAssets} />
-                <TopCompaniesChart assets={allAssets} />
+                <SectorValueChart groups={statsResponse?.by_sector ?? []} />
+                <TopCompaniesChart groups={statsResponse?.top_companies ?? []} />
               </div>
             </TabsContent>
 
@@ -401,12 +558,65 @@ export default function Dashboard() {
                 <CardContent className="p-4">
                   <div className="flex items-center justify-between gap-4 mb-3 flex-wrap">
                     <h3 className="text-sm font-medium">
-                      {globalSearch
-                        ? `${filteredAssets.length} results for "${globalSearch}"`
-                        : `All Assets (${allAssets.length})`}
+                      {debouncedSearch
+                        ? `${assetPageResponse?.total_matching ?? 0} results for "${debouncedSearch}"`
+                        : `All Assets (${assetPageResponse?.total_matching ?? 0})`}
                     </h3>
+                    <div className="flex items-center gap-2">
+                      <Select value={countryFilter} onValueChange={(v) => { setCountryFilter(v); setAssetPage(0); }}>
+                        <SelectTrigger className="w-[180px]" data-testid="select-filter-country">
+                          <SelectValue placeholder="All countries" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">All countries</SelectItem>
+                          {facets?.countries.map((c) => (
+                            <SelectItem key={c} value={c}>{c}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select value={assetTypeFilter} onValueChange={(v) => { setAssetTypeFilter(v); setAssetPage(0); }}>
+                        <SelectTrigger className="w-[180px]" data-testid="select-filter-asset-type">
+                          <SelectValue placeholder="All asset types" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">All asset types</SelectItem>
+                          {facets?.assetTypes.map((t) => (
+                            <SelectItem key={t} value={t}>{t}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select value={sourceFilter} onValueChange={(v) => { setSourceFilter(v); setAssetPage(0); }}>
+                        <SelectTrigger className="w-[200px]" data-testid="select-filter-source">
+                          <SelectValue placeholder="All citations" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {SOURCE_FILTERS.map((f) => (
+                            <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button variant="outline" size="sm" onClick={handleCheckSources} disabled={sourceCheckRunning} data-testid="button-check-sources">
+                        {sourceCheckRunning ? <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" /> : <ShieldCheck className="w-3.5 h-3.5 mr-1.5" />}
+                        {sourceCheckRunning && sourceChecks?.last_run
+                          ? `Checking ${sourceChecks.last_run.checked_urls}/${sourceChecks.last_run.urls}`
+                          : "Check sources"}
+                      </Button>
+                    </div>
                   </div>
-                  <AssetTable assets={filteredAssets} isLoading={assetsLoading} showCompany />
+                  <AssetTable
+                    assets={assetPageResponse?.assets || []}
+                    isLoading={assetPageLoading}
+                    showCompany
+                    server={{
+                      page: assetPage,
+                      pageSize: ASSET_PAGE_SIZE,
+                      total: assetPageResponse?.total_matching ?? 0,
+                      sortField: assetSort.field,
+                      sortDir: assetSort.dir,
+                      onPageChange: setAssetPage,
+                      onSortChange: (field, dir) => { setAssetSort({ field, dir }); setAssetPage(0); },
+                    }}
+                  />
                 </CardContent>
               </Card>
             </TabsContent>
@@ -429,7 +639,9 @@ export default function Dashboard() {
                             <th className="px-3 py-2 text-xs font-medium">Company</th>
                             <th className="px-3 py-2 text-xs font-medium">ISIN</th>
                             <th className="px-3 py-2 text-xs font-medium">Sector</th>
-                            <th className="px-3 py-2 text-xs font-medium text-right">Total Assets (USD)</th>
+                            <th className="px-3 py-2 text-xs font-medium text-right">
+                              {basis === "attributable" ? "Attributable Assets (USD)" : "Total Assets (USD)"}
+                            </th>
                             <th className="px-3 py-2 text-xs font-medium text-right">Facilities</th>
                           </tr>
                         </thead>
@@ -448,11 +660,7 @@ export default function Dashboard() {
                               <td className="px-3 py-2 font-mono text-xs text-muted-foreground">{c.isin}</td>
                               <td className="px-3 py-2 text-muted-foreground">{c.sector || "—"}</td>
                               <td className="px-3 py-2 text-right font-mono tabular-nums">
-                                {c.totalAssets
-                                  ? c.totalAssets >= 1e9
-                                    ? `$${(c.totalAssets / 1e9).toFixed(1)}B`
-                                    : `$${(c.totalAssets / 1e6).toFixed(0)}M`
-                                  : "—"}
+                                {companyValue(c) ? formatCurrency(companyValue(c)!) : "—"}
                               </td>
                               <td className="px-3 py-2 text-right">{c.assetCount || 0}</td>
                             </tr>
@@ -464,6 +672,10 @@ export default function Dashboard() {
                 </CardContent>
               </Card>
             </TabsContent>
+
+            <TabsContent value="hazards" className="mt-4">
+              <HazardExposure />
+            </TabsContent>
           </Tabs>
         )}
       </main>
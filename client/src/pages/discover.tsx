@@ -3,10 +3,14 @@ import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
+import { useJobEvents } from "@/hooks/use-job-events";
 import { queryClient } from "@/lib/queryClient";
 import {
   Search,
@@ -27,15 +31,22 @@ import {
   ChevronDown,
   ChevronRight,
   Clock,
+  ShieldAlert,
+  PauseCircle,
 } from "lucide-react";
 import { Link } from "wouter";
+import { isValidIsin, type JobEvent } from "@shared/schema";
 
 interface LLMProvider {
   id: string;
   name: string;
   model: string;
+  baseUrl: string | null;
   costPer1kInputTokens: number;
   costPer1kOutputTokens: number;
+  keyEnv: string | null;
+  requiresKey: boolean;
+  source: "builtin" | "config";
   available: boolean;
 }
 
@@ -43,6 +54,9 @@ interface CompanyEntry {
   name: string;
   isin?: string;
   totalValue?: number;
+  // GICS code, sector name or "Level 1 > Level 2 > ..." path; the server maps it to a GICS code.
+  sector?: string;
+  invalidIsin?: boolean;
 }
 
 interface DiscoveryResult {
@@ -56,6 +70,107 @@ interface DiscoveryResult {
   costUsd?: number;
   normalized?: boolean;
   webResearchUsed?: boolean;
+  filing?: { form: string; filing_date: string; url: string; cited_assets: number };
+  validation?: ValidationReport;
+  ensemble?: EnsembleSummary;
+  quarantine?: {
+    reason: "isin_mismatch" | "invalid_isin" | "isin_conflict" | "isin_disagreement";
+    message: string;
+    requested_isin: string | null;
+    returned_isin: string | null;
+    returned_name: string;
+    existing_company?: string;
+    returned_isins?: Record<string, string | null>;
+  };
+}
+
+interface DiscoveryJobItem {
+  id: number;
+  jobId: number;
+  position: number;
+  companyName: string;
+  isin: string | null;
+  stage: "primary" | "supplementary";
+  provider: string;
+  status: "pending" | "running" | "success" | "failed" | "quarantined" | "cancelled";
+  attempts: number;
+  worker: string | null;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  assetsFound: number | null;
+  supplementaryAssetsFound: number | null;
+  error: string | null;
+  result: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+  hasWebResearch: boolean;
+  latestRerun: { jobId: number; itemId: number; status: string; assetsFound: number | null } | null;
+}
+
+interface ItemWebResearch {
+  gathered_at: string;
+  query_count: number;
+  cached_queries: number;
+  snippet_count: number;
+  queries: Array<{ query: string; backend: string | null; snippets: number; cached: boolean; fetchedAt: string | null; error?: string }>;
+  snippets: Array<{ text: string; title?: string; link?: string; query: string }>;
+}
+
+interface JobItemsPage {
+  job_id: number;
+  counts: Record<string, number>;
+  total_matching: number;
+  page: number;
+  page_size: number;
+  total_pages: number;
+  items: DiscoveryJobItem[];
+}
+
+interface ValidationReport {
+  checked: number;
+  dropped: number;
+  rejected_fields: number;
+  clamped_fields: number;
+  retried: number;
+  repaired: number;
+  assets: Array<{
+    facility_name: string;
+    dropped: boolean;
+    fields: Array<{ field: string; action: "rejected" | "clamped"; value: unknown; reason: string }>;
+  }>;
+}
+
+interface EnsembleSummary {
+  providers: string[];
+  succeeded: string[];
+  failed: Array<{ provider: string; error: string }>;
+  assets_by_provider: Record<string, number>;
+  merged_assets: number;
+  consensus_assets: number;
+  single_model_assets: number;
+}
+
+function describeEnsemble(e: EnsembleSummary): string {
+  const lines = Object.entries(e.assets_by_provider).map(([provider, count]) => `${provider}: ${count} assets`);
+  lines.push(`${e.consensus_assets} found by 2+ models, ${e.single_model_assets} by one model (sent to review)`);
+  for (const f of e.failed) lines.push(`${f.provider} failed: ${f.error}`);
+  return lines.join("\n");
+}
+
+function validationFlagCount(v?: ValidationReport): number {
+  return v ? v.dropped + v.rejected_fields + v.clamped_fields : 0;
+}
+
+function describeValidation(v: ValidationReport): string {
+  const lines = v.assets.slice(0, 20).map((a) =>
+    a.dropped
+      ? `${a.facility_name}: dropped`
+      : `${a.facility_name}: ${a.fields.map((f) => `${f.field} ${f.action} (${f.reason})`).join(", ")}`
+  );
+  if (v.assets.length > 20) lines.push(`…and ${v.assets.length - 20} more`);
+  const retry = v.retried > 0 ? `Retried ${v.retried} assets, ${v.repaired} repaired.\n` : "";
+  return retry + lines.join("\n");
 }
 
 interface DiscoveryJob {
@@ -63,18 +178,71 @@ interface DiscoveryJob {
   status: string;
   modelProvider: string | null;
   supplementaryProvider: string | null;
+  ensembleProviders: string | null;
   totalCompanies: number;
   completedCompanies: number;
   failedCompanies: number;
-  companyNames: string;
-  results: string | null;
+  companyPreview: string[];
   totalInputTokens: number | null;
   totalOutputTokens: number | null;
   totalCostUsd: number | null;
+  budgetUsd: number | null;
+  pausedReason: string | null;
+  priority: number;
+  parentJobId: number | null;
+  rerunKind: "rerun" | "clone" | null;
+  searchBackend: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+interface SearchBackendsStatus {
+  available: boolean;
+  default_order: string[];
+  backends: Array<{
+    id: string;
+    name: string;
+    config_env: string;
+    configured: boolean;
+    monthly_quota: number | null;
+    month_queries: number;
+    quota_remaining: number | null;
+    cooling_down_until: string | null;
+  }>;
+}
+
+interface BudgetStatus {
+  monthly_budget_usd: number | null;
+  month_spend_usd: number;
+  monthly_remaining_usd: number | null;
+}
+
+interface CostEstimate extends BudgetStatus {
+  companies: number;
+  basis: "history" | "default";
+  history_companies: number;
+  estimated_cost_usd: number;
+  job_budget_usd: number | null;
+  exceeds_job_budget: boolean;
+  exceeds_monthly_budget: boolean;
+}
+
+// Higher-priority jobs have their queued companies claimed first; equal priorities run oldest first.
+const PRIORITY_OPTIONS = [
+  { value: 10, label: "High" },
+  { value: 0, label: "Normal" },
+  { value: -10, label: "Low" },
+];
+
+function priorityLabel(priority: number): string {
+  return PRIORITY_OPTIONS.find((o) => o.value === priority)?.label || `Priority ${priority}`;
+}
+
+function parseBudgetInput(value: string): number | null {
+  const amount = parseFloat(value);
+  return amount > 0 ? amount : null;
+}
+
 function formatCost(cost: number): string {
   if (cost < 0.001) return `$${cost.toFixed(6)}`;
   if (cost < 0.01) return `$${cost.toFixed(4)}`;
@@ -111,6 +279,9 @@ function getJobDisplayStatus(job: DiscoveryJob): { label: string; variant: "defa
   if (job.status === "cancelled") {
     return { label: "Cancelled", variant: "outline", isActive: false };
   }
+  if (job.status === "budget_exceeded") {
+    return { label: "Budget exceeded", variant: "destructive", isActive: false };
+  }
   if (job.status === "pending") {
     return { label: "Queued", variant: "default", isActive: true };
   }
@@ -155,10 +326,12 @@ function parseDelimitedLine(line: string, delimiter: string): string[] {
   return result;
 }
 
-const ISIN_RE = /^[A-Z]{2}[A-Z0-9]{9}[0-9]$/;
+// Anything shaped like an ISIN is kept as one, so a bad check digit is reported rather than
+// the code being mistaken for a second company name.
+const ISIN_SHAPE_RE = /^[A-Z]{2}[A-Z0-9]{10}$/;
 
-function isIsin(value: string): boolean {
-  return ISIN_RE.test(value.toUpperCase());
+function looksLikeIsin(value: string): boolean {
+  return ISIN_SHAPE_RE.test(value.toUpperCase());
 }
 
 function parseTotalValue(raw: string): number | undefined {
@@ -187,15 +360,17 @@ function parseCompanyEntries(input: string): CompanyEntry[] {
     if (parts.length >= 2) {
       const first = parts[0]?.trim();
       const second = parts[1]?.trim();
-      if (first && second && isIsin(second.toUpperCase())) {
+      if (first && second && looksLikeIsin(second)) {
         const totalValue = parts.length >= 3 ? parseTotalValue(parts[2]) : undefined;
-        results.push({ name: first, isin: second.toUpperCase(), totalValue });
+        const sector = parts[3]?.trim() || undefined;
+        const isin = second.toUpperCase();
+        results.push({ name: first, isin, totalValue, sector, invalidIsin: !isValidIsin(isin) || undefined });
         continue;
       }
       if (parts.length >= 2 && first) {
         const maybeVal = parseTotalValue(second);
         if (maybeVal) {
-          results.push({ name: first, totalValue: maybeVal });
+          results.push({ name: first, totalValue: maybeVal, sector: parts[2]?.trim() || undefined });
           continue;
         }
       }
@@ -215,22 +390,432 @@ function parseCompanyEntries(input: string): CompanyEntry[] {
   return results;
 }
 
+const JOB_EVENT_LABELS: Record<string, string> = {
+  job_status: "Job",
+  web_research: "Web research",
+  web_research_done: "Web research",
+  filing: "SEC filing",
+  filing_done: "SEC filing",
+  pass1: "Pass 1",
+  pass1_done: "Pass 1",
+  pass2: "Pass 2",
+  pass2_done: "Pass 2",
+  pass2_failed: "Pass 2",
+  supplementary: "Supplementary",
+  supplementary_done: "Supplementary",
+  retry: "Retry",
+  saved: "Saved",
+  quarantined: "Quarantined",
+  failed: "Failed",
+};
+
+function formatEventTime(at: string): string {
+  return new Date(at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+}
+
+function JobActivityLog({ events }: { events: JobEvent[] }) {
+  const workerEvents = events.filter((e) => e.worker);
+  if (workerEvents.length === 0) return null;
+
+  const latestByWorker = new Map<string, JobEvent>();
+  for (const e of workerEvents) latestByWorker.set(e.worker!, e);
+  const workers = Array.from(latestByWorker.entries()).sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }));
+
+  return (
+    <div className="space-y-2" data-testid="job-activity-log">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-1.5">
+        {workers.map(([worker, e]) => (
+          <div key={worker} className="flex items-center gap-2 rounded-md border px-2 py-1 text-xs min-w-0" data-testid={`worker-status-${worker}`}>
+            <Badge variant="outline" className="font-mono shrink-0">{worker}</Badge>
+            <span className="font-medium truncate">{e.company}</span>
+            <span className="text-muted-foreground shrink-0 ml-auto">{JOB_EVENT_LABELS[e.type] ?? e.type}</span>
+          </div>
+        ))}
+      </div>
+      <div className="max-h-[180px] overflow-y-auto rounded-md border bg-muted/20 p-2 font-mono text-[11px] leading-relaxed">
+        {[...workerEvents].reverse().slice(0, 100).map((e) => (
+          <div key={e.id} className={e.type === "failed" ? "text-red-500 dark:text-red-400" : e.type === "quarantined" ? "text-amber-600 dark:text-amber-400" : "text-muted-foreground"}>
+            <span>{formatEventTime(e.at)}</span>
+            <span className="ml-2 font-semibold">{e.worker}</span>
+            <span className="ml-2">{e.company}</span>
+            <span className="ml-2">{e.detail ?? JOB_EVENT_LABELS[e.type] ?? e.type}</span>
+            {e.cost_usd !== undefined && e.type !== "saved" && (
+              <span className="ml-2">+{formatTokens((e.input_tokens || 0) + (e.output_tokens || 0))} tok, +{formatCost(e.cost_usd)}</span>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const ITEM_FILTERS = ["success", "failed", "quarantined", "running", "pending", "cancelled"] as const;
+const ITEM_PAGE_SIZE = 25;
+
+function parseItemDetail(item: DiscoveryJobItem): DiscoveryResult | null {
+  if (!item.result) return null;
+  try { return JSON.parse(item.result); } catch { return null; }
+}
+
+function JobItemStatusIcon({ item }: { item: DiscoveryJobItem }) {
+  if (item.status === "running") return <Loader2 className="w-3.5 h-3.5 text-blue-500 animate-spin shrink-0" />;
+  if (item.status === "pending" && item.stage === "supplementary") return <Clock className="w-3.5 h-3.5 text-green-600 dark:text-green-400 shrink-0" />;
+  if (item.status === "pending" || item.status === "cancelled") return <Clock className="w-3.5 h-3.5 text-muted-foreground shrink-0" />;
+  if (item.status === "success") return <CheckCircle2 className="w-3.5 h-3.5 text-green-600 dark:text-green-400 shrink-0" />;
+  if (item.status === "quarantined") return <ShieldAlert className="w-3.5 h-3.5 text-amber-500 shrink-0" />;
+  return <XCircle className="w-3.5 h-3.5 text-red-500 shrink-0" />;
+}
+
+/** The searches and snippets that went into one company's prompt. */
+function ItemResearchPanel({ jobId, itemId }: { jobId: number; itemId: number }) {
+  const { data, isLoading } = useQuery<ItemWebResearch>({
+    queryKey: [`/api/discover/jobs/${jobId}/items/${itemId}/research`],
+  });
+
+  if (isLoading) {
+    return <div className="text-xs text-muted-foreground px-3 py-2"><Loader2 className="w-3 h-3 animate-spin inline mr-1" />Loading web research...</div>;
+  }
+  if (!data) return <div className="text-xs text-muted-foreground px-3 py-2">No web research recorded.</div>;
+
+  return (
+    <div className="rounded-md border border-border bg-muted/30 px-3 py-2 space-y-2 text-xs" onClick={(e) => e.stopPropagation()} data-testid={`item-research-${itemId}`}>
+      <div className="text-muted-foreground">
+        {data.snippet_count} snippets from {data.query_count} searches ({data.cached_queries} from cache), gathered {new Date(data.gathered_at).toLocaleString()}
+      </div>
+      <div className="space-y-0.5">
+        {data.queries.map((q) => (
+          <div key={q.query} className="flex items-center gap-2">
+            <span className="font-mono truncate flex-1" title={q.query}>{q.query}</span>
+            {q.error ? (
+              <span className="text-red-500 shrink-0" title={q.error}>failed</span>
+            ) : (
+              <span className="text-muted-foreground shrink-0">{q.snippets} results via {q.backend}{q.cached && " · cached"}</span>
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="space-y-1.5 max-h-[240px] overflow-y-auto border-t border-border pt-2">
+        {data.snippets.map((snippet, i) => (
+          <div key={i}>
+            <p>{snippet.text}</p>
+            {snippet.link ? (
+              <a href={snippet.link} target="_blank" rel="noreferrer" className="text-muted-foreground hover:underline">{snippet.title ?? snippet.link}</a>
+            ) : (
+              <span className="text-muted-foreground">Knowledge graph</span>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * One page of a job's companies, filtered by status or name, with per-company review and retry.
+ * Selected companies can be rerun, or the whole job cloned, with another provider.
+ */
+function JobItemsList({ jobId, isActive, providers, defaultProvider, onReview, onRetry, onRetryFailed, onRerun, onClone }: {
+  jobId: number;
+  isActive: boolean;
+  providers: LLMProvider[];
+  defaultProvider: string;
+  onReview: (itemId: number, action: "accept" | "discard") => void;
+  // Left out for cancelled jobs, which are resumed, rerun or cloned instead.
+  onRetry?: (itemId: number) => void;
+  onRetryFailed?: () => void;
+  onRerun: (itemIds: number[], provider: string) => void;
+  onClone: (provider: string) => void;
+}) {
+  const [statusFilter, setStatusFilter] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(1);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [rerunProvider, setRerunProvider] = useState(defaultProvider);
+  const [researchItemId, setResearchItemId] = useState<number | null>(null);
+
+  const toggleSelected = (itemId: number, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(itemId);
+      else next.delete(itemId);
+      return next;
+    });
+  };
+
+  const params = new URLSearchParams({ page: String(page), pageSize: String(ITEM_PAGE_SIZE) });
+  if (statusFilter) params.set("status", statusFilter);
+  if (search.trim()) params.set("search", search.trim());
+  const { data } = useQuery<JobItemsPage>({
+    queryKey: [`/api/discover/jobs/${jobId}/items?${params}`],
+  });
+
+  const total = data ? Object.values(data.counts).reduce((sum, n) => sum + n, 0) : 0;
+  const selectFilter = (status: string | null) => {
+    setStatusFilter(status);
+    setPage(1);
+  };
+
+  return (
+    <div className="space-y-2" data-testid={`job-items-${jobId}`}>
+      <div className="flex items-center gap-1.5 flex-wrap">
+        <Button size="sm" variant={statusFilter === null ? "secondary" : "ghost"} className="h-6 text-xs" onClick={() => selectFilter(null)} data-testid={`filter-items-all-${jobId}`}>
+          All ({total})
+        </Button>
+        {ITEM_FILTERS.filter((s) => data?.counts[s]).map((s) => (
+          <Button
+            key={s}
+            size="sm"
+            variant={statusFilter === s ? "secondary" : "ghost"}
+            className="h-6 text-xs capitalize"
+            onClick={() => selectFilter(s)}
+            data-testid={`filter-items-${s}-${jobId}`}
+          >
+            {s} ({data!.counts[s]})
+          </Button>
+        ))}
+        <Input
+          placeholder="Company or ISIN"
+          value={search}
+          onChange={(e) => { setSearch(e.target.value); setPage(1); }}
+          onClick={(e) => e.stopPropagation()}
+          className="h-6 w-40 text-xs ml-auto"
+          data-testid={`input-items-search-${jobId}`}
+        />
+      </div>
+
+      <div className="flex items-center gap-1.5 flex-wrap" onClick={(e) => e.stopPropagation()}>
+        {!!data?.counts.failed && onRetryFailed && (
+          <Button size="sm" variant="outline" className="h-6 text-xs" onClick={onRetryFailed} data-testid={`button-retry-failed-${jobId}`}>
+            Retry Failed ({data.counts.failed})
+          </Button>
+        )}
+        <span className="text-xs text-muted-foreground ml-auto">Run again with</span>
+        <Select value={rerunProvider} onValueChange={setRerunProvider}>
+          <SelectTrigger className="h-6 w-36 text-xs" data-testid={`select-rerun-provider-${jobId}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {providers.filter((p) => p.available).map((p) => (
+              <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-6 text-xs"
+          disabled={selected.size === 0}
+          onClick={() => { onRerun(Array.from(selected), rerunProvider); setSelected(new Set()); }}
+          data-testid={`button-rerun-selected-${jobId}`}
+        >
+          Rerun Selected ({selected.size})
+        </Button>
+        <Button size="sm" variant="outline" className="h-6 text-xs" onClick={() => onClone(rerunProvider)} data-testid={`button-clone-${jobId}`}>
+          Clone Job
+        </Button>
+      </div>
+
+      <div className="space-y-1 max-h-[400px] overflow-y-auto">
+        {data?.items.map((item) => {
+          const r = parseItemDetail(item);
+          return (
+            <Fragment key={item.id}>
+              <div
+                className="flex items-center justify-between gap-2 rounded-md border border-border bg-background px-3 py-1.5"
+                data-testid={`job-item-${item.id}`}
+              >
+                <div className="flex items-center gap-2 min-w-0 flex-1">
+                  <Checkbox
+                    checked={selected.has(item.id)}
+                    disabled={item.status === "pending" || item.status === "running"}
+                    onCheckedChange={(checked) => toggleSelected(item.id, checked === true)}
+                    onClick={(e) => e.stopPropagation()}
+                    data-testid={`checkbox-item-${item.id}`}
+                  />
+                  <JobItemStatusIcon item={item} />
+                  <span className="text-sm truncate">{item.companyName}</span>
+                  {item.isin && <span className="text-xs text-muted-foreground font-mono shrink-0">{item.isin}</span>}
+                  {item.status === "failed" && item.error && (
+                    <span className="text-xs text-red-500 truncate ml-1">— {item.error}</span>
+                  )}
+                  {item.status === "quarantined" && item.error && (
+                    <span className="text-xs text-amber-600 dark:text-amber-400 truncate ml-1">— {item.error}</span>
+                  )}
+                  {item.stage === "supplementary" && (item.status === "pending" || item.status === "running") && (
+                    <span className="text-xs text-muted-foreground ml-1">supplementary pass</span>
+                  )}
+                  {item.latestRerun && (
+                    <Badge variant="outline" className="text-[10px] h-5 shrink-0" title="Latest rerun of this company" data-testid={`badge-rerun-${item.id}`}>
+                      Job #{item.latestRerun.jobId}: {item.latestRerun.status}
+                      {item.latestRerun.assetsFound !== null && ` (${item.latestRerun.assetsFound})`}
+                    </Badge>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {item.attempts > 1 && (
+                    <Badge variant="outline" className="text-[10px] h-5" title="Times this company was claimed by a worker">
+                      {item.attempts} attempts
+                    </Badge>
+                  )}
+                  {item.worker && (
+                    <span className="text-[10px] text-muted-foreground font-mono" title={item.worker}>{item.worker.split("@")[0]}</span>
+                  )}
+                  {item.hasWebResearch ? (
+                    <Button
+                      size="sm"
+                      variant={researchItemId === item.id ? "secondary" : "outline"}
+                      className="h-5 px-1.5 text-[10px]"
+                      title="Show the web research this company's prompt used"
+                      onClick={(e) => { e.stopPropagation(); setResearchItemId(researchItemId === item.id ? null : item.id); }}
+                      data-testid={`button-item-research-${item.id}`}
+                    >
+                      <Globe className="w-2.5 h-2.5 mr-0.5" />
+                      Web
+                    </Button>
+                  ) : r?.webResearchUsed && (
+                    <Badge variant="outline" className="text-[10px] h-5">
+                      <Globe className="w-2.5 h-2.5 mr-0.5" />
+                      Web
+                    </Badge>
+                  )}
+                  {r?.filing && (
+                    <a
+                      href={r.filing.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      onClick={(e) => e.stopPropagation()}
+                      title={`Form ${r.filing.form} filed ${r.filing.filing_date}; cited on ${r.filing.cited_assets} ${r.filing.cited_assets === 1 ? "asset" : "assets"}`}
+                      data-testid={`link-item-filing-${item.id}`}
+                    >
+                      <Badge variant="outline" className="text-[10px] h-5">
+                        <FileText className="w-2.5 h-2.5 mr-0.5" />
+                        {r.filing.form}
+                      </Badge>
+                    </a>
+                  )}
+                  {r?.normalized && (
+                    <Badge variant="outline" className="text-[10px] h-5">Norm</Badge>
+                  )}
+                  {r?.ensemble && (
+                    <Badge variant="outline" className="text-[10px] h-5" title={describeEnsemble(r.ensemble)}>
+                      {r.ensemble.consensus_assets}/{r.ensemble.merged_assets} agreed
+                    </Badge>
+                  )}
+                  {validationFlagCount(r?.validation) > 0 && (
+                    <Badge variant="outline" className="text-[10px] h-5" title={describeValidation(r!.validation!)}>
+                      {validationFlagCount(r?.validation)} flagged
+                    </Badge>
+                  )}
+                  {item.costUsd > 0 && (
+                    <span className="text-xs text-muted-foreground font-mono">{formatCost(item.costUsd)}</span>
+                  )}
+                  {item.startedAt && item.finishedAt && (
+                    <span className="text-xs text-muted-foreground font-mono">{formatElapsed(item.startedAt, item.finishedAt)}</span>
+                  )}
+                  {item.assetsFound !== null && item.status !== "failed" && item.status !== "quarantined" && (
+                    <Badge variant="secondary" className="text-[10px] h-5">
+                      {item.assetsFound} assets
+                      {item.supplementaryAssetsFound !== null && item.supplementaryAssetsFound > 0 && ` (+${item.supplementaryAssetsFound})`}
+                    </Badge>
+                  )}
+                  {item.status === "failed" && onRetry && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-6 text-xs"
+                      onClick={(e) => { e.stopPropagation(); onRetry(item.id); }}
+                      data-testid={`button-retry-item-${item.id}`}
+                    >
+                      Retry
+                    </Button>
+                  )}
+                  {item.status === "quarantined" && !isActive && (
+                    <>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-6 text-xs"
+                        title={r?.quarantine?.requested_isin ? `Save under ${r.quarantine.requested_isin}` : `Save under ${r?.quarantine?.returned_isin ?? "returned ISIN"}`}
+                        disabled={!r?.quarantine?.requested_isin && r?.quarantine?.reason === "invalid_isin"}
+                        onClick={(e) => { e.stopPropagation(); onReview(item.id, "accept"); }}
+                        data-testid={`button-accept-quarantine-${item.id}`}
+                      >
+                        Accept
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-6 text-xs"
+                        onClick={(e) => { e.stopPropagation(); onReview(item.id, "discard"); }}
+                        data-testid={`button-discard-quarantine-${item.id}`}
+                      >
+                        Discard
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+              {researchItemId === item.id && <ItemResearchPanel jobId={jobId} itemId={item.id} />}
+            </Fragment>
+          );
+        })}
+        {data && data.items.length === 0 && (
+          <div className="text-sm text-muted-foreground text-center py-2">
+            {statusFilter || search.trim() ? "No companies match this filter." : "No companies in this job."}
+          </div>
+        )}
+      </div>
+
+      {data && data.total_pages > 1 && (
+        <div className="flex items-center justify-end gap-2 text-xs text-muted-foreground">
+          <span>Page {data.page} of {data.total_pages}</span>
+          <Button size="sm" variant="outline" className="h-6 text-xs" disabled={page <= 1} onClick={(e) => { e.stopPropagation(); setPage(page - 1); }} data-testid={`button-items-prev-${jobId}`}>
+            Previous
+          </Button>
+          <Button size="sm" variant="outline" className="h-6 text-xs" disabled={page >= data.total_pages} onClick={(e) => { e.stopPropagation(); setPage(page + 1); }} data-testid={`button-items-next-${jobId}`}>
+            Next
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
 export default function Discover() {
   const { toast } = useToast();
   const [companyInput, setCompanyInput] = useState("");
   const [selectedProvider, setSelectedProvider] = useState("openai");
   const [supplementaryProvider, setSupplementaryProvider] = useState<string | null>(null);
+  const [ensembleEnabled, setEnsembleEnabled] = useState(false);
+  const [ensembleProviders, setEnsembleProviders] = useState<string[]>([]);
   const [activeJobId, setActiveJobId] = useState<number | null>(null);
   const [uploadedFileName, setUploadedFileName] = useState<string | null>(null);
   const [expandedJobId, setExpandedJobId] = useState<number | null>(null);
+  const [budgetInput, setBudgetInput] = useState("");
+  const [priorityInput, setPriorityInput] = useState("0");
+  const [searchBackend, setSearchBackend] = useState("auto");
+  const [monthlyBudgetInput, setMonthlyBudgetInput] = useState("");
+  const [budgetDrafts, setBudgetDrafts] = useState<Record<number, string>>({});
+  const [estimate, setEstimate] = useState<CostEstimate | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
 
   const { data: providers } = useQuery<LLMProvider[]>({
     queryKey: ["/api/llm-providers"],
   });
 
-  const { data: serperStatus } = useQuery<{ available: boolean }>({
-    queryKey: ["/api/serper/status"],
+  useEffect(() => {
+    // The registry is configurable, so the "openai" default may not exist or may lack a key.
+    if (!providers || providers.some((p) => p.id === selectedProvider && p.available)) return;
+    const fallback = providers.find((p) => p.available);
+    if (fallback) setSelectedProvider(fallback.id);
+  }, [providers, selectedProvider]);
+
+  const { data: searchStatus } = useQuery<SearchBackendsStatus>({
+    queryKey: ["/api/search-backends"],
+  });
+
+  const { data: budgetStatus, refetch: refetchBudget } = useQuery<BudgetStatus>({
+    queryKey: ["/api/budget"],
   });
 
   const { data: parallelStatus } = useQuery<{ providers: Record<string, { available: boolean; workerCount: number }>; activeWorkers: number }>({
@@ -239,17 +824,17 @@ export default function Discover() {
 
   const { data: jobs, refetch: refetchJobs } = useQuery<DiscoveryJob[]>({
     queryKey: ["/api/discover/jobs"],
-    refetchInterval: (query) => {
-      const data = query.state.data;
-      if (!data) return false;
-      const hasActive = data.some(j => j.status === "running" || j.status === "pending");
-      return hasActive || activeJobId ? 3000 : false;
-    },
   });
 
   const activeJob = activeJobId ? jobs?.find(j => j.id === activeJobId) : null;
   const isRunning = activeJob ? (activeJob.status === "running" || activeJob.status === "pending") : false;
 
+  // Follow the job this page started, else whichever job the server is working on.
+  const streamJobId = isRunning
+    ? activeJobId
+    : (jobs?.find(j => j.status === "running") ?? jobs?.find(j => j.status === "pending"))?.id ?? null;
+  const jobEvents = useJobEvents(streamJobId);
+
   useEffect(() => {
     if (activeJobId && activeJob && !isRunning) {
       if (activeJob.status === "complete") {
@@ -267,17 +852,14 @@ export default function Discover() {
   const { data: expandedJob } = useQuery<DiscoveryJob>({
     queryKey: ["/api/discover/jobs", expandedJobId],
     enabled: expandedJobId !== null,
-    refetchInterval: (query) => {
-      const data = query.state.data;
-      if (!data) return false;
-      return (data.status === "running" || data.status === "pending") ? 3000 : false;
-    },
   });
 
   const entries = companyInput.trim() ? parseCompanyEntries(companyInput) : [];
   const companyCount = entries.length;
   const isinCount = entries.filter((e) => e.isin).length;
+  const invalidIsinEntries = entries.filter((e) => e.invalidIsin);
   const valueCount = entries.filter((e) => e.totalValue).length;
+  const sectorCount = entries.filter((e) => e.sector).length;
 
   const handleFileUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -308,6 +890,7 @@ export default function Discover() {
       let nameIdx = 0;
       let isinIdx = 1;
       let valueIdx = -1;
+      let sectorIdxs: number[] = [];
 
       if (hasHeader) {
         const lowerFields = headerFields.map((f) => f.toLowerCase().replace(/[^a-z]/g, ""));
@@ -317,21 +900,38 @@ export default function Discover() {
         if (foundName >= 0) nameIdx = foundName;
         if (foundIsin >= 0) isinIdx = foundIsin;
         if (foundValue >= 0) valueIdx = foundValue;
+        // A GICS code column wins; otherwise every sector/industry level, broadest first (e.g. ACWI's LEVEL2-5).
+        const foundGics = lowerFields.findIndex((f) => f.includes("gics"));
+        sectorIdxs = foundGics >= 0
+          ? [foundGics]
+          : lowerFields.flatMap((f, i) => (f.includes("sector") || f.includes("industry")) && i !== nameIdx && i !== isinIdx ? [i] : []);
       }
 
+      let badIsins = 0;
       const parsed = dataLines.map((line) => {
         const fields = parseDelimitedLine(line, fileDelimiter);
         const name = fields[nameIdx]?.trim() || "";
         const rawIsin = fields[isinIdx]?.trim().toUpperCase() || "";
         const rawValue = valueIdx >= 0 ? fields[valueIdx]?.trim() || "" : "";
+        const sector = sectorIdxs
+          .map((i) => fields[i]?.trim() || "")
+          .filter((v) => v && v.toUpperCase() !== "NA")
+          .join(" > ");
         if (!name) return "";
         let result = name;
-        if (rawIsin && isIsin(rawIsin)) {
+        if (rawIsin && !isValidIsin(rawIsin)) badIsins++;
+        const hasIsin = Boolean(rawIsin && looksLikeIsin(rawIsin));
+        if (hasIsin) {
           result += `, ${rawIsin}`;
         }
         const totalVal = parseTotalValue(rawValue);
-        if (totalVal) {
-          result += `, ${totalVal}`;
+        // The sector goes last, so it needs an ISIN or value before it to be read back as a sector.
+        const withSector = Boolean(sector) && (hasIsin || Boolean(totalVal));
+        if (totalVal || withSector) {
+          result += `, ${totalVal ?? ""}`;
+        }
+        if (withSector) {
+          result += `, "${sector.replace(/"/g, '""')}"`;
         }
         return result;
       }).filter(Boolean);
@@ -340,7 +940,10 @@ export default function Discover() {
       setUploadedFileName(file.name);
       toast({
         title: "File loaded",
-        description: `Loaded ${parsed.length} companies from ${file.name}.`,
+        description: badIsins > 0
+          ? `Loaded ${parsed.length} companies from ${file.name}. ${badIsins} ${badIsins === 1 ? "row has" : "rows have"} an invalid ISIN — fix or remove ${badIsins === 1 ? "it" : "them"} before starting discovery.`
+          : `Loaded ${parsed.length} companies from ${file.name}.`,
+        variant: badIsins > 0 ? "destructive" : undefined,
       });
     };
     reader.readAsText(file);
@@ -358,12 +961,29 @@ export default function Discover() {
       toast({ title: "No companies entered", description: "Please enter at least one company name.", variant: "destructive" });
       return;
     }
+    if (invalidIsinEntries.length > 0) {
+      const sample = invalidIsinEntries.slice(0, 3).map((e) => `${e.name} (${e.isin})`).join(", ");
+      toast({
+        title: "Invalid ISINs",
+        description: `Check digit failed for ${sample}${invalidIsinEntries.length > 3 ? ` and ${invalidIsinEntries.length - 3} more` : ""}.`,
+        variant: "destructive",
+      });
+      return;
+    }
 
     try {
       const response = await fetch("/api/discover", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ companies: entries, provider: selectedProvider, supplementaryProvider: supplementaryProvider || undefined }),
+        body: JSON.stringify({
+          companies: entries,
+          provider: selectedProvider,
+          supplementaryProvider: supplementaryProvider || undefined,
+          ensembleProviders: ensembleEnabled ? ensembleProviders : undefined,
+          budgetUsd: parseBudgetInput(budgetInput) ?? undefined,
+          priority: Number(priorityInput),
+          searchBackend: searchBackend === "auto" ? undefined : searchBackend,
+        }),
       });
 
       if (!response.ok) {
@@ -387,7 +1007,7 @@ export default function Discover() {
         variant: "destructive",
       });
     }
-  }, [entries, selectedProvider, supplementaryProvider, toast, refetchJobs]);
+  }, [entries, invalidIsinEntries, selectedProvider, supplementaryProvider, ensembleEnabled, ensembleProviders, budgetInput, priorityInput, searchBackend, toast, refetchJobs]);
 
   const handleCancel = useCallback(async (jobId: number) => {
     try {
@@ -415,7 +1035,187 @@ export default function Discover() {
     }
   }, [refetchJobs, toast]);
 
+  const handleRaiseBudget = useCallback(async (jobId: number) => {
+    try {
+      const budgetUsd = parseBudgetInput(budgetDrafts[jobId] || "");
+      if (budgetUsd !== null) {
+        const response = await fetch(`/api/discover/jobs/${jobId}/budget`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ budgetUsd }),
+        });
+        if (!response.ok) {
+          const errBody = await response.json().catch(() => null);
+          throw new Error(errBody?.message || `Request failed (${response.status})`);
+        }
+      }
+      setBudgetDrafts((drafts) => ({ ...drafts, [jobId]: "" }));
+      await handleResume(jobId);
+    } catch (err) {
+      toast({ title: "Failed to update budget", description: (err as Error).message, variant: "destructive" });
+    }
+  }, [budgetDrafts, handleResume, toast]);
+
+  const handleSetPriority = useCallback(async (jobId: number, priority: number) => {
+    try {
+      const response = await fetch(`/api/discover/jobs/${jobId}/priority`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ priority }),
+      });
+      if (!response.ok) {
+        const errBody = await response.json().catch(() => null);
+        throw new Error(errBody?.message || `Request failed (${response.status})`);
+      }
+      queryClient.invalidateQueries({ predicate: (q) => String(q.queryKey[0]).startsWith("/api/discover/jobs") });
+    } catch (err) {
+      toast({ title: "Failed to update priority", description: (err as Error).message, variant: "destructive" });
+    }
+  }, [toast]);
+
+  const handleSaveMonthlyBudget = useCallback(async () => {
+    try {
+      const response = await fetch("/api/budget", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ monthlyBudgetUsd: parseBudgetInput(monthlyBudgetInput) }),
+      });
+      if (!response.ok) {
+        const errBody = await response.json().catch(() => null);
+        throw new Error(errBody?.message || `Request failed (${response.status})`);
+      }
+      setMonthlyBudgetInput("");
+      refetchBudget();
+      toast({ title: "Monthly budget saved" });
+    } catch (err) {
+      toast({ title: "Failed to save monthly budget", description: (err as Error).message, variant: "destructive" });
+    }
+  }, [monthlyBudgetInput, refetchBudget, toast]);
+
+  const handleQuarantineReview = useCallback(async (jobId: number, itemId: number, action: "accept" | "discard") => {
+    try {
+      const response = await fetch(`/api/discover/jobs/${jobId}/items/${itemId}/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      if (!response.ok) {
+        const errBody = await response.json().catch(() => null);
+        throw new Error(errBody?.message || `Request failed (${response.status})`);
+      }
+      const data = await response.json();
+      queryClient.invalidateQueries({ predicate: (q) => String(q.queryKey[0]).startsWith("/api/discover/jobs") });
+      if (action === "accept") {
+        queryClient.invalidateQueries({ queryKey: ["/api/companies"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/assets"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      }
+      toast(action === "accept"
+        ? { title: "Result accepted", description: `Saved ${data.item.assetsFound} assets for ${data.company?.name ?? data.item.companyName}.` }
+        : { title: "Result discarded", description: "The quarantined assets were not saved." });
+    } catch (err) {
+      toast({ title: action === "accept" ? "Failed to accept" : "Failed to discard", description: (err as Error).message, variant: "destructive" });
+    }
+  }, [toast]);
+
+  const handleRetryItem = useCallback(async (jobId: number, itemId: number) => {
+    try {
+      const response = await fetch(`/api/discover/jobs/${jobId}/items/retry`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ itemIds: [itemId] }),
+      });
+      if (!response.ok) {
+        const errBody = await response.json().catch(() => null);
+        throw new Error(errBody?.message || `Request failed (${response.status})`);
+      }
+      queryClient.invalidateQueries({ predicate: (q) => String(q.queryKey[0]).startsWith("/api/discover/jobs") });
+      toast({ title: "Company queued for retry" });
+    } catch (err) {
+      toast({ title: "Failed to retry", description: (err as Error).message, variant: "destructive" });
+    }
+  }, [toast]);
+
+  const handleRetryFailed = useCallback(async (jobId: number) => {
+    try {
+      const response = await fetch(`/api/discover/jobs/${jobId}/items/retry`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      if (!response.ok) {
+        const errBody = await response.json().catch(() => null);
+        throw new Error(errBody?.message || `Request failed (${response.status})`);
+      }
+      const data = await response.json();
+      queryClient.invalidateQueries({ predicate: (q) => String(q.queryKey[0]).startsWith("/api/discover/jobs") });
+      toast({ title: "Retrying failed companies", description: `${data.retried} companies queued again in job #${jobId}.` });
+    } catch (err) {
+      toast({ title: "Failed to retry", description: (err as Error).message, variant: "destructive" });
+    }
+  }, [toast]);
+
+  const handleDerivedJob = useCallback(async (jobId: number, kind: "rerun" | "clone", body: { itemIds?: number[]; provider: string }) => {
+    try {
+      const response = await fetch(`/api/discover/jobs/${jobId}/${kind}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        const errBody = await response.json().catch(() => null);
+        throw new Error(errBody?.message || `Request failed (${response.status})`);
+      }
+      const data = await response.json();
+      setActiveJobId(data.jobId);
+      setExpandedJobId(data.jobId);
+      refetchJobs();
+      toast({
+        title: kind === "rerun" ? "Rerun started" : "Job cloned",
+        description: `Job #${data.jobId} queued for ${data.total} companies from job #${jobId}.`,
+      });
+    } catch (err) {
+      toast({ title: kind === "rerun" ? "Failed to rerun" : "Failed to clone", description: (err as Error).message, variant: "destructive" });
+    }
+  }, [toast, refetchJobs]);
+
   const currentProvider = providers?.find((p) => p.id === selectedProvider);
+  const ensembleTooSmall = ensembleEnabled && ensembleProviders.length < 2;
+
+  const toggleEnsembleProvider = (id: string, checked: boolean) => {
+    setEnsembleProviders((prev) => (checked ? [...prev, id] : prev.filter((p) => p !== id)));
+  };
+
+  const providerName = (id: string) => providers?.find((p) => p.id === id)?.name || id;
+
+  const estimateBody = entries.length > 0 && !ensembleTooSmall
+    ? JSON.stringify({
+        companies: entries,
+        provider: selectedProvider,
+        supplementaryProvider: supplementaryProvider || undefined,
+        ensembleProviders: ensembleEnabled ? ensembleProviders : undefined,
+        budgetUsd: parseBudgetInput(budgetInput) ?? undefined,
+      })
+    : null;
+
+  useEffect(() => {
+    if (!estimateBody) {
+      setEstimate(null);
+      return;
+    }
+    // Debounced so typing in the company list does not post on every keystroke.
+    const timer = setTimeout(async () => {
+      const response = await fetch("/api/discover/estimate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: estimateBody,
+      }).catch(() => null);
+      setEstimate(response?.ok ? await response.json() : null);
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [estimateBody]);
+
+  const monthSpend = estimate ?? budgetStatus;
 
   return (
     <div className="min-h-screen bg-background">
@@ -444,7 +1244,7 @@ export default function Discover() {
             </CardHeader>
             <CardContent className="space-y-4">
               <p className="text-sm text-muted-foreground">
-                Enter companies below (one per line) or upload a CSV file. Include ISIN codes for more accurate identification and total asset values for normalization. Format: <span className="font-mono text-xs">Company Name, ISIN, TotalValue</span>
+                Enter companies below (one per line) or upload a CSV file. Include ISIN codes for more accurate identification and total asset values for normalization. Format: <span className="font-mono text-xs">Company Name, ISIN, TotalValue, Sector</span>, where Sector is a GICS code or sector name
               </p>
 
               <div className="space-y-2">
@@ -468,6 +1268,7 @@ export default function Discover() {
                         <div className="flex items-center gap-2">
                           <Brain className="w-3.5 h-3.5 text-muted-foreground" />
                           <span>{p.name}</span>
+                          {!p.requiresKey && <Badge variant="outline" className="text-[10px] px-1 py-0">Self-hosted</Badge>}
                           {!p.available && <span className="text-xs text-muted-foreground">(no key)</span>}
                         </div>
                       </SelectItem>
@@ -475,8 +1276,12 @@ export default function Discover() {
                   </SelectContent>
                 </Select>
                 {currentProvider && (
-                  <p className="text-xs text-muted-foreground">
-                    Est. cost: {formatCost(currentProvider.costPer1kInputTokens)}/1k input + {formatCost(currentProvider.costPer1kOutputTokens)}/1k output tokens
+                  <p className="text-xs text-muted-foreground" data-testid="text-provider-cost">
+                    {currentProvider.costPer1kInputTokens === 0 && currentProvider.costPer1kOutputTokens === 0
+                      ? `${currentProvider.model} · no per-token cost`
+                      : `Est. cost: ${formatCost(currentProvider.costPer1kInputTokens)}/1k input + ${formatCost(currentProvider.costPer1kOutputTokens)}/1k output tokens`}
+                    {!currentProvider.requiresKey && currentProvider.baseUrl && ` · ${currentProvider.baseUrl}`}
+                    {!currentProvider.available && currentProvider.keyEnv && ` · set ${currentProvider.keyEnv} to enable`}
                   </p>
                 )}
               </div>
@@ -484,7 +1289,7 @@ export default function Discover() {
               <div className="flex items-center gap-2 rounded-md border p-2">
                 <Globe className="w-4 h-4 text-muted-foreground flex-shrink-0" />
                 <span className="text-xs text-muted-foreground">Web Research:</span>
-                {serperStatus?.available ? (
+                {searchStatus?.available ? (
                   <Badge variant="secondary" data-testid="badge-serper-active">
                     <CheckCircle2 className="w-3 h-3 mr-1" />
                     Active
@@ -494,11 +1299,26 @@ export default function Discover() {
                     Off
                   </Badge>
                 )}
-                <span className="text-xs text-muted-foreground ml-auto">
-                  {serperStatus?.available
-                    ? "Results grounded with live web data"
-                    : "Add SERPER_API_KEY for web-enhanced discovery"}
-                </span>
+                {searchStatus?.available ? (
+                  <Select value={searchBackend} onValueChange={setSearchBackend} disabled={isRunning}>
+                    <SelectTrigger className="h-7 w-48 text-xs ml-auto" data-testid="select-search-backend">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">Automatic ({searchStatus.default_order.join(" → ")})</SelectItem>
+                      {searchStatus.backends.filter((b) => b.configured).map((b) => (
+                        <SelectItem key={b.id} value={b.id}>
+                          {b.name}
+                          {b.quota_remaining !== null && ` · ${b.quota_remaining} left this month`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <span className="text-xs text-muted-foreground ml-auto">
+                    Set {searchStatus?.backends.filter((b) => b.id !== "fixtures").map((b) => b.config_env).join(", ") || "SERPER_API_KEY"} for web-enhanced discovery
+                  </span>
+                )}
               </div>
 
               {parallelStatus?.providers?.[selectedProvider]?.available && (
@@ -551,6 +1371,43 @@ export default function Discover() {
                 )}
               </div>
 
+              <div className="space-y-2 rounded-md border p-2">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={ensembleEnabled}
+                    onCheckedChange={(checked) => {
+                      setEnsembleEnabled(checked);
+                      if (checked && ensembleProviders.length === 0) setEnsembleProviders([selectedProvider]);
+                    }}
+                    disabled={isRunning}
+                    data-testid="switch-ensemble"
+                  />
+                  <span className="text-xs font-medium text-muted-foreground">Ensemble Mode (consensus across models)</span>
+                </div>
+                {ensembleEnabled && (
+                  <>
+                    <div className="grid grid-cols-2 gap-1.5">
+                      {providers?.filter((p) => p.available).map((p) => (
+                        <label key={p.id} className="flex items-center gap-2 text-xs cursor-pointer">
+                          <Checkbox
+                            checked={ensembleProviders.includes(p.id)}
+                            onCheckedChange={(checked) => toggleEnsembleProvider(p.id, checked === true)}
+                            disabled={isRunning || (!ensembleProviders.includes(p.id) && ensembleProviders.length >= 5)}
+                            data-testid={`checkbox-ensemble-${p.id}`}
+                          />
+                          {p.name}
+                        </label>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {ensembleTooSmall
+                        ? "Pick at least 2 models."
+                        : `Each of ${ensembleProviders.length} models runs Pass 1 independently; matching assets are merged with median values and a consensus score. Assets only one model finds go to the review queue.`}
+                    </p>
+                  </>
+                )}
+              </div>
+
               <div className="space-y-2">
                 <div className="flex items-center justify-between gap-2">
                   <label className="text-xs font-medium text-muted-foreground">Companies</label>
@@ -604,15 +1461,84 @@ export default function Discover() {
                 />
               </div>
 
+              <div className="space-y-2 rounded-md border p-2">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <label className="text-xs font-medium text-muted-foreground">Job budget (USD)</label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="No cap"
+                    value={budgetInput}
+                    onChange={(e) => setBudgetInput(e.target.value)}
+                    className="h-7 w-28 text-xs"
+                    disabled={isRunning}
+                    data-testid="input-job-budget"
+                  />
+                  <label className="text-xs font-medium text-muted-foreground">Priority</label>
+                  <Select value={priorityInput} onValueChange={setPriorityInput} disabled={isRunning}>
+                    <SelectTrigger className="h-7 w-24 text-xs" data-testid="select-job-priority">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PRIORITY_OPTIONS.map((o) => (
+                        <SelectItem key={o.value} value={String(o.value)}>{o.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <label className="text-xs font-medium text-muted-foreground ml-auto">Monthly budget</label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="1"
+                    placeholder={monthSpend?.monthly_budget_usd != null ? monthSpend.monthly_budget_usd.toFixed(2) : "No cap"}
+                    value={monthlyBudgetInput}
+                    onChange={(e) => setMonthlyBudgetInput(e.target.value)}
+                    className="h-7 w-24 text-xs"
+                    data-testid="input-monthly-budget"
+                  />
+                  <Button variant="outline" size="sm" className="h-7" onClick={handleSaveMonthlyBudget} data-testid="button-save-monthly-budget">
+                    Save
+                  </Button>
+                </div>
+                {monthSpend && (
+                  <p className="text-xs text-muted-foreground" data-testid="text-month-spend">
+                    This month: {formatCost(monthSpend.month_spend_usd)} spent
+                    {monthSpend.monthly_budget_usd != null && ` of ${formatCost(monthSpend.monthly_budget_usd)}`}
+                  </p>
+                )}
+                {estimate && (
+                  <p className="text-xs text-muted-foreground flex items-center gap-1 flex-wrap" data-testid="text-cost-estimate">
+                    <DollarSign className="w-3 h-3" />
+                    Estimated {formatCost(estimate.estimated_cost_usd)} for {estimate.companies} {estimate.companies === 1 ? "company" : "companies"}
+                    {estimate.basis === "history"
+                      ? ` (from ${estimate.history_companies} past companies)`
+                      : " (default token assumptions, no history yet)"}
+                    {estimate.exceeds_job_budget && (
+                      <span className="text-amber-600 dark:text-amber-400">· exceeds job budget, the job will pause</span>
+                    )}
+                    {estimate.exceeds_monthly_budget && (
+                      <span className="text-amber-600 dark:text-amber-400">· exceeds the remaining monthly budget</span>
+                    )}
+                  </p>
+                )}
+              </div>
+
               <div className="flex items-center justify-between gap-4 flex-wrap">
                 <span className="text-xs text-muted-foreground">
                   {companyCount} {companyCount === 1 ? "company" : "companies"}
                   {isinCount > 0 && ` (${isinCount} with ISIN)`}
                   {valueCount > 0 && ` (${valueCount} with total value)`}
+                  {sectorCount > 0 && ` (${sectorCount} with sector)`}
+                  {invalidIsinEntries.length > 0 && (
+                    <span className="text-red-500 dark:text-red-400" data-testid="text-invalid-isins">
+                      {` · ${invalidIsinEntries.length} invalid ISIN${invalidIsinEntries.length === 1 ? "" : "s"}`}
+                    </span>
+                  )}
                 </span>
                 <Button
                   onClick={handleDiscover}
-                  disabled={isRunning || companyCount === 0}
+                  disabled={isRunning || companyCount === 0 || ensembleTooSmall}
                   data-testid="button-start-discovery"
                 >
                   {isRunning ? (
@@ -652,9 +1578,6 @@ export default function Discover() {
               {activeJob && (() => {
                 const processed = activeJob.completedCompanies + activeJob.failedCompanies;
                 const progressPct = activeJob.totalCompanies > 0 ? (processed / activeJob.totalCompanies) * 100 : 0;
-                const activeResults: DiscoveryResult[] = (() => {
-                  try { return activeJob.results ? JSON.parse(activeJob.results) : []; } catch { return []; }
-                })();
 
                 return (
                   <>
@@ -662,11 +1585,13 @@ export default function Discover() {
                       <div className="flex items-center gap-2">
                         {isRunning ? (
                           <Loader2 className="w-4 h-4 animate-spin text-blue-600 dark:text-blue-400" />
+                        ) : activeJob.status === "budget_exceeded" ? (
+                          <PauseCircle className="w-4 h-4 text-amber-600 dark:text-amber-400" />
                         ) : (
                           <CheckCircle2 className="w-4 h-4 text-green-600 dark:text-green-400" />
                         )}
                         <span className="font-medium">
-                          Job #{activeJob.id} — {isRunning ? (activeJob.status === "pending" ? "Queued" : "Running on server") : "Complete"}
+                          Job #{activeJob.id} — {isRunning ? (activeJob.status === "pending" ? "Queued" : "Running on server") : activeJob.status === "budget_exceeded" ? "Paused (budget reached)" : "Complete"}
                         </span>
                         {isRunning && (
                           <Button
@@ -707,51 +1632,19 @@ export default function Discover() {
                       <Progress value={progressPct} className="h-2" data-testid="progress-bar" />
                     </div>
 
-                    <div className="space-y-2 max-h-[300px] overflow-y-auto">
-                      {activeResults.map((r, i) => (
-                        <div
-                          key={i}
-                          className="flex items-center justify-between gap-2 rounded-md border border-border px-3 py-2"
-                          data-testid={`result-row-${i}`}
-                        >
-                          <div className="flex items-center gap-2 min-w-0 flex-1">
-                            {r.status === "success" ? (
-                              <CheckCircle2 className="w-4 h-4 text-green-600 dark:text-green-400 shrink-0" />
-                            ) : (
-                              <XCircle className="w-4 h-4 text-red-500 shrink-0" />
-                            )}
-                            <div className="min-w-0">
-                              <span className="text-sm font-medium truncate block">{r.name}</span>
-                              {r.status === "failed" && r.error && (
-                                <span className="text-xs text-red-500 dark:text-red-400 truncate block">{r.error}</span>
-                              )}
-                            </div>
-                          </div>
-                          <div className="flex items-center gap-2 shrink-0">
-                            {r.status === "success" && r.webResearchUsed && (
-                              <Badge variant="outline">
-                                <Globe className="w-3 h-3 mr-1" />
-                                Web
-                              </Badge>
-                            )}
-                            {r.status === "success" && r.normalized && (
-                              <Badge variant="outline">Norm</Badge>
-                            )}
-                            {r.status === "success" && r.costUsd !== undefined && (
-                              <span className="text-xs text-muted-foreground font-mono">{formatCost(r.costUsd)}</span>
-                            )}
-                            {r.status === "success" ? (
-                              <Badge variant="secondary">
-                                {r.assetsFound} assets
-                                {r.supplementaryAssetsFound !== undefined && r.supplementaryAssetsFound > 0 && ` (+${r.supplementaryAssetsFound})`}
-                              </Badge>
-                            ) : (
-                              <Badge variant="destructive">Failed</Badge>
-                            )}
-                          </div>
-                        </div>
-                      ))}
-                    </div>
+                    {streamJobId === activeJob.id && <JobActivityLog events={jobEvents} />}
+
+                    <JobItemsList
+                      jobId={activeJob.id}
+                      isActive={isRunning}
+                      providers={providers ?? []}
+                      defaultProvider={activeJob.modelProvider || selectedProvider}
+                      onReview={(itemId, action) => handleQuarantineReview(activeJob.id, itemId, action)}
+                      onRetry={activeJob.status === "cancelled" ? undefined : (itemId) => handleRetryItem(activeJob.id, itemId)}
+                      onRetryFailed={activeJob.status === "cancelled" ? undefined : () => handleRetryFailed(activeJob.id)}
+                      onRerun={(itemIds, provider) => handleDerivedJob(activeJob.id, "rerun", { itemIds, provider })}
+                      onClone={(provider) => handleDerivedJob(activeJob.id, "clone", { provider })}
+                    />
                   </>
                 );
               })()}
@@ -788,22 +1681,20 @@ export default function Discover() {
                   </thead>
                   <tbody className="divide-y divide-border">
                     {jobs.map((job) => {
-                      const names: string[] = (() => {
-                        try { return JSON.parse(job.companyNames); } catch { return []; }
-                      })();
-                      const providerName = providers?.find((p) => p.id === job.modelProvider)?.name || job.modelProvider || "OpenAI";
+                      const names = job.companyPreview ?? [];
+                      const ensembleIds: string[] | null = job.ensembleProviders ? JSON.parse(job.ensembleProviders) : null;
+                      const modelName = ensembleIds
+                        ? `Ensemble: ${ensembleIds.map(providerName).join(" + ")}`
+                        : providers?.find((p) => p.id === job.modelProvider)?.name || job.modelProvider || "OpenAI";
                       const suppName = job.supplementaryProvider ? (providers?.find((p) => p.id === job.supplementaryProvider)?.name || job.supplementaryProvider) : null;
                       const displayStatus = getJobDisplayStatus(job);
                       const processed = job.completedCompanies + job.failedCompanies;
                       const jobProgress = job.totalCompanies > 0 ? (processed / job.totalCompanies) * 100 : 0;
-                      const isFinished = job.status === "complete" || job.status === "interrupted" || job.status === "failed";
+                      const isFinished = job.status === "complete" || job.status === "interrupted" || job.status === "failed" || job.status === "budget_exceeded";
                       const isExpanded = expandedJobId === job.id;
                       const detailJob = isExpanded && expandedJob ? expandedJob : job;
-                      const jobResults: DiscoveryResult[] = (() => {
-                        try { return detailJob.results ? JSON.parse(detailJob.results) : []; } catch { return []; }
-                      })();
-                      const completedNames = new Set(jobResults.map((r: DiscoveryResult) => r.name));
-                      const pendingNames = names.filter(n => !completedNames.has(n));
+                      const unprocessed = job.totalCompanies - processed;
+                      const childJobs = jobs.filter((j) => j.parentJobId === job.id);
 
                       return (
                         <Fragment key={job.id}>
@@ -823,14 +1714,26 @@ export default function Discover() {
                             </td>
                             <td className="px-3 py-2">
                               <div className="flex items-center gap-1">
-                                <Badge variant="outline" data-testid={`badge-model-${job.id}`}>{providerName}</Badge>
+                                <Badge variant="outline" data-testid={`badge-model-${job.id}`}>{modelName}</Badge>
                                 {suppName && <Badge variant="secondary" className="text-[10px]" data-testid={`badge-supp-${job.id}`}>+ {suppName}</Badge>}
+                                {job.priority !== 0 && <Badge variant="outline" className="text-[10px]" data-testid={`badge-priority-${job.id}`}>{priorityLabel(job.priority)}</Badge>}
+                                {job.searchBackend && (
+                                  <Badge variant="outline" className="text-[10px]" title="Preferred web search backend" data-testid={`badge-search-${job.id}`}>
+                                    <Globe className="w-2.5 h-2.5 mr-0.5" />
+                                    {searchStatus?.backends.find((b) => b.id === job.searchBackend)?.name ?? job.searchBackend}
+                                  </Badge>
+                                )}
+                                {job.parentJobId !== null && (
+                                  <Badge variant="outline" className="text-[10px]" data-testid={`badge-parent-${job.id}`}>
+                                    {job.rerunKind === "clone" ? "Clone" : "Rerun"} of #{job.parentJobId}
+                                  </Badge>
+                                )}
                               </div>
                             </td>
                             <td className="px-3 py-2">
                               <span className="font-mono text-xs">{job.totalCompanies}</span>
                               <span className="text-muted-foreground text-xs ml-1">
-                                ({names.slice(0, 2).join(", ")}{names.length > 2 ? ` +${names.length - 2}` : ""})
+                                ({names.slice(0, 2).join(", ")}{job.totalCompanies > 2 ? ` +${job.totalCompanies - 2}` : ""})
                               </span>
                             </td>
                             <td className="px-3 py-2">
@@ -860,6 +1763,7 @@ export default function Discover() {
                             </td>
                             <td className="px-3 py-2 text-right font-mono" data-testid={`text-cost-${job.id}`}>
                               {job.totalCostUsd ? formatCost(job.totalCostUsd) : "-"}
+                              {job.budgetUsd != null && <span className="text-muted-foreground"> / {formatCost(job.budgetUsd)}</span>}
                             </td>
                           </tr>
                           {isExpanded && (
@@ -869,7 +1773,7 @@ export default function Discover() {
                                   {displayStatus.isActive && (
                                     <div className="flex items-center gap-2 text-sm text-blue-600 dark:text-blue-400">
                                       <Loader2 className="w-3.5 h-3.5 animate-spin" />
-                                      <span>Live — refreshing every 3 seconds</span>
+                                      <span>Live — streaming progress</span>
                                     </div>
                                   )}
 
@@ -882,81 +1786,48 @@ export default function Discover() {
                                     {detailJob.totalCostUsd ? <span>Total cost: {formatCost(detailJob.totalCostUsd)}</span> : null}
                                   </div>
 
-                                  <div className="space-y-1 max-h-[400px] overflow-y-auto">
-                                    {jobResults.map((r: DiscoveryResult, i: number) => (
-                                      <div
-                                        key={i}
-                                        className="flex items-center justify-between gap-2 rounded-md border border-border bg-background px-3 py-1.5"
-                                        data-testid={`detail-result-${job.id}-${i}`}
-                                      >
-                                        <div className="flex items-center gap-2 min-w-0 flex-1">
-                                          {r.status === "success" ? (
-                                            <CheckCircle2 className="w-3.5 h-3.5 text-green-600 dark:text-green-400 shrink-0" />
-                                          ) : (
-                                            <XCircle className="w-3.5 h-3.5 text-red-500 shrink-0" />
-                                          )}
-                                          <span className="text-sm truncate">{r.name}</span>
-                                          {r.status === "failed" && r.error && (
-                                            <span className="text-xs text-red-500 truncate ml-1">— {r.error}</span>
-                                          )}
-                                        </div>
-                                        <div className="flex items-center gap-2 shrink-0">
-                                          {r.webResearchUsed && (
-                                            <Badge variant="outline" className="text-[10px] h-5">
-                                              <Globe className="w-2.5 h-2.5 mr-0.5" />
-                                              Web
-                                            </Badge>
-                                          )}
-                                          {r.normalized && (
-                                            <Badge variant="outline" className="text-[10px] h-5">Norm</Badge>
-                                          )}
-                                          {r.costUsd !== undefined && (
-                                            <span className="text-xs text-muted-foreground font-mono">{formatCost(r.costUsd)}</span>
-                                          )}
-                                          {r.status === "success" && (
-                                            <Badge variant="secondary" className="text-[10px] h-5">
-                                              {r.assetsFound} assets
-                                              {r.supplementaryAssetsFound !== undefined && r.supplementaryAssetsFound > 0 && ` (+${r.supplementaryAssetsFound})`}
-                                            </Badge>
-                                          )}
-                                        </div>
-                                      </div>
-                                    ))}
-
-                                    {displayStatus.isActive && pendingNames.length > 0 && (
-                                      <>
-                                        <div className="flex items-center gap-2 rounded-md border border-dashed border-blue-300 dark:border-blue-700 bg-blue-50/50 dark:bg-blue-950/30 px-3 py-1.5">
-                                          <Loader2 className="w-3.5 h-3.5 text-blue-500 animate-spin shrink-0" />
-                                          <span className="text-sm text-blue-700 dark:text-blue-300">{pendingNames[0]}</span>
-                                          <span className="text-xs text-blue-500 ml-auto">Processing...</span>
-                                        </div>
-                                        {pendingNames.slice(1, 6).map((name, i) => (
-                                          <div
-                                            key={`pending-${i}`}
-                                            className="flex items-center gap-2 rounded-md border border-dashed border-border px-3 py-1.5 opacity-50"
-                                          >
-                                            <Clock className="w-3.5 h-3.5 text-muted-foreground shrink-0" />
-                                            <span className="text-sm text-muted-foreground">{name}</span>
-                                            <span className="text-xs text-muted-foreground ml-auto">Queued</span>
-                                          </div>
-                                        ))}
-                                        {pendingNames.length > 6 && (
-                                          <div className="text-xs text-muted-foreground text-center py-1">
-                                            +{pendingNames.length - 6} more companies queued
-                                          </div>
-                                        )}
-                                      </>
-                                    )}
-                                  </div>
-
-                                  {jobResults.length === 0 && !displayStatus.isActive && (
-                                    <div className="text-sm text-muted-foreground text-center py-2">
-                                      No company results recorded for this job.
+                                  {(job.parentJobId !== null || childJobs.length > 0) && (
+                                    <div className="flex items-center gap-2 text-xs text-muted-foreground flex-wrap" data-testid={`text-lineage-${job.id}`}>
+                                      {job.parentJobId !== null && (
+                                        <button className="underline" onClick={(e) => { e.stopPropagation(); setExpandedJobId(job.parentJobId); }}>
+                                          {job.rerunKind === "clone" ? "Clone" : "Rerun"} of job #{job.parentJobId}
+                                        </button>
+                                      )}
+                                      {childJobs.length > 0 && <span>Reruns and clones:</span>}
+                                      {childJobs.map((child) => (
+                                        <button key={child.id} className="underline" onClick={(e) => { e.stopPropagation(); setExpandedJobId(child.id); }}>
+                                          #{child.id} ({child.status})
+                                        </button>
+                                      ))}
                                     </div>
                                   )}
 
+                                  <JobItemsList
+                                    jobId={job.id}
+                                    isActive={displayStatus.isActive}
+                                    providers={providers ?? []}
+                                    defaultProvider={job.modelProvider || selectedProvider}
+                                    onReview={(itemId, action) => handleQuarantineReview(job.id, itemId, action)}
+                                    onRetry={job.status === "cancelled" ? undefined : (itemId) => handleRetryItem(job.id, itemId)}
+                                    onRetryFailed={job.status === "cancelled" ? undefined : () => handleRetryFailed(job.id)}
+                                    onRerun={(itemIds, provider) => handleDerivedJob(job.id, "rerun", { itemIds, provider })}
+                                    onClone={(provider) => handleDerivedJob(job.id, "clone", { provider })}
+                                  />
+
                                   {displayStatus.isActive && (
-                                    <div className="flex items-center justify-end pt-2 border-t border-border">
+                                    <div className="flex items-center justify-end gap-2 pt-2 border-t border-border">
+                                      <div onClick={(e) => e.stopPropagation()}>
+                                        <Select value={String(job.priority)} onValueChange={(v) => handleSetPriority(job.id, Number(v))}>
+                                          <SelectTrigger className="h-8 w-28 text-xs" data-testid={`select-priority-${job.id}`}>
+                                            <SelectValue placeholder={priorityLabel(job.priority)} />
+                                          </SelectTrigger>
+                                          <SelectContent>
+                                            {PRIORITY_OPTIONS.map((o) => (
+                                              <SelectItem key={o.value} value={String(o.value)}>{o.label} priority</SelectItem>
+                                            ))}
+                                          </SelectContent>
+                                        </Select>
+                                      </div>
                                       <Button
                                         size="sm"
                                         variant="outline"
@@ -969,20 +1840,45 @@ export default function Discover() {
                                     </div>
                                   )}
 
-                                  {!displayStatus.isActive && (() => {
-                                    const failedResults = jobResults.filter((r: DiscoveryResult) => r.status === "failed");
-                                    const completedResultNames = new Set(jobResults.map((r: DiscoveryResult) => r.name));
-                                    const unprocessed = names.filter(n => !completedResultNames.has(n));
-                                    const canResume = (job.status === "interrupted" || job.status === "failed" || job.status === "cancelled") && (unprocessed.length > 0 || failedResults.length > 0);
+                                  {job.status === "budget_exceeded" && (
+                                    <div className="space-y-2 pt-2 border-t border-border">
+                                      <p className="text-xs text-amber-600 dark:text-amber-400 flex items-center gap-1" data-testid={`text-paused-reason-${job.id}`}>
+                                        <PauseCircle className="w-3.5 h-3.5" />
+                                        {job.pausedReason || "Budget reached"}
+                                      </p>
+                                      <div className="flex items-center justify-end gap-2">
+                                        <Input
+                                          type="number"
+                                          min="0"
+                                          step="0.01"
+                                          placeholder={job.budgetUsd != null ? `> ${job.budgetUsd.toFixed(2)}` : "New job budget"}
+                                          value={budgetDrafts[job.id] || ""}
+                                          onChange={(e) => setBudgetDrafts((drafts) => ({ ...drafts, [job.id]: e.target.value }))}
+                                          onClick={(e) => e.stopPropagation()}
+                                          className="h-8 w-32 text-xs"
+                                          data-testid={`input-raise-budget-${job.id}`}
+                                        />
+                                        <Button
+                                          size="sm"
+                                          variant="outline"
+                                          onClick={(e) => { e.stopPropagation(); handleRaiseBudget(job.id); }}
+                                          data-testid={`button-raise-budget-${job.id}`}
+                                        >
+                                          <Sparkles className="w-3.5 h-3.5 mr-1" />
+                                          Raise Budget & Resume
+                                        </Button>
+                                      </div>
+                                    </div>
+                                  )}
 
-                                    if (!canResume && failedResults.length === 0 && unprocessed.length === 0) return null;
+                                  {!displayStatus.isActive && job.status !== "budget_exceeded" && (() => {
+                                    const canResume = (job.status === "interrupted" || job.status === "failed" || job.status === "cancelled") && unprocessed > 0;
+                                    if (!canResume) return null;
 
                                     return (
                                       <div className="flex items-center justify-between pt-2 border-t border-border">
                                         <span className="text-xs text-muted-foreground">
-                                          {failedResults.length > 0 && `${failedResults.length} failed`}
-                                          {failedResults.length > 0 && unprocessed.length > 0 && ", "}
-                                          {unprocessed.length > 0 && `${unprocessed.length} unprocessed`}
+                                          {unprocessed} unprocessed
                                         </span>
                                         <Button
                                           size="sm"
@@ -991,7 +1887,7 @@ export default function Discover() {
                                           data-testid={`button-resume-${job.id}`}
                                         >
                                           <Sparkles className="w-3.5 h-3.5 mr-1" />
-                                          Resume on Server ({unprocessed.length + failedResults.length})
+                                          Resume on Server ({unprocessed})
                                         </Button>
                                       </div>
                                     );
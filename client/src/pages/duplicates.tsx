@@ -0,0 +1,261 @@
+import { useState, useCallback, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { ArrowLeft, CopyCheck, Merge, XCircle, RefreshCw, Loader2, Building2 } from "lucide-react";
+import { Link } from "wouter";
+import type { Asset, DedupScan, DuplicateCluster, DuplicateClusterStatus, DuplicateReason } from "@shared/schema";
+
+interface ClusterWithAssets extends DuplicateCluster {
+  asset_ids: number[];
+  reason_list: DuplicateReason[];
+  assets: Asset[];
+  suggested_survivor_id: number | null;
+}
+
+interface ClustersResponse {
+  scan_id: number | null;
+  status: DuplicateClusterStatus;
+  total: number;
+  clusters: ClusterWithAssets[];
+}
+
+const STATUS_LABELS: Record<DuplicateClusterStatus, string> = {
+  pending: "Pending",
+  merged: "Merged",
+  dismissed: "Dismissed",
+};
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  name: "Same name",
+  "city+type": "Same city & type",
+  proximity: "Nearby",
+};
+
+function formatCurrency(value: number | null): string {
+  if (!value) return "—";
+  if (value >= 1e9) return `$${(value / 1e9).toFixed(2)}B`;
+  if (value >= 1e6) return `$${(value / 1e6).toFixed(2)}M`;
+  if (value >= 1e3) return `$${(value / 1e3).toFixed(0)}K`;
+  return `$${value.toFixed(0)}`;
+}
+
+export default function Duplicates() {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<DuplicateClusterStatus>("pending");
+  const [survivors, setSurvivors] = useState<Record<number, number>>({});
+  const [submitting, setSubmitting] = useState<number | null>(null);
+  const [starting, setStarting] = useState(false);
+
+  const { data: scans } = useQuery<DedupScan[]>({
+    queryKey: ["/api/dedup/scans"],
+    refetchInterval: (query) => (query.state.data?.some((s) => s.status === "running") ? 2000 : false),
+  });
+  const latestScan = scans?.[0];
+  const scanRunning = latestScan?.status === "running";
+  const latestCompletedId = scans?.find((s) => s.status === "completed")?.id;
+
+  const { data: result, isLoading } = useQuery<ClustersResponse>({
+    queryKey: [`/api/dedup/clusters?status=${statusFilter}`],
+  });
+
+  useEffect(() => {
+    if (latestCompletedId !== undefined) {
+      queryClient.invalidateQueries({ predicate: (q) => String(q.queryKey[0]).startsWith("/api/dedup/clusters") });
+    }
+  }, [latestCompletedId]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ predicate: (q) => String(q.queryKey[0]).startsWith("/api/dedup") });
+    queryClient.invalidateQueries({ queryKey: ["/api/assets"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+  };
+
+  const startScan = useCallback(async () => {
+    setStarting(true);
+    try {
+      const res = await fetch("/api/dedup/scans", { method: "POST" });
+      if (!res.ok) {
+        const errBody = await res.json().catch(() => null);
+        throw new Error(errBody?.message || `Request failed (${res.status})`);
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/dedup/scans"] });
+      toast({ title: "Scan started", description: "Looking for duplicate assets across the database." });
+    } catch (err) {
+      toast({ title: "Scan failed to start", description: (err as Error).message, variant: "destructive" });
+    } finally {
+      setStarting(false);
+    }
+  }, [toast]);
+
+  const resolveCluster = useCallback(async (cluster: ClusterWithAssets, action: "merge" | "dismiss") => {
+    const survivorId = survivors[cluster.id] ?? cluster.suggested_survivor_id;
+    if (action === "merge" && survivorId == null) return;
+    setSubmitting(cluster.id);
+    try {
+      const res = await fetch(`/api/dedup/clusters/${cluster.id}/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: action === "merge" ? JSON.stringify({ survivorId }) : undefined,
+      });
+      if (!res.ok) {
+        const errBody = await res.json().catch(() => null);
+        throw new Error(errBody?.message || `Request failed (${res.status})`);
+      }
+      const body = await res.json();
+      refresh();
+      toast(action === "merge"
+        ? { title: "Cluster merged", description: `Merged ${body.merged_asset_ids.length} assets into ${body.asset.facilityName}.` }
+        : { title: "Cluster dismissed", description: `${cluster.companyName} assets kept separate.` });
+    } catch (err) {
+      toast({ title: action === "merge" ? "Merge failed" : "Dismiss failed", description: (err as Error).message, variant: "destructive" });
+    } finally {
+      setSubmitting(null);
+    }
+  }, [survivors, toast]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="max-w-[1440px] mx-auto px-4 sm:px-6">
+          <div className="flex items-center justify-between gap-4 h-14">
+            <div className="flex items-center gap-3">
+              <Link href="/">
+                <Button variant="ghost" size="icon" data-testid="button-back-dashboard">
+                  <ArrowLeft className="w-4 h-4" />
+                </Button>
+              </Link>
+              <CopyCheck className="w-5 h-5 text-chart-1" />
+              <h1 className="text-base font-semibold tracking-tight">Duplicate Assets</h1>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={statusFilter} onValueChange={(v) => setStatusFilter(v as DuplicateClusterStatus)}>
+                <SelectTrigger className="w-[140px]" data-testid="select-cluster-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(STATUS_LABELS) as DuplicateClusterStatus[]).map((s) => (
+                    <SelectItem key={s} value={s} data-testid={`option-cluster-status-${s}`}>{STATUS_LABELS[s]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button size="sm" disabled={starting || scanRunning} onClick={startScan} data-testid="button-run-scan">
+                {scanRunning ? <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" /> : <RefreshCw className="w-3.5 h-3.5 mr-1.5" />}
+                {scanRunning ? "Scanning..." : "Run Scan"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-[1440px] mx-auto px-4 sm:px-6 py-6 space-y-4">
+        <p className="text-sm text-muted-foreground" data-testid="text-scan-summary">
+          {latestScan
+            ? latestScan.status === "failed"
+              ? `Last scan failed: ${latestScan.error || "unknown error"}`
+              : latestScan.status === "running"
+                ? "Scan in progress..."
+                : `Last scan checked ${latestScan.totalAssets} assets and found ${latestScan.clusterCount} clusters`
+            : "No scan has been run yet"}
+          {result && result.scan_id !== null && ` · ${result.total} ${STATUS_LABELS[statusFilter].toLowerCase()}`}
+        </p>
+
+        {isLoading && (
+          <div className="space-y-2">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <Skeleton key={i} className="h-32 w-full" />
+            ))}
+          </div>
+        )}
+
+        {result && result.clusters.length === 0 && (
+          <div className="flex flex-col items-center justify-center py-16 text-muted-foreground">
+            <Building2 className="w-12 h-12 mb-3 opacity-30" />
+            <p className="text-sm">No {STATUS_LABELS[statusFilter].toLowerCase()} duplicate clusters</p>
+          </div>
+        )}
+
+        {result?.clusters.map((cluster) => {
+          const survivorId = survivors[cluster.id] ?? cluster.suggested_survivor_id;
+          const pending = cluster.status === "pending";
+          return (
+            <Card key={cluster.id} data-testid={`card-cluster-${cluster.id}`}>
+              <CardHeader className="flex flex-row items-center gap-3 space-y-0 flex-wrap">
+                <CardTitle className="text-sm font-medium">{cluster.companyName}</CardTitle>
+                {cluster.isin && <span className="font-mono text-xs text-muted-foreground">{cluster.isin}</span>}
+                <Badge variant="secondary" data-testid={`badge-cluster-score-${cluster.id}`}>Score {(cluster.score * 100).toFixed(0)}%</Badge>
+                {cluster.reason_list.map((reason) => (
+                  <Badge key={reason} variant="outline">{REASON_LABELS[reason] ?? reason}</Badge>
+                ))}
+                {pending && (
+                  <div className="ml-auto flex items-center gap-1">
+                    <Button size="sm" disabled={submitting === cluster.id || survivorId == null || cluster.assets.length < 2} onClick={() => resolveCluster(cluster, "merge")} data-testid={`button-merge-cluster-${cluster.id}`}>
+                      <Merge className="w-3.5 h-3.5 mr-1.5" />
+                      Merge
+                    </Button>
+                    <Button size="sm" variant="ghost" disabled={submitting === cluster.id} onClick={() => resolveCluster(cluster, "dismiss")} data-testid={`button-dismiss-cluster-${cluster.id}`}>
+                      <XCircle className="w-3.5 h-3.5 mr-1.5" />
+                      Not duplicates
+                    </Button>
+                  </div>
+                )}
+              </CardHeader>
+              <CardContent className="pt-0">
+                <RadioGroup
+                  value={survivorId != null ? String(survivorId) : undefined}
+                  onValueChange={(v) => setSurvivors((prev) => ({ ...prev, [cluster.id]: Number(v) }))}
+                  disabled={!pending}
+                >
+                  <div className="rounded-md border border-border overflow-hidden">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="bg-muted/50 text-left">
+                          <th className="px-3 py-2 w-8 text-xs font-medium">Keep</th>
+                          <th className="px-3 py-2 text-xs font-medium">Facility</th>
+                          <th className="px-3 py-2 text-xs font-medium">Type</th>
+                          <th className="px-3 py-2 text-xs font-medium">Location</th>
+                          <th className="px-3 py-2 text-xs font-medium text-right">Value</th>
+                          <th className="px-3 py-2 text-xs font-medium">Data Source</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-border">
+                        {cluster.assets.map((a) => (
+                          <tr key={a.id} className="hover-elevate" data-testid={`row-cluster-asset-${a.id}`}>
+                            <td className="px-3 py-2">
+                              <RadioGroupItem value={String(a.id)} data-testid={`radio-survivor-${a.id}`} />
+                            </td>
+                            <td className="px-3 py-2 font-medium">
+                              {a.facilityName}
+                              {a.id === cluster.suggested_survivor_id && pending && (
+                                <span className="block text-xs text-muted-foreground">Suggested survivor</span>
+                              )}
+                            </td>
+                            <td className="px-3 py-2 text-muted-foreground">{a.assetType || "—"}</td>
+                            <td className="px-3 py-2 text-muted-foreground">{[a.city, a.country].filter(Boolean).join(", ") || "—"}</td>
+                            <td className="px-3 py-2 text-right font-mono tabular-nums">{formatCurrency(a.valueUsd)}</td>
+                            <td className="px-3 py-2 text-xs text-muted-foreground">{a.dataSource || "—"}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </RadioGroup>
+                {cluster.assets.length < cluster.asset_ids.length && (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {cluster.asset_ids.length - cluster.assets.length} cluster members no longer exist.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </main>
+    </div>
+  );
+}
@@ -149,10 +149,10 @@ export default function Methodology() {
           <ul className="list-disc list-inside mt-1 space-y-1">
             <li>Many large facilities are joint ventures or partnerships between multiple companies</li>
             <li>Companies may own only a percentage of a manufacturing plant, refinery, or office complex</li>
-            <li>The <strong className="text-foreground">value_usd</strong> field reflects only the company's proportional share of the asset</li>
+            <li>The <strong className="text-foreground">value_usd</strong> field is the value of the whole asset; <strong className="text-foreground">attributable_value_usd</strong> is the company's proportional share (value × ownership share)</li>
           </ul>
           <p className="mt-2">
-            For example, if a $1 billion refinery is 50% owned by Company A and 50% by Company B, Company A's record shows a value of $500 million with an ownership share of 50%. Wholly-owned assets have an ownership share of 100%.
+            For example, if a $1 billion refinery is 50% owned by Company A and 50% by Company B, Company A's record shows a value of $1 billion, an ownership share of 50% and an attributable value of $500 million. Wholly-owned assets have an ownership share of 100%. Use the Gross / Attributable toggle on the dashboard to switch totals and charts between the two.
           </p>
         </Section>
 
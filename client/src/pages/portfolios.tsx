@@ -0,0 +1,432 @@
+import { useState, useRef, useCallback } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ArrowLeft, Briefcase, Upload, Trash2, Sparkles, AlertTriangle, Plus } from "lucide-react";
+import { Link } from "wouter";
+import type { Portfolio, PortfolioHoldingInput } from "@shared/schema";
+
+interface LLMProvider {
+  id: string;
+  name: string;
+  available: boolean;
+}
+
+interface ExposureBucket {
+  key: string;
+  asset_count: number;
+  adjusted_value_usd: number;
+  portfolio_weight_percent: number;
+  exposure_usd: number | null;
+}
+
+interface PortfolioReport {
+  portfolio: Portfolio;
+  weight_basis: "weight" | "marketValue";
+  total_market_value: number | null;
+  holdings_count: number;
+  covered_holdings_count: number;
+  coverage_weight_percent: number;
+  total_adjusted_value_usd: number;
+  holdings: Array<{ isin: string; name: string | null; company_name: string | null; weight_percent: number; market_value: number | null; asset_count: number; adjusted_value_usd: number }>;
+  missing_holdings: Array<{ isin: string; name: string | null; weight_percent: number }>;
+  by_country: ExposureBucket[];
+  by_asset_type: ExposureBucket[];
+  by_sector: ExposureBucket[];
+}
+
+function formatCurrency(value: number | null): string {
+  if (!value) return "—";
+  if (value >= 1e12) return `$${(value / 1e12).toFixed(2)}T`;
+  if (value >= 1e9) return `$${(value / 1e9).toFixed(2)}B`;
+  if (value >= 1e6) return `$${(value / 1e6).toFixed(2)}M`;
+  if (value >= 1e3) return `$${(value / 1e3).toFixed(0)}K`;
+  return `$${value.toFixed(0)}`;
+}
+
+function parseDelimitedLine(line: string, delimiter: string): string[] {
+  const result: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') { inQuotes = !inQuotes; continue; }
+    if (ch === delimiter && !inQuotes) { result.push(current.trim()); current = ""; continue; }
+    current += ch;
+  }
+  result.push(current.trim());
+  return result;
+}
+
+function parseNumber(raw: string | undefined): number | undefined {
+  if (!raw) return undefined;
+  const val = parseFloat(raw.replace(/[$€£¥%,\s]/g, ""));
+  return isNaN(val) || val <= 0 ? undefined : val;
+}
+
+/**
+ * Accepts "ISIN, Weight, Name" rows, or any column order when a header row names
+ * isin / weight / market value / name columns.
+ */
+function parseHoldings(input: string): PortfolioHoldingInput[] {
+  const lines = input.split(/\r?\n/).filter((l) => l.trim().length > 0);
+  if (lines.length === 0) return [];
+  const delimiter = lines[0].includes("\t") ? "\t" : ",";
+  const header = parseDelimitedLine(lines[0], delimiter).map((h) => h.toLowerCase());
+  const hasHeader = header.some((h) => h.includes("isin"));
+
+  let isinIdx = 0, weightIdx = 1, marketValueIdx = -1, nameIdx = 2;
+  if (hasHeader) {
+    isinIdx = header.findIndex((h) => h.includes("isin"));
+    weightIdx = header.findIndex((h) => h.includes("weight"));
+    marketValueIdx = header.findIndex((h) => h.includes("market") || h === "mv" || h === "value");
+    nameIdx = header.findIndex((h) => h.includes("name") || h.includes("company"));
+  }
+
+  const holdings: PortfolioHoldingInput[] = [];
+  for (const line of hasHeader ? lines.slice(1) : lines) {
+    const fields = parseDelimitedLine(line, delimiter);
+    const isin = (fields[isinIdx] || "").toUpperCase();
+    if (isin.length !== 12) continue;
+    holdings.push({
+      isin,
+      name: nameIdx >= 0 ? fields[nameIdx] || undefined : undefined,
+      weight: weightIdx >= 0 ? parseNumber(fields[weightIdx]) : undefined,
+      marketValue: marketValueIdx >= 0 ? parseNumber(fields[marketValueIdx]) : undefined,
+    });
+  }
+  return holdings;
+}
+
+function BreakdownTable({ title, buckets, showExposure }: { title: string; buckets: ExposureBucket[]; showExposure: boolean }) {
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <h3 className="text-sm font-medium mb-3">{title}</h3>
+        <div className="rounded-md border border-border overflow-hidden">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-muted/50 text-left">
+                <th className="px-3 py-2 text-xs font-medium">{title.replace("By ", "")}</th>
+                <th className="px-3 py-2 text-xs font-medium text-right">Assets</th>
+                <th className="px-3 py-2 text-xs font-medium text-right">Adjusted Value</th>
+                <th className="px-3 py-2 text-xs font-medium text-right">Portfolio Weight</th>
+                {showExposure && <th className="px-3 py-2 text-xs font-medium text-right">Exposure</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {buckets.slice(0, 15).map((b) => (
+                <tr key={b.key}>
+                  <td className="px-3 py-2">{b.key}</td>
+                  <td className="px-3 py-2 text-right">{b.asset_count}</td>
+                  <td className="px-3 py-2 text-right font-mono tabular-nums">{formatCurrency(b.adjusted_value_usd)}</td>
+                  <td className="px-3 py-2 text-right font-mono tabular-nums">{b.portfolio_weight_percent.toFixed(2)}%</td>
+                  {showExposure && <td className="px-3 py-2 text-right font-mono tabular-nums">{formatCurrency(b.exposure_usd)}</td>}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Portfolios() {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [newName, setNewName] = useState("");
+  const [holdingsInput, setHoldingsInput] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [discoverProvider, setDiscoverProvider] = useState("openai");
+  const [queueing, setQueueing] = useState(false);
+
+  const { data: portfolioList, isLoading: listLoading } = useQuery<Array<Portfolio & { holdingCount: number }>>({
+    queryKey: ["/api/portfolios"],
+  });
+
+  const { data: report, isLoading: reportLoading } = useQuery<PortfolioReport>({
+    queryKey: [`/api/portfolios/${selectedId}/report`],
+    enabled: selectedId !== null,
+  });
+
+  const { data: providers } = useQuery<LLMProvider[]>({
+    queryKey: ["/api/llm-providers"],
+  });
+
+  const handleFileUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (ev) => {
+      setHoldingsInput((ev.target?.result as string) || "");
+      if (!newName) setNewName(file.name.replace(/\.(csv|tsv|txt)$/i, ""));
+    };
+    reader.readAsText(file);
+    e.target.value = "";
+  }, [newName]);
+
+  const handleCreate = async () => {
+    const holdings = parseHoldings(holdingsInput);
+    if (!newName.trim() || holdings.length === 0) {
+      toast({ title: "Nothing to save", description: "Enter a name and at least one ISIN holding.", variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await fetch("/api/portfolios", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: newName.trim(), holdings }),
+      });
+      if (!res.ok) {
+        const errBody = await res.json().catch(() => null);
+        throw new Error(errBody?.errors?.fieldErrors?.holdings?.[0] || errBody?.message || `Request failed (${res.status})`);
+      }
+      const created: Portfolio = await res.json();
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolios"] });
+      setSelectedId(created.id);
+      setNewName("");
+      setHoldingsInput("");
+      toast({ title: "Portfolio saved", description: `${holdings.length} holdings uploaded.` });
+    } catch (err) {
+      toast({ title: "Upload failed", description: (err as Error).message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    try {
+      await apiRequest("DELETE", `/api/portfolios/${id}`);
+      if (selectedId === id) setSelectedId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolios"] });
+    } catch (err) {
+      toast({ title: "Delete failed", description: (err as Error).message, variant: "destructive" });
+    }
+  };
+
+  const handleDiscoverMissing = async () => {
+    if (selectedId === null) return;
+    setQueueing(true);
+    try {
+      const res = await apiRequest("POST", `/api/portfolios/${selectedId}/discover-missing`, { provider: discoverProvider });
+      const result = await res.json();
+      toast({
+        title: result.jobId ? "Discovery queued" : "Nothing to discover",
+        description: result.jobId ? `Job #${result.jobId} will research ${result.total} holdings.` : result.message,
+      });
+    } catch (err) {
+      toast({ title: "Could not queue discovery", description: (err as Error).message, variant: "destructive" });
+    } finally {
+      setQueueing(false);
+    }
+  };
+
+  const showExposure = report?.total_market_value != null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="max-w-[1440px] mx-auto px-4 sm:px-6">
+          <div className="flex items-center gap-3 h-14">
+            <Link href="/">
+              <Button variant="ghost" size="icon" data-testid="button-back-dashboard">
+                <ArrowLeft className="w-4 h-4" />
+              </Button>
+            </Link>
+            <Briefcase className="w-5 h-5 text-chart-1" />
+            <h1 className="text-base font-semibold tracking-tight">Portfolios</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-[1440px] mx-auto px-4 sm:px-6 py-6 grid grid-cols-1 lg:grid-cols-[320px_1fr] gap-6">
+        <div className="space-y-4">
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-sm font-medium">New Portfolio</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Input placeholder="Portfolio name" value={newName} onChange={(e) => setNewName(e.target.value)} data-testid="input-portfolio-name" />
+              <Textarea
+                placeholder={"ISIN, Weight, Name\nUS0378331005, 4.5, Apple Inc\nDE0007236101, 2.1, Siemens AG"}
+                value={holdingsInput}
+                onChange={(e) => setHoldingsInput(e.target.value)}
+                className="min-h-[140px] font-mono text-xs"
+                data-testid="input-portfolio-holdings"
+              />
+              <p className="text-xs text-muted-foreground">
+                Header rows may use a <span className="font-mono">Market Value</span> column instead of weights.
+              </p>
+              <div className="flex items-center gap-2">
+                <input ref={fileInputRef} type="file" accept=".csv,.txt,.tsv" className="hidden" onChange={handleFileUpload} data-testid="input-portfolio-file" />
+                <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} data-testid="button-upload-portfolio">
+                  <Upload className="w-3.5 h-3.5 mr-1.5" />
+                  Upload CSV
+                </Button>
+                <Button size="sm" onClick={handleCreate} disabled={saving} data-testid="button-save-portfolio">
+                  <Plus className="w-3.5 h-3.5 mr-1.5" />
+                  Save
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-sm font-medium">Saved Portfolios</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              {listLoading && <Skeleton className="h-10 w-full" />}
+              {portfolioList?.length === 0 && <p className="text-xs text-muted-foreground">No portfolios yet.</p>}
+              {portfolioList?.map((p) => (
+                <div
+                  key={p.id}
+                  className={`flex items-center justify-between gap-2 rounded-md px-2 py-1.5 cursor-pointer hover-elevate ${selectedId === p.id ? "bg-muted" : ""}`}
+                  onClick={() => setSelectedId(p.id)}
+                  data-testid={`row-portfolio-${p.id}`}
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{p.name}</p>
+                    <p className="text-xs text-muted-foreground">{p.holdingCount} holdings</p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={(e) => { e.stopPropagation(); handleDelete(p.id); }}
+                    data-testid={`button-delete-portfolio-${p.id}`}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-4">
+          {selectedId === null && (
+            <div className="flex flex-col items-center justify-center py-24 text-muted-foreground">
+              <Briefcase className="w-12 h-12 mb-3 opacity-30" />
+              <p className="text-sm">Select or upload a portfolio to see its look-through report</p>
+            </div>
+          )}
+
+          {selectedId !== null && reportLoading && (
+            <div className="space-y-2">
+              {Array.from({ length: 4 }).map((_, i) => (
+                <Skeleton key={i} className="h-32 w-full" />
+              ))}
+            </div>
+          )}
+
+          {report && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <Card><CardContent className="p-4">
+                  <p className="text-xs text-muted-foreground">Holdings covered</p>
+                  <p className="text-lg font-semibold" data-testid="text-portfolio-coverage">{report.covered_holdings_count} / {report.holdings_count}</p>
+                </CardContent></Card>
+                <Card><CardContent className="p-4">
+                  <p className="text-xs text-muted-foreground">Weight covered</p>
+                  <p className="text-lg font-semibold">{report.coverage_weight_percent.toFixed(1)}%</p>
+                </CardContent></Card>
+                <Card><CardContent className="p-4">
+                  <p className="text-xs text-muted-foreground">Ownership-adjusted asset value</p>
+                  <p className="text-lg font-semibold">{formatCurrency(report.total_adjusted_value_usd)}</p>
+                </CardContent></Card>
+                <Card><CardContent className="p-4">
+                  <p className="text-xs text-muted-foreground">Portfolio market value</p>
+                  <p className="text-lg font-semibold">{formatCurrency(report.total_market_value)}</p>
+                </CardContent></Card>
+              </div>
+
+              {report.missing_holdings.length > 0 && (
+                <Card data-testid="card-missing-holdings">
+                  <CardContent className="p-4 space-y-3">
+                    <div className="flex items-center justify-between gap-4 flex-wrap">
+                      <h3 className="text-sm font-medium flex items-center gap-2">
+                        <AlertTriangle className="w-4 h-4 text-chart-4" />
+                        {report.missing_holdings.length} holdings have no assets yet
+                      </h3>
+                      <div className="flex items-center gap-2">
+                        <Select value={discoverProvider} onValueChange={setDiscoverProvider}>
+                          <SelectTrigger className="w-[180px]" data-testid="select-discover-provider">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {providers?.filter((p) => p.available).map((p) => (
+                              <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button size="sm" onClick={handleDiscoverMissing} disabled={queueing} data-testid="button-discover-missing">
+                          <Sparkles className="w-3.5 h-3.5 mr-1.5" />
+                          Discover Missing
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap gap-1.5">
+                      {report.missing_holdings.map((h) => (
+                        <Badge key={h.isin} variant="outline" className="font-mono text-xs">
+                          {h.isin}{h.name ? ` · ${h.name}` : ""} ({h.weight_percent.toFixed(2)}%)
+                        </Badge>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              <div className="grid grid-cols-1 xl:grid-cols-3 gap-4">
+                <BreakdownTable title="By Country" buckets={report.by_country} showExposure={showExposure} />
+                <BreakdownTable title="By Asset Type" buckets={report.by_asset_type} showExposure={showExposure} />
+                <BreakdownTable title="By Sector" buckets={report.by_sector} showExposure={showExposure} />
+              </div>
+
+              <Card>
+                <CardContent className="p-4">
+                  <h3 className="text-sm font-medium mb-3">Holdings</h3>
+                  <div className="rounded-md border border-border overflow-hidden">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="bg-muted/50 text-left">
+                          <th className="px-3 py-2 text-xs font-medium">ISIN</th>
+                          <th className="px-3 py-2 text-xs font-medium">Company</th>
+                          <th className="px-3 py-2 text-xs font-medium text-right">Weight</th>
+                          <th className="px-3 py-2 text-xs font-medium text-right">Market Value</th>
+                          <th className="px-3 py-2 text-xs font-medium text-right">Assets</th>
+                          <th className="px-3 py-2 text-xs font-medium text-right">Adjusted Value</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-border">
+                        {report.holdings.map((h) => (
+                          <tr key={h.isin} data-testid={`row-holding-${h.isin}`}>
+                            <td className="px-3 py-2 font-mono text-xs">{h.isin}</td>
+                            <td className="px-3 py-2">{h.company_name || h.name || "—"}</td>
+                            <td className="px-3 py-2 text-right font-mono tabular-nums">{h.weight_percent.toFixed(2)}%</td>
+                            <td className="px-3 py-2 text-right font-mono tabular-nums">{formatCurrency(h.market_value)}</td>
+                            <td className="px-3 py-2 text-right">{h.asset_count}</td>
+                            <td className="px-3 py-2 text-right font-mono tabular-nums">{formatCurrency(h.adjusted_value_usd)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
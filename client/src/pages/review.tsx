@@ -0,0 +1,256 @@
+import { useState, useCallback } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { ArrowLeft, ClipboardCheck, CheckCircle2, XCircle, PencilLine, ExternalLink, FileText, Building2 } from "lucide-react";
+import { Link } from "wouter";
+import type { Asset, ReviewStatus } from "@shared/schema";
+
+interface ReviewQueueResponse {
+  status: ReviewStatus;
+  total_assets: number;
+  page: number;
+  page_size: number;
+  total_pages: number;
+  companies: Array<{ company_name: string; isin: string | null; assets: Asset[] }>;
+}
+
+const STATUS_LABELS: Record<ReviewStatus, string> = {
+  pending: "Pending",
+  approved: "Approved",
+  rejected: "Rejected",
+  "needs-edit": "Needs Edit",
+};
+
+const QUEUE_PAGE_SIZE = 100;
+
+function formatCurrency(value: number | null): string {
+  if (!value) return "—";
+  if (value >= 1e9) return `$${(value / 1e9).toFixed(2)}B`;
+  if (value >= 1e6) return `$${(value / 1e6).toFixed(2)}M`;
+  if (value >= 1e3) return `$${(value / 1e3).toFixed(0)}K`;
+  return `$${value.toFixed(0)}`;
+}
+
+export default function Review() {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<ReviewStatus>("pending");
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [submitting, setSubmitting] = useState(false);
+  const [page, setPage] = useState(1);
+
+  const { data: queue, isLoading } = useQuery<ReviewQueueResponse>({
+    queryKey: [`/api/review/queue?status=${statusFilter}&page=${page}&pageSize=${QUEUE_PAGE_SIZE}`],
+  });
+
+  const toggleAsset = (id: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleCompany = (assets: Asset[]) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      const allSelected = assets.every((a) => next.has(a.id));
+      for (const a of assets) {
+        if (allSelected) next.delete(a.id);
+        else next.add(a.id);
+      }
+      return next;
+    });
+  };
+
+  const applyStatus = useCallback(async (ids: number[], status: ReviewStatus) => {
+    if (ids.length === 0) return;
+    setSubmitting(true);
+    try {
+      const res = await fetch("/api/review/bulk", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids, status }),
+      });
+      if (!res.ok) {
+        const errBody = await res.json().catch(() => null);
+        throw new Error(errBody?.message || `Request failed (${res.status})`);
+      }
+      const result = await res.json();
+      setSelected(new Set());
+      queryClient.invalidateQueries({ predicate: (q) => String(q.queryKey[0]).startsWith("/api/review/queue") });
+      queryClient.invalidateQueries({ queryKey: ["/api/assets"] });
+      toast({ title: "Review saved", description: `Marked ${result.updated} assets as ${STATUS_LABELS[status].toLowerCase()}.` });
+    } catch (err) {
+      toast({ title: "Review failed", description: (err as Error).message, variant: "destructive" });
+    } finally {
+      setSubmitting(false);
+    }
+  }, [toast]);
+
+  const selectedIds = Array.from(selected);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="max-w-[1440px] mx-auto px-4 sm:px-6">
+          <div className="flex items-center justify-between gap-4 h-14">
+            <div className="flex items-center gap-3">
+              <Link href="/">
+                <Button variant="ghost" size="icon" data-testid="button-back-dashboard">
+                  <ArrowLeft className="w-4 h-4" />
+                </Button>
+              </Link>
+              <ClipboardCheck className="w-5 h-5 text-chart-1" />
+              <h1 className="text-base font-semibold tracking-tight">Review Queue</h1>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={statusFilter} onValueChange={(v) => { setStatusFilter(v as ReviewStatus); setSelected(new Set()); setPage(1); }}>
+                <SelectTrigger className="w-[160px]" data-testid="select-review-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(STATUS_LABELS) as ReviewStatus[]).map((s) => (
+                    <SelectItem key={s} value={s} data-testid={`option-review-status-${s}`}>{STATUS_LABELS[s]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-[1440px] mx-auto px-4 sm:px-6 py-6 space-y-4">
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <p className="text-sm text-muted-foreground">
+            {queue ? `${queue.total_assets} ${STATUS_LABELS[statusFilter].toLowerCase()} assets ${queue.total_pages > 1 ? `· ${queue.companies.length} companies on this page` : `across ${queue.companies.length} companies`}` : "Loading..."}
+            {selectedIds.length > 0 && ` · ${selectedIds.length} selected`}
+          </p>
+          <div className="flex items-center gap-2">
+            <Button size="sm" disabled={submitting || selectedIds.length === 0} onClick={() => applyStatus(selectedIds, "approved")} data-testid="button-bulk-approve">
+              <CheckCircle2 className="w-3.5 h-3.5 mr-1.5" />
+              Approve
+            </Button>
+            <Button size="sm" variant="outline" disabled={submitting || selectedIds.length === 0} onClick={() => applyStatus(selectedIds, "needs-edit")} data-testid="button-bulk-needs-edit">
+              <PencilLine className="w-3.5 h-3.5 mr-1.5" />
+              Needs Edit
+            </Button>
+            <Button size="sm" variant="destructive" disabled={submitting || selectedIds.length === 0} onClick={() => applyStatus(selectedIds, "rejected")} data-testid="button-bulk-reject">
+              <XCircle className="w-3.5 h-3.5 mr-1.5" />
+              Reject
+            </Button>
+          </div>
+        </div>
+
+        {isLoading && (
+          <div className="space-y-2">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <Skeleton key={i} className="h-32 w-full" />
+            ))}
+          </div>
+        )}
+
+        {queue && queue.companies.length === 0 && (
+          <div className="flex flex-col items-center justify-center py-16 text-muted-foreground">
+            <Building2 className="w-12 h-12 mb-3 opacity-30" />
+            <p className="text-sm">No {STATUS_LABELS[statusFilter].toLowerCase()} assets</p>
+          </div>
+        )}
+
+        {queue?.companies.map((group) => {
+          const allSelected = group.assets.every((a) => selected.has(a.id));
+          const groupIds = group.assets.map((a) => a.id);
+          return (
+            <Card key={group.isin || group.company_name} data-testid={`card-review-${group.isin || group.company_name}`}>
+              <CardHeader className="flex flex-row items-center gap-3 space-y-0">
+                <Checkbox checked={allSelected} onCheckedChange={() => toggleCompany(group.assets)} data-testid={`checkbox-company-${group.isin}`} />
+                <CardTitle className="text-sm font-medium">{group.company_name}</CardTitle>
+                {group.isin && <span className="font-mono text-xs text-muted-foreground">{group.isin}</span>}
+                <Badge variant="secondary">{group.assets.length} assets</Badge>
+                <div className="ml-auto flex items-center gap-1">
+                  <Button size="sm" variant="ghost" disabled={submitting} onClick={() => applyStatus(groupIds, "approved")} data-testid={`button-approve-company-${group.isin}`}>
+                    Approve all
+                  </Button>
+                  <Button size="sm" variant="ghost" disabled={submitting} onClick={() => applyStatus(groupIds, "rejected")} data-testid={`button-reject-company-${group.isin}`}>
+                    Reject all
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="pt-0">
+                <div className="rounded-md border border-border overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="bg-muted/50 text-left">
+                        <th className="px-3 py-2 w-8" />
+                        <th className="px-3 py-2 text-xs font-medium">Facility</th>
+                        <th className="px-3 py-2 text-xs font-medium">Type</th>
+                        <th className="px-3 py-2 text-xs font-medium">Location</th>
+                        <th className="px-3 py-2 text-xs font-medium text-right">Value</th>
+                        <th className="px-3 py-2 text-xs font-medium">Source</th>
+                        <th className="px-3 py-2 text-xs font-medium">Data Source</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border">
+                      {group.assets.map((a) => (
+                        <tr key={a.id} className="hover-elevate" data-testid={`row-review-asset-${a.id}`}>
+                          <td className="px-3 py-2">
+                            <Checkbox checked={selected.has(a.id)} onCheckedChange={() => toggleAsset(a.id)} data-testid={`checkbox-asset-${a.id}`} />
+                          </td>
+                          <td className="px-3 py-2 font-medium">
+                            {a.facilityName}
+                            {a.reviewNote && <span className="block text-xs text-muted-foreground">{a.reviewNote}</span>}
+                          </td>
+                          <td className="px-3 py-2 text-muted-foreground">{a.assetType || "—"}</td>
+                          <td className="px-3 py-2 text-muted-foreground">{[a.city, a.country].filter(Boolean).join(", ") || "—"}</td>
+                          <td className="px-3 py-2 text-right font-mono tabular-nums">{formatCurrency(a.valueUsd)}</td>
+                          <td className="px-3 py-2 text-xs">
+                            <div className="flex flex-col gap-0.5">
+                              {a.sourceDocument && (
+                                <span className="flex items-center gap-1 text-muted-foreground">
+                                  <FileText className="w-3 h-3 shrink-0" />
+                                  {a.sourceDocument}
+                                </span>
+                              )}
+                              {a.sourceUrl ? (
+                                <a href={a.sourceUrl} target="_blank" rel="noreferrer" className="flex items-center gap-1 text-chart-1 hover:underline truncate max-w-[260px]" data-testid={`link-source-${a.id}`}>
+                                  <ExternalLink className="w-3 h-3 shrink-0" />
+                                  {a.sourceUrl}
+                                </a>
+                              ) : (
+                                !a.sourceDocument && <span className="text-muted-foreground">No source</span>
+                              )}
+                            </div>
+                          </td>
+                          <td className="px-3 py-2 text-xs text-muted-foreground">{a.dataSource || "—"}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+
+        {queue && queue.total_pages > 1 && (
+          <div className="flex items-center justify-end gap-2 text-xs text-muted-foreground">
+            <span>Page {queue.page} of {queue.total_pages}</span>
+            <Button size="sm" variant="outline" className="h-7 text-xs" disabled={page <= 1} onClick={() => { setPage(page - 1); setSelected(new Set()); }} data-testid="button-review-prev">
+              Previous
+            </Button>
+            <Button size="sm" variant="outline" className="h-7 text-xs" disabled={page >= queue.total_pages} onClick={() => { setPage(page + 1); setSelected(new Set()); }} data-testid="button-review-next">
+              Next
+            </Button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
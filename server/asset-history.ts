@@ -0,0 +1,93 @@
+import { storage } from "./storage";
+import type { Asset, AssetVersion } from "@shared/schema";
+
+const DIFF_FIELDS = [
+  "assetType",
+  "address",
+  "city",
+  "country",
+  "latitude",
+  "longitude",
+  "coordinateCertainty",
+  "valueUsd",
+  "valuationConfidence",
+  "ownershipShare",
+  "sourceDocument",
+  "sourceUrl",
+] as const;
+
+type DiffField = typeof DIFF_FIELDS[number];
+
+export interface ChangedFacility {
+  facilityName: string;
+  changes: Partial<Record<DiffField, { from: unknown; to: unknown }>>;
+}
+
+export interface AssetVersionDiff {
+  added: Asset[];
+  removed: Asset[];
+  changed: ChangedFacility[];
+  unchangedCount: number;
+}
+
+function facilityKey(asset: Pick<Asset, "facilityName">): string {
+  return (asset.facilityName || "").toLowerCase().trim();
+}
+
+export function parseVersionAssets(version: AssetVersion): Asset[] {
+  try {
+    return JSON.parse(version.assets) as Asset[];
+  } catch {
+    return [];
+  }
+}
+
+export async function recordAssetVersion(isin: string, companyName: string, dataSource: string): Promise<AssetVersion> {
+  const current = await storage.getAssetsByIsin(isin);
+  const totalValue = current.reduce((sum, a) => sum + (a.valueUsd || 0), 0);
+  const version = await storage.createAssetVersion({
+    isin,
+    companyName,
+    dataSource,
+    assetCount: current.length,
+    totalValue,
+    assets: JSON.stringify(current),
+  });
+  console.log(`[AssetHistory] Recorded version ${version.version} for ${isin}: ${current.length} assets`);
+  return version;
+}
+
+export function diffAssetVersions(fromAssets: Asset[], toAssets: Asset[]): AssetVersionDiff {
+  const fromMap = new Map(fromAssets.map(a => [facilityKey(a), a]));
+  const toMap = new Map(toAssets.map(a => [facilityKey(a), a]));
+
+  const added: Asset[] = [];
+  const removed: Asset[] = [];
+  const changed: ChangedFacility[] = [];
+  let unchangedCount = 0;
+
+  for (const [key, next] of Array.from(toMap.entries())) {
+    const prev = fromMap.get(key);
+    if (!prev) {
+      added.push(next);
+      continue;
+    }
+    const changes: ChangedFacility["changes"] = {};
+    for (const field of DIFF_FIELDS) {
+      const from = prev[field] ?? null;
+      const to = next[field] ?? null;
+      if (from !== to) changes[field] = { from, to };
+    }
+    if (Object.keys(changes).length > 0) {
+      changed.push({ facilityName: next.facilityName, changes });
+    } else {
+      unchangedCount++;
+    }
+  }
+
+  for (const [key, prev] of Array.from(fromMap.entries())) {
+    if (!toMap.has(key)) removed.push(prev);
+  }
+
+  return { added, removed, changed, unchangedCount };
+}
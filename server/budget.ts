@@ -0,0 +1,135 @@
+import { storage, type DiscoveryTokenHistory } from "./storage";
+import { getAvailableProviders } from "./llm-providers";
+import type { DiscoveryJob } from "@shared/schema";
+
+const MONTHLY_BUDGET_SETTING = "monthly_budget_usd";
+
+// Fallback per-company usage for a two-pass discovery when no finished job has been seen yet.
+const DEFAULT_INPUT_TOKENS_PER_COMPANY = 12000;
+const DEFAULT_OUTPUT_TOKENS_PER_COMPANY = 8000;
+// Ensemble members run Pass 1 only, and the supplementary pass is a single extra call.
+const SINGLE_PASS_SHARE = 0.5;
+const HISTORY_JOB_LIMIT = 20;
+
+export interface BudgetStatus {
+  monthly_budget_usd: number | null;
+  month_spend_usd: number;
+  monthly_remaining_usd: number | null;
+  month_start: string;
+}
+
+export interface CostEstimateLine {
+  provider: string;
+  role: "primary" | "ensemble" | "supplementary";
+  input_tokens_per_company: number;
+  output_tokens_per_company: number;
+  cost_per_company_usd: number;
+}
+
+export interface CostEstimate extends BudgetStatus {
+  companies: number;
+  basis: "history" | "default";
+  history_companies: number;
+  lines: CostEstimateLine[];
+  estimated_cost_usd: number;
+  job_budget_usd: number | null;
+  exceeds_job_budget: boolean;
+  exceeds_monthly_budget: boolean;
+}
+
+/** Spend is counted per calendar month in UTC, by when each stage's cost was recorded. */
+export function getMonthStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/** The monthly cap set through the API, else MONTHLY_BUDGET_USD; null means no cap. */
+export async function getMonthlyBudgetUsd(): Promise<number | null> {
+  const stored = await storage.getSetting(MONTHLY_BUDGET_SETTING);
+  const raw = stored ?? process.env.MONTHLY_BUDGET_USD;
+  const value = raw ? parseFloat(raw) : NaN;
+  return value > 0 ? value : null;
+}
+
+export async function setMonthlyBudgetUsd(value: number | null): Promise<void> {
+  await storage.setSetting(MONTHLY_BUDGET_SETTING, value === null ? null : String(value));
+}
+
+export async function getBudgetStatus(): Promise<BudgetStatus> {
+  const monthStart = getMonthStart();
+  const [monthlyBudget, monthSpend] = await Promise.all([getMonthlyBudgetUsd(), storage.getDiscoverySpendSince(monthStart)]);
+  return {
+    monthly_budget_usd: monthlyBudget,
+    month_spend_usd: monthSpend,
+    monthly_remaining_usd: monthlyBudget === null ? null : Math.max(0, monthlyBudget - monthSpend),
+    month_start: monthStart.toISOString(),
+  };
+}
+
+/** Why a job must stop before its next company, or null if it may carry on. */
+export async function getBudgetStopReason(job: DiscoveryJob): Promise<string | null> {
+  const jobCostUsd = job.totalCostUsd || 0;
+  if (job.budgetUsd !== null && jobCostUsd >= job.budgetUsd) {
+    return `Job budget of $${job.budgetUsd.toFixed(2)} reached ($${jobCostUsd.toFixed(2)} spent)`;
+  }
+
+  const monthlyBudget = await getMonthlyBudgetUsd();
+  if (monthlyBudget === null) return null;
+  const monthSpend = await storage.getDiscoverySpendSince(getMonthStart());
+  if (monthSpend >= monthlyBudget) {
+    return `Monthly budget of $${monthlyBudget.toFixed(2)} reached ($${monthSpend.toFixed(2)} spent this month)`;
+  }
+  return null;
+}
+
+/** Average tokens per successful company come from recent plain two-pass jobs (see storage). */
+function getTokenHistory(providerId?: string): Promise<DiscoveryTokenHistory> {
+  return storage.getDiscoveryTokenHistory(providerId, HISTORY_JOB_LIMIT);
+}
+
+/**
+ * Up-front cost estimate for a discovery job: tokens per company from this provider's history
+ * (else any provider's, else a default), priced with each provider's per-token rates.
+ */
+export async function estimateDiscoveryCost(
+  companyCount: number,
+  options: { provider: string; supplementaryProvider?: string | null; ensembleProviders?: string[] | null; budgetUsd?: number | null },
+): Promise<CostEstimate> {
+  const roles: Array<{ provider: string; role: CostEstimateLine["role"]; share: number }> = options.ensembleProviders?.length
+    ? options.ensembleProviders.map(provider => ({ provider, role: "ensemble" as const, share: SINGLE_PASS_SHARE }))
+    : [{ provider: options.provider, role: "primary", share: 1 }];
+  if (options.supplementaryProvider) {
+    roles.push({ provider: options.supplementaryProvider, role: "supplementary", share: SINGLE_PASS_SHARE });
+  }
+
+  const pricing = new Map(getAvailableProviders().map(p => [p.id, p]));
+  const anyHistory = await getTokenHistory();
+  let historyCompanies = 0;
+  const lines: CostEstimateLine[] = [];
+  for (const { provider, role, share } of roles) {
+    const own = await getTokenHistory(provider);
+    const history = own.companies > 0 ? own : anyHistory;
+    historyCompanies = Math.max(historyCompanies, history.companies);
+    const inputPerCompany = history.companies > 0 ? history.inputTokens / history.companies : DEFAULT_INPUT_TOKENS_PER_COMPANY;
+    const outputPerCompany = history.companies > 0 ? history.outputTokens / history.companies : DEFAULT_OUTPUT_TOKENS_PER_COMPANY;
+    const input = Math.round(inputPerCompany * share);
+    const output = Math.round(outputPerCompany * share);
+    const p = pricing.get(provider);
+    const cost = p ? (input / 1000) * p.costPer1kInputTokens + (output / 1000) * p.costPer1kOutputTokens : 0;
+    lines.push({ provider, role, input_tokens_per_company: input, output_tokens_per_company: output, cost_per_company_usd: cost });
+  }
+
+  const estimated = lines.reduce((sum, l) => sum + l.cost_per_company_usd, 0) * companyCount;
+  const status = await getBudgetStatus();
+  const jobBudget = options.budgetUsd ?? null;
+  return {
+    companies: companyCount,
+    basis: historyCompanies > 0 ? "history" : "default",
+    history_companies: historyCompanies,
+    lines,
+    estimated_cost_usd: Math.round(estimated * 10000) / 10000,
+    job_budget_usd: jobBudget,
+    exceeds_job_budget: jobBudget !== null && estimated > jobBudget,
+    exceeds_monthly_budget: status.monthly_remaining_usd !== null && estimated > status.monthly_remaining_usd,
+    ...status,
+  };
+}
@@ -0,0 +1,49 @@
+import { test, after } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, mkdtempSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+import { cassetteKey, hasCassettes, withCassette } from "./cassette";
+
+const dir = mkdtempSync(path.join(os.tmpdir(), "cassettes-"));
+process.env.CASSETTE_DIR = dir;
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+const llmRequest = { provider: "openai", systemPrompt: "You map physical assets.", userPrompt: "Identify all physical assets of: Acme Industries" };
+const llmResponse = { content: "{\"assets\":[]}", inputTokens: 12, outputTokens: 4, totalTokens: 16, costUsd: 0.001 };
+
+test("cassetteKey is stable for the same request and differs by provider, prompt and query", () => {
+  assert.equal(cassetteKey(llmRequest), cassetteKey({ ...llmRequest }));
+  assert.match(cassetteKey(llmRequest), /^[0-9a-f]{24}$/);
+  assert.notEqual(cassetteKey(llmRequest), cassetteKey({ ...llmRequest, provider: "claude" }));
+  assert.notEqual(cassetteKey(llmRequest), cassetteKey({ ...llmRequest, userPrompt: "Identify all physical assets of: Acme Steel" }));
+  assert.notEqual(cassetteKey({ query: "acme plants", num: 6 }), cassetteKey({ query: "acme mines", num: 6 }));
+});
+
+test("a recorded LLM call replays without calling the provider", async () => {
+  let liveCalls = 0;
+  const live = async () => { liveCalls++; return llmResponse; };
+
+  process.env.CASSETTE_MODE = "record";
+  assert.deepEqual(await withCassette("llm", "openai", llmRequest, live), llmResponse);
+  assert.equal(liveCalls, 1);
+  assert.ok(existsSync(path.join(dir, "llm", "openai", `${cassetteKey(llmRequest)}.json`)));
+  assert.equal(hasCassettes("llm", "openai"), true);
+
+  process.env.CASSETTE_MODE = "replay";
+  assert.deepEqual(await withCassette("llm", "openai", { ...llmRequest }, live), llmResponse);
+  assert.equal(liveCalls, 1);
+});
+
+test("replay fails on a prompt, provider or query that was never recorded", async () => {
+  const live = async () => assert.fail("replay must not call the live API");
+
+  process.env.CASSETTE_MODE = "record";
+  await withCassette("search", "brave", { query: "acme industries manufacturing plants", num: 6 }, async () => ({ web: { results: [] } }));
+
+  process.env.CASSETTE_MODE = "replay";
+  assert.deepEqual(await withCassette("search", "brave", { query: "acme industries manufacturing plants", num: 6 }, live), { web: { results: [] } });
+  await assert.rejects(withCassette("search", "brave", { query: "acme industries mines", num: 6 }, live), /No search cassette for brave/);
+  await assert.rejects(withCassette("llm", "openai", { ...llmRequest, userPrompt: "Identify all physical assets of: Acme Steel" }, live), /No llm cassette for openai/);
+  await assert.rejects(withCassette("llm", "claude", llmRequest, live), /No llm cassette for claude/);
+});
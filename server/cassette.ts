@@ -0,0 +1,85 @@
+import { createHash } from "crypto";
+import { existsSync, readdirSync } from "fs";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+
+export const CASSETTE_MODES = ["off", "record", "replay"] as const;
+export type CassetteMode = typeof CASSETTE_MODES[number];
+
+// Serper recordings keep their original "serper/google" path; other search backends record under "search/<backend>".
+export type CassetteKind = "llm" | "serper" | "search";
+
+interface CassetteEntry<T> {
+  kind: CassetteKind;
+  scope: string;
+  key: string;
+  request: Record<string, unknown>;
+  response: T;
+  recordedAt: string;
+}
+
+let warnedMode: string | null = null;
+
+/**
+ * CASSETTE_MODE=record passes calls through to the real API and writes each response to disk;
+ * CASSETTE_MODE=replay serves them back without network and fails on anything not recorded.
+ */
+export function getCassetteMode(): CassetteMode {
+  const mode = (process.env.CASSETTE_MODE || "off").toLowerCase();
+  if ((CASSETTE_MODES as readonly string[]).includes(mode)) return mode as CassetteMode;
+  if (warnedMode !== mode) {
+    console.warn(`[Cassette] Unknown CASSETTE_MODE "${mode}" (expected ${CASSETTE_MODES.join(", ")}); cassettes are off`);
+    warnedMode = mode;
+  }
+  return "off";
+}
+
+export function getCassetteDir(): string {
+  return process.env.CASSETTE_DIR || path.resolve(process.cwd(), "data", "cassettes");
+}
+
+function scopeDir(kind: CassetteKind, scope: string): string {
+  return path.join(getCassetteDir(), kind, scope.replace(/[^a-zA-Z0-9_-]/g, "_"));
+}
+
+/** Stable key for a request: the same prompt or query always maps to the same file. */
+export function cassetteKey(request: Record<string, unknown>): string {
+  return createHash("sha256").update(JSON.stringify(request)).digest("hex").slice(0, 24);
+}
+
+export function hasCassettes(kind: CassetteKind, scope: string): boolean {
+  const dir = scopeDir(kind, scope);
+  return existsSync(dir) && readdirSync(dir).some(f => f.endsWith(".json"));
+}
+
+/**
+ * Runs `live` unless a cassette stands in for it. Requests are keyed by kind, scope (provider id
+ * or search backend) and a hash of the request, so recordings from several providers sit side by side.
+ */
+export async function withCassette<T>(
+  kind: CassetteKind,
+  scope: string,
+  request: Record<string, unknown>,
+  live: () => Promise<T>,
+): Promise<T> {
+  const mode = getCassetteMode();
+  if (mode === "off") return live();
+
+  const key = cassetteKey(request);
+  const file = path.join(scopeDir(kind, scope), `${key}.json`);
+
+  if (mode === "replay") {
+    if (!existsSync(file)) {
+      throw new Error(`No ${kind} cassette for ${scope} (${key}); record it with CASSETTE_MODE=record`);
+    }
+    const entry = JSON.parse(await readFile(file, "utf-8")) as CassetteEntry<T>;
+    return entry.response;
+  }
+
+  const response = await live();
+  const entry: CassetteEntry<T> = { kind, scope, key, request, response, recordedAt: new Date().toISOString() };
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, JSON.stringify(entry, null, 2));
+  console.log(`[Cassette] Recorded ${kind}/${scope}/${key}`);
+  return response;
+}
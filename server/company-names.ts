@@ -0,0 +1,24 @@
+const COMPANY_SUFFIXES = new Set([
+  "inc", "incorporated", "corp", "corporation", "co", "company", "ltd", "limited", "plc", "llc", "lp",
+  "sa", "ag", "nv", "se", "asa", "ab", "oyj", "spa", "bv", "gmbh", "kk", "group", "holdings", "holding", "the",
+]);
+
+/** A company name reduced to its distinctive words: no accents, punctuation or legal suffixes. */
+export function companyNameKey(name: string): string {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .filter(t => t && !COMPANY_SUFFIXES.has(t))
+    .join(" ");
+}
+
+/** Same company when one key equals the other or extends it by whole words ("BHP" and "BHP Billiton"). */
+export function companyNamesMatch(a: string, b: string): boolean {
+  const left = companyNameKey(a);
+  const right = companyNameKey(b);
+  if (!left || !right) return false;
+  return left === right || left.startsWith(`${right} `) || right.startsWith(`${left} `);
+}
@@ -66,6 +66,43 @@ export async function ensureTables() {
         total_cost_usd DOUBLE PRECISION DEFAULT 0,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
       );
+      CREATE TABLE IF NOT EXISTS asset_versions (
+        id SERIAL PRIMARY KEY,
+        isin VARCHAR(12) NOT NULL,
+        version INTEGER NOT NULL,
+        company_name VARCHAR(255) NOT NULL,
+        data_source TEXT,
+        asset_count INTEGER NOT NULL DEFAULT 0,
+        total_value DOUBLE PRECISION,
+        assets TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+      );
+      CREATE UNIQUE INDEX IF NOT EXISTS asset_versions_isin_version_idx ON asset_versions (isin, version);
+      CREATE TABLE IF NOT EXISTS portfolios (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        description TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS portfolio_holdings (
+        id SERIAL PRIMARY KEY,
+        portfolio_id INTEGER NOT NULL REFERENCES portfolios(id) ON DELETE CASCADE,
+        isin VARCHAR(12) NOT NULL,
+        name VARCHAR(255),
+        weight DOUBLE PRECISION,
+        market_value DOUBLE PRECISION
+      );
+      CREATE INDEX IF NOT EXISTS portfolio_holdings_portfolio_id_idx ON portfolio_holdings (portfolio_id);
+      CREATE TABLE IF NOT EXISTS sites (
+        id SERIAL PRIMARY KEY,
+        name TEXT NOT NULL,
+        asset_type VARCHAR(100),
+        country VARCHAR(255),
+        latitude DOUBLE PRECISION,
+        longitude DOUBLE PRECISION,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+      );
     `);
     await client.query(`
       DO $$ BEGIN
@@ -93,8 +130,238 @@ export async function ensureTables() {
         IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='assets' AND column_name='source_url') THEN
           ALTER TABLE assets ADD COLUMN source_url TEXT;
         END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='assets' AND column_name='manually_edited') THEN
+          ALTER TABLE assets ADD COLUMN manually_edited BOOLEAN NOT NULL DEFAULT FALSE;
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='assets' AND column_name='review_status') THEN
+          -- Existing rows start pending, like new discoveries, except hand-entered or edited ones,
+          -- which a person already vouched for. Approve the rest with POST /api/review/bulk.
+          ALTER TABLE assets ADD COLUMN review_status VARCHAR(20) NOT NULL DEFAULT 'pending';
+          UPDATE assets SET review_status = 'approved' WHERE manually_edited;
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='assets' AND column_name='review_note') THEN
+          ALTER TABLE assets ADD COLUMN review_note TEXT;
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='assets' AND column_name='reviewed_at') THEN
+          ALTER TABLE assets ADD COLUMN reviewed_at TIMESTAMP;
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='discovery_jobs' AND column_name='override_manual_edits') THEN
+          ALTER TABLE discovery_jobs ADD COLUMN override_manual_edits BOOLEAN NOT NULL DEFAULT FALSE;
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='assets' AND column_name='attributable_value_usd') THEN
+          ALTER TABLE assets ADD COLUMN attributable_value_usd DOUBLE PRECISION
+            GENERATED ALWAYS AS (value_usd * COALESCE(ownership_share, 100) / 100) STORED;
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='companies' AND column_name='attributable_assets') THEN
+          ALTER TABLE companies ADD COLUMN attributable_assets DOUBLE PRECISION;
+          UPDATE companies c SET attributable_assets = t.total
+            FROM (SELECT isin, SUM(attributable_value_usd) AS total FROM assets GROUP BY isin) t
+            WHERE t.isin = c.isin;
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='assets' AND column_name='site_id') THEN
+          ALTER TABLE assets ADD COLUMN site_id INTEGER REFERENCES sites(id) ON DELETE SET NULL;
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='assets' AND column_name='consensus_count') THEN
+          ALTER TABLE assets ADD COLUMN consensus_count INTEGER;
+          ALTER TABLE assets ADD COLUMN consensus_total INTEGER;
+          ALTER TABLE assets ADD COLUMN consensus_providers TEXT;
+          ALTER TABLE assets ADD COLUMN value_low_usd DOUBLE PRECISION;
+          ALTER TABLE assets ADD COLUMN value_high_usd DOUBLE PRECISION;
+          ALTER TABLE assets ADD COLUMN coordinate_spread_km DOUBLE PRECISION;
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='discovery_jobs' AND column_name='ensemble_providers') THEN
+          ALTER TABLE discovery_jobs ADD COLUMN ensemble_providers TEXT;
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='discovery_jobs' AND column_name='budget_usd') THEN
+          ALTER TABLE discovery_jobs ADD COLUMN budget_usd DOUBLE PRECISION;
+          ALTER TABLE discovery_jobs ADD COLUMN paused_reason TEXT;
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='discovery_jobs' AND column_name='priority') THEN
+          ALTER TABLE discovery_jobs ADD COLUMN priority INTEGER NOT NULL DEFAULT 0;
+        END IF;
       END $$;
     `);
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS site_link_candidates (
+        id SERIAL PRIMARY KEY,
+        asset_id INTEGER NOT NULL REFERENCES assets(id) ON DELETE CASCADE,
+        candidate_asset_id INTEGER NOT NULL REFERENCES assets(id) ON DELETE CASCADE,
+        name_similarity DOUBLE PRECISION NOT NULL,
+        distance_km DOUBLE PRECISION,
+        score DOUBLE PRECISION NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'pending',
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        reviewed_at TIMESTAMP
+      );
+      CREATE UNIQUE INDEX IF NOT EXISTS site_link_candidates_pair_idx ON site_link_candidates (asset_id, candidate_asset_id);
+      CREATE INDEX IF NOT EXISTS site_link_candidates_status_idx ON site_link_candidates (status);
+      CREATE TABLE IF NOT EXISTS dedup_scans (
+        id SERIAL PRIMARY KEY,
+        status VARCHAR(20) NOT NULL DEFAULT 'running',
+        total_assets INTEGER NOT NULL DEFAULT 0,
+        cluster_count INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        completed_at TIMESTAMP
+      );
+      CREATE TABLE IF NOT EXISTS duplicate_clusters (
+        id SERIAL PRIMARY KEY,
+        scan_id INTEGER NOT NULL REFERENCES dedup_scans(id) ON DELETE CASCADE,
+        company_name VARCHAR(255) NOT NULL,
+        isin VARCHAR(12),
+        asset_ids TEXT NOT NULL,
+        score DOUBLE PRECISION NOT NULL,
+        reasons TEXT NOT NULL,
+        pairs TEXT NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'pending',
+        survivor_id INTEGER,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        resolved_at TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS duplicate_clusters_scan_id_idx ON duplicate_clusters (scan_id, status);
+      CREATE TABLE IF NOT EXISTS asset_merges (
+        id SERIAL PRIMARY KEY,
+        survivor_id INTEGER NOT NULL REFERENCES assets(id) ON DELETE CASCADE,
+        cluster_id INTEGER REFERENCES duplicate_clusters(id) ON DELETE SET NULL,
+        merged_asset_id INTEGER NOT NULL,
+        snapshot TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS asset_merges_survivor_id_idx ON asset_merges (survivor_id);
+      CREATE TABLE IF NOT EXISTS discovery_job_items (
+        id SERIAL PRIMARY KEY,
+        job_id INTEGER NOT NULL REFERENCES discovery_jobs(id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        company_name VARCHAR(255) NOT NULL,
+        isin VARCHAR(12),
+        total_value DOUBLE PRECISION,
+        stage VARCHAR(20) NOT NULL DEFAULT 'primary',
+        provider VARCHAR(50) NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        worker_id VARCHAR(100),
+        result TEXT,
+        claimed_at TIMESTAMP,
+        heartbeat_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS discovery_job_items_job_id_idx ON discovery_job_items (job_id, position);
+      CREATE INDEX IF NOT EXISTS discovery_job_items_queue_idx ON discovery_job_items (status, provider);
+      CREATE TABLE IF NOT EXISTS discovery_job_events (
+        id SERIAL PRIMARY KEY,
+        job_id INTEGER NOT NULL REFERENCES discovery_jobs(id) ON DELETE CASCADE,
+        type VARCHAR(30) NOT NULL,
+        payload TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS discovery_job_events_job_id_idx ON discovery_job_events (job_id, id);
+      CREATE INDEX IF NOT EXISTS discovery_job_events_created_at_idx ON discovery_job_events (created_at);
+      CREATE TABLE IF NOT EXISTS research_cache (
+        query_key VARCHAR(64) PRIMARY KEY,
+        backend VARCHAR(50) NOT NULL,
+        query TEXT NOT NULL,
+        snippets TEXT NOT NULL,
+        fetched_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        expires_at TIMESTAMP NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS research_cache_expires_at_idx ON research_cache (expires_at);
+      CREATE TABLE IF NOT EXISTS search_usage (
+        id SERIAL PRIMARY KEY,
+        backend VARCHAR(20) NOT NULL,
+        month_start TIMESTAMP NOT NULL,
+        queries INTEGER NOT NULL DEFAULT 0,
+        errors INTEGER NOT NULL DEFAULT 0,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+      );
+      CREATE UNIQUE INDEX IF NOT EXISTS search_usage_backend_month_idx ON search_usage (backend, month_start);
+      CREATE TABLE IF NOT EXISTS sec_filings (
+        accession VARCHAR(25) PRIMARY KEY,
+        cik VARCHAR(10) NOT NULL,
+        form VARCHAR(10) NOT NULL,
+        filing_date VARCHAR(10) NOT NULL,
+        document_url TEXT NOT NULL,
+        passages TEXT NOT NULL,
+        fetched_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS sec_filings_cik_fetched_at_idx ON sec_filings (cik, fetched_at);
+      CREATE TABLE IF NOT EXISTS app_settings (
+        key VARCHAR(100) PRIMARY KEY,
+        value TEXT,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+      );
+    `);
+    await client.query(`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='discovery_job_items' AND column_name='input_tokens') THEN
+          ALTER TABLE discovery_job_items ADD COLUMN worker VARCHAR(120);
+          ALTER TABLE discovery_job_items ADD COLUMN input_tokens INTEGER NOT NULL DEFAULT 0;
+          ALTER TABLE discovery_job_items ADD COLUMN output_tokens INTEGER NOT NULL DEFAULT 0;
+          ALTER TABLE discovery_job_items ADD COLUMN cost_usd DOUBLE PRECISION NOT NULL DEFAULT 0;
+          ALTER TABLE discovery_job_items ADD COLUMN assets_found INTEGER;
+          ALTER TABLE discovery_job_items ADD COLUMN supplementary_assets_found INTEGER;
+          ALTER TABLE discovery_job_items ADD COLUMN error TEXT;
+          ALTER TABLE discovery_job_items ADD COLUMN started_at TIMESTAMP;
+          ALTER TABLE discovery_job_items ADD COLUMN finished_at TIMESTAMP;
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='discovery_job_items' AND column_name='source_item_id') THEN
+          ALTER TABLE discovery_job_items ADD COLUMN source_item_id INTEGER;
+          CREATE INDEX discovery_job_items_source_item_id_idx ON discovery_job_items (source_item_id) WHERE source_item_id IS NOT NULL;
+          ALTER TABLE discovery_jobs ADD COLUMN parent_job_id INTEGER REFERENCES discovery_jobs(id) ON DELETE SET NULL;
+          ALTER TABLE discovery_jobs ADD COLUMN rerun_kind VARCHAR(20);
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='discovery_job_items' AND column_name='web_research') THEN
+          ALTER TABLE discovery_job_items ADD COLUMN web_research TEXT;
+          CREATE INDEX discovery_job_items_isin_research_idx ON discovery_job_items (isin) WHERE web_research IS NOT NULL;
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='discovery_jobs' AND column_name='search_backend') THEN
+          ALTER TABLE discovery_jobs ADD COLUMN search_backend VARCHAR(20);
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='companies' AND column_name='gics_code') THEN
+          ALTER TABLE companies ADD COLUMN gics_code VARCHAR(8);
+          ALTER TABLE companies ADD COLUMN sector_source VARCHAR(20);
+          ALTER TABLE discovery_job_items ADD COLUMN gics_code VARCHAR(8);
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='assets' AND column_name='source_status') THEN
+          ALTER TABLE assets ADD COLUMN source_status VARCHAR(20);
+          ALTER TABLE assets ADD COLUMN source_http_status INTEGER;
+          ALTER TABLE assets ADD COLUMN source_content_type VARCHAR(100);
+          ALTER TABLE assets ADD COLUMN source_evidence TEXT;
+          ALTER TABLE assets ADD COLUMN source_checked_at TIMESTAMP;
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name='discovery_spend') THEN
+          CREATE TABLE discovery_spend (
+            id SERIAL PRIMARY KEY,
+            job_id INTEGER REFERENCES discovery_jobs(id) ON DELETE SET NULL,
+            item_id INTEGER,
+            cost_usd DOUBLE PRECISION NOT NULL,
+            recorded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+          );
+          CREATE INDEX discovery_spend_recorded_at_idx ON discovery_spend (recorded_at);
+          -- Earlier spend is dated by when each company finished; jobs not yet converted to items by their last update.
+          INSERT INTO discovery_spend (job_id, item_id, cost_usd, recorded_at)
+            SELECT job_id, id, cost_usd, COALESCE(finished_at, updated_at) FROM discovery_job_items WHERE cost_usd > 0;
+          INSERT INTO discovery_spend (job_id, cost_usd, recorded_at)
+            SELECT id, total_cost_usd, updated_at FROM discovery_jobs
+            WHERE total_cost_usd > 0 AND NOT EXISTS (SELECT 1 FROM discovery_job_items i WHERE i.job_id = discovery_jobs.id);
+        END IF;
+        ALTER TABLE discovery_jobs ALTER COLUMN company_names DROP NOT NULL;
+      END $$;
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS assets_isin_idx ON assets (isin);
+      CREATE INDEX IF NOT EXISTS assets_company_name_idx ON assets (company_name);
+      CREATE INDEX IF NOT EXISTS assets_country_idx ON assets (country);
+      CREATE INDEX IF NOT EXISTS assets_asset_type_idx ON assets (asset_type);
+      CREATE INDEX IF NOT EXISTS assets_sector_idx ON assets (sector);
+      CREATE INDEX IF NOT EXISTS assets_value_usd_idx ON assets (value_usd);
+      CREATE INDEX IF NOT EXISTS assets_attributable_value_usd_idx ON assets (attributable_value_usd);
+      CREATE INDEX IF NOT EXISTS assets_review_status_idx ON assets (review_status);
+      CREATE INDEX IF NOT EXISTS assets_site_id_idx ON assets (site_id);
+      CREATE INDEX IF NOT EXISTS assets_source_status_idx ON assets (source_status);
+      CREATE INDEX IF NOT EXISTS assets_lat_lon_idx ON assets (latitude, longitude) WHERE latitude IS NOT NULL AND longitude IS NOT NULL;
+    `);
     console.log("Database tables verified/created successfully");
   } catch (err) {
     console.error("Error ensuring tables:", err);
@@ -0,0 +1,27 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Asset } from "@shared/schema";
+import { scoreDuplicatePair } from "./dedup";
+
+function asset(id: number, fields: Partial<Asset>): Asset {
+  return { id, companyName: "Acme Steel", isin: "US0000000000", facilityName: "", ...fields } as Asset;
+}
+
+test("scoreDuplicatePair scores the same facility name as a certain match", () => {
+  const pair = scoreDuplicatePair(asset(7, { facilityName: "Gary Works" }), asset(3, { facilityName: " gary works" }));
+  assert.deepEqual(pair, { a: 3, b: 7, score: 1, reasons: ["name"] });
+});
+
+test("scoreDuplicatePair combines city + type and proximity as independent evidence", () => {
+  const a = asset(1, { facilityName: "Blast Furnace 4", city: "Gary", assetType: "Steel Mill", latitude: 41.6, longitude: -87.33 });
+  const b = asset(2, { facilityName: "Lakefront Plant", city: "Gary", assetType: "Steel Mill", latitude: 41.61, longitude: -87.34 });
+  const pair = scoreDuplicatePair(a, b);
+  assert.deepEqual(pair?.reasons, ["city+type", "proximity"]);
+  assert.equal(pair?.score, 0.85);
+});
+
+test("scoreDuplicatePair returns null for unrelated assets", () => {
+  const a = asset(1, { facilityName: "Gary Works", city: "Gary", latitude: 41.6, longitude: -87.33 });
+  const b = asset(2, { facilityName: "Mon Valley Works", city: "Pittsburgh", latitude: 40.35, longitude: -79.86 });
+  assert.equal(scoreDuplicatePair(a, b), null);
+});
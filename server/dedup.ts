@@ -0,0 +1,231 @@
+import type { Asset, DuplicateCluster, DuplicateReason, InsertAsset, InsertDuplicateCluster } from "@shared/schema";
+import { storage } from "./storage";
+import { isProximityDuplicate, toProximityInput } from "./discovery";
+import { recordAssetVersion } from "./asset-history";
+import { ownerKey, siteNameSimilarity } from "./sites";
+
+export interface DuplicatePair {
+  a: number;
+  b: number;
+  score: number;
+  reasons: DuplicateReason[];
+}
+
+export interface DuplicateClusterDetail extends DuplicateCluster {
+  asset_ids: number[];
+  reason_list: DuplicateReason[];
+  pair_list: DuplicatePair[];
+}
+
+const NAME_MATCH_SCORE = 1;
+const FUZZY_NAME_THRESHOLD = 0.85;
+const CITY_TYPE_SCORE = 0.5;
+const PROXIMITY_SCORE = 0.7;
+export const DEFAULT_MIN_DUPLICATE_SCORE = 0.5;
+
+// Fields a merge may fill on the survivor when it has no value of its own.
+const FILLABLE_FIELDS = [
+  "address",
+  "city",
+  "country",
+  "latitude",
+  "longitude",
+  "coordinateCertainty",
+  "assetType",
+  "valueUsd",
+  "sizeFactor",
+  "geoFactor",
+  "typeWeight",
+  "industryFactor",
+  "valuationConfidence",
+  "sector",
+  "sourceDocument",
+  "sourceUrl",
+  "siteId",
+] as const;
+
+let activeScanId: number | null = null;
+
+function normalizeName(value: string | null | undefined): string {
+  return (value || "").toLowerCase().trim();
+}
+
+/**
+ * Scores one pair of a company's assets with the same three signals discovery uses to drop
+ * duplicates (facility name, city + asset type, proximity), combined as independent evidence.
+ */
+export function scoreDuplicatePair(a: Asset, b: Asset): DuplicatePair | null {
+  const signals: Array<{ reason: DuplicateReason; score: number }> = [];
+
+  if (normalizeName(a.facilityName) === normalizeName(b.facilityName)) {
+    signals.push({ reason: "name", score: NAME_MATCH_SCORE });
+  } else {
+    const similarity = siteNameSimilarity(a, b);
+    if (similarity >= FUZZY_NAME_THRESHOLD) signals.push({ reason: "name", score: similarity });
+  }
+
+  const city = normalizeName(a.city);
+  if (city && city === normalizeName(b.city) && normalizeName(a.assetType) === normalizeName(b.assetType)) {
+    signals.push({ reason: "city+type", score: CITY_TYPE_SCORE });
+  }
+
+  if (isProximityDuplicate(toProximityInput(a), toProximityInput(b))) {
+    signals.push({ reason: "proximity", score: PROXIMITY_SCORE });
+  }
+
+  if (signals.length === 0) return null;
+  const score = 1 - signals.reduce((remaining, s) => remaining * (1 - s.score), 1);
+  return {
+    a: Math.min(a.id, b.id),
+    b: Math.max(a.id, b.id),
+    score: Math.round(score * 1000) / 1000,
+    reasons: signals.map(s => s.reason),
+  };
+}
+
+/** Groups a company's pairwise matches into connected clusters; pairs below minScore are ignored. */
+export function findDuplicateClusters(assetList: Asset[], scanId: number, minScore: number = DEFAULT_MIN_DUPLICATE_SCORE): InsertDuplicateCluster[] {
+  const byOwner = new Map<string, Asset[]>();
+  for (const a of assetList) {
+    const list = byOwner.get(ownerKey(a)) ?? [];
+    list.push(a);
+    byOwner.set(ownerKey(a), list);
+  }
+
+  const clusters: InsertDuplicateCluster[] = [];
+  for (const group of Array.from(byOwner.values())) {
+    if (group.length < 2) continue;
+
+    const parent = new Map<number, number>(group.map(a => [a.id, a.id]));
+    const find = (id: number): number => {
+      let root = id;
+      while (parent.get(root)! !== root) root = parent.get(root)!;
+      parent.set(id, root);
+      return root;
+    };
+
+    const pairs: DuplicatePair[] = [];
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        const pair = scoreDuplicatePair(group[i], group[j]);
+        if (!pair || pair.score < minScore) continue;
+        pairs.push(pair);
+        parent.set(find(pair.a), find(pair.b));
+      }
+    }
+
+    const byRoot = new Map<number, DuplicatePair[]>();
+    for (const pair of pairs) {
+      const root = find(pair.a);
+      byRoot.set(root, [...(byRoot.get(root) ?? []), pair]);
+    }
+    for (const clusterPairs of Array.from(byRoot.values())) {
+      const ids = Array.from(new Set(clusterPairs.flatMap(p => [p.a, p.b]))).sort((x, y) => x - y);
+      const reasons = Array.from(new Set(clusterPairs.flatMap(p => p.reasons)));
+      const score = clusterPairs.reduce((sum, p) => sum + p.score, 0) / clusterPairs.length;
+      clusters.push({
+        scanId,
+        companyName: group[0].companyName,
+        isin: group[0].isin,
+        assetIds: JSON.stringify(ids),
+        score: Math.round(score * 1000) / 1000,
+        reasons: JSON.stringify(reasons),
+        pairs: JSON.stringify(clusterPairs),
+        status: "pending",
+      });
+    }
+  }
+  return clusters.sort((a, b) => b.score - a.score);
+}
+
+function completeness(asset: Asset): number {
+  return FILLABLE_FIELDS.filter(f => asset[f] != null && asset[f] !== "").length;
+}
+
+/** Prefers rows a reviewer has touched, then the most complete and most confidently valued. */
+export function suggestSurvivor(members: Asset[]): Asset | undefined {
+  return [...members].sort((a, b) =>
+    Number(b.manuallyEdited) - Number(a.manuallyEdited) ||
+    Number(b.reviewStatus === "approved") - Number(a.reviewStatus === "approved") ||
+    completeness(b) - completeness(a) ||
+    (b.valuationConfidence ?? 0) - (a.valuationConfidence ?? 0) ||
+    a.id - b.id
+  )[0];
+}
+
+/** Fills the survivor's empty fields from the merged rows, in the order given. */
+export function mergedAssetFields(survivor: Asset, merged: Asset[]): Partial<InsertAsset> {
+  const patch: Record<string, unknown> = {};
+  for (const field of FILLABLE_FIELDS) {
+    if (survivor[field] != null && survivor[field] !== "") continue;
+    const donor = merged.find(a => a[field] != null && a[field] !== "");
+    if (donor) patch[field] = donor[field];
+  }
+  const sources = Array.from(new Set([survivor, ...merged].map(a => a.dataSource).filter((s): s is string => !!s)));
+  if (sources.length > 0) patch.dataSource = sources.join("; ");
+  return { ...patch, manuallyEdited: true };
+}
+
+export function parseDuplicateCluster(cluster: DuplicateCluster): DuplicateClusterDetail {
+  const parse = <T>(value: string, fallback: T): T => {
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      return fallback;
+    }
+  };
+  return {
+    ...cluster,
+    asset_ids: parse<number[]>(cluster.assetIds, []),
+    reason_list: parse<DuplicateReason[]>(cluster.reasons, []),
+    pair_list: parse<DuplicatePair[]>(cluster.pairs, []),
+  };
+}
+
+export function isDedupScanRunning(): boolean {
+  return activeScanId !== null;
+}
+
+async function runDedupScan(scanId: number): Promise<void> {
+  try {
+    const assetList = await storage.getAssets();
+    // Yield between the scan and the insert so a large table doesn't hold up request handling.
+    await new Promise(resolve => setImmediate(resolve));
+    const clusters = findDuplicateClusters(assetList, scanId);
+    await storage.createDuplicateClusters(clusters);
+    await storage.updateDedupScan(scanId, {
+      status: "completed",
+      totalAssets: assetList.length,
+      clusterCount: clusters.length,
+      completedAt: new Date(),
+    });
+    console.log(`[Dedup] Scan ${scanId} found ${clusters.length} clusters across ${assetList.length} assets`);
+  } catch (err) {
+    console.error(`[Dedup] Scan ${scanId} failed:`, err);
+    await storage.updateDedupScan(scanId, { status: "failed", error: err instanceof Error ? err.message : String(err), completedAt: new Date() });
+  } finally {
+    activeScanId = null;
+  }
+}
+
+/** Starts a scan in the background and returns its row; only one scan runs at a time. */
+export async function startDedupScan() {
+  const scan = await storage.createDedupScan();
+  activeScanId = scan.id;
+  runDedupScan(scan.id);
+  return scan;
+}
+
+/**
+ * Merges the remaining cluster members into the survivor. The merged rows are kept as snapshots
+ * on asset_merges for provenance, and the company's totals and version history are refreshed.
+ */
+export async function mergeDuplicateCluster(cluster: DuplicateCluster, survivor: Asset, merged: Asset[]): Promise<Asset | undefined> {
+  const result = await storage.mergeAssets(survivor.id, merged.map(a => a.id), mergedAssetFields(survivor, merged), cluster.id);
+  if (result?.isin) {
+    await storage.refreshCompanyTotals(result.isin);
+    await recordAssetVersion(result.isin, result.companyName, "Duplicate merge");
+  }
+  console.log(`[Dedup] Merged ${merged.length} assets into ${survivor.id} (cluster ${cluster.id})`);
+  return result;
+}
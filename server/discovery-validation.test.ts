@@ -0,0 +1,33 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { validateDiscoveredAsset } from "./discovery-validation";
+
+test("validateDiscoveredAsset converts numbers written as strings", () => {
+  const { asset, issues } = validateDiscoveredAsset({ facility_name: "Gary Works", value_usd: "1,200,000", ownership_share: "45%" });
+  assert.equal(asset?.value_usd, 1200000);
+  assert.equal(asset?.ownership_share, 45);
+  assert.deepEqual(issues.fields, []);
+});
+
+test("validateDiscoveredAsset clamps scoring fields and rejects bad locations", () => {
+  const { asset, issues } = validateDiscoveredAsset({ facility_name: "Gary Works", valuation_confidence: 140, latitude: 95, longitude: 10 });
+  assert.equal(asset?.valuation_confidence, 100);
+  assert.equal(asset?.latitude, undefined);
+  assert.equal(asset?.longitude, undefined);
+  assert.deepEqual(
+    issues.fields.map(f => `${f.field} ${f.action}`).sort(),
+    ["latitude rejected", "longitude rejected", "valuation_confidence clamped"],
+  );
+});
+
+test("validateDiscoveredAsset rejects the 0,0 placeholder location", () => {
+  const { asset, issues } = validateDiscoveredAsset({ facility_name: "Gary Works", latitude: 0, longitude: 0 });
+  assert.equal(asset?.latitude, undefined);
+  assert.ok(issues.fields.some(f => f.field === "latitude" && f.action === "rejected"));
+});
+
+test("validateDiscoveredAsset drops an asset without a facility name", () => {
+  const { asset, issues } = validateDiscoveredAsset({ city: "Gary" });
+  assert.equal(asset, null);
+  assert.equal(issues.dropped, true);
+});
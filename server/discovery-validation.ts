@@ -0,0 +1,219 @@
+import { z } from "zod";
+
+const optionalText = z.string().trim().min(1).optional();
+
+const httpUrl = z
+  .string()
+  .trim()
+  .url("Not a valid URL")
+  .refine(u => /^https?:\/\//i.test(u), "URL must use http or https");
+
+export const discoveredAssetSchema = z.object({
+  facility_name: z.string({ required_error: "Facility name is required" }).trim().min(1, "Facility name is required"),
+  address: optionalText,
+  city: optionalText,
+  country: optionalText,
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  coordinate_certainty: z.number().int().min(1).max(100).optional(),
+  asset_type: optionalText,
+  value_usd: z.number().min(0, "Value cannot be negative").optional(),
+  size_factor: z.number().min(0.1).max(1).optional(),
+  geo_factor: z.number().min(0.5).max(1.5).optional(),
+  type_weight: z.number().min(0.5).max(1.5).optional(),
+  industry_factor: z.number().min(0.5).max(1.5).optional(),
+  valuation_confidence: z.number().int().min(1).max(100).optional(),
+  ownership_share: z.number().min(0).max(100, "Ownership cannot exceed 100%").optional(),
+  source_document: optionalText,
+  source_url: httpUrl.optional(),
+});
+
+export const discoveredCompanySchema = z.object({
+  name: z.string().trim().min(1, "Company name is required"),
+  isin: z.string().trim().toUpperCase().min(1, "ISIN is required"),
+  sector: z.string().trim().default(""),
+  // Checked against the taxonomy when the company is saved, so a bad code only loses the classification.
+  gics_code: z.union([z.string(), z.number()]).nullish().transform(v => (v === null || v === undefined ? null : String(v).trim())),
+  assets: z.array(discoveredAssetSchema),
+});
+
+export type DiscoveredAsset = z.infer<typeof discoveredAssetSchema>;
+export type DiscoveredCompany = z.infer<typeof discoveredCompanySchema>;
+
+type AssetField = keyof DiscoveredAsset;
+
+// Scoring factors the model tends to overshoot are pulled back into range; anything that would
+// misplace or misvalue the asset (coordinates, value, ownership, URLs) is rejected instead.
+const CLAMPED_FIELDS = new Set<AssetField>([
+  "coordinate_certainty",
+  "size_factor",
+  "geo_factor",
+  "type_weight",
+  "industry_factor",
+  "valuation_confidence",
+]);
+
+const NUMERIC_FIELDS = new Set<AssetField>([
+  "latitude",
+  "longitude",
+  "coordinate_certainty",
+  "value_usd",
+  "size_factor",
+  "geo_factor",
+  "type_weight",
+  "industry_factor",
+  "valuation_confidence",
+  "ownership_share",
+]);
+
+export interface FieldIssue {
+  field: AssetField;
+  action: "rejected" | "clamped";
+  value: unknown;
+  reason: string;
+}
+
+export interface AssetValidationIssues {
+  facility_name: string;
+  dropped: boolean;
+  fields: FieldIssue[];
+}
+
+export interface ValidationReport {
+  checked: number;
+  dropped: number;
+  rejected_fields: number;
+  clamped_fields: number;
+  retried: number;
+  repaired: number;
+  assets: AssetValidationIssues[];
+}
+
+export interface AssetValidationResult {
+  asset: DiscoveredAsset | null;
+  issues: AssetValidationIssues;
+}
+
+/** Models return numbers as "1,200,000", "$3.5", "45%" or null; strings sometimes as numbers. */
+function coerceField(field: AssetField, value: unknown): unknown {
+  if (value === null || value === undefined) return undefined;
+  if (NUMERIC_FIELDS.has(field)) {
+    if (typeof value === "string") {
+      const cleaned = value.replace(/[$,%\s]/g, "");
+      return cleaned === "" ? undefined : Number(cleaned);
+    }
+    return value;
+  }
+  if (typeof value === "number") return String(value);
+  if (typeof value === "string" && value.trim() === "") return undefined;
+  return value;
+}
+
+function clampToSchema(schema: z.ZodTypeAny, value: number): number | undefined {
+  const def = (schema instanceof z.ZodOptional ? schema.unwrap() : schema) as z.ZodNumber;
+  let clamped = def.isInt ? Math.round(value) : value;
+  if (def.minValue !== null) clamped = Math.max(clamped, def.minValue);
+  if (def.maxValue !== null) clamped = Math.min(clamped, def.maxValue);
+  return def.safeParse(clamped).success ? clamped : undefined;
+}
+
+/** Validates one asset field by field so a bad latitude doesn't cost the whole row. */
+export function validateDiscoveredAsset(raw: unknown): AssetValidationResult {
+  const input = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const shape = discoveredAssetSchema.shape;
+  const asset: Record<string, unknown> = {};
+  const fields: FieldIssue[] = [];
+
+  for (const field of Object.keys(shape) as AssetField[]) {
+    const value = coerceField(field, input[field]);
+    const parsed = shape[field].safeParse(value);
+    if (parsed.success) {
+      if (parsed.data !== undefined) asset[field] = parsed.data;
+      continue;
+    }
+    const issue = parsed.error.issues[0];
+    if (CLAMPED_FIELDS.has(field) && typeof value === "number" && Number.isFinite(value)) {
+      const clamped = clampToSchema(shape[field], value);
+      if (clamped !== undefined) {
+        asset[field] = clamped;
+        fields.push({ field, action: "clamped", value: input[field], reason: `${issue.message}; clamped to ${clamped}` });
+        continue;
+      }
+    }
+    fields.push({ field, action: "rejected", value: input[field], reason: issue.message });
+  }
+
+  // 0,0 sits in the Gulf of Guinea; models emit it when they don't know the location.
+  if (asset.latitude === 0 && asset.longitude === 0) {
+    delete asset.latitude;
+    delete asset.longitude;
+    const reason = "0,0 is a placeholder, not a facility location";
+    fields.push({ field: "latitude", action: "rejected", value: 0, reason }, { field: "longitude", action: "rejected", value: 0, reason });
+  }
+  if ((asset.latitude === undefined) !== (asset.longitude === undefined)) {
+    const kept: AssetField = asset.latitude === undefined ? "longitude" : "latitude";
+    fields.push({ field: kept, action: "rejected", value: asset[kept], reason: "Coordinate pair is incomplete" });
+    delete asset.latitude;
+    delete asset.longitude;
+  }
+
+  const name = typeof input.facility_name === "string" ? input.facility_name.trim() : "";
+  const dropped = asset.facility_name === undefined;
+  return {
+    asset: dropped ? null : asset as DiscoveredAsset,
+    issues: { facility_name: name || "(unnamed)", dropped, fields },
+  };
+}
+
+export function needsRetry(issues: AssetValidationIssues): boolean {
+  return issues.dropped || issues.fields.some(f => f.action === "rejected");
+}
+
+export function validateDiscoveredAssets(rawAssets: unknown[]): AssetValidationResult[] {
+  return rawAssets.map(validateDiscoveredAsset);
+}
+
+/** Checks the company envelope; assets are validated separately so one bad row can't fail the response. */
+export function parseDiscoveredCompanyEnvelope(raw: unknown) {
+  return discoveredCompanySchema
+    .extend({ isin: z.string().trim().toUpperCase().nullish(), assets: z.array(z.unknown()) })
+    .safeParse(raw);
+}
+
+export function summarizeValidation(results: AssetValidationResult[], retried: number = 0, repaired: number = 0): ValidationReport {
+  const withIssues = results.map(r => r.issues).filter(i => i.dropped || i.fields.length > 0);
+  const allFields = withIssues.flatMap(i => i.fields);
+  return {
+    checked: results.length,
+    dropped: withIssues.filter(i => i.dropped).length,
+    rejected_fields: allFields.filter(f => f.action === "rejected").length,
+    clamped_fields: allFields.filter(f => f.action === "clamped").length,
+    retried,
+    repaired,
+    assets: withIssues,
+  };
+}
+
+export function mergeValidationReports(...reports: Array<ValidationReport | undefined>): ValidationReport {
+  const present = reports.filter((r): r is ValidationReport => !!r);
+  const sum = (key: keyof Omit<ValidationReport, "assets">) => present.reduce((total, r) => total + r[key], 0);
+  return {
+    checked: sum("checked"),
+    dropped: sum("dropped"),
+    rejected_fields: sum("rejected_fields"),
+    clamped_fields: sum("clamped_fields"),
+    retried: sum("retried"),
+    repaired: sum("repaired"),
+    assets: present.flatMap(r => r.assets),
+  };
+}
+
+/** Lists each failing asset with its raw JSON and the reasons, for the targeted retry prompt. */
+export function describeValidationFailures(batch: Array<{ raw: unknown; issues: AssetValidationIssues }>): string {
+  return batch.map((item, i) => {
+    const problems = item.issues.fields
+      .filter(f => f.action === "rejected")
+      .map(f => `  - ${f.field}: ${f.reason} (got ${JSON.stringify(f.value) ?? "nothing"})`);
+    return `${i + 1}. ${JSON.stringify(item.raw)}\n${problems.join("\n")}`;
+  }).join("\n\n");
+}
@@ -0,0 +1,42 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import { discoverCompany, runSupplementaryPass, type DiscoveryPhase } from "./discovery";
+
+// Fully offline: the fake provider and the fixtures search backend read data/, nothing else is on.
+process.env.LLM_FAKE_FIXTURES_DIR = path.resolve("data", "llm-fixtures");
+process.env.SEARCH_FIXTURES_DIR = path.resolve("data", "search-fixtures");
+process.env.SEARCH_BACKENDS = "fixtures";
+process.env.CASSETTE_MODE = "off";
+delete process.env.SEC_FILINGS_DIR;
+delete process.env.SEC_EDGAR_USER_AGENT;
+
+test("discoverCompany merges Pass 1 and Pass 2 from fixtures and drops the renamed duplicate", async () => {
+  const phases: DiscoveryPhase[] = [];
+  const result = await discoverCompany("Acme Industries", "fake", "US00ACME0004", phase => phases.push(phase), undefined, "fixtures");
+
+  assert.equal(result.passCount, 2);
+  assert.equal(result.webResearchUsed, true);
+  assert.equal(result.totalCostUsd, 0);
+  assert.equal(result.returnedIsin, "US00ACME0004");
+  assert.deepEqual(result.company.assets.map(a => a.facility_name), [
+    "Acme Industries Headquarters",
+    "Acme Gary Steel Works",
+    "Acme Monterrey Assembly",
+    "Acme Rotterdam Distribution Center",
+  ]);
+  assert.deepEqual(phases, ["web_research", "web_research_done", "pass1", "pass1_done", "pass2", "pass2_done"]);
+});
+
+test("runSupplementaryPass keeps only assets the first model missed", async () => {
+  const discovered = await discoverCompany("Acme Industries", "fake", "US00ACME0004", undefined, undefined, "fixtures");
+  const existing = discovered.company.assets;
+
+  const supplementary = await runSupplementaryPass("Acme Industries", "US00ACME0004", "Industrials", existing, "fake");
+  assert.deepEqual(supplementary.additionalAssets.map(a => a.facility_name), ["Acme Pittsburgh R&D Center"]);
+  assert.equal(supplementary.costUsd, 0);
+
+  const merged = [...existing, ...supplementary.additionalAssets];
+  assert.equal(merged.length, 5);
+  assert.equal(new Set(merged.map(a => `${a.city}-${a.asset_type}`)).size, merged.length);
+});
@@ -1,7 +1,26 @@
 import { storage } from "./storage";
-import type { InsertCompany, InsertAsset } from "@shared/schema";
-import { callLLM, type LLMResponse } from "./llm-providers";
-import { searchCompanyAssets, isSerperAvailable } from "./serper";
+import { attributableValue, isValidIsin, type InsertCompany, type InsertAsset, type Asset, type JobEventType } from "@shared/schema";
+import { callLLM, getProviderLabel, type LLMResponse } from "./llm-providers";
+import { searchCompanyAssets, formatWebResearch, type WebResearch } from "./web-research";
+import { companyNamesMatch } from "./company-names";
+import { getFilingSource, findCikMapping, getAnnualFiling, formatFilingContext, citeFilingAssets, summarizeFiling, type FilingExtract, type FilingSummary } from "./sec-filings";
+import { resolveCompanyClassification, getGicsSector, getIndustryFactor, formatGicsTaxonomyForPrompt } from "./sectors";
+import { isWebSearchAvailable } from "./search-backends";
+import { recordAssetVersion } from "./asset-history";
+import { haversineDistanceKm } from "./spatial";
+import {
+  validateDiscoveredAssets,
+  validateDiscoveredAsset,
+  parseDiscoveredCompanyEnvelope,
+  summarizeValidation,
+  mergeValidationReports,
+  describeValidationFailures,
+  needsRetry,
+  type DiscoveredAsset,
+  type DiscoveredCompany,
+  type AssetValidationIssues,
+  type ValidationReport,
+} from "./discovery-validation";
 import { jsonrepair } from "jsonrepair";
 
 function repairJSON(raw: string): string {
@@ -39,17 +58,7 @@ function repairJSON(raw: string): string {
   return raw;
 }
 
-function haversineDistanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371;
-  const dLat = (lat2 - lat1) * Math.PI / 180;
-  const dLon = (lon2 - lon1) * Math.PI / 180;
-  const a = Math.sin(dLat / 2) ** 2 +
-    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-    Math.sin(dLon / 2) ** 2;
-  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-}
-
-function isProximityDuplicate(
+export function isProximityDuplicate(
   newAsset: { latitude?: number; longitude?: number; value_usd?: number; asset_type?: string },
   existing: { latitude?: number; longitude?: number; value_usd?: number; asset_type?: string },
   maxDistanceKm: number = 5,
@@ -97,6 +106,16 @@ function isProximityDuplicate(
   return true;
 }
 
+/** Adapts a stored asset row to the discovery-shaped input `isProximityDuplicate` expects. */
+export function toProximityInput(asset: Asset) {
+  return {
+    latitude: asset.latitude ?? undefined,
+    longitude: asset.longitude ?? undefined,
+    value_usd: asset.valueUsd ?? undefined,
+    asset_type: asset.assetType ?? undefined,
+  };
+}
+
 function deduplicateAssets(
   newAssets: DiscoveredAsset[],
   existingAssets: DiscoveredAsset[],
@@ -127,7 +146,7 @@ function deduplicateAssets(
     );
     if (proxMatch) {
       proxDups++;
-      console.log(`[Dedup${label}] Proximity duplicate: "${newAsset.facility_name}" ~= "${proxMatch.facility_name}" (${haversineDistanceKm(newAsset.latitude, newAsset.longitude, proxMatch.latitude!, proxMatch.longitude!).toFixed(1)}km apart)`);
+      console.log(`[Dedup${label}] Proximity duplicate: "${newAsset.facility_name}" ~= "${proxMatch.facility_name}" (${haversineDistanceKm(newAsset.latitude!, newAsset.longitude!, proxMatch.latitude!, proxMatch.longitude!).toFixed(1)}km apart)`);
       continue;
     }
 
@@ -143,33 +162,6 @@ function deduplicateAssets(
   return unique;
 }
 
-interface DiscoveredAsset {
-  facility_name: string;
-  address: string;
-  city: string;
-  country: string;
-  latitude: number;
-  longitude: number;
-  coordinate_certainty: number;
-  asset_type: string;
-  value_usd: number;
-  size_factor: number;
-  geo_factor: number;
-  type_weight: number;
-  industry_factor: number;
-  valuation_confidence: number;
-  ownership_share: number;
-  source_document?: string;
-  source_url?: string;
-}
-
-interface DiscoveredCompany {
-  name: string;
-  isin: string;
-  sector: string;
-  assets: DiscoveredAsset[];
-}
-
 export interface DiscoveryResult {
   company: DiscoveredCompany;
   llmResponse: LLMResponse;
@@ -182,6 +174,49 @@ export interface MultiPassDiscoveryResult {
   totalCostUsd: number;
   passCount: number;
   webResearchUsed: boolean;
+  webResearch: WebResearch | null;
+  filing: FilingSummary | null;
+  validation: ValidationReport;
+  returnedIsin: string | null;
+  // Ensemble only: the ISIN each model that answered returned, keyed by provider.
+  returnedIsins?: Record<string, string | null>;
+}
+
+export interface GatheredWebResearch {
+  context: string;
+  research: WebResearch | null;
+}
+
+export interface GatheredFiling {
+  context: string;
+  filing: FilingExtract | null;
+}
+
+/** How many ensemble models found a merged asset, and how far their estimates spread. */
+export interface AssetConsensus {
+  providers: string[];
+  count: number;
+  total: number;
+  valueLowUsd?: number;
+  valueHighUsd?: number;
+  coordinateSpreadKm?: number;
+}
+
+export type ConsensusAsset = DiscoveredAsset & { consensus?: AssetConsensus };
+
+export type IsinQuarantineReason = "isin_mismatch" | "invalid_isin" | "isin_conflict" | "isin_disagreement";
+
+/** A discovery result held back from saving because its ISIN can't be trusted. */
+export interface IsinQuarantine {
+  reason: IsinQuarantineReason;
+  message: string;
+  requested_name: string;
+  requested_isin: string | null;
+  returned_isin: string | null;
+  returned_name: string;
+  existing_company?: string;
+  returned_isins?: Record<string, string | null>;
+  company: DiscoveredCompany;
 }
 
 const ASSET_FIELDS_DESCRIPTION = `For each asset, provide:
@@ -206,8 +241,9 @@ const ASSET_FIELDS_DESCRIPTION = `For each asset, provide:
 const DISCOVERY_PROMPT = `You are an expert corporate analyst specializing in comprehensive physical asset discovery for global corporations. Given a company name, research and identify ALL significant physical assets they own or operate worldwide. Be as thorough and complete as possible — do not limit yourself to a small number. Include every major facility you know about.
 
 For each company, provide:
-1. The company's ISIN code (International Securities Identification Number - 12 characters). If you don't know the exact ISIN, provide your best estimate using the standard format (country code + 9 alphanumeric + check digit).
-2. The company's sector (e.g., Technology, Energy, Industrials, Healthcare, Consumer Staples, Financials, Materials, Utilities, etc.)
+1. The company's ISIN code (International Securities Identification Number - 12 characters: country code + 9 alphanumeric + check digit). If you are not certain of the exact ISIN, return null — do not guess, a wrong ISIN is worse than none.
+2. The company's GICS classification: gics_code is the 4-digit industry group code from the list below (or the 2-digit sector code if unsure of the group), and sector is that sector's name:
+${formatGicsTaxonomyForPrompt()}
 3. A comprehensive list of ALL significant physical assets/facilities. Systematically go through EVERY category below and list all known sites for each:
    - Corporate: Headquarters, major regional/country offices
    - Extraction: Mines (open pit, underground), quarries, wells, drilling platforms
@@ -228,6 +264,7 @@ Respond with valid JSON only. The response must be a JSON object with the follow
   "name": "Full Official Company Name",
   "isin": "XX0000000000",
   "sector": "Sector Name",
+  "gics_code": "0000",
   "assets": [...]
 }`;
 
@@ -258,70 +295,280 @@ Respond with valid JSON only:
   "additional_assets": [...]
 }`;
 
-export type ProgressCallback = (phase: string, detail?: string) => void;
+const VALIDATION_RETRY_PROMPT = `You are correcting physical asset records that failed validation. Each asset below is followed by the fields that were rejected and why.
+
+Return exactly one corrected asset per input asset, in the same order, using the same field names. Keep the facility_name unless it was missing. Fix only the rejected fields; if you cannot determine a correct value for a field, omit it rather than guessing. Never use 0,0 as a placeholder location.
+
+${ASSET_FIELDS_DESCRIPTION}
+
+Respond with valid JSON only:
+{
+  "assets": [...]
+}`;
+
+/** Tokens and cost spent by the step a progress event reports on. */
+export interface ProgressUsage {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+/** The job events a discovery run reports through its progress callback. */
+export type DiscoveryPhase = Extract<
+  JobEventType,
+  "web_research" | "web_research_done" | "filing" | "filing_done" | "pass1" | "pass1_done" | "pass2" | "pass2_done" | "pass2_failed"
+>;
+
+export type ProgressCallback = (phase: DiscoveryPhase, detail?: string, usage?: ProgressUsage) => void;
+
+/** A discovery step that failed after the provider had already billed for it. */
+export class DiscoveryPassError extends Error {
+  constructor(message: string, readonly usage: ProgressUsage) {
+    super(message);
+    this.name = "DiscoveryPassError";
+  }
+}
+
+function parseLLMJson(content: string): any {
+  try {
+    return JSON.parse(content);
+  } catch {
+    return JSON.parse(repairJSON(content));
+  }
+}
+
+interface ValidatedAssets {
+  assets: DiscoveredAsset[];
+  validation: ValidationReport;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
 
-export async function discoverCompany(companyName: string, providerId: string = "openai", isin?: string, onProgress?: ProgressCallback, apiKeyOverride?: string): Promise<MultiPassDiscoveryResult> {
-  let webContext = "";
-  let webResearchUsed = false;
+const rejectedFieldCount = (issues: AssetValidationIssues) =>
+  issues.dropped ? Infinity : issues.fields.filter(f => f.action === "rejected").length;
 
-  if (isSerperAvailable()) {
+/**
+ * Validates a batch of model-returned assets and, when any field is rejected, sends just the
+ * failing assets back to the model once with the reasons. A corrected asset replaces the
+ * original only when it has fewer rejected fields.
+ */
+async function validateWithRetry(
+  rawAssets: unknown[],
+  companyName: string,
+  providerId: string,
+  apiKeyOverride?: string,
+  label: string = "",
+): Promise<ValidatedAssets> {
+  const results = validateDiscoveredAssets(rawAssets);
+  const failing = results
+    .map((result, index) => ({ index, raw: rawAssets[index], issues: result.issues }))
+    .filter(f => needsRetry(f.issues));
+  let inputTokens = 0, outputTokens = 0, costUsd = 0, repaired = 0;
+
+  if (failing.length > 0) {
+    console.log(`[Validation${label}] ${failing.length}/${rawAssets.length} assets failed validation for ${companyName}, retrying batch`);
     try {
-      onProgress?.("web_research", `Searching web for ${companyName} assets...`);
-      console.log(`[Discovery v2] Starting web research for ${companyName}`);
-      webContext = await searchCompanyAssets(companyName, isin);
-      if (webContext.length > 0) {
-        webResearchUsed = true;
-        console.log(`[Discovery v2] Web research complete for ${companyName}: ${webContext.length} chars of context`);
-        onProgress?.("web_research_done", `Web research gathered ${webContext.length} chars of context`);
-      }
+      const userPrompt = `Company: ${companyName}\n\n${failing.length} assets failed validation:\n\n${describeValidationFailures(failing)}`;
+      const response = await callLLM(providerId, VALIDATION_RETRY_PROMPT, userPrompt, apiKeyOverride);
+      inputTokens = response.inputTokens;
+      outputTokens = response.outputTokens;
+      costUsd = response.costUsd;
+      const corrected: unknown[] = response.content ? parseLLMJson(response.content).assets || [] : [];
+      failing.forEach((f, i) => {
+        if (i >= corrected.length) return;
+        const retried = validateDiscoveredAsset(corrected[i]);
+        if (rejectedFieldCount(retried.issues) < rejectedFieldCount(f.issues)) {
+          results[f.index] = retried;
+          if (!needsRetry(retried.issues)) repaired++;
+        }
+      });
+      console.log(`[Validation${label}] Retry repaired ${repaired}/${failing.length} assets for ${companyName}`);
     } catch (err) {
-      console.warn(`[Discovery v2] Web research failed for ${companyName}:`, err instanceof Error ? err.message : err);
-      webContext = "";
+      console.warn(`[Validation${label}] Retry failed for ${companyName}, keeping validated fields only:`, err instanceof Error ? err.message : err);
     }
-  } else {
-    console.log(`[Discovery v2] Serper not available, skipping web research for ${companyName}`);
   }
 
+  return {
+    assets: results.map(r => r.asset).filter((a): a is DiscoveredAsset => a !== null),
+    validation: summarizeValidation(results, failing.length, repaired),
+    inputTokens,
+    outputTokens,
+    costUsd,
+  };
+}
+
+export interface Pass1Result {
+  company: DiscoveredCompany;
+  returnedIsin: string | null;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  validation: ValidationReport;
+}
+
+/**
+ * Gathers web search snippets for the prompt, along with the searches behind them so the run can
+ * keep a record; the context is "" when research is off or fails.
+ */
+export async function gatherWebResearch(
+  companyName: string,
+  isin?: string,
+  onProgress?: ProgressCallback,
+  searchBackend?: string | null,
+  gicsCode?: string | null,
+): Promise<GatheredWebResearch> {
+  if (!isWebSearchAvailable()) {
+    console.log(`[Discovery v2] No web search backend configured, skipping web research for ${companyName}`);
+    return { context: "", research: null };
+  }
+  try {
+    onProgress?.("web_research", `Searching web for ${companyName} assets...`);
+    console.log(`[Discovery v2] Starting web research for ${companyName}`);
+    const research = await searchCompanyAssets(companyName, isin, searchBackend, gicsCode);
+    const context = formatWebResearch(research);
+    if (context.length > 0) {
+      const cached = research.queries.filter(q => q.cached).length;
+      console.log(`[Discovery v2] Web research complete for ${companyName}: ${context.length} chars of context (${cached}/${research.queries.length} searches cached)`);
+      onProgress?.("web_research_done", `Web research gathered ${context.length} chars of context (${cached}/${research.queries.length} searches from cache)`);
+    }
+    return { context, research };
+  } catch (err) {
+    console.warn(`[Discovery v2] Web research failed for ${companyName}:`, err instanceof Error ? err.message : err);
+    return { context: "", research: null };
+  }
+}
+
+/**
+ * Quotes the properties passages of the company's latest 10-K/20-F for the prompt, when a filing
+ * source is configured and the company maps to a CIK; the context is "" otherwise or on failure.
+ */
+export async function gatherFilingContext(companyName: string, isin?: string, onProgress?: ProgressCallback): Promise<GatheredFiling> {
+  if (!getFilingSource()) return { context: "", filing: null };
+  try {
+    const mapping = await findCikMapping(companyName, isin);
+    if (!mapping) {
+      console.log(`[Discovery v2] No CIK mapping for ${companyName}, skipping SEC filings`);
+      return { context: "", filing: null };
+    }
+    onProgress?.("filing", `Reading the latest annual filing for ${companyName} (CIK ${mapping.cik})...`);
+    const filing = await getAnnualFiling(mapping.cik);
+    const context = filing ? formatFilingContext(filing) : "";
+    if (!filing || !context) {
+      console.log(`[Discovery v2] No properties passages in SEC filings for ${companyName} (CIK ${mapping.cik})`);
+      onProgress?.("filing_done", filing ? `Form ${filing.form} filed ${filing.filingDate} has no properties passages` : "No 10-K or 20-F on file");
+      return { context: "", filing: null };
+    }
+    console.log(`[Discovery v2] Quoting Form ${filing.form} filed ${filing.filingDate} for ${companyName}: ${context.length} chars`);
+    onProgress?.("filing_done", `Form ${filing.form} filed ${filing.filingDate}: ${filing.passages.map(p => p.heading).join("; ")}`);
+    return { context, filing };
+  } catch (err) {
+    console.warn(`[Discovery v2] SEC filings failed for ${companyName}:`, err instanceof Error ? err.message : err);
+    return { context: "", filing: null };
+  }
+}
+
+/** Pass 1: asks one provider for the company's assets and validates them (with one targeted retry). */
+export async function runDiscoveryPass1(
+  companyName: string,
+  providerId: string,
+  isin: string | undefined,
+  webContext: string,
+  filingContext: string = "",
+  apiKeyOverride?: string,
+): Promise<Pass1Result> {
   let userPrompt = `Discover and analyze the physical assets of: ${companyName}`;
   if (isin) {
     userPrompt += `\n\nIMPORTANT: This company has the ISIN code ${isin}. Use this ISIN to ensure you are researching the correct company. The ISIN must match exactly in your response.`;
   }
 
+  if (filingContext) {
+    userPrompt += `\n\n--- SEC FILING EXCERPTS ---\nThe following passages are quoted from the company's latest annual report filed with the SEC, a primary source. Include every property and facility they list, and for those assets set source_document to the form and filing date given below and source_url to its URL:\n\n${filingContext}\n--- END SEC FILING EXCERPTS ---`;
+  }
+
   if (webContext) {
     userPrompt += `\n\n--- WEB RESEARCH DATA ---\nThe following information was gathered from recent web searches about this company's physical assets, facilities, and financial filings. Use this data to improve accuracy of facility names, locations, coordinates, and valuations. Cross-reference with your knowledge and prioritize factual data from these sources:\n\n${webContext}\n--- END WEB RESEARCH DATA ---`;
   }
 
-  onProgress?.("pass1", `Running Pass 1: Initial asset discovery for ${companyName}...`);
   console.log(`[Discovery v2] Starting Pass 1 for ${companyName} with provider ${providerId}`);
   const pass1Response = await callLLM(providerId, DISCOVERY_PROMPT, userPrompt, apiKeyOverride);
 
+  const spent: ProgressUsage = { inputTokens: pass1Response.inputTokens, outputTokens: pass1Response.outputTokens, costUsd: pass1Response.costUsd };
   const content = pass1Response.content;
   if (!content) {
-    throw new Error(`No response from AI for company: ${companyName}`);
+    throw new DiscoveryPassError(`No response from AI for company: ${companyName}`, spent);
   }
 
-  let parsed: DiscoveredCompany;
+  let raw: unknown;
   try {
-    parsed = JSON.parse(content) as DiscoveredCompany;
+    raw = JSON.parse(content);
   } catch (parseErr) {
     console.warn(`[Discovery v2] JSON parse failed for ${companyName}, attempting repair...`);
-    const repaired = repairJSON(content);
-    parsed = JSON.parse(repaired) as DiscoveredCompany;
+    try {
+      raw = JSON.parse(repairJSON(content));
+    } catch (repairErr) {
+      throw new DiscoveryPassError(repairErr instanceof Error ? repairErr.message : String(repairErr), spent);
+    }
     console.log(`[Discovery v2] JSON repair succeeded for ${companyName}`);
   }
-  if (!parsed.name || !parsed.isin || !parsed.assets || !Array.isArray(parsed.assets)) {
-    throw new Error(`Invalid response structure for company: ${companyName}`);
+  const envelope = parseDiscoveredCompanyEnvelope(raw);
+  if (!envelope.success) {
+    const problems = envelope.error.issues.map(i => `${i.path.join(".") || "response"}: ${i.message}`).join("; ");
+    throw new DiscoveryPassError(`Invalid response structure for company: ${companyName} (${problems})`, spent);
   }
 
-  console.log(`[Discovery v2] Pass 1 complete for ${companyName}: ${parsed.assets.length} assets found`);
-  onProgress?.("pass1_done", `Pass 1 found ${parsed.assets.length} assets for ${companyName}`);
+  const validated = await validateWithRetry(envelope.data.assets, companyName, providerId, apiKeyOverride, ` Pass1`);
+  const returnedIsin = envelope.data.isin || null;
+  const validation = validated.validation;
+  console.log(`[Discovery v2] Pass 1 complete for ${companyName} (${providerId}): ${validated.assets.length} assets found (${validation.rejected_fields} fields rejected, ${validation.clamped_fields} clamped, ${validation.dropped} assets dropped)`);
+  return {
+    company: { ...envelope.data, isin: returnedIsin || isin || "", assets: validated.assets },
+    returnedIsin,
+    inputTokens: pass1Response.inputTokens + validated.inputTokens,
+    outputTokens: pass1Response.outputTokens + validated.outputTokens,
+    costUsd: pass1Response.costUsd + validated.costUsd,
+    validation,
+  };
+}
+
+export async function discoverCompany(
+  companyName: string,
+  providerId: string = "openai",
+  isin?: string,
+  onProgress?: ProgressCallback,
+  apiKeyOverride?: string,
+  searchBackend?: string | null,
+  gicsCode?: string | null,
+): Promise<MultiPassDiscoveryResult> {
+  const [{ context: webContext, research: webResearch }, { context: filingContext, filing }] = await Promise.all([
+    gatherWebResearch(companyName, isin, onProgress, searchBackend, gicsCode),
+    gatherFilingContext(companyName, isin, onProgress),
+  ]);
+  const webResearchUsed = webContext.length > 0;
 
-  let totalInputTokens = pass1Response.inputTokens;
-  let totalOutputTokens = pass1Response.outputTokens;
-  let totalCostUsd = pass1Response.costUsd;
+  onProgress?.("pass1", `Running Pass 1: Initial asset discovery for ${companyName}...`);
+  const pass1 = await runDiscoveryPass1(companyName, providerId, isin, webContext, filingContext, apiKeyOverride);
+
+  let totalInputTokens = pass1.inputTokens;
+  let totalOutputTokens = pass1.outputTokens;
+  let totalCostUsd = pass1.costUsd;
   let passCount = 1;
+  let validation = pass1.validation;
+  const returnedIsin = pass1.returnedIsin;
+  const parsed = pass1.company;
+
+  onProgress?.("pass1_done", `Pass 1 found ${parsed.assets.length} assets for ${companyName}`, {
+    inputTokens: pass1.inputTokens,
+    outputTokens: pass1.outputTokens,
+    costUsd: pass1.costUsd,
+  });
+  const pass2Usage = (): ProgressUsage => ({
+    inputTokens: totalInputTokens - pass1.inputTokens,
+    outputTokens: totalOutputTokens - pass1.outputTokens,
+    costUsd: totalCostUsd - pass1.costUsd,
+  });
 
-  const pass2UserPrompt = buildSupplementaryPrompt(parsed, webContext);
+  const pass2UserPrompt = buildSupplementaryPrompt(parsed, webContext, filingContext);
 
   try {
     onProgress?.("pass2", `Running Pass 2: Gap-filling review for ${companyName} (${parsed.assets.length} assets so far)...`);
@@ -340,7 +587,12 @@ export async function discoverCompany(companyName: string, providerId: string =
         console.warn(`[Discovery v2] Pass 2 JSON parse failed for ${companyName}, attempting repair...`);
         supplementary = JSON.parse(repairJSON(pass2Response.content));
       }
-      const additionalAssets: DiscoveredAsset[] = supplementary.additional_assets || supplementary.assets || [];
+      const pass2Validated = await validateWithRetry(supplementary.additional_assets || supplementary.assets || [], companyName, providerId, apiKeyOverride, ` Pass2`);
+      totalInputTokens += pass2Validated.inputTokens;
+      totalOutputTokens += pass2Validated.outputTokens;
+      totalCostUsd += pass2Validated.costUsd;
+      validation = mergeValidationReports(validation, pass2Validated.validation);
+      const additionalAssets = pass2Validated.assets;
 
       console.log(`[Discovery v2] Pass 2 returned ${additionalAssets.length} additional assets for ${companyName}`);
 
@@ -348,17 +600,18 @@ export async function discoverCompany(companyName: string, providerId: string =
         const uniqueNew = deduplicateAssets(additionalAssets, parsed.assets, ` Pass2 ${companyName}`);
         parsed.assets.push(...uniqueNew);
         console.log(`[Discovery v2] Pass 2 added ${uniqueNew.length} unique assets for ${companyName} (${additionalAssets.length - uniqueNew.length} duplicates filtered)`);
-        onProgress?.("pass2_done", `Pass 2 added ${uniqueNew.length} new assets (total: ${parsed.assets.length})`);
+        onProgress?.("pass2_done", `Pass 2 added ${uniqueNew.length} new assets (total: ${parsed.assets.length})`, pass2Usage());
       } else {
-        onProgress?.("pass2_done", `Pass 2 found no additional assets`);
+        onProgress?.("pass2_done", `Pass 2 found no additional assets`, pass2Usage());
       }
     }
   } catch (err) {
     console.warn(`[Discovery v2] Supplementary pass failed for ${companyName}, using pass 1 results only:`, err instanceof Error ? err.message : err);
-    onProgress?.("pass2_failed", `Pass 2 failed, using ${parsed.assets.length} assets from Pass 1`);
+    onProgress?.("pass2_failed", `Pass 2 failed, using ${parsed.assets.length} assets from Pass 1`, pass2Usage());
   }
 
-  console.log(`[Discovery v2] Discovery complete for ${companyName}: ${parsed.assets.length} total assets, ${passCount} passes, cost $${totalCostUsd.toFixed(4)}`);
+  const citedAssets = filing ? citeFilingAssets(parsed.assets, filing) : 0;
+  console.log(`[Discovery v2] Discovery complete for ${companyName}: ${parsed.assets.length} total assets${filing ? ` (${citedAssets} cited to Form ${filing.form})` : ""}, ${passCount} passes, cost $${totalCostUsd.toFixed(4)}`);
   return {
     company: parsed,
     totalInputTokens,
@@ -366,10 +619,67 @@ export async function discoverCompany(companyName: string, providerId: string =
     totalCostUsd,
     passCount,
     webResearchUsed,
+    webResearch,
+    filing: filing ? summarizeFiling(filing, citedAssets) : null,
+    validation,
+    returnedIsin,
   };
 }
 
-function buildSupplementaryPrompt(company: DiscoveredCompany, webContext: string): string {
+/**
+ * Decides whether a discovery result can be saved under its ISIN. Ensemble models must not return
+ * different valid ISINs. A user-supplied ISIN must come back unchanged; otherwise the returned ISIN
+ * must pass the check digit and must not belong to a differently named company already in the
+ * database, whose assets saving would replace.
+ */
+export async function checkDiscoveredIsin(
+  requestedName: string,
+  requestedIsin: string | undefined,
+  result: MultiPassDiscoveryResult,
+): Promise<IsinQuarantine | null> {
+  const { company, returnedIsin } = result;
+  const base = {
+    requested_name: requestedName,
+    requested_isin: requestedIsin || null,
+    returned_isin: returnedIsin,
+    returned_name: company.name,
+    company,
+  };
+
+  const byIsin = new Map<string, string[]>();
+  for (const [provider, returned] of Object.entries(result.returnedIsins ?? {})) {
+    if (!returned || !isValidIsin(returned)) continue;
+    byIsin.set(returned, [...(byIsin.get(returned) ?? []), provider]);
+  }
+  if (byIsin.size > 1) {
+    const votes = Array.from(byIsin, ([candidate, providers]) => `${candidate} (${providers.join(", ")})`).join(", ");
+    return { ...base, reason: "isin_disagreement", returned_isins: result.returnedIsins, message: `Models returned different ISINs for ${company.name}: ${votes}` };
+  }
+
+  if (requestedIsin) {
+    if (returnedIsin && returnedIsin !== requestedIsin) {
+      return { ...base, reason: "isin_mismatch", message: `Model returned ISIN ${returnedIsin} for requested ${requestedIsin} (${company.name})` };
+    }
+    return null;
+  }
+
+  if (!isValidIsin(company.isin)) {
+    return { ...base, reason: "invalid_isin", message: returnedIsin ? `Model returned invalid ISIN ${returnedIsin}` : "Model did not return an ISIN" };
+  }
+
+  const existing = await storage.getCompanyByIsin(company.isin);
+  if (existing && !companyNamesMatch(existing.name, requestedName) && !companyNamesMatch(existing.name, company.name)) {
+    return {
+      ...base,
+      reason: "isin_conflict",
+      existing_company: existing.name,
+      message: `ISIN ${company.isin} already belongs to ${existing.name}`,
+    };
+  }
+  return null;
+}
+
+function buildSupplementaryPrompt(company: DiscoveredCompany, webContext: string, filingContext: string): string {
   const assetSummary = company.assets.map((a, i) =>
     `${i + 1}. ${a.facility_name} (${a.asset_type}) - ${a.city}, ${a.country} [${a.ownership_share ?? 100}% owned]`
   ).join("\n");
@@ -402,6 +712,10 @@ Review this list carefully. Identify significant physical assets that are MISSIN
 - R&D and technology centers in key markets
 - Processing and refining facilities that may have been overlooked`;
 
+  if (filingContext) {
+    prompt += `\n\n--- SEC FILING EXCERPTS ---\nThese passages from the company's latest annual SEC filing are a primary source. Add any property they list that is not yet captured, citing the filing as source_document and source_url:\n\n${filingContext}\n--- END SEC FILING EXCERPTS ---`;
+  }
+
   if (webContext) {
     prompt += `\n\n--- WEB RESEARCH DATA ---\nUse the following web research to identify any assets mentioned but not yet captured in the list above:\n\n${webContext}\n--- END WEB RESEARCH DATA ---`;
   }
@@ -419,8 +733,10 @@ export function normalizeAssetValues(discovered: DiscoveredCompany, totalValue?:
 
   const scaleFactor = totalValue / aiTotal;
 
-  for (const asset of discovered.assets) {
+  for (const asset of discovered.assets as ConsensusAsset[]) {
     asset.value_usd = Math.round((asset.value_usd || 0) * scaleFactor);
+    if (asset.consensus?.valueLowUsd !== undefined) asset.consensus.valueLowUsd = Math.round(asset.consensus.valueLowUsd * scaleFactor);
+    if (asset.consensus?.valueHighUsd !== undefined) asset.consensus.valueHighUsd = Math.round(asset.consensus.valueHighUsd * scaleFactor);
   }
 
   return true;
@@ -431,6 +747,7 @@ export interface SupplementaryPassResult {
   inputTokens: number;
   outputTokens: number;
   costUsd: number;
+  validation?: ValidationReport;
 }
 
 export async function runSupplementaryPass(
@@ -495,42 +812,80 @@ Only return NEW assets not already in the provided list. Do not duplicate any as
     }
   }
 
-  const additionalAssets: DiscoveredAsset[] = supplementary.additional_assets || supplementary.assets || [];
+  const validated = await validateWithRetry(supplementary.additional_assets || supplementary.assets || [], companyName, supplementaryProviderId, apiKeyOverride, ` Supp`);
+  const additionalAssets = validated.assets;
   const uniqueNew = deduplicateAssets(additionalAssets, existingAssets, ` Supp ${companyName}`);
 
   console.log(`[Discovery v2] Supplementary pass found ${additionalAssets.length} assets, ${uniqueNew.length} unique new for ${companyName}`);
 
   return {
     additionalAssets: uniqueNew,
-    inputTokens: response.inputTokens,
-    outputTokens: response.outputTokens,
-    costUsd: response.costUsd,
+    inputTokens: response.inputTokens + validated.inputTokens,
+    outputTokens: response.outputTokens + validated.outputTokens,
+    costUsd: response.costUsd + validated.costUsd,
+    validation: validated.validation,
   };
 }
 
-export async function saveDiscoveredCompany(discovered: DiscoveredCompany, providerId: string): Promise<{ company: any; assetCount: number }> {
-  const totalValue = discovered.assets.reduce((sum, a) => sum + (a.value_usd || 0), 0);
-
-  const companyData: InsertCompany = {
-    isin: discovered.isin,
-    name: discovered.name,
-    sector: discovered.sector,
-    totalAssets: totalValue,
-    assetCount: discovered.assets.length,
+/**
+ * Ensemble columns for a merged asset. An asset only one of several models reported is sent to
+ * the review queue as needs-edit so a reviewer checks it before it is approved.
+ */
+function consensusColumns(consensus: AssetConsensus | undefined): Partial<InsertAsset> {
+  if (!consensus) return {};
+  const columns: Partial<InsertAsset> = {
+    consensusCount: consensus.count,
+    consensusTotal: consensus.total,
+    consensusProviders: JSON.stringify(consensus.providers),
+    valueLowUsd: consensus.valueLowUsd,
+    valueHighUsd: consensus.valueHighUsd,
+    coordinateSpreadKm: consensus.coordinateSpreadKm,
   };
+  if (consensus.count === 1 && consensus.total > 1) {
+    columns.reviewStatus = "needs-edit";
+    columns.reviewNote = `Found by only 1 of ${consensus.total} models (${getProviderLabel(consensus.providers[0])}); verify before approving`;
+  }
+  return columns;
+}
 
-  const company = await storage.upsertCompany(companyData);
+/**
+ * Replaces the company's discovered assets with `discovered`. Its GICS code comes from
+ * `uploadedGicsCode`, a code someone set earlier, or the model's answer (see sectors.ts); a
+ * classified company gets the taxonomy's sector name and its assets the taxonomy's industry factor.
+ */
+export async function saveDiscoveredCompany(
+  discovered: DiscoveredCompany,
+  providerId: string | string[],
+  overrideManualEdits: boolean = false,
+  uploadedGicsCode?: string | null,
+): Promise<{ company: any; assetCount: number; preservedManualAssets: number }> {
+  const existing = await storage.getCompanyByIsin(discovered.isin);
+  const classification = resolveCompanyClassification({
+    uploaded: uploadedGicsCode,
+    stored: existing?.gicsCode,
+    storedSource: existing?.sectorSource,
+    llmCode: discovered.gics_code,
+    llmSector: discovered.sector,
+  });
+  const sector = classification ? getGicsSector(classification.gicsCode)!.name : discovered.sector;
+  const industryFactor = classification ? getIndustryFactor(classification.gicsCode) : null;
 
-  await storage.deleteAssetsByIsin(discovered.isin);
+  let preservedAssets: Asset[] = [];
+  if (overrideManualEdits) {
+    await storage.deleteAssetsByIsin(discovered.isin);
+  } else {
+    await storage.deleteDiscoveredAssetsByIsin(discovered.isin);
+    preservedAssets = await storage.getAssetsByIsin(discovered.isin);
+  }
+  const preservedNames = new Set(preservedAssets.map(a => a.facilityName.toLowerCase().trim()));
 
-  const providerLabel = providerId === "openai" ? "GPT" :
-    providerId === "deepseek" ? "DeepSeek" :
-    providerId === "gemini" ? "Gemini" :
-    providerId === "claude" ? "Claude" :
-    providerId === "minimax" ? "MiniMax" : providerId;
+  const providerLabel = Array.isArray(providerId)
+    ? `Ensemble: ${providerId.map(getProviderLabel).join(", ")}`
+    : getProviderLabel(providerId);
 
   const validAssets = discovered.assets.filter(a => {
     if (!a.facility_name && !a.asset_type && !a.city) return false;
+    if (a.facility_name && preservedNames.has(a.facility_name.toLowerCase().trim())) return false;
     return true;
   });
 
@@ -549,16 +904,37 @@ export async function saveDiscoveredCompany(discovered: DiscoveredCompany, provi
     sizeFactor: a.size_factor,
     geoFactor: a.geo_factor,
     typeWeight: a.type_weight,
-    industryFactor: a.industry_factor,
+    industryFactor: industryFactor ?? a.industry_factor,
     valuationConfidence: a.valuation_confidence,
     ownershipShare: a.ownership_share ?? 100,
-    sector: discovered.sector,
+    sector,
     dataSource: `AI Discovery (${providerLabel})`,
     sourceDocument: a.source_document || null,
     sourceUrl: a.source_url || null,
+    ...consensusColumns((a as ConsensusAsset).consensus),
   }));
 
   await storage.bulkCreateAssets(assetInserts);
 
-  return { company, assetCount: assetInserts.length };
+  const companyAssets = [...preservedAssets, ...assetInserts];
+  const totalValue = companyAssets.reduce((sum, a) => sum + (a.valueUsd || 0), 0);
+  const companyData: InsertCompany = {
+    isin: discovered.isin,
+    name: discovered.name,
+    sector,
+    gicsCode: classification?.gicsCode ?? null,
+    sectorSource: classification?.source ?? null,
+    totalAssets: totalValue,
+    attributableAssets: companyAssets.reduce((sum, a) => sum + attributableValue(a), 0),
+    assetCount: preservedAssets.length + assetInserts.length,
+  };
+  const company = await storage.upsertCompany(companyData);
+
+  await recordAssetVersion(discovered.isin, discovered.name, `AI Discovery (${providerLabel})`);
+
+  if (preservedAssets.length > 0) {
+    console.log(`[Discovery v2] Preserved ${preservedAssets.length} manually edited, reviewed or site-linked assets for ${discovered.name}`);
+  }
+
+  return { company, assetCount: assetInserts.length, preservedManualAssets: preservedAssets.length };
 }
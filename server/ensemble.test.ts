@@ -0,0 +1,43 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { alignEnsembleAssets, mergeEnsembleGroup } from "./ensemble";
+
+test("alignEnsembleAssets groups each facility once per provider", () => {
+  const groups = alignEnsembleAssets([
+    { provider: "openai", assets: [{ facility_name: "Gary Works" }, { facility_name: "Mon Valley Works" }] },
+    { provider: "deepseek", assets: [{ facility_name: "gary works" }, { facility_name: "Gary Works" }] },
+  ]);
+  assert.deepEqual(
+    groups.map(g => g.map(c => `${c.provider}:${c.asset.facility_name}`)),
+    [["openai:Gary Works", "deepseek:gary works"], ["openai:Mon Valley Works"], ["deepseek:Gary Works"]],
+  );
+});
+
+test("alignEnsembleAssets matches differently named assets by proximity", () => {
+  const groups = alignEnsembleAssets([
+    { provider: "openai", assets: [{ facility_name: "Gary Works", asset_type: "Steel Mill", latitude: 41.6, longitude: -87.33 }] },
+    { provider: "gemini", assets: [{ facility_name: "Gary Steel Plant", asset_type: "Steel Mill", latitude: 41.61, longitude: -87.34 }] },
+  ]);
+  assert.equal(groups.length, 1);
+});
+
+test("mergeEnsembleGroup takes medians, the centroid and the spread", () => {
+  const merged = mergeEnsembleGroup([
+    { provider: "openai", asset: { facility_name: "Gary Works", value_usd: 100, latitude: 41.6, longitude: -87.3 } },
+    { provider: "deepseek", asset: { facility_name: "Gary Steel", city: "Gary", value_usd: 300, latitude: 41.62, longitude: -87.3 } },
+    { provider: "gemini", asset: { facility_name: "Gary Plant", value_usd: 200 } },
+  ], 4);
+  assert.equal(merged.facility_name, "Gary Works");
+  assert.equal(merged.city, "Gary");
+  assert.equal(merged.value_usd, 200);
+  assert.equal(merged.latitude, 41.61);
+  assert.equal(merged.longitude, -87.3);
+  assert.deepEqual(merged.consensus, {
+    providers: ["openai", "deepseek", "gemini"],
+    count: 3,
+    total: 4,
+    valueLowUsd: 100,
+    valueHighUsd: 300,
+    coordinateSpreadKm: 1.11,
+  });
+});
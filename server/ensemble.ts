@@ -0,0 +1,196 @@
+import {
+  gatherWebResearch,
+  gatherFilingContext,
+  runDiscoveryPass1,
+  isProximityDuplicate,
+  DiscoveryPassError,
+  type ConsensusAsset,
+  type MultiPassDiscoveryResult,
+  type Pass1Result,
+  type ProgressCallback,
+  type ProgressUsage,
+} from "./discovery";
+import { mergeValidationReports, type DiscoveredAsset } from "./discovery-validation";
+import { haversineDistanceKm } from "./spatial";
+import { citeFilingAssets, summarizeFiling } from "./sec-filings";
+
+export const MIN_ENSEMBLE_PROVIDERS = 2;
+export const MAX_ENSEMBLE_PROVIDERS = 5;
+
+export interface EnsembleSummary {
+  providers: string[];
+  succeeded: string[];
+  failed: Array<{ provider: string; error: string }>;
+  assets_by_provider: Record<string, number>;
+  merged_assets: number;
+  consensus_assets: number;
+  single_model_assets: number;
+}
+
+export interface EnsembleDiscoveryResult extends MultiPassDiscoveryResult {
+  ensemble: EnsembleSummary;
+}
+
+interface EnsembleCandidate {
+  provider: string;
+  asset: DiscoveredAsset;
+}
+
+function normalizeName(value: string | undefined): string {
+  return (value || "").toLowerCase().trim();
+}
+
+/**
+ * Groups the providers' Pass 1 lists so each group is one physical asset. An asset joins the first
+ * group with the same facility name, else the first proximity match (the same test discovery uses
+ * to drop duplicates); a group never takes two assets from the same provider.
+ */
+export function alignEnsembleAssets(lists: Array<{ provider: string; assets: DiscoveredAsset[] }>): EnsembleCandidate[][] {
+  const groups: EnsembleCandidate[][] = [];
+  for (const { provider, assets } of lists) {
+    for (const asset of assets) {
+      const open = groups.filter(g => !g.some(c => c.provider === provider));
+      const name = normalizeName(asset.facility_name);
+      const group =
+        open.find(g => g.some(c => normalizeName(c.asset.facility_name) === name)) ??
+        open.find(g => g.some(c => isProximityDuplicate(asset, c.asset)));
+      if (group) group.push({ provider, asset });
+      else groups.push([{ provider, asset }]);
+    }
+  }
+  return groups;
+}
+
+function median(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Merges one aligned group. Descriptive fields come from the highest-priority provider (filled from
+ * the others where it has none); value and ownership are the median of the estimates and the
+ * location is their centroid, with the range and the furthest estimate from it kept as spread.
+ */
+export function mergeEnsembleGroup(group: EnsembleCandidate[], modelCount: number): ConsensusAsset {
+  const merged: Record<string, unknown> = { ...group[0].asset };
+  for (const { asset } of group.slice(1)) {
+    for (const [field, value] of Object.entries(asset)) {
+      if (merged[field] === undefined) merged[field] = value;
+    }
+  }
+
+  const values = group.map(c => c.asset.value_usd).filter((v): v is number => v !== undefined);
+  const shares = group.map(c => c.asset.ownership_share).filter((v): v is number => v !== undefined);
+  const located = group
+    .map(c => c.asset)
+    .filter((a): a is DiscoveredAsset & { latitude: number; longitude: number } => a.latitude !== undefined && a.longitude !== undefined);
+
+  if (values.length > 0) merged.value_usd = Math.round(median(values)!);
+  if (shares.length > 0) merged.ownership_share = median(shares);
+
+  let coordinateSpreadKm: number | undefined;
+  if (located.length > 0) {
+    const latitude = located.reduce((sum, a) => sum + a.latitude, 0) / located.length;
+    const longitude = located.reduce((sum, a) => sum + a.longitude, 0) / located.length;
+    merged.latitude = Math.round(latitude * 1e6) / 1e6;
+    merged.longitude = Math.round(longitude * 1e6) / 1e6;
+    const furthest = Math.max(...located.map(a => haversineDistanceKm(latitude, longitude, a.latitude, a.longitude)));
+    coordinateSpreadKm = Math.round(furthest * 100) / 100;
+  }
+
+  return {
+    ...(merged as DiscoveredAsset),
+    consensus: {
+      providers: group.map(c => c.provider),
+      count: group.length,
+      total: modelCount,
+      valueLowUsd: values.length > 0 ? Math.min(...values) : undefined,
+      valueHighUsd: values.length > 0 ? Math.max(...values) : undefined,
+      coordinateSpreadKm,
+    },
+  };
+}
+
+/**
+ * Ensemble discovery: every provider runs Pass 1 independently against the same web research, and
+ * their asset lists are aligned and merged with a consensus count per asset. The first provider
+ * that answers (in the order given) supplies the company name, ISIN and sector; every model's ISIN
+ * is returned too, so disagreement can be quarantined.
+ */
+export async function discoverCompanyEnsemble(
+  companyName: string,
+  providerIds: string[],
+  isin?: string,
+  onProgress?: ProgressCallback,
+  searchBackend?: string | null,
+  gicsCode?: string | null,
+): Promise<EnsembleDiscoveryResult> {
+  const [{ context: webContext, research: webResearch }, { context: filingContext, filing }] = await Promise.all([
+    gatherWebResearch(companyName, isin, onProgress, searchBackend, gicsCode),
+    gatherFilingContext(companyName, isin, onProgress),
+  ]);
+
+  onProgress?.("pass1", `Running Pass 1 with ${providerIds.length} models for ${companyName}...`);
+  const settled = await Promise.allSettled(providerIds.map(p => runDiscoveryPass1(companyName, p, isin, webContext, filingContext)));
+
+  const succeeded: Array<{ provider: string; pass1: Pass1Result }> = [];
+  const failed: EnsembleSummary["failed"] = [];
+  // A model that fails after answering (unparseable or malformed output) was still billed.
+  const usage: ProgressUsage = { inputTokens: 0, outputTokens: 0, costUsd: 0 };
+  const addUsage = (spent: ProgressUsage) => {
+    usage.inputTokens += spent.inputTokens;
+    usage.outputTokens += spent.outputTokens;
+    usage.costUsd += spent.costUsd;
+  };
+  settled.forEach((outcome, i) => {
+    if (outcome.status === "fulfilled") {
+      succeeded.push({ provider: providerIds[i], pass1: outcome.value });
+      addUsage(outcome.value);
+    } else {
+      failed.push({ provider: providerIds[i], error: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason) });
+      if (outcome.reason instanceof DiscoveryPassError) addUsage(outcome.reason.usage);
+    }
+  });
+  for (const f of failed) {
+    console.warn(`[Ensemble] ${f.provider} failed for ${companyName}: ${f.error}`);
+  }
+  if (succeeded.length === 0) {
+    throw new DiscoveryPassError(`All ensemble providers failed for ${companyName}: ${failed.map(f => `${f.provider}: ${f.error}`).join("; ")}`, usage);
+  }
+
+  const groups = alignEnsembleAssets(succeeded.map(s => ({ provider: s.provider, assets: s.pass1.company.assets })));
+  const mergedAssets = groups.map(g => mergeEnsembleGroup(g, succeeded.length));
+  const citedAssets = filing ? citeFilingAssets(mergedAssets, filing) : 0;
+  const consensusAssets = mergedAssets.filter(a => a.consensus!.count > 1).length;
+  const primary = succeeded[0].pass1;
+
+  const ensemble: EnsembleSummary = {
+    providers: providerIds,
+    succeeded: succeeded.map(s => s.provider),
+    failed,
+    assets_by_provider: Object.fromEntries(succeeded.map(s => [s.provider, s.pass1.company.assets.length])),
+    merged_assets: mergedAssets.length,
+    consensus_assets: consensusAssets,
+    single_model_assets: mergedAssets.length - consensusAssets,
+  };
+
+  console.log(`[Ensemble] ${companyName}: ${succeeded.length}/${providerIds.length} models answered, ${mergedAssets.length} merged assets (${consensusAssets} found by 2+ models)`);
+  onProgress?.("pass1_done", `Ensemble merged ${mergedAssets.length} assets for ${companyName} (${consensusAssets} confirmed by 2+ models)`, usage);
+
+  return {
+    company: { ...primary.company, assets: mergedAssets },
+    totalInputTokens: usage.inputTokens,
+    totalOutputTokens: usage.outputTokens,
+    totalCostUsd: usage.costUsd,
+    passCount: 1,
+    webResearchUsed: webContext.length > 0,
+    webResearch,
+    filing: filing ? summarizeFiling(filing, citedAssets) : null,
+    validation: mergeValidationReports(...succeeded.map(s => s.pass1.validation)),
+    returnedIsin: primary.returnedIsin,
+    returnedIsins: Object.fromEntries(succeeded.map(s => [s.provider, s.pass1.returnedIsin])),
+    ensemble,
+  };
+}
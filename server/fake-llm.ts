@@ -0,0 +1,56 @@
+import { existsSync, readdirSync, readFileSync } from "fs";
+import path from "path";
+import { z } from "zod";
+import type { LLMResponse } from "./llm-providers";
+
+/**
+ * A canned reply. It matches a call when every `match` string appears (case-insensitively) in
+ * the system or user prompt, e.g. ["physical assets of: Acme Industries"] for pass 1.
+ */
+const fixtureSchema = z.object({
+  name: z.string().optional(),
+  match: z.array(z.string().min(1)).min(1),
+  response: z.union([z.string(), z.record(z.unknown())]),
+});
+
+type FakeFixture = z.infer<typeof fixtureSchema> & { file: string };
+
+export function getFakeFixturesDir(): string {
+  return process.env.LLM_FAKE_FIXTURES_DIR || path.resolve(process.cwd(), "data", "llm-fixtures");
+}
+
+/** Reads every .json file in the fixtures dir (one fixture or an array per file), in filename order. */
+function loadFixtures(dir: string): FakeFixture[] {
+  if (!existsSync(dir)) throw new Error(`Fake LLM fixtures directory not found: ${dir}`);
+  const fixtures: FakeFixture[] = [];
+  for (const file of readdirSync(dir).filter(f => f.endsWith(".json")).sort()) {
+    const parsed = JSON.parse(readFileSync(path.join(dir, file), "utf-8"));
+    for (const entry of Array.isArray(parsed) ? parsed : [parsed]) {
+      const fixture = fixtureSchema.safeParse(entry);
+      if (!fixture.success) {
+        throw new Error(`Invalid fake LLM fixture in ${file}: ${fixture.error.issues[0].message}`);
+      }
+      fixtures.push({ ...fixture.data, file });
+    }
+  }
+  return fixtures;
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/** Serves the first matching fixture; fixtures are re-read per call so tests can swap them freely. */
+export async function callFakeProvider(systemPrompt: string, userPrompt: string): Promise<LLMResponse> {
+  const dir = getFakeFixturesDir();
+  const prompt = `${systemPrompt}\n${userPrompt}`.toLowerCase();
+  const fixture = loadFixtures(dir).find(f => f.match.every(m => prompt.includes(m.toLowerCase())));
+  if (!fixture) {
+    throw new Error(`No fake LLM fixture in ${dir} matches prompt: ${userPrompt.split("\n")[0].slice(0, 120)}`);
+  }
+
+  const content = typeof fixture.response === "string" ? fixture.response : JSON.stringify(fixture.response);
+  const inputTokens = estimateTokens(systemPrompt) + estimateTokens(userPrompt);
+  const outputTokens = estimateTokens(content);
+  return { content, inputTokens, outputTokens, totalTokens: inputTokens + outputTokens, costUsd: 0 };
+}
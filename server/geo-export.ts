@@ -0,0 +1,273 @@
+import { deflateRawSync } from "zlib";
+import type { Asset } from "@shared/schema";
+
+const WGS84_PRJ = 'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+
+function hasCoordinates(a: Asset): a is Asset & { latitude: number; longitude: number } {
+  return a.latitude != null && a.longitude != null;
+}
+
+export function assetsToGeoJSON(assetList: Asset[]) {
+  return {
+    type: "FeatureCollection" as const,
+    features: assetList.map(a => ({
+      type: "Feature" as const,
+      id: a.id,
+      geometry: hasCoordinates(a) ? { type: "Point" as const, coordinates: [a.longitude, a.latitude] } : null,
+      properties: { ...a },
+    })),
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+export function assetsToKML(assetList: Asset[]): string {
+  const placemarks = assetList.filter(hasCoordinates).map(a => {
+    const data = Object.entries(a)
+      .filter(([, v]) => v != null)
+      .map(([k, v]) => `        <Data name="${k}"><value>${escapeXml(v instanceof Date ? v.toISOString() : String(v))}</value></Data>`)
+      .join("\n");
+    return `    <Placemark id="asset-${a.id}">
+      <name>${escapeXml(a.facilityName)}</name>
+      <description>${escapeXml(`${a.companyName}${a.assetType ? ` — ${a.assetType}` : ""}`)}</description>
+      <ExtendedData>
+${data}
+      </ExtendedData>
+      <Point><coordinates>${a.longitude},${a.latitude},0</coordinates></Point>
+    </Placemark>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>Corporate Assets</name>
+${placemarks.join("\n")}
+  </Document>
+</kml>
+`;
+}
+
+interface DbfField {
+  name: string;
+  type: "C" | "N";
+  length: number;
+  decimals: number;
+  value: (a: Asset) => string | number | null | undefined;
+}
+
+const DBF_FIELDS: DbfField[] = [
+  { name: "ASSET_ID", type: "N", length: 10, decimals: 0, value: a => a.id },
+  { name: "COMPANY", type: "C", length: 254, decimals: 0, value: a => a.companyName },
+  { name: "ISIN", type: "C", length: 12, decimals: 0, value: a => a.isin },
+  { name: "FACILITY", type: "C", length: 254, decimals: 0, value: a => a.facilityName },
+  { name: "ASSET_TYPE", type: "C", length: 100, decimals: 0, value: a => a.assetType },
+  { name: "ADDRESS", type: "C", length: 254, decimals: 0, value: a => a.address },
+  { name: "CITY", type: "C", length: 254, decimals: 0, value: a => a.city },
+  { name: "COUNTRY", type: "C", length: 254, decimals: 0, value: a => a.country },
+  { name: "LATITUDE", type: "N", length: 12, decimals: 6, value: a => a.latitude },
+  { name: "LONGITUDE", type: "N", length: 12, decimals: 6, value: a => a.longitude },
+  { name: "COORD_CERT", type: "N", length: 4, decimals: 0, value: a => a.coordinateCertainty },
+  { name: "VALUE_USD", type: "N", length: 20, decimals: 0, value: a => a.valueUsd },
+  { name: "OWN_SHARE", type: "N", length: 7, decimals: 2, value: a => a.ownershipShare ?? 100 },
+  { name: "ATTR_VALUE", type: "N", length: 20, decimals: 0, value: a => a.attributableValueUsd },
+  { name: "SIZE_FACT", type: "N", length: 12, decimals: 4, value: a => a.sizeFactor },
+  { name: "GEO_FACT", type: "N", length: 12, decimals: 4, value: a => a.geoFactor },
+  { name: "TYPE_WT", type: "N", length: 12, decimals: 4, value: a => a.typeWeight },
+  { name: "IND_FACT", type: "N", length: 12, decimals: 4, value: a => a.industryFactor },
+  { name: "VAL_CONF", type: "N", length: 4, decimals: 0, value: a => a.valuationConfidence },
+  { name: "SECTOR", type: "C", length: 100, decimals: 0, value: a => a.sector },
+  { name: "DATA_SRC", type: "C", length: 254, decimals: 0, value: a => a.dataSource },
+  { name: "SOURCE_DOC", type: "C", length: 254, decimals: 0, value: a => a.sourceDocument },
+  { name: "SOURCE_URL", type: "C", length: 254, decimals: 0, value: a => a.sourceUrl },
+  { name: "REVIEW", type: "C", length: 20, decimals: 0, value: a => a.reviewStatus },
+  { name: "SRC_STATUS", type: "C", length: 20, decimals: 0, value: a => a.sourceStatus },
+];
+
+function fitUtf8(text: string, maxBytes: number): Buffer {
+  let buf = Buffer.from(text, "utf8");
+  if (buf.length <= maxBytes) return buf;
+  let chars = Array.from(text);
+  while (buf.length > maxBytes) {
+    chars = chars.slice(0, -1);
+    buf = Buffer.from(chars.join(""), "utf8");
+  }
+  return buf;
+}
+
+function buildDbf(points: Asset[]): Buffer {
+  const headerLength = 32 + DBF_FIELDS.length * 32 + 1;
+  const recordLength = 1 + DBF_FIELDS.reduce((sum, f) => sum + f.length, 0);
+  const buf = Buffer.alloc(headerLength + points.length * recordLength + 1, 0x20);
+
+  buf.fill(0, 0, headerLength);
+  const now = new Date();
+  buf.writeUInt8(0x03, 0);
+  buf.writeUInt8(now.getFullYear() - 1900, 1);
+  buf.writeUInt8(now.getMonth() + 1, 2);
+  buf.writeUInt8(now.getDate(), 3);
+  buf.writeUInt32LE(points.length, 4);
+  buf.writeUInt16LE(headerLength, 8);
+  buf.writeUInt16LE(recordLength, 10);
+
+  DBF_FIELDS.forEach((f, i) => {
+    const offset = 32 + i * 32;
+    buf.write(f.name, offset, 10, "ascii");
+    buf.write(f.type, offset + 11, 1, "ascii");
+    buf.writeUInt8(f.length, offset + 16);
+    buf.writeUInt8(f.decimals, offset + 17);
+  });
+  buf.writeUInt8(0x0d, headerLength - 1);
+
+  let offset = headerLength;
+  for (const a of points) {
+    buf.write(" ", offset, 1, "ascii");
+    let fieldOffset = offset + 1;
+    for (const f of DBF_FIELDS) {
+      const raw = f.value(a);
+      if (f.type === "N") {
+        const text = typeof raw === "number" && isFinite(raw) ? raw.toFixed(f.decimals) : "";
+        buf.write(text.slice(0, f.length).padStart(f.length, " "), fieldOffset, f.length, "ascii");
+      } else if (raw != null) {
+        fitUtf8(String(raw), f.length).copy(buf, fieldOffset);
+      }
+      fieldOffset += f.length;
+    }
+    offset += recordLength;
+  }
+  buf.writeUInt8(0x1a, offset);
+  return buf;
+}
+
+function writeShapeHeader(buf: Buffer, fileLengthBytes: number, bbox: [number, number, number, number]) {
+  buf.writeInt32BE(9994, 0);
+  buf.writeInt32BE(fileLengthBytes / 2, 24);
+  buf.writeInt32LE(1000, 28);
+  buf.writeInt32LE(1, 32);
+  buf.writeDoubleLE(bbox[0], 36);
+  buf.writeDoubleLE(bbox[1], 44);
+  buf.writeDoubleLE(bbox[2], 52);
+  buf.writeDoubleLE(bbox[3], 60);
+}
+
+function buildShpShx(points: Array<Asset & { latitude: number; longitude: number }>): { shp: Buffer; shx: Buffer } {
+  const recordBytes = 8 + 20;
+  const shp = Buffer.alloc(100 + points.length * recordBytes);
+  const shx = Buffer.alloc(100 + points.length * 8);
+
+  const bbox: [number, number, number, number] = points.length > 0
+    ? [
+      Math.min(...points.map(p => p.longitude)),
+      Math.min(...points.map(p => p.latitude)),
+      Math.max(...points.map(p => p.longitude)),
+      Math.max(...points.map(p => p.latitude)),
+    ]
+    : [0, 0, 0, 0];
+  writeShapeHeader(shp, shp.length, bbox);
+  writeShapeHeader(shx, shx.length, bbox);
+
+  points.forEach((p, i) => {
+    const offset = 100 + i * recordBytes;
+    shp.writeInt32BE(i + 1, offset);
+    shp.writeInt32BE(10, offset + 4);
+    shp.writeInt32LE(1, offset + 8);
+    shp.writeDoubleLE(p.longitude, offset + 12);
+    shp.writeDoubleLE(p.latitude, offset + 20);
+
+    shx.writeInt32BE(offset / 2, 100 + i * 8);
+    shx.writeInt32BE(10, 100 + i * 8 + 4);
+  });
+
+  return { shp, shx };
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function buildZip(files: Array<{ name: string; data: Buffer }>): Buffer {
+  const now = new Date();
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+  const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, "utf8");
+    const compressed = deflateRawSync(file.data);
+    const crc = crc32(file.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0, 6);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt16LE(dosTime, 10);
+    local.writeUInt16LE(dosDate, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(file.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(dosTime, 12);
+    central.writeUInt16LE(dosDate, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(file.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, compressed);
+    centralParts.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDir = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralDir.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDir, end]);
+}
+
+export function assetsToShapefileZip(assetList: Asset[], baseName: string = "corporate_assets"): Buffer {
+  const points = assetList.filter(hasCoordinates);
+  const { shp, shx } = buildShpShx(points);
+  return buildZip([
+    { name: `${baseName}.shp`, data: shp },
+    { name: `${baseName}.shx`, data: shx },
+    { name: `${baseName}.dbf`, data: buildDbf(points) },
+    { name: `${baseName}.prj`, data: Buffer.from(WGS84_PRJ, "ascii") },
+    { name: `${baseName}.cpg`, data: Buffer.from("UTF-8", "ascii") },
+  ]);
+}
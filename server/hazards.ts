@@ -0,0 +1,388 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import { fromArrayBuffer } from "geotiff";
+import { HAZARD_TYPES, attributableValue, type Asset, type HazardType, type PolygonGeometry, polygonGeometrySchema } from "@shared/schema";
+import { geometryBoundingBox, pointInGeometry, type BoundingBox } from "./spatial";
+
+type DamageCurve = Array<[number, number]>;
+type HazardFormat = "geojson" | "csv" | "geotiff";
+
+const hazardLayerConfigSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().optional(),
+  hazard: z.enum(HAZARD_TYPES),
+  file: z.string().min(1),
+  unit: z.string().optional(),
+  returnPeriod: z.number().positive().optional(),
+  valueProperty: z.string().default("value"),
+  band: z.number().int().min(0).default(0),
+  cellSize: z.number().positive().optional(),
+  damageCurve: z.array(z.tuple([z.number(), z.number().min(0).max(1)])).min(2).optional(),
+});
+
+type HazardLayerConfig = z.infer<typeof hazardLayerConfigSchema>;
+
+const featureCollectionSchema = z.object({ type: z.literal("FeatureCollection"), features: z.array(z.unknown()) });
+
+// Features whose geometry is not a Polygon/MultiPolygon fail this and are skipped.
+const hazardFeatureSchema = z.object({ geometry: polygonGeometrySchema, properties: z.record(z.unknown()).nullish() });
+
+// Intensity -> damage ratio. Units follow the usual layer conventions:
+// flood / sea-level rise depth in metres, cyclone wind speed in m/s,
+// heat in days per year above 35°C, wildfire as annual burn probability (0-1).
+const DEFAULT_DAMAGE_CURVES: Record<HazardType, DamageCurve> = {
+  flood: [[0, 0], [0.5, 0.25], [1, 0.4], [2, 0.6], [4, 0.85], [6, 1]],
+  "sea-level-rise": [[0, 0], [0.5, 0.25], [1, 0.4], [2, 0.6], [4, 0.85], [6, 1]],
+  cyclone: [[25, 0], [35, 0.03], [50, 0.2], [70, 0.6], [90, 1]],
+  heat: [[0, 0], [30, 0.01], [90, 0.05], [180, 0.1]],
+  wildfire: [[0, 0], [1, 0.6]],
+};
+
+interface HazardLayer {
+  id: string;
+  name: string;
+  hazard: HazardType;
+  file: string;
+  format: HazardFormat;
+  unit: string | null;
+  returnPeriod: number | null;
+  damageCurve: DamageCurve;
+  featureCount: number;
+  sample: (lon: number, lat: number) => number | null;
+}
+
+interface HazardLayerSet {
+  directory: string;
+  loadedAt: Date;
+  layers: HazardLayer[];
+  errors: Array<{ layer?: string; file?: string; message: string }>;
+}
+
+export interface LayerExposure {
+  layer_id: string;
+  hazard: HazardType;
+  intensity: number;
+  damage_ratio: number;
+}
+
+export interface AssetExposure {
+  asset_id: number;
+  company_name: string;
+  isin: string | null;
+  facility_name: string;
+  country: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  value_usd: number;
+  attributable_value_usd: number;
+  exposures: LayerExposure[];
+  exposure_score: number;
+  value_at_risk_usd: number;
+  attributable_value_at_risk_usd: number;
+}
+
+export interface CompanyHazardExposure {
+  company_name: string;
+  isin: string | null;
+  asset_count: number;
+  exposed_asset_count: number;
+  total_value_usd: number;
+  total_attributable_value_usd: number;
+  value_at_risk_usd: number;
+  attributable_value_at_risk_usd: number;
+  var_percent: number;
+  by_hazard: Partial<Record<HazardType, number>>;
+  attributable_by_hazard: Partial<Record<HazardType, number>>;
+}
+
+export function getHazardLayersDir(): string {
+  return process.env.HAZARD_LAYERS_DIR || path.resolve(process.cwd(), "data", "hazards");
+}
+
+function detectFormat(file: string): HazardFormat {
+  const ext = path.extname(file).toLowerCase();
+  if (ext === ".geojson" || ext === ".json") return "geojson";
+  if (ext === ".csv") return "csv";
+  if (ext === ".tif" || ext === ".tiff") return "geotiff";
+  throw new Error(`Unsupported hazard layer format "${ext}" (expected .geojson, .csv or .tif)`);
+}
+
+function inBox(lon: number, lat: number, box: BoundingBox): boolean {
+  return lat >= box.minLat && lat <= box.maxLat && lon >= box.minLon && lon <= box.maxLon;
+}
+
+async function loadGeoJSONLayer(filePath: string, config: HazardLayerConfig) {
+  const parsed: unknown = JSON.parse(await readFile(filePath, "utf-8"));
+  const collection = featureCollectionSchema.safeParse(parsed);
+  const rawFeatures: unknown[] = collection.success ? collection.data.features : [parsed];
+
+  const features: Array<{ geometry: PolygonGeometry; box: BoundingBox; value: number }> = [];
+  for (const f of rawFeatures) {
+    const feature = hazardFeatureSchema.safeParse(f);
+    if (!feature.success) continue;
+    const { geometry, properties } = feature.data;
+    const value = Number(properties?.[config.valueProperty]);
+    if (!isFinite(value)) continue;
+    features.push({ geometry, box: geometryBoundingBox(geometry), value });
+  }
+  if (features.length === 0) {
+    throw new Error(`No Polygon/MultiPolygon features with a numeric "${config.valueProperty}" property`);
+  }
+
+  return {
+    featureCount: features.length,
+    sample: (lon: number, lat: number) => {
+      let max: number | null = null;
+      for (const f of features) {
+        if (!inBox(lon, lat, f.box) || !pointInGeometry(lon, lat, f.geometry)) continue;
+        if (max === null || f.value > max) max = f.value;
+      }
+      return max;
+    },
+  };
+}
+
+async function loadCsvGridLayer(filePath: string, config: HazardLayerConfig) {
+  const lines = (await readFile(filePath, "utf-8")).split(/\r?\n/).filter(l => l.trim().length > 0);
+  const header = lines[0].split(",").map(h => h.trim().toLowerCase());
+  const latCol = header.findIndex(h => ["lat", "latitude", "y"].includes(h));
+  const lonCol = header.findIndex(h => ["lon", "lng", "longitude", "x"].includes(h));
+  const valueCol = header.indexOf(config.valueProperty.toLowerCase());
+  if (latCol < 0 || lonCol < 0 || valueCol < 0) {
+    throw new Error(`CSV grid needs lat, lon and "${config.valueProperty}" columns`);
+  }
+
+  const points: Array<{ lat: number; lon: number; value: number }> = [];
+  for (const line of lines.slice(1)) {
+    const cells = line.split(",");
+    const lat = Number(cells[latCol]);
+    const lon = Number(cells[lonCol]);
+    const value = Number(cells[valueCol]);
+    if (isFinite(lat) && isFinite(lon) && isFinite(value)) points.push({ lat, lon, value });
+  }
+  if (points.length === 0) throw new Error("CSV grid has no numeric rows");
+
+  const minSpacing = (values: number[]) => {
+    const sorted = Array.from(new Set(values)).sort((a, b) => a - b);
+    let min = Infinity;
+    for (let i = 1; i < sorted.length; i++) min = Math.min(min, sorted[i] - sorted[i - 1]);
+    return min;
+  };
+  const cellSize = config.cellSize ?? Math.min(minSpacing(points.map(p => p.lat)), minSpacing(points.map(p => p.lon)));
+  if (!isFinite(cellSize) || cellSize <= 0) throw new Error("Cannot infer CSV grid spacing; set cellSize in the layer manifest");
+
+  const lat0 = Math.min(...points.map(p => p.lat));
+  const lon0 = Math.min(...points.map(p => p.lon));
+  const key = (lat: number, lon: number) => `${Math.round((lat - lat0) / cellSize)}:${Math.round((lon - lon0) / cellSize)}`;
+  const cells = new Map(points.map(p => [key(p.lat, p.lon), p.value]));
+
+  return {
+    featureCount: cells.size,
+    sample: (lon: number, lat: number) => cells.get(key(lat, lon)) ?? null,
+  };
+}
+
+async function loadGeoTiffLayer(filePath: string, config: HazardLayerConfig) {
+  const buffer = await readFile(filePath);
+  const tiff = await fromArrayBuffer(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer);
+  const image = await tiff.getImage();
+  const width = image.getWidth();
+  const height = image.getHeight();
+  const [originX, originY] = image.getOrigin();
+  const [resX, resY] = image.getResolution();
+  const noData = image.getGDALNoData();
+  const [band] = (await image.readRasters({ samples: [config.band] })) as unknown as ArrayLike<number>[];
+
+  return {
+    featureCount: width * height,
+    sample: (lon: number, lat: number) => {
+      const col = Math.floor((lon - originX) / resX);
+      const row = Math.floor((lat - originY) / resY);
+      if (col < 0 || row < 0 || col >= width || row >= height) return null;
+      const value = band[row * width + col];
+      if (!isFinite(value) || (noData !== null && value === noData)) return null;
+      return value;
+    },
+  };
+}
+
+async function loadHazardLayers(): Promise<HazardLayerSet> {
+  const directory = getHazardLayersDir();
+  const result: HazardLayerSet = { directory, loadedAt: new Date(), layers: [], errors: [] };
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(await readFile(path.join(directory, "layers.json"), "utf-8"));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      console.log(`[Hazards] No layers.json in ${directory}; hazard overlay disabled`);
+    } else {
+      result.errors.push({ file: "layers.json", message: err instanceof Error ? err.message : String(err) });
+    }
+    return result;
+  }
+
+  const configs = z.array(z.unknown()).safeParse(manifest);
+  if (!configs.success) {
+    result.errors.push({ file: "layers.json", message: "layers.json must be an array of layer definitions" });
+    return result;
+  }
+
+  for (const raw of configs.data) {
+    const parsed = hazardLayerConfigSchema.safeParse(raw);
+    if (!parsed.success) {
+      const layer = typeof raw === "object" && raw && "id" in raw ? String(raw.id) : undefined;
+      result.errors.push({ layer, message: parsed.error.errors.map(e => `${e.path.join(".")}: ${e.message}`).join("; ") });
+      continue;
+    }
+    const config = parsed.data;
+    try {
+      const format = detectFormat(config.file);
+      const filePath = path.resolve(directory, config.file);
+      const loaded = format === "geojson"
+        ? await loadGeoJSONLayer(filePath, config)
+        : format === "csv"
+          ? await loadCsvGridLayer(filePath, config)
+          : await loadGeoTiffLayer(filePath, config);
+      result.layers.push({
+        id: config.id,
+        name: config.name || config.id,
+        hazard: config.hazard,
+        file: config.file,
+        format,
+        unit: config.unit ?? null,
+        returnPeriod: config.returnPeriod ?? null,
+        damageCurve: [...(config.damageCurve ?? DEFAULT_DAMAGE_CURVES[config.hazard])].sort((a, b) => a[0] - b[0]),
+        featureCount: loaded.featureCount,
+        sample: loaded.sample,
+      });
+      console.log(`[Hazards] Loaded ${format} layer "${config.id}" (${config.hazard}, ${loaded.featureCount} features)`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`[Hazards] Failed to load layer "${config.id}":`, message);
+      result.errors.push({ layer: config.id, file: config.file, message });
+    }
+  }
+
+  return result;
+}
+
+let layerSet: Promise<HazardLayerSet> | null = null;
+
+export function getHazardLayers(): Promise<HazardLayerSet> {
+  if (!layerSet) layerSet = loadHazardLayers();
+  return layerSet;
+}
+
+export function reloadHazardLayers(): Promise<HazardLayerSet> {
+  layerSet = loadHazardLayers();
+  return layerSet;
+}
+
+export function describeHazardLayers(set: HazardLayerSet) {
+  return {
+    directory: set.directory,
+    loaded_at: set.loadedAt,
+    layers: set.layers.map(({ sample, ...layer }) => layer),
+    errors: set.errors,
+  };
+}
+
+export function selectHazardLayers(set: HazardLayerSet, layerIds?: string[], hazards?: string[]): HazardLayer[] {
+  return set.layers.filter(l =>
+    (!layerIds?.length || layerIds.includes(l.id)) &&
+    (!hazards?.length || hazards.includes(l.hazard))
+  );
+}
+
+function damageRatio(curve: DamageCurve, intensity: number): number {
+  if (intensity <= curve[0][0]) return curve[0][1];
+  for (let i = 1; i < curve.length; i++) {
+    const [x1, y1] = curve[i];
+    if (intensity <= x1) {
+      const [x0, y0] = curve[i - 1];
+      return y0 + (y1 - y0) * (intensity - x0) / (x1 - x0);
+    }
+  }
+  return curve[curve.length - 1][1];
+}
+
+function worstDamageByHazard(exposures: LayerExposure[]): Map<HazardType, number> {
+  const worst = new Map<HazardType, number>();
+  for (const e of exposures) {
+    worst.set(e.hazard, Math.max(worst.get(e.hazard) ?? 0, e.damage_ratio));
+  }
+  return worst;
+}
+
+/**
+ * Damage from several return periods of the same hazard is not independent, so each
+ * hazard contributes its worst layer; hazards are then combined as 1 - Π(1 - damage).
+ */
+export function scoreAssetExposure(asset: Asset, layers: HazardLayer[]): AssetExposure {
+  const exposures: LayerExposure[] = [];
+  if (asset.latitude != null && asset.longitude != null) {
+    for (const layer of layers) {
+      const intensity = layer.sample(asset.longitude, asset.latitude);
+      if (intensity === null) continue;
+      exposures.push({ layer_id: layer.id, hazard: layer.hazard, intensity, damage_ratio: damageRatio(layer.damageCurve, intensity) });
+    }
+  }
+
+  const combined = 1 - Array.from(worstDamageByHazard(exposures).values()).reduce((keep, d) => keep * (1 - d), 1);
+  const value = asset.valueUsd || 0;
+  const attributable = attributableValue(asset);
+
+  return {
+    asset_id: asset.id,
+    company_name: asset.companyName,
+    isin: asset.isin,
+    facility_name: asset.facilityName,
+    country: asset.country,
+    latitude: asset.latitude,
+    longitude: asset.longitude,
+    value_usd: value,
+    attributable_value_usd: attributable,
+    exposures,
+    exposure_score: Math.round(combined * 100),
+    value_at_risk_usd: value * combined,
+    attributable_value_at_risk_usd: attributable * combined,
+  };
+}
+
+export function summarizeHazardExposure(scored: AssetExposure[]): CompanyHazardExposure[] {
+  const byCompany = new Map<string, CompanyHazardExposure>();
+  for (const a of scored) {
+    const key = a.isin || a.company_name;
+    const entry = byCompany.get(key) ?? {
+      company_name: a.company_name,
+      isin: a.isin,
+      asset_count: 0,
+      exposed_asset_count: 0,
+      total_value_usd: 0,
+      total_attributable_value_usd: 0,
+      value_at_risk_usd: 0,
+      attributable_value_at_risk_usd: 0,
+      var_percent: 0,
+      by_hazard: {},
+      attributable_by_hazard: {},
+    };
+    entry.asset_count++;
+    entry.total_value_usd += a.value_usd;
+    entry.total_attributable_value_usd += a.attributable_value_usd;
+    entry.value_at_risk_usd += a.value_at_risk_usd;
+    entry.attributable_value_at_risk_usd += a.attributable_value_at_risk_usd;
+    if (a.value_at_risk_usd > 0) entry.exposed_asset_count++;
+
+    for (const [hazard, damage] of Array.from(worstDamageByHazard(a.exposures).entries())) {
+      entry.by_hazard[hazard] = (entry.by_hazard[hazard] ?? 0) + a.value_usd * damage;
+      entry.attributable_by_hazard[hazard] = (entry.attributable_by_hazard[hazard] ?? 0) + a.attributable_value_usd * damage;
+    }
+    byCompany.set(key, entry);
+  }
+
+  return Array.from(byCompany.values())
+    .map(c => ({ ...c, var_percent: c.total_value_usd > 0 ? Math.round(c.value_at_risk_usd / c.total_value_usd * 10000) / 100 : 0 }))
+    .sort((a, b) => b.value_at_risk_usd - a.value_at_risk_usd);
+}
@@ -72,8 +72,8 @@ app.use((req, res, next) => {
   }
 
   try {
-    const { markStaleJobsInterrupted, startJobRunner } = await import("./job-runner");
-    await markStaleJobsInterrupted();
+    const { migrateLegacyDiscoveryJobs, startJobRunner } = await import("./job-runner");
+    await migrateLegacyDiscoveryJobs();
     startJobRunner();
   } catch (err) {
     console.error("Error initializing job runner:", err);
@@ -0,0 +1,44 @@
+import type { JobEvent } from "@shared/schema";
+import { storage } from "./storage";
+
+export type JobEventInput = Omit<JobEvent, "id" | "job_id" | "at">;
+
+// Enough backlog for a client that reconnects or opens the page mid-job to rebuild its log.
+const MAX_EVENTS_PER_JOB = 500;
+const EVENT_RETENTION_DAYS = 7;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Writes are chained so this process's events get ids in the order they happened.
+let pendingWrite: Promise<void> = Promise.resolve();
+let lastPrunedAt = 0;
+
+/**
+ * Stores an event in discovery_job_events, where the stream of every process reads it. A failed
+ * write is logged and never fails the job.
+ */
+export function publishJobEvent(jobId: number, input: JobEventInput): void {
+  const { type, ...fields } = input;
+  pendingWrite = pendingWrite
+    .then(() => storage.createDiscoveryJobEvent({ jobId, type, payload: JSON.stringify(fields) }))
+    .catch(err => console.warn(`[JobEvents] Could not store ${type} event for job ${jobId}:`, err instanceof Error ? err.message : err));
+}
+
+/** Stored events for a job newer than `afterId` (an SSE Last-Event-ID), oldest first. */
+export async function getJobEventsSince(jobId: number, afterId: number = 0): Promise<JobEvent[]> {
+  const rows = await storage.getDiscoveryJobEvents(jobId, afterId, MAX_EVENTS_PER_JOB);
+  return rows.map(row => ({
+    ...JSON.parse(row.payload),
+    id: row.id,
+    job_id: row.jobId,
+    type: row.type,
+    at: row.createdAt.toISOString(),
+  }));
+}
+
+/** Drops events older than the retention window; runs at most once an hour per process. */
+export async function pruneJobEvents(): Promise<void> {
+  if (Date.now() - lastPrunedAt < PRUNE_INTERVAL_MS) return;
+  lastPrunedAt = Date.now();
+  const deleted = await storage.deleteDiscoveryJobEventsBefore(new Date(Date.now() - EVENT_RETENTION_DAYS * 24 * 60 * 60 * 1000));
+  if (deleted > 0) console.log(`[JobEvents] Deleted ${deleted} events older than ${EVENT_RETENTION_DAYS} days`);
+}
@@ -1,16 +1,30 @@
+import { hostname } from "os";
 import { storage } from "./storage";
-import { discoverCompany, saveDiscoveredCompany, normalizeAssetValues, runSupplementaryPass, type ProgressCallback } from "./discovery";
-import { getParallelApiKeys } from "./llm-providers";
-
-interface CompanyEntry {
+import { discoverCompany, saveDiscoveredCompany, normalizeAssetValues, runSupplementaryPass, checkDiscoveredIsin, DiscoveryPassError, type MultiPassDiscoveryResult, type ProgressCallback, type IsinQuarantine } from "./discovery";
+import { getAvailableProviders, getParallelApiKeys, getProviderLabel } from "./llm-providers";
+import { recordAssetVersion } from "./asset-history";
+import { attributableValue, type DiscoveryJob, type DiscoveryJobItem, type DiscoveryItemStatus, type InsertDiscoveryJobItem, type JobRerunKind, type JobEventType, type SearchBackendId } from "@shared/schema";
+import { mergeValidationReports, type ValidationReport } from "./discovery-validation";
+import { discoverCompanyEnsemble, type EnsembleSummary } from "./ensemble";
+import { getBudgetStopReason } from "./budget";
+import { publishJobEvent, pruneJobEvents } from "./job-events";
+import type { WebResearch } from "./web-research";
+import type { FilingSummary } from "./sec-filings";
+import { getIndustryFactor } from "./sectors";
+
+export interface CompanyEntry {
   name: string;
   isin?: string;
   totalValue?: number;
+  gicsCode?: string;
+  // Set when the company is rerun from another job's item.
+  sourceItemId?: number;
 }
 
-interface JobResult {
+export interface JobResult {
   name: string;
   status: string;
+  isin?: string;
   assetsFound?: number;
   supplementaryAssetsFound?: number;
   error?: string;
@@ -19,416 +33,481 @@ interface JobResult {
   costUsd?: number;
   normalized?: boolean;
   webResearchUsed?: boolean;
+  filing?: FilingSummary;
+  validation?: ValidationReport;
+  quarantine?: IsinQuarantine;
+  ensemble?: EnsembleSummary;
   workerId?: number;
 }
 
-let isProcessing = false;
-let currentJobId: number | null = null;
-let activeWorkerCount = 0;
+/** A company's result plus the web research its prompt was built from, which the item stores separately. */
+type CompanyOutcome = JobResult & { webResearch?: WebResearch | null };
+
+/** Pool key for ensemble items, which fan out across several providers per company. */
+export const ENSEMBLE_POOL = "ensemble";
+
+const POLL_INTERVAL_MS = 5000;
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const STALE_ITEM_MS = 2 * 60 * 1000;
+// Claims an item gets before a worker dying on it fails the company instead of requeueing it.
+const MAX_ITEM_ATTEMPTS = 3;
+
+// Identifies this process in claimed items, so a second process can join the same queue.
+const PROCESS_ID = `${hostname()}:${process.pid}`;
+
+/**
+ * Workers for one provider (or the ensemble pool) in this process: one slot per parallel API key,
+ * or a single slot using the default key.
+ */
+interface WorkerPool {
+  keys: Array<string | undefined>;
+  busy: Set<number>;
+}
+
+const pools = new Map<string, WorkerPool>();
+let pollTimer: NodeJS.Timeout | null = null;
+let dispatching = false;
+let dispatchAgain = false;
 
-export function getCurrentJobId(): number | null {
-  return currentJobId;
+function getPool(provider: string): WorkerPool {
+  let pool = pools.get(provider);
+  if (!pool) {
+    pool = { keys: [undefined], busy: new Set() };
+    pools.set(provider, pool);
+  }
+  // Key changes (env or registry reload) take effect whenever the pool is idle.
+  if (pool.busy.size === 0) {
+    const keys = provider === ENSEMBLE_POOL ? [] : getParallelApiKeys(provider);
+    pool.keys = keys.length >= 2 ? keys : [undefined];
+  }
+  return pool;
 }
 
 export function isJobRunnerBusy(): boolean {
-  return isProcessing;
+  return getActiveWorkerCount() > 0;
 }
 
 export function getActiveWorkerCount(): number {
-  return activeWorkerCount;
+  return Array.from(pools.values()).reduce((sum, pool) => sum + pool.busy.size, 0);
+}
+
+export function getBusyWorkers(provider: string): number {
+  return pools.get(provider)?.busy.size ?? 0;
+}
+
+function itemsForEntries(jobId: number, entries: CompanyEntry[], provider: string, firstPosition: number = 0): InsertDiscoveryJobItem[] {
+  return entries.map((e, i) => ({
+    jobId,
+    position: firstPosition + i,
+    companyName: e.name,
+    isin: e.isin ?? null,
+    totalValue: e.totalValue ?? null,
+    gicsCode: e.gicsCode ?? null,
+    stage: "primary",
+    provider,
+    status: "pending",
+    sourceItemId: e.sourceItemId ?? null,
+  }));
+}
+
+export async function queueDiscoveryJob(
+  entries: CompanyEntry[],
+  providerId: string,
+  options: {
+    supplementaryProvider?: string | null;
+    overrideManualEdits?: boolean;
+    ensembleProviders?: string[] | null;
+    budgetUsd?: number | null;
+    priority?: number;
+    parentJobId?: number;
+    rerunKind?: JobRerunKind;
+    searchBackend?: SearchBackendId | null;
+  } = {},
+) {
+  const ensembleProviders = options.ensembleProviders?.length ? options.ensembleProviders : null;
+  const job = await storage.createDiscoveryJob({
+    status: "pending",
+    modelProvider: ensembleProviders ? ensembleProviders[0] : providerId,
+    supplementaryProvider: options.supplementaryProvider || null,
+    ensembleProviders: ensembleProviders ? JSON.stringify(ensembleProviders) : null,
+    totalCompanies: entries.length,
+    completedCompanies: 0,
+    failedCompanies: 0,
+    overrideManualEdits: options.overrideManualEdits === true,
+    totalInputTokens: 0,
+    totalOutputTokens: 0,
+    totalCostUsd: 0,
+    budgetUsd: options.budgetUsd ?? null,
+    priority: options.priority ?? 0,
+    parentJobId: options.parentJobId ?? null,
+    rerunKind: options.rerunKind ?? null,
+    searchBackend: options.searchBackend ?? null,
+  });
+  await storage.createDiscoveryJobItems(itemsForEntries(job.id, entries, ensembleProviders ? ENSEMBLE_POOL : providerId));
+
+  publishJobEvent(job.id, { type: "job_status", status: job.status });
+  console.log(`[Discovery] Created background job ${job.id} for ${entries.length} companies with ${ensembleProviders ? `ensemble ${ensembleProviders.join(", ")}` : `provider ${providerId}`}${options.supplementaryProvider ? ` + supplementary: ${options.supplementaryProvider}` : ""}${job.budgetUsd !== null ? `, budget $${job.budgetUsd.toFixed(2)}` : ""}${job.priority !== 0 ? `, priority ${job.priority}` : ""}${job.searchBackend ? `, search via ${job.searchBackend}` : ""}${job.parentJobId ? ` (${job.rerunKind} of job ${job.parentJobId})` : ""}`);
+
+  dispatch();
+  return job;
+}
+
+/**
+ * Starts this process's share of the queue. Every POLL_INTERVAL_MS it also requeues items whose
+ * worker died, ends items queued for a provider that is no longer configured, and picks up work
+ * queued by other processes.
+ */
+export function startJobRunner() {
+  if (pollTimer) return;
+  pollTimer = setInterval(async () => {
+    try {
+      const stale = await storage.requeueStaleDiscoveryJobItems(new Date(Date.now() - STALE_ITEM_MS), MAX_ITEM_ATTEMPTS);
+      for (const item of stale.requeued) {
+        console.log(`[JobRunner] Requeued ${item.companyName} (job ${item.jobId}) after its worker stopped responding`);
+      }
+      for (const item of stale.failed) {
+        console.warn(`[JobRunner] Failed ${item.companyName} (job ${item.jobId}): ${item.error}`);
+        publishJobEvent(item.jobId, { type: "failed", company: item.companyName, detail: item.error ?? undefined });
+      }
+      const unclaimable = await storage.finishUnclaimableDiscoveryJobItems([...getAvailableProviders().map(p => p.id), ENSEMBLE_POOL]);
+      for (const item of unclaimable.failed) {
+        console.warn(`[JobRunner] Failed ${item.companyName} (job ${item.jobId}): ${item.error}`);
+        publishJobEvent(item.jobId, { type: "failed", company: item.companyName, detail: item.error ?? undefined });
+      }
+      for (const item of unclaimable.skipped) {
+        console.warn(`[JobRunner] Skipped the supplementary pass for ${item.companyName} (job ${item.jobId}): provider ${item.provider} is no longer configured`);
+        publishJobEvent(item.jobId, { type: "supplementary_done", company: item.companyName, detail: `Supplementary pass skipped: provider ${item.provider} is no longer configured` });
+      }
+      await finishCompletedJobs();
+      await pruneJobEvents();
+    } catch (err) {
+      console.error("[JobRunner] Queue maintenance failed:", err);
+    }
+    dispatch();
+  }, POLL_INTERVAL_MS);
+  console.log(`[JobRunner] Queue worker started as ${PROCESS_ID}`);
+  dispatch();
 }
 
-export async function startJobRunner() {
-  if (isProcessing) {
-    console.log("[JobRunner] Already processing, skipping");
+/** Claims items for every pool with a free slot until the pools are full or the queue is empty. */
+async function dispatch() {
+  if (dispatching) {
+    dispatchAgain = true;
     return;
   }
-  processNextJob();
+  dispatching = true;
+  try {
+    do {
+      dispatchAgain = false;
+      while (true) {
+        const providers = [...getAvailableProviders().map(p => p.id), ENSEMBLE_POOL];
+        const open = providers.filter(p => {
+          const pool = getPool(p);
+          return pool.busy.size < pool.keys.length;
+        });
+        const item = await storage.claimDiscoveryJobItem(open, PROCESS_ID);
+        if (!item) break;
+
+        const pool = getPool(item.provider);
+        const slot = pool.keys.findIndex((_, i) => !pool.busy.has(i));
+        pool.busy.add(slot);
+        runItem(item, pool.keys[slot], slot + 1)
+          .catch(err => console.error(`[JobRunner] Item ${item.id} (${item.companyName}) crashed:`, err))
+          .finally(() => {
+            pool.busy.delete(slot);
+            dispatch();
+          });
+      }
+    } while (dispatchAgain);
+  } catch (err) {
+    console.error("[JobRunner] Failed to claim queued items:", err);
+  } finally {
+    dispatching = false;
+  }
 }
 
-async function processNextJob() {
-  if (isProcessing) return;
+async function finishCompletedJobs() {
+  for (const job of await storage.completeFinishedDiscoveryJobs()) {
+    console.log(`[JobRunner] Job ${job.id} complete: ${job.completedCompanies} succeeded, ${job.failedCompanies} failed, cost: $${(job.totalCostUsd ?? 0).toFixed(4)}`);
+    publishJobEvent(job.id, {
+      type: "job_status",
+      status: job.status,
+      completed: job.completedCompanies,
+      failed: job.failedCompanies,
+      total_cost_usd: job.totalCostUsd ?? 0,
+    });
+  }
+}
 
-  const jobs = await storage.getDiscoveryJobs();
-  const pendingJob = jobs.find(j => j.status === "pending");
-  if (!pendingJob) return;
+/** Hands a claimed item back to the queue without counting the attempt. */
+async function releaseItem(item: DiscoveryJobItem) {
+  await storage.updateDiscoveryJobItem(item.id, { status: "pending", workerId: null, attempts: item.attempts - 1 });
+}
 
-  isProcessing = true;
-  currentJobId = pendingJob.id;
+async function runItem(item: DiscoveryJobItem, apiKey: string | undefined, workerId: number) {
+  const heartbeat = setInterval(() => {
+    storage.updateDiscoveryJobItem(item.id, { heartbeatAt: new Date() }).catch(() => {});
+  }, HEARTBEAT_INTERVAL_MS);
 
   try {
-    await runJob(pendingJob.id);
-  } catch (err) {
-    console.error(`[JobRunner] Fatal error processing job ${pendingJob.id}:`, err);
-    try {
-      await storage.updateDiscoveryJob(pendingJob.id, {
-        status: "failed",
-        updatedAt: new Date(),
-      });
-    } catch {}
+    const job = await storage.getDiscoveryJob(item.jobId);
+    if (!job) return;
+    if (job.status !== "pending" && job.status !== "running") {
+      await releaseItem(item);
+      return;
+    }
+    if (await pauseIfOverBudget(job)) {
+      await releaseItem(item);
+      return;
+    }
+    if (await storage.startDiscoveryJob(job.id)) {
+      console.log(`[JobRunner] Starting job ${job.id} (${parseEnsembleProviders(job)?.join(", ") ?? job.modelProvider}${job.supplementaryProvider ? ` + supplementary ${job.supplementaryProvider}` : ""}) on ${PROCESS_ID}`);
+      publishJobEvent(job.id, { type: "job_status", status: "running", completed: job.completedCompanies, failed: job.failedCompanies, total_cost_usd: job.totalCostUsd ?? 0 });
+    }
+
+    if (item.stage === "supplementary") {
+      await runSupplementaryItem(job, item, apiKey, workerId);
+    } else {
+      await runPrimaryItem(job, item, apiKey, workerId);
+    }
+    await finishCompletedJobs();
   } finally {
-    isProcessing = false;
-    currentJobId = null;
-    activeWorkerCount = 0;
-    setTimeout(() => processNextJob(), 1000);
+    clearInterval(heartbeat);
+  }
+}
+
+async function runPrimaryItem(job: DiscoveryJob, item: DiscoveryJobItem, apiKey: string | undefined, workerId: number) {
+  const entry: CompanyEntry = { name: item.companyName, isin: item.isin ?? undefined, totalValue: item.totalValue ?? undefined, gicsCode: item.gicsCode ?? undefined };
+  const providerId = item.provider === ENSEMBLE_POOL ? parseEnsembleProviders(job) ?? job.modelProvider ?? "openai" : item.provider;
+  const { webResearch, ...result } = await processOneCompany(job.id, entry, providerId, apiKey, workerId, item.position + 1, job.totalCompanies, job.overrideManualEdits, job.searchBackend);
+
+  // A successful company moves on to the supplementary stage in the supplementary provider's pool.
+  const current = await storage.getDiscoveryJob(job.id);
+  const nextStage: Partial<InsertDiscoveryJobItem> = result.status === "success" && job.supplementaryProvider
+    ? { stage: "supplementary", provider: job.supplementaryProvider, status: current?.status === "cancelled" ? "cancelled" : "pending" }
+    : { status: result.status as DiscoveryItemStatus, finishedAt: new Date() };
+
+  const updated = await storage.recordDiscoveryJobItemResult(item, {
+    ...nextStage,
+    isin: result.isin || item.isin,
+    assetsFound: result.assetsFound ?? null,
+    error: result.error ?? null,
+    worker: `${apiKey ? `W${workerId}` : "W0"}@${PROCESS_ID}`,
+    startedAt: item.claimedAt,
+    result: JSON.stringify(result),
+    webResearch: webResearch ? JSON.stringify(webResearch) : null,
+  }, {
+    completed: result.status === "success" ? 1 : 0,
+    failed: result.status === "success" ? 0 : 1,
+    inputTokens: result.inputTokens,
+    outputTokens: result.outputTokens,
+    costUsd: result.costUsd,
+  });
+  if (updated) {
+    publishCompanyResult(job.id, result, { completed: updated.completedCompanies, failed: updated.failedCompanies, totalCostUsd: updated.totalCostUsd ?? 0 });
   }
 }
 
+async function runSupplementaryItem(job: DiscoveryJob, item: DiscoveryJobItem, apiKey: string | undefined, workerId: number) {
+  const result: JobResult = JSON.parse(item.result ?? "{}");
+  const isin = item.isin || "";
+  const company = isin ? await storage.getCompanyByIsin(isin) : undefined;
+
+  const supp = await processOneSupplementary(
+    job.id, company?.name || item.companyName, isin, company?.sector || "", getIndustryFactor(company?.gicsCode), item.assetsFound || 0,
+    item.provider, apiKey, workerId
+  );
+
+  result.supplementaryAssetsFound = supp.additionalAssets;
+  result.inputTokens = (result.inputTokens || 0) + supp.inputTokens;
+  result.outputTokens = (result.outputTokens || 0) + supp.outputTokens;
+  result.costUsd = (result.costUsd || 0) + supp.costUsd;
+  if (supp.validation) result.validation = mergeValidationReports(result.validation, supp.validation);
+
+  await storage.recordDiscoveryJobItemResult(item, {
+    status: "success",
+    supplementaryAssetsFound: supp.additionalAssets,
+    finishedAt: new Date(),
+    result: JSON.stringify(result),
+  }, {
+    inputTokens: supp.inputTokens,
+    outputTokens: supp.outputTokens,
+    costUsd: supp.costUsd,
+  });
+}
+
 function isRetryableError(message: string): boolean {
   return message.includes("429") || message.includes("rate") || message.includes("timeout") || message.includes("ECONNRESET") || message.includes("500") || message.includes("503") || message.includes("terminated") || message.includes("ETIMEDOUT") || message.includes("ECONNREFUSED") || message.includes("socket hang up") || message.includes("fetch failed");
 }
 
+/** Provider ids for an ensemble job, or null for a single-provider job. */
+export function parseEnsembleProviders(job: { ensembleProviders: string | null }): string[] | null {
+  if (!job.ensembleProviders) return null;
+  try {
+    const ids = JSON.parse(job.ensembleProviders);
+    return Array.isArray(ids) && ids.length > 0 ? ids : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checked before each item: pauses the job as budget_exceeded once its own budget or the monthly
+ * budget is spent. Returns true when the claimed item should go back to the queue; the job resumes
+ * after a budget raise.
+ */
+async function pauseIfOverBudget(job: DiscoveryJob): Promise<boolean> {
+  const reason = await getBudgetStopReason(job);
+  if (!reason) return false;
+  await storage.updateDiscoveryJob(job.id, { status: "budget_exceeded", pausedReason: reason, updatedAt: new Date() });
+  publishJobEvent(job.id, { type: "job_status", status: "budget_exceeded", detail: reason });
+  console.log(`[JobRunner] Job ${job.id} paused: ${reason}`);
+  return true;
+}
+
+/** Result event for one company, carrying the company's totals and the job's running counts. */
+function publishCompanyResult(jobId: number, result: JobResult, totals: { completed: number; failed: number; totalCostUsd: number }) {
+  const type: JobEventType = result.status === "success" ? "saved" : result.status === "quarantined" ? "quarantined" : "failed";
+  publishJobEvent(jobId, {
+    type,
+    company: result.name,
+    worker: `W${result.workerId ?? 0}`,
+    detail: result.status === "success" ? `Saved ${result.assetsFound} assets` : result.error,
+    assets_found: result.assetsFound,
+    input_tokens: result.inputTokens,
+    output_tokens: result.outputTokens,
+    cost_usd: result.costUsd,
+    completed: totals.completed,
+    failed: totals.failed,
+    total_cost_usd: totals.totalCostUsd,
+  });
+}
+
 async function processOneCompany(
+  jobId: number,
   entry: CompanyEntry,
-  providerId: string,
+  providerId: string | string[],
   apiKey: string | undefined,
   workerId: number,
   entryIndex: number,
   totalEntries: number,
-): Promise<JobResult> {
+  overrideManualEdits: boolean = false,
+  searchBackend: string | null = null,
+): Promise<CompanyOutcome> {
   const displayName = entry.isin ? `${entry.name} (${entry.isin})` : entry.name;
   const workerLabel = apiKey ? `W${workerId}` : "W0";
   console.log(`[JobRunner][${workerLabel}] Processing ${displayName} (${entryIndex}/${totalEntries})`);
 
   let lastError = "";
   const maxRetries = 2;
+  // Usage billed by attempts that failed after the model answered.
+  const spent = { inputTokens: 0, outputTokens: 0, costUsd: 0 };
 
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
     try {
       if (attempt > 0) {
         const delay = attempt * 3000;
         console.log(`[JobRunner][${workerLabel}] Retrying ${displayName} (attempt ${attempt + 1}/${maxRetries + 1}) after ${delay}ms`);
+        publishJobEvent(jobId, { type: "retry", company: displayName, worker: workerLabel, detail: `Attempt ${attempt + 1}/${maxRetries + 1} after: ${lastError}` });
         await new Promise(r => setTimeout(r, delay));
       }
 
-      const progressCallback: ProgressCallback = (phase, detail) => {};
+      const progressCallback: ProgressCallback = (phase, detail, usage) => {
+        publishJobEvent(jobId, {
+          type: phase,
+          company: displayName,
+          worker: workerLabel,
+          detail,
+          input_tokens: usage?.inputTokens,
+          output_tokens: usage?.outputTokens,
+          cost_usd: usage?.costUsd,
+        });
+      };
 
-      const result = await discoverCompany(entry.name, providerId, entry.isin, progressCallback, apiKey);
+      // Sector searches need the code before the model answers: the uploaded one, else the stored one.
+      const knownGicsCode = entry.gicsCode ?? (entry.isin ? (await storage.getCompanyByIsin(entry.isin))?.gicsCode : null) ?? null;
+      const result: MultiPassDiscoveryResult & { ensemble?: EnsembleSummary } = Array.isArray(providerId)
+        ? await discoverCompanyEnsemble(entry.name, providerId, entry.isin, progressCallback, searchBackend, knownGicsCode)
+        : await discoverCompany(entry.name, providerId, entry.isin, progressCallback, apiKey, searchBackend, knownGicsCode);
+      const ensemble = result.ensemble;
       const normalized = normalizeAssetValues(result.company, entry.totalValue);
-      const saved = await saveDiscoveredCompany(result.company, providerId);
+
+      const quarantine = await checkDiscoveredIsin(entry.name, entry.isin, result);
+      if (quarantine) {
+        console.log(`[JobRunner][${workerLabel}] ⚠ ${displayName} quarantined: ${quarantine.message}`);
+        return {
+          name: displayName,
+          status: "quarantined",
+          error: quarantine.message,
+          inputTokens: result.totalInputTokens,
+          outputTokens: result.totalOutputTokens,
+          costUsd: result.totalCostUsd,
+          normalized,
+          webResearchUsed: result.webResearchUsed,
+          webResearch: result.webResearch,
+          filing: result.filing ?? undefined,
+          validation: result.validation,
+          quarantine,
+          ensemble,
+          workerId,
+        };
+      }
+
+      const saved = await saveDiscoveredCompany(result.company, providerId, overrideManualEdits, entry.gicsCode);
 
       console.log(`[JobRunner][${workerLabel}] ✓ ${result.company.name}: ${saved.assetCount} assets ($${result.totalCostUsd.toFixed(4)})`);
 
       return {
         name: result.company.name,
         status: "success",
+        isin: result.company.isin || entry.isin,
         assetsFound: saved.assetCount,
         inputTokens: result.totalInputTokens,
         outputTokens: result.totalOutputTokens,
         costUsd: result.totalCostUsd,
         normalized,
         webResearchUsed: result.webResearchUsed,
+        webResearch: result.webResearch,
+        filing: result.filing ?? undefined,
+        validation: result.validation,
+        ensemble,
         workerId,
       };
     } catch (err) {
       lastError = err instanceof Error ? err.message : "Unknown error";
+      if (err instanceof DiscoveryPassError) {
+        spent.inputTokens += err.usage.inputTokens;
+        spent.outputTokens += err.usage.outputTokens;
+        spent.costUsd += err.usage.costUsd;
+      }
       if (!isRetryableError(lastError) || attempt === maxRetries) break;
     }
   }
 
   console.log(`[JobRunner][${workerLabel}] ✗ ${displayName}: ${lastError}`);
-  return { name: displayName, status: "failed", error: lastError, workerId };
-}
-
-async function runJob(jobId: number) {
-  const job = await storage.getDiscoveryJob(jobId);
-  if (!job) {
-    console.error(`[JobRunner] Job ${jobId} not found`);
-    return;
-  }
-
-  let entries: CompanyEntry[] = [];
-  if (job.companyEntries) {
-    try { entries = JSON.parse(job.companyEntries); } catch {}
-  }
-  if (entries.length === 0) {
-    try {
-      const names: string[] = JSON.parse(job.companyNames);
-      entries = names.map(name => ({ name }));
-    } catch {}
-  }
-
-  if (entries.length === 0) {
-    await storage.updateDiscoveryJob(jobId, { status: "failed", updatedAt: new Date() });
-    return;
-  }
-
-  const providerId = job.modelProvider || "openai";
-  const supplementaryProviderId = job.supplementaryProvider || null;
-  const existingResults: JobResult[] = job.results ? JSON.parse(job.results) : [];
-  const processedNames = new Set(existingResults.map(r => r.name.toLowerCase()));
-
-  const primaryDone = existingResults.length > 0 && existingResults.every(r => 
-    r.status === "success" || r.status === "failed"
-  );
-  const supplementaryNeeded = supplementaryProviderId && primaryDone;
-  const supplementaryAlreadyRun = existingResults.some(r => r.supplementaryAssetsFound !== undefined);
-
-  const remainingEntries = supplementaryNeeded ? [] : entries.filter(e => {
-    const displayName = e.isin ? `${e.name} (${e.isin})` : e.name;
-    return !processedNames.has(e.name.toLowerCase()) && !processedNames.has(displayName.toLowerCase());
-  });
-
-  let results = [...existingResults];
-  let completed = job.completedCompanies || 0;
-  let failed = job.failedCompanies || 0;
-  let totalInputTokens = job.totalInputTokens || 0;
-  let totalOutputTokens = job.totalOutputTokens || 0;
-  let totalCostUsd = job.totalCostUsd || 0;
-
-  await storage.updateDiscoveryJob(jobId, {
-    status: "running",
-    updatedAt: new Date(),
-  });
-
-  if (remainingEntries.length > 0) {
-    const parallelKeys = getParallelApiKeys(providerId);
-    const useParallel = parallelKeys.length >= 2;
-    const workerCount = useParallel ? parallelKeys.length : 1;
-    activeWorkerCount = workerCount;
-
-    console.log(`[JobRunner] Starting Phase 1 (${providerId}) for job ${jobId}: ${remainingEntries.length} remaining of ${entries.length} total, workers: ${workerCount}${useParallel ? " (parallel)" : " (sequential)"}${supplementaryProviderId ? `, supplementary: ${supplementaryProviderId}` : ""}`);
-
-    if (useParallel) {
-      await runParallel(jobId, remainingEntries, entries.length, providerId, parallelKeys, results, completed, failed, totalInputTokens, totalOutputTokens, totalCostUsd, !!supplementaryProviderId);
-    } else {
-      await runSequential(jobId, remainingEntries, entries.length, providerId, results, completed, failed, totalInputTokens, totalOutputTokens, totalCostUsd, !!supplementaryProviderId);
-    }
-
-    const updatedJob = await storage.getDiscoveryJob(jobId);
-    if (updatedJob && updatedJob.status === "cancelled") return;
-    results = updatedJob?.results ? JSON.parse(updatedJob.results) : results;
-    completed = updatedJob?.completedCompanies || completed;
-    failed = updatedJob?.failedCompanies || failed;
-    totalInputTokens = updatedJob?.totalInputTokens || totalInputTokens;
-    totalOutputTokens = updatedJob?.totalOutputTokens || totalOutputTokens;
-    totalCostUsd = updatedJob?.totalCostUsd || totalCostUsd;
-  }
-
-  if (supplementaryProviderId && !supplementaryAlreadyRun) {
-    const successResults = results.filter(r => r.status === "success");
-    if (successResults.length > 0) {
-      console.log(`[JobRunner] Starting Phase 2 (supplementary ${supplementaryProviderId}) for job ${jobId}: ${successResults.length} companies`);
-      
-      await runSupplementaryPhase(jobId, entries, supplementaryProviderId, results, totalInputTokens, totalOutputTokens, totalCostUsd);
-      return;
-    }
-  }
-
-  const finalJob = await storage.getDiscoveryJob(jobId);
-  if (finalJob && finalJob.status === "running") {
-    await storage.updateDiscoveryJob(jobId, {
-      status: "complete",
-      updatedAt: new Date(),
-    });
-    console.log(`[JobRunner] Job ${jobId} complete: ${completed} succeeded, ${failed} failed, cost: $${totalCostUsd.toFixed(4)}`);
-  }
-}
-
-async function runSequential(
-  jobId: number,
-  remainingEntries: CompanyEntry[],
-  totalEntries: number,
-  providerId: string,
-  results: JobResult[],
-  completed: number,
-  failed: number,
-  totalInputTokens: number,
-  totalOutputTokens: number,
-  totalCostUsd: number,
-  hasSupplementary: boolean = false,
-) {
-  for (const entry of remainingEntries) {
-    const currentState = await storage.getDiscoveryJob(jobId);
-    if (currentState && currentState.status === "cancelled") {
-      console.log(`[JobRunner] Job ${jobId} was cancelled, stopping`);
-      return;
-    }
-
-    const result = await processOneCompany(entry, providerId, undefined, 0, completed + failed + 1, totalEntries);
-
-    if (result.status === "success") {
-      completed++;
-      totalInputTokens += result.inputTokens || 0;
-      totalOutputTokens += result.outputTokens || 0;
-      totalCostUsd += result.costUsd || 0;
-    } else {
-      failed++;
-    }
-    results.push(result);
-
-    await storage.updateDiscoveryJob(jobId, {
-      completedCompanies: completed,
-      failedCompanies: failed,
-      results: JSON.stringify(results),
-      totalInputTokens,
-      totalOutputTokens,
-      totalCostUsd,
-      updatedAt: new Date(),
-    });
-  }
-
-  if (!hasSupplementary) {
-    await storage.updateDiscoveryJob(jobId, {
-      status: "complete",
-      completedCompanies: completed,
-      failedCompanies: failed,
-      results: JSON.stringify(results),
-      totalInputTokens,
-      totalOutputTokens,
-      totalCostUsd,
-      updatedAt: new Date(),
-    });
-    console.log(`[JobRunner] Job ${jobId} complete: ${completed} succeeded, ${failed} failed, cost: $${totalCostUsd.toFixed(4)}`);
-  } else {
-    console.log(`[JobRunner] Phase 1 complete for job ${jobId}: ${completed} succeeded, ${failed} failed. Supplementary phase next.`);
-  }
+  return { name: displayName, status: "failed", error: lastError, ...spent, workerId };
 }
 
-async function runParallel(
-  jobId: number,
-  remainingEntries: CompanyEntry[],
-  totalEntries: number,
-  providerId: string,
-  apiKeys: string[],
-  initialResults: JobResult[],
-  initialCompleted: number,
-  initialFailed: number,
-  initialInputTokens: number,
-  initialOutputTokens: number,
-  initialCostUsd: number,
-  hasSupplementary: boolean = false,
-) {
-  const state = {
-    results: [...initialResults],
-    completed: initialCompleted,
-    failed: initialFailed,
-    totalInputTokens: initialInputTokens,
-    totalOutputTokens: initialOutputTokens,
-    totalCostUsd: initialCostUsd,
-    queueIndex: 0,
-    cancelled: false,
-    savePending: false,
-  };
-
-  const queue = [...remainingEntries];
-
-  const popNextEntry = (): { entry: CompanyEntry; index: number } | null => {
-    if (state.queueIndex >= queue.length) return null;
-    const index = state.queueIndex;
-    state.queueIndex++;
-    return { entry: queue[index], index };
-  };
-
-  const recordResult = (result: JobResult) => {
-    if (result.status === "success") {
-      state.completed++;
-      state.totalInputTokens += result.inputTokens || 0;
-      state.totalOutputTokens += result.outputTokens || 0;
-      state.totalCostUsd += result.costUsd || 0;
-    } else {
-      state.failed++;
-    }
-    state.results.push(result);
-  };
-
-  const saveProgress = async () => {
-    if (state.savePending) return;
-    state.savePending = true;
-    try {
-      await storage.updateDiscoveryJob(jobId, {
-        completedCompanies: state.completed,
-        failedCompanies: state.failed,
-        results: JSON.stringify(state.results),
-        totalInputTokens: state.totalInputTokens,
-        totalOutputTokens: state.totalOutputTokens,
-        totalCostUsd: state.totalCostUsd,
-        updatedAt: new Date(),
-      });
-    } finally {
-      state.savePending = false;
-    }
-  };
-
-  const checkCancelled = async (): Promise<boolean> => {
-    if (state.cancelled) return true;
-    const currentState = await storage.getDiscoveryJob(jobId);
-    if (currentState && currentState.status === "cancelled") {
-      state.cancelled = true;
-      console.log(`[JobRunner] Job ${jobId} was cancelled, stopping workers`);
-      return true;
-    }
-    return false;
-  };
-
-  const worker = async (workerId: number, apiKey: string) => {
-    while (true) {
-      if (await checkCancelled()) return;
-
-      const item = popNextEntry();
-      if (!item) return;
-
-      const { entry } = item;
-      const overallIndex = state.completed + state.failed + 1;
-
-      const result = await processOneCompany(
-        entry, providerId, apiKey, workerId,
-        overallIndex, totalEntries
-      );
-
-      recordResult(result);
-      await saveProgress();
-    }
-  };
-
-  console.log(`[JobRunner] Starting ${apiKeys.length} parallel workers for job ${jobId}`);
-
-  const workerPromises = apiKeys.map((key, i) => worker(i + 1, key));
-  await Promise.all(workerPromises);
-
-  if (!state.cancelled) {
-    if (!hasSupplementary) {
-      await storage.updateDiscoveryJob(jobId, {
-        status: "complete",
-        completedCompanies: state.completed,
-        failedCompanies: state.failed,
-        results: JSON.stringify(state.results),
-        totalInputTokens: state.totalInputTokens,
-        totalOutputTokens: state.totalOutputTokens,
-        totalCostUsd: state.totalCostUsd,
-        updatedAt: new Date(),
-      });
-      console.log(`[JobRunner] Job ${jobId} complete: ${state.completed} succeeded, ${state.failed} failed, cost: $${state.totalCostUsd.toFixed(4)} (${apiKeys.length} workers)`);
-    } else {
-      await storage.updateDiscoveryJob(jobId, {
-        completedCompanies: state.completed,
-        failedCompanies: state.failed,
-        results: JSON.stringify(state.results),
-        totalInputTokens: state.totalInputTokens,
-        totalOutputTokens: state.totalOutputTokens,
-        totalCostUsd: state.totalCostUsd,
-        updatedAt: new Date(),
-      });
-      console.log(`[JobRunner] Phase 1 complete for job ${jobId}: ${state.completed} succeeded, ${state.failed} failed. Supplementary phase next. (${apiKeys.length} workers)`);
-    }
-  }
-}
 
 async function processOneSupplementary(
+  jobId: number,
   companyName: string,
   isin: string,
   sector: string,
+  industryFactor: number | null,
   existingAssetCount: number,
   supplementaryProviderId: string,
   apiKey: string | undefined,
   workerId: number,
-): Promise<{ additionalAssets: number; inputTokens: number; outputTokens: number; costUsd: number }> {
+): Promise<{ additionalAssets: number; inputTokens: number; outputTokens: number; costUsd: number; validation?: ValidationReport }> {
   const workerLabel = apiKey ? `S${workerId}` : "S0";
   console.log(`[JobRunner][${workerLabel}] Supplementary pass for ${companyName} (${existingAssetCount} existing assets)`);
+  publishJobEvent(jobId, { type: "supplementary", company: companyName, worker: workerLabel, detail: `Supplementary pass with ${getProviderLabel(supplementaryProviderId)} (${existingAssetCount} existing assets)` });
 
   const assets = await storage.getAssetsByIsin(isin);
   if (assets.length === 0) {
     console.log(`[JobRunner][${workerLabel}] No existing assets found for ${companyName} (ISIN: ${isin}), skipping supplementary`);
+    publishJobEvent(jobId, { type: "supplementary_done", company: companyName, worker: workerLabel, detail: "No saved assets to review, skipped" });
     return { additionalAssets: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
   }
 
@@ -467,10 +546,7 @@ async function processOneSupplementary(
       );
 
       if (result.additionalAssets.length > 0) {
-        const providerLabel = supplementaryProviderId === "minimax" ? "MiniMax" :
-          supplementaryProviderId === "deepseek" ? "DeepSeek" :
-          supplementaryProviderId === "gemini" ? "Gemini" :
-          supplementaryProviderId === "claude" ? "Claude" : supplementaryProviderId;
+        const providerLabel = getProviderLabel(supplementaryProviderId);
 
         const validAssets = result.additionalAssets.filter(a => {
           if (!a.facility_name && !a.asset_type && !a.city) return false;
@@ -492,7 +568,7 @@ async function processOneSupplementary(
           sizeFactor: a.size_factor,
           geoFactor: a.geo_factor,
           typeWeight: a.type_weight,
-          industryFactor: a.industry_factor,
+          industryFactor: industryFactor ?? a.industry_factor,
           valuationConfidence: a.valuation_confidence,
           ownershipShare: a.ownership_share ?? 100,
           sector,
@@ -502,8 +578,11 @@ async function processOneSupplementary(
         if (assetInserts.length > 0) {
           await storage.bulkCreateAssets(assetInserts as any);
           const totalAssets = assets.length + assetInserts.length;
-          const totalValue = [...assets, ...assetInserts as any[]].reduce((sum, a) => sum + ((a.valueUsd || a.value_usd || 0) as number), 0);
-          await storage.upsertCompany({ isin, name: companyName, sector, totalAssets: totalValue, assetCount: totalAssets });
+          const companyAssets = [...assets, ...assetInserts];
+          const totalValue = companyAssets.reduce((sum, a) => sum + (a.valueUsd || 0), 0);
+          const attributableAssets = companyAssets.reduce((sum, a) => sum + attributableValue(a), 0);
+          await storage.upsertCompany({ isin, name: companyName, sector, totalAssets: totalValue, attributableAssets, assetCount: totalAssets });
+          await recordAssetVersion(isin, companyName, `AI Discovery (${providerLabel} Supplementary)`);
         }
 
         console.log(`[JobRunner][${workerLabel}] ✓ Supplementary ${companyName}: +${assetInserts.length} new assets ($${result.costUsd.toFixed(4)})`);
@@ -511,11 +590,21 @@ async function processOneSupplementary(
         console.log(`[JobRunner][${workerLabel}] ○ Supplementary ${companyName}: no new assets ($${result.costUsd.toFixed(4)})`);
       }
 
+      publishJobEvent(jobId, {
+        type: "supplementary_done",
+        company: companyName,
+        worker: workerLabel,
+        detail: `Supplementary pass found ${result.additionalAssets.length} new assets`,
+        input_tokens: result.inputTokens,
+        output_tokens: result.outputTokens,
+        cost_usd: result.costUsd,
+      });
       return {
         additionalAssets: result.additionalAssets.length,
         inputTokens: result.inputTokens,
         outputTokens: result.outputTokens,
         costUsd: result.costUsd,
+        validation: result.validation,
       };
     } catch (err) {
       lastError = err instanceof Error ? err.message : "Unknown error";
@@ -524,184 +613,129 @@ async function processOneSupplementary(
   }
 
   console.log(`[JobRunner][${workerLabel}] ✗ Supplementary ${companyName}: ${lastError}`);
+  publishJobEvent(jobId, { type: "supplementary_done", company: companyName, worker: workerLabel, detail: `Supplementary pass failed: ${lastError}` });
   return { additionalAssets: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
 }
 
-async function runSupplementaryPhase(
-  jobId: number,
-  entries: CompanyEntry[],
-  supplementaryProviderId: string,
-  results: JobResult[],
-  totalInputTokens: number,
-  totalOutputTokens: number,
-  totalCostUsd: number,
-) {
-  const successResults = results.filter(r => r.status === "success" && r.supplementaryAssetsFound === undefined);
-  if (successResults.length === 0) {
-    await storage.updateDiscoveryJob(jobId, { status: "complete", updatedAt: new Date() });
-    return;
-  }
 
-  const parallelKeys = getParallelApiKeys(supplementaryProviderId);
-  const useParallel = parallelKeys.length >= 2;
-  const workerCount = useParallel ? parallelKeys.length : 1;
-  activeWorkerCount = workerCount;
+/** Cancels the job's queued items; items already running finish and are recorded. */
+export async function cancelJob(jobId: number): Promise<boolean> {
+  const job = await storage.getDiscoveryJob(jobId);
+  if (!job || (job.status !== "running" && job.status !== "pending" && job.status !== "budget_exceeded")) return false;
+  await storage.updateDiscoveryJob(jobId, { status: "cancelled", updatedAt: new Date() });
+  const cancelled = await storage.updateDiscoveryJobItemsStatus(jobId, ["pending"], "cancelled");
+  publishJobEvent(jobId, { type: "job_status", status: "cancelled" });
+  console.log(`[JobRunner] Cancelled job ${jobId}: ${cancelled} queued items cancelled`);
+  return true;
+}
 
-  console.log(`[JobRunner] Phase 2 (supplementary ${supplementaryProviderId}): ${successResults.length} companies, ${workerCount} workers${useParallel ? " (parallel)" : " (sequential)"}`);
+/**
+ * Moves jobs that predate the item table onto it: one item per stored result, in result order,
+ * then items for companies never processed. The job's JSON blobs are cleared once converted. A job
+ * that was running when the process stopped is marked interrupted, as before, and can be resumed.
+ */
+export async function migrateLegacyDiscoveryJobs() {
+  for (const jobId of await storage.getDiscoveryJobIdsWithoutItems()) {
+    const job = await storage.getDiscoveryJob(jobId);
+    if (!job) continue;
+    await createLegacyItems(job);
+    await storage.updateDiscoveryJob(job.id, {
+      status: job.status === "running" ? "interrupted" : job.status,
+      companyNames: null,
+      companyEntries: null,
+      results: null,
+    });
+    if (job.status === "running") console.log(`[JobRunner] Marked stale job ${job.id} as interrupted (was running at startup)`);
+  }
+}
 
-  const entryMap = new Map(entries.map(e => [e.name.toLowerCase(), e]));
-  const resultMap = new Map(results.map((r, i) => [r.name.toLowerCase(), i]));
+async function createLegacyItems(job: DiscoveryJob) {
+  let entries: CompanyEntry[] = [];
+  if (job.companyEntries) {
+    try { entries = JSON.parse(job.companyEntries); } catch {}
+  }
+  if (entries.length === 0 && job.companyNames) {
+    try { entries = (JSON.parse(job.companyNames) as string[]).map(name => ({ name })); } catch {}
+  }
+  let results: JobResult[] = [];
+  if (job.results) {
+    try { results = JSON.parse(job.results); } catch {}
+  }
+  const provider = parseEnsembleProviders(job) ? ENSEMBLE_POOL : job.modelProvider || "openai";
+  // Unfinished work only runs again on resume, except for a job that never started.
+  const waiting: DiscoveryItemStatus = job.status === "pending" ? "pending" : "cancelled";
 
-  const companiesToProcess = successResults.map(r => {
-    const entry = entryMap.get(r.name.toLowerCase()) || 
-                  entries.find(e => r.name.toLowerCase().includes(e.name.toLowerCase()));
+  const done: InsertDiscoveryJobItem[] = results.map((r, i) => {
+    const needsSupplementary = r.status === "success" && !!job.supplementaryProvider && r.supplementaryAssetsFound === undefined;
+    const status: DiscoveryItemStatus = needsSupplementary ? waiting : r.status === "success" || r.status === "quarantined" ? r.status : "failed";
     return {
-      name: r.name,
-      isin: entry?.isin || '',
-      sector: '',
-      existingAssetCount: r.assetsFound || 0,
+      jobId: job.id,
+      position: i,
+      companyName: r.name,
+      isin: r.isin ?? null,
+      stage: needsSupplementary ? "supplementary" : "primary",
+      provider: needsSupplementary ? job.supplementaryProvider! : provider,
+      status,
+      worker: r.workerId !== undefined ? `W${r.workerId}` : null,
+      inputTokens: r.inputTokens ?? 0,
+      outputTokens: r.outputTokens ?? 0,
+      costUsd: r.costUsd ?? 0,
+      assetsFound: r.assetsFound ?? null,
+      supplementaryAssetsFound: r.supplementaryAssetsFound ?? null,
+      error: r.error ?? null,
+      result: JSON.stringify(r),
+      finishedAt: needsSupplementary ? null : job.updatedAt,
     };
   });
-
-  for (const c of companiesToProcess) {
-    if (!c.isin) {
-      const assets = await storage.getAssetsByCompany(c.name);
-      if (assets.length > 0) {
-        c.isin = assets[0].isin || '';
-        c.sector = assets[0].sector || '';
-      }
-    }
-    if (!c.sector) {
-      const companies = await storage.getCompanies();
-      const match = companies.find(co => co.name.toLowerCase() === c.name.toLowerCase());
-      if (match) c.sector = match.sector || '';
-    }
-  }
-
-  if (useParallel) {
-    const state = {
-      queueIndex: 0,
-      savePending: false,
-    };
-
-    const popNext = (): typeof companiesToProcess[0] | null => {
-      if (state.queueIndex >= companiesToProcess.length) return null;
-      const item = companiesToProcess[state.queueIndex++];
-      return item;
-    };
-
-    const worker = async (workerId: number, apiKey: string) => {
-      while (true) {
-        const currentState = await storage.getDiscoveryJob(jobId);
-        if (currentState && currentState.status === "cancelled") return;
-
-        const item = popNext();
-        if (!item) return;
-
-        const suppResult = await processOneSupplementary(
-          item.name, item.isin, item.sector, item.existingAssetCount,
-          supplementaryProviderId, apiKey, workerId
-        );
-
-        const idx = resultMap.get(item.name.toLowerCase());
-        if (idx !== undefined) {
-          results[idx].supplementaryAssetsFound = suppResult.additionalAssets;
-          results[idx].inputTokens = (results[idx].inputTokens || 0) + suppResult.inputTokens;
-          results[idx].outputTokens = (results[idx].outputTokens || 0) + suppResult.outputTokens;
-          results[idx].costUsd = (results[idx].costUsd || 0) + suppResult.costUsd;
-        }
-        totalInputTokens += suppResult.inputTokens;
-        totalOutputTokens += suppResult.outputTokens;
-        totalCostUsd += suppResult.costUsd;
-
-        if (!state.savePending) {
-          state.savePending = true;
-          try {
-            await storage.updateDiscoveryJob(jobId, {
-              results: JSON.stringify(results),
-              totalInputTokens,
-              totalOutputTokens,
-              totalCostUsd,
-              updatedAt: new Date(),
-            });
-          } finally {
-            state.savePending = false;
-          }
-        }
-      }
-    };
-
-    const workerPromises = parallelKeys.map((key, i) => worker(i + 1, key));
-    await Promise.all(workerPromises);
-  } else {
-    for (const item of companiesToProcess) {
-      const currentState = await storage.getDiscoveryJob(jobId);
-      if (currentState && currentState.status === "cancelled") return;
-
-      const suppResult = await processOneSupplementary(
-        item.name, item.isin, item.sector, item.existingAssetCount,
-        supplementaryProviderId, undefined, 0
-      );
-
-      const idx = resultMap.get(item.name.toLowerCase());
-      if (idx !== undefined) {
-        results[idx].supplementaryAssetsFound = suppResult.additionalAssets;
-        results[idx].inputTokens = (results[idx].inputTokens || 0) + suppResult.inputTokens;
-        results[idx].outputTokens = (results[idx].outputTokens || 0) + suppResult.outputTokens;
-        results[idx].costUsd = (results[idx].costUsd || 0) + suppResult.costUsd;
-      }
-      totalInputTokens += suppResult.inputTokens;
-      totalOutputTokens += suppResult.outputTokens;
-      totalCostUsd += suppResult.costUsd;
-
-      await storage.updateDiscoveryJob(jobId, {
-        results: JSON.stringify(results),
-        totalInputTokens,
-        totalOutputTokens,
-        totalCostUsd,
-        updatedAt: new Date(),
-      });
-    }
-  }
-
-  const finalState = await storage.getDiscoveryJob(jobId);
-  if (finalState && finalState.status !== "cancelled") {
-    const totalSupp = results.reduce((sum, r) => sum + (r.supplementaryAssetsFound || 0), 0);
-    await storage.updateDiscoveryJob(jobId, {
-      status: "complete",
-      results: JSON.stringify(results),
-      totalInputTokens,
-      totalOutputTokens,
-      totalCostUsd,
-      updatedAt: new Date(),
-    });
-    console.log(`[JobRunner] Job ${jobId} fully complete (Phase 1 + 2): supplementary added ${totalSupp} assets, total cost: $${totalCostUsd.toFixed(4)}`);
-  }
+  // Results from parallel runs are in completion order, so unprocessed companies are found by name.
+  const processed = new Set(results.map(r => r.name.toLowerCase()));
+  const remaining = results.length >= entries.length ? [] : entries.filter(e => {
+    const displayName = e.isin ? `${e.name} (${e.isin})` : e.name;
+    return !processed.has(e.name.toLowerCase()) && !processed.has(displayName.toLowerCase());
+  });
+  const waitingItems = itemsForEntries(job.id, remaining, provider, done.length).map(item => ({ ...item, status: waiting }));
+  await storage.createDiscoveryJobItems([...done, ...waitingItems]);
+  console.log(`[JobRunner] Converted job ${job.id} to queue items: ${done.length} finished, ${remaining.length} unprocessed`);
 }
 
-export async function cancelJob(jobId: number): Promise<boolean> {
+export async function resumeJob(jobId: number): Promise<boolean> {
   const job = await storage.getDiscoveryJob(jobId);
-  if (!job || (job.status !== "running" && job.status !== "pending")) return false;
-  await storage.updateDiscoveryJob(jobId, { status: "cancelled", updatedAt: new Date() });
+  if (!job) return false;
+  if (job.status !== "interrupted" && job.status !== "failed" && job.status !== "cancelled" && job.status !== "budget_exceeded") return false;
+
+  const requeued = await storage.updateDiscoveryJobItemsStatus(jobId, ["cancelled"], "pending");
+  await storage.updateDiscoveryJob(jobId, { status: "pending", pausedReason: null, updatedAt: new Date() });
+  publishJobEvent(jobId, { type: "job_status", status: "pending" });
+  console.log(`[JobRunner] Resuming job ${jobId} (was ${job.status}), ${requeued} cancelled items requeued`);
+  dispatch();
   return true;
 }
 
-export async function markStaleJobsInterrupted() {
-  const jobs = await storage.getDiscoveryJobs();
-  const staleJobs = jobs.filter(j => j.status === "running");
-  for (const j of staleJobs) {
-    await storage.updateDiscoveryJob(j.id, { status: "interrupted", updatedAt: new Date() });
-    console.log(`[JobRunner] Marked stale job ${j.id} as interrupted (was running at startup)`);
+/**
+ * Queues failed companies for another attempt within their job: all of them, or only those in
+ * `itemIds`. A finished or paused job goes back to pending. Returns null for an unknown job; callers
+ * refuse cancelled jobs, whose cancelled items this would leave behind.
+ */
+export async function retryFailedItems(jobId: number, itemIds?: number[]): Promise<number | null> {
+  const job = await storage.getDiscoveryJob(jobId);
+  if (!job) return null;
+
+  const retried = await storage.retryFailedDiscoveryJobItems(jobId, itemIds);
+  if (retried > 0 && job.status !== "pending" && job.status !== "running") {
+    await storage.updateDiscoveryJob(jobId, { status: "pending", pausedReason: null, updatedAt: new Date() });
+    publishJobEvent(jobId, { type: "job_status", status: "pending" });
   }
+  console.log(`[JobRunner] Retrying ${retried} failed items of job ${jobId}`);
+  dispatch();
+  return retried;
 }
 
-export async function resumeJob(jobId: number): Promise<boolean> {
-  const job = await storage.getDiscoveryJob(jobId);
-  if (!job) return false;
-  if (job.status !== "interrupted" && job.status !== "failed" && job.status !== "cancelled") return false;
-
-  await storage.updateDiscoveryJob(jobId, { status: "pending", updatedAt: new Date() });
-  console.log(`[JobRunner] Resuming job ${jobId} (was ${job.status})`);
-  startJobRunner();
-  return true;
+/** Changes where a job sits in the queue; applies to items not yet claimed. */
+export async function setJobPriority(jobId: number, priority: number): Promise<DiscoveryJob | undefined> {
+  const job = await storage.updateDiscoveryJob(jobId, { priority, updatedAt: new Date() });
+  if (job) {
+    console.log(`[JobRunner] Job ${jobId} priority set to ${priority}`);
+    dispatch();
+  }
+  return job;
 }
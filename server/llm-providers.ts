@@ -1,12 +1,25 @@
 import OpenAI from "openai";
 import Anthropic from "@anthropic-ai/sdk";
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import { z } from "zod";
+import { getCassetteMode, hasCassettes, withCassette } from "./cassette";
+import { callFakeProvider } from "./fake-llm";
 
 export interface LLMProvider {
   id: string;
   name: string;
+  label: string;
+  kind: ProviderKind;
   model: string;
+  baseUrl: string | null;
   costPer1kInputTokens: number;
   costPer1kOutputTokens: number;
+  supportsJsonMode: boolean;
+  maxOutputTokens: number;
+  keyEnv: string | null;
+  requiresKey: boolean;
+  source: "builtin" | "config";
   available: boolean;
 }
 
@@ -18,44 +31,74 @@ export interface LLMResponse {
   costUsd: number;
 }
 
-const PROVIDERS_CONFIG: Record<string, {
-  name: string;
-  model: string;
-  costPer1kInput: number;
-  costPer1kOutput: number;
-  envKey: string;
-  supportsJsonMode: boolean;
-  maxOutputTokens: number;
-}> = {
-  openai: {
+export const PROVIDER_KINDS = ["openai-compatible", "anthropic", "minimax", "fake"] as const;
+export type ProviderKind = typeof PROVIDER_KINDS[number];
+
+/**
+ * One registry entry. Hosted vendors set envKey; self-hosted OpenAI-compatible servers
+ * (Ollama, vLLM, llama.cpp) usually leave it out and are available whenever they're registered.
+ */
+const providerConfigSchema = z.object({
+  id: z.string().trim().regex(/^[a-z0-9][a-z0-9_-]*$/, "Provider id must be lowercase letters, digits, - or _"),
+  name: z.string().trim().min(1),
+  label: z.string().trim().min(1).optional(),
+  kind: z.enum(PROVIDER_KINDS).default("openai-compatible"),
+  model: z.string().trim().min(1),
+  baseUrl: z.string().trim().url().optional(),
+  costPer1kInput: z.number().min(0).default(0),
+  costPer1kOutput: z.number().min(0).default(0),
+  supportsJsonMode: z.boolean().default(false),
+  maxOutputTokens: z.number().int().positive().default(4096),
+  envKey: z.string().trim().min(1).optional(),
+  fallbackEnvKey: z.string().trim().min(1).optional(),
+  enabled: z.boolean().default(true),
+});
+
+type ProviderConfig = z.infer<typeof providerConfigSchema> & { source: "builtin" | "config" };
+
+const BUILTIN_PROVIDERS: Array<z.input<typeof providerConfigSchema>> = [
+  {
+    id: "openai",
     name: "OpenAI (GPT-4o Mini)",
+    label: "GPT",
     model: "gpt-4o-mini",
+    baseUrl: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL || "https://api.openai.com/v1",
     costPer1kInput: 0.00015,
     costPer1kOutput: 0.0006,
     envKey: "OPENAI_API_KEY",
+    fallbackEnvKey: "AI_INTEGRATIONS_OPENAI_API_KEY",
     supportsJsonMode: true,
     maxOutputTokens: 16384,
   },
-  deepseek: {
+  {
+    id: "deepseek",
     name: "DeepSeek (V3)",
+    label: "DeepSeek",
     model: "deepseek-chat",
+    baseUrl: "https://api.deepseek.com/v1",
     costPer1kInput: 0.00028,
     costPer1kOutput: 0.00042,
     envKey: "DEEPSEEK_API_KEY",
     supportsJsonMode: true,
     maxOutputTokens: 8192,
   },
-  gemini: {
+  {
+    id: "gemini",
     name: "Google Gemini (2.0 Flash)",
+    label: "Gemini",
     model: "gemini-2.0-flash",
+    baseUrl: "https://generativelanguage.googleapis.com/v1beta/openai/",
     costPer1kInput: 0.0001,
     costPer1kOutput: 0.0004,
     envKey: "GEMINI_API_KEY",
     supportsJsonMode: true,
     maxOutputTokens: 16384,
   },
-  claude: {
+  {
+    id: "claude",
     name: "Claude (Sonnet 4)",
+    label: "Claude",
+    kind: "anthropic",
     model: "claude-sonnet-4-20250514",
     costPer1kInput: 0.003,
     costPer1kOutput: 0.015,
@@ -63,17 +106,117 @@ const PROVIDERS_CONFIG: Record<string, {
     supportsJsonMode: false,
     maxOutputTokens: 16384,
   },
-  minimax: {
+  {
+    id: "minimax",
     name: "MiniMax (M2.5)",
+    label: "MiniMax",
+    kind: "minimax",
     model: "MiniMax-M2.5",
+    baseUrl: "https://api.minimax.io/v1",
     costPer1kInput: 0.00015,
     costPer1kOutput: 0.0006,
     envKey: "MINIMAX_API_KEY",
     supportsJsonMode: false,
     maxOutputTokens: 16384,
   },
+];
+
+// Offline provider answering from canned fixtures; registered when LLM_FAKE_FIXTURES_DIR is set.
+const FAKE_PROVIDER: z.input<typeof providerConfigSchema> = {
+  id: "fake",
+  name: "Fake (fixtures)",
+  label: "Fake",
+  kind: "fake",
+  model: "fixtures",
+  supportsJsonMode: true,
 };
 
+let registry: Map<string, ProviderConfig> | null = null;
+
+export function getProviderRegistryFile(): string {
+  return process.env.LLM_PROVIDERS_FILE || path.resolve(process.cwd(), "data", "llm-providers.json");
+}
+
+/**
+ * Reads the registry file: a JSON array (or { "providers": [...] }) of entries. An entry whose id
+ * matches a built-in overrides just the fields it sets, so swapping a vendor's model is one line;
+ * "enabled": false removes a provider. Invalid entries are logged and skipped.
+ */
+function readRegistryFile(file: string): Array<Record<string, unknown>> {
+  if (!existsSync(file)) return [];
+  try {
+    const parsed = JSON.parse(readFileSync(file, "utf-8"));
+    const entries = Array.isArray(parsed) ? parsed : parsed?.providers;
+    if (!Array.isArray(entries)) {
+      console.error(`[LLMProviders] ${file} must contain an array of providers`);
+      return [];
+    }
+    return entries;
+  } catch (err) {
+    console.error(`[LLMProviders] Could not read ${file}: ${err instanceof Error ? err.message : String(err)}`);
+    return [];
+  }
+}
+
+function buildRegistry(): Map<string, ProviderConfig> {
+  const result = new Map<string, ProviderConfig>();
+  for (const entry of BUILTIN_PROVIDERS) {
+    result.set(entry.id, { ...providerConfigSchema.parse(entry), source: "builtin" });
+  }
+  if (process.env.LLM_FAKE_FIXTURES_DIR) {
+    result.set(FAKE_PROVIDER.id, { ...providerConfigSchema.parse(FAKE_PROVIDER), source: "builtin" });
+  }
+
+  const file = getProviderRegistryFile();
+  for (const entry of readRegistryFile(file)) {
+    const builtin = typeof entry?.id === "string" ? BUILTIN_PROVIDERS.find(b => b.id === entry.id) : undefined;
+    const parsed = providerConfigSchema.safeParse(builtin ? { ...builtin, ...entry } : entry);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      console.error(`[LLMProviders] Skipping provider ${JSON.stringify(entry?.id ?? null)} in ${file}: ${issue.path.join(".") || "entry"} ${issue.message}`);
+      continue;
+    }
+    if (parsed.data.kind === "openai-compatible" && !parsed.data.baseUrl) {
+      console.error(`[LLMProviders] Skipping provider "${parsed.data.id}" in ${file}: baseUrl is required for openai-compatible providers`);
+      continue;
+    }
+    if (!parsed.data.enabled) {
+      result.delete(parsed.data.id);
+      continue;
+    }
+    result.set(parsed.data.id, { ...parsed.data, source: "config" });
+  }
+
+  const custom = Array.from(result.values()).filter(p => p.source === "config").map(p => p.id);
+  if (custom.length > 0) console.log(`[LLMProviders] Loaded ${custom.length} providers from ${file}: ${custom.join(", ")}`);
+  return result;
+}
+
+function getRegistry(): Map<string, ProviderConfig> {
+  if (!registry) registry = buildRegistry();
+  return registry;
+}
+
+/** Drops the cached registry so the next call re-reads the file. */
+export function reloadProviderRegistry(): LLMProvider[] {
+  registry = null;
+  return getAvailableProviders();
+}
+
+function getProviderConfig(providerId: string): ProviderConfig | undefined {
+  return getRegistry().get(providerId);
+}
+
+export function isKnownProvider(providerId: string): boolean {
+  return getRegistry().has(providerId);
+}
+
+/** Short name used in asset data-source strings, e.g. "AI Discovery (DeepSeek)". */
+export function getProviderLabel(providerId: string): string {
+  const config = getProviderConfig(providerId);
+  return config?.label || config?.name || providerId;
+}
+
 function isValidApiKey(key: string | undefined): boolean {
   if (!key) return false;
   if (key.startsWith("_DUMMY") || key === "DUMMY" || key.includes("DUMMY")) return false;
@@ -81,31 +224,40 @@ function isValidApiKey(key: string | undefined): boolean {
   return true;
 }
 
-function resolveApiKey(providerId: string, config: { envKey: string }): string | undefined {
-  if (providerId === "openai") {
-    const primary = process.env.OPENAI_API_KEY;
-    if (isValidApiKey(primary)) return primary;
-    const fallback = process.env.AI_INTEGRATIONS_OPENAI_API_KEY;
-    if (isValidApiKey(fallback)) return fallback;
-    return undefined;
+function resolveApiKey(config: ProviderConfig): string | undefined {
+  for (const envKey of [config.envKey, config.fallbackEnvKey]) {
+    const key = envKey ? process.env[envKey] : undefined;
+    if (isValidApiKey(key)) return key;
   }
-  const key = process.env[config.envKey];
-  return isValidApiKey(key) ? key : undefined;
+  return undefined;
 }
 
-export function getAvailableProviders(): LLMProvider[] {
-  return Object.entries(PROVIDERS_CONFIG).map(([id, config]) => ({
-    id,
+function toProvider(config: ProviderConfig): LLMProvider {
+  const requiresKey = !!config.envKey;
+  return {
+    id: config.id,
     name: config.name,
+    label: config.label || config.name,
+    kind: config.kind,
     model: config.model,
+    baseUrl: config.baseUrl ?? null,
     costPer1kInputTokens: config.costPer1kInput,
     costPer1kOutputTokens: config.costPer1kOutput,
-    available: !!resolveApiKey(id, config),
-  }));
+    supportsJsonMode: config.supportsJsonMode,
+    maxOutputTokens: config.maxOutputTokens,
+    keyEnv: config.envKey ? [config.envKey, config.fallbackEnvKey].filter(Boolean).join(" / ") : null,
+    requiresKey,
+    source: config.source,
+    available: !requiresKey || !!resolveApiKey(config) || (getCassetteMode() === "replay" && hasCassettes("llm", config.id)),
+  };
+}
+
+export function getAvailableProviders(): LLMProvider[] {
+  return Array.from(getRegistry().values()).map(toProvider);
 }
 
 function calculateCost(inputTokens: number, outputTokens: number, providerId: string): number {
-  const config = PROVIDERS_CONFIG[providerId];
+  const config = getProviderConfig(providerId);
   if (!config) return 0;
   return (inputTokens / 1000) * config.costPer1kInput + (outputTokens / 1000) * config.costPer1kOutput;
 }
@@ -163,13 +315,16 @@ async function callOpenAICompatible(
 
 async function callClaude(
   apiKey: string,
+  model: string,
   systemPrompt: string,
   userPrompt: string,
-  maxOutputTokens: number
+  providerId: string,
+  maxOutputTokens: number,
+  baseURL?: string
 ): Promise<LLMResponse> {
-  const client = new Anthropic({ apiKey });
+  const client = new Anthropic({ apiKey, ...(baseURL ? { baseURL } : {}) });
   const response = await client.messages.create({
-    model: PROVIDERS_CONFIG.claude.model,
+    model,
     max_tokens: maxOutputTokens,
     system: systemPrompt + "\n\nIMPORTANT: Respond with valid JSON only. No markdown, no code fences, just raw JSON.",
     messages: [
@@ -189,24 +344,27 @@ async function callClaude(
     inputTokens,
     outputTokens,
     totalTokens: inputTokens + outputTokens,
-    costUsd: calculateCost(inputTokens, outputTokens, "claude"),
+    costUsd: calculateCost(inputTokens, outputTokens, providerId),
   };
 }
 
 async function callMiniMax(
+  baseURL: string,
   apiKey: string,
+  model: string,
   systemPrompt: string,
   userPrompt: string,
+  providerId: string,
   maxOutputTokens: number
 ): Promise<LLMResponse> {
-  const response = await fetch("https://api.minimax.io/v1/text/chatcompletion_v2", {
+  const response = await fetch(`${baseURL.replace(/\/+$/, "")}/text/chatcompletion_v2`, {
     method: "POST",
     headers: {
       "Authorization": `Bearer ${apiKey}`,
       "Content-Type": "application/json",
     },
     body: JSON.stringify({
-      model: PROVIDERS_CONFIG.minimax.model,
+      model,
       messages: [
         { role: "system", name: "assistant", content: systemPrompt + "\n\nIMPORTANT: Respond with valid JSON only. No markdown, no code fences, just raw JSON." },
         { role: "user", name: "user", content: userPrompt },
@@ -237,14 +395,14 @@ async function callMiniMax(
     inputTokens,
     outputTokens,
     totalTokens: inputTokens + outputTokens,
-    costUsd: calculateCost(inputTokens, outputTokens, "minimax"),
+    costUsd: calculateCost(inputTokens, outputTokens, providerId),
   };
 }
 
 export function getParallelApiKeys(providerId: string): string[] {
   const keys: string[] = [];
   for (let i = 1; i <= 10; i++) {
-    const envVar = `${providerId.toUpperCase()}_API_KEY_${i}`;
+    const envVar = `${providerId.toUpperCase().replace(/[^A-Z0-9]/g, "_")}_API_KEY_${i}`;
     const key = process.env[envVar];
     if (isValidApiKey(key)) {
       keys.push(key!);
@@ -253,37 +411,23 @@ export function getParallelApiKeys(providerId: string): string[] {
   return keys;
 }
 
-export async function callLLM(
-  providerId: string,
+async function callLiveLLM(
+  config: ProviderConfig,
   systemPrompt: string,
   userPrompt: string,
   apiKeyOverride?: string
 ): Promise<LLMResponse> {
-  const config = PROVIDERS_CONFIG[providerId];
-  if (!config) {
-    throw new Error(`Unknown provider: ${providerId}. Valid providers: ${Object.keys(PROVIDERS_CONFIG).join(", ")}`);
-  }
-
-  const apiKey = apiKeyOverride || resolveApiKey(providerId, config);
+  const providerId = config.id;
+  // Self-hosted servers ignore the key, but the OpenAI SDK refuses to build a client without one.
+  const apiKey = apiKeyOverride || resolveApiKey(config) || (config.envKey ? undefined : "not-needed");
   if (!apiKey) {
     throw new Error(`API key not configured for ${config.name}. Set ${config.envKey} in secrets.`);
   }
 
-  switch (providerId) {
-    case "openai":
-      return callOpenAICompatible(
-        process.env.AI_INTEGRATIONS_OPENAI_BASE_URL || "https://api.openai.com/v1",
-        apiKey,
-        config.model,
-        systemPrompt,
-        userPrompt,
-        providerId,
-        config.supportsJsonMode,
-        config.maxOutputTokens
-      );
-    case "deepseek":
+  switch (config.kind) {
+    case "openai-compatible":
       return callOpenAICompatible(
-        "https://api.deepseek.com/v1",
+        config.baseUrl!,
         apiKey,
         config.model,
         systemPrompt,
@@ -292,22 +436,30 @@ export async function callLLM(
         config.supportsJsonMode,
         config.maxOutputTokens
       );
-    case "gemini":
-      return callOpenAICompatible(
-        "https://generativelanguage.googleapis.com/v1beta/openai/",
-        apiKey,
-        config.model,
-        systemPrompt,
-        userPrompt,
-        providerId,
-        config.supportsJsonMode,
-        config.maxOutputTokens
-      );
-    case "claude":
-      return callClaude(apiKey, systemPrompt, userPrompt, config.maxOutputTokens);
+    case "anthropic":
+      return callClaude(apiKey, config.model, systemPrompt, userPrompt, providerId, config.maxOutputTokens, config.baseUrl);
     case "minimax":
-      return callMiniMax(apiKey, systemPrompt, userPrompt, config.maxOutputTokens);
+      return callMiniMax(config.baseUrl || "https://api.minimax.io/v1", apiKey, config.model, systemPrompt, userPrompt, providerId, config.maxOutputTokens);
     default:
       throw new Error(`Provider ${providerId} not implemented`);
   }
 }
+
+export async function callLLM(
+  providerId: string,
+  systemPrompt: string,
+  userPrompt: string,
+  apiKeyOverride?: string
+): Promise<LLMResponse> {
+  const config = getProviderConfig(providerId);
+  if (!config) {
+    throw new Error(`Unknown provider: ${providerId}. Valid providers: ${Array.from(getRegistry().keys()).join(", ")}`);
+  }
+  if (config.kind === "fake") {
+    return callFakeProvider(systemPrompt, userPrompt);
+  }
+
+  return withCassette("llm", providerId, { provider: providerId, systemPrompt, userPrompt }, () =>
+    callLiveLLM(config, systemPrompt, userPrompt, apiKeyOverride)
+  );
+}
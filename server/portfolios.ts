@@ -0,0 +1,145 @@
+import { storage } from "./storage";
+import { attributableValue, type Asset, type Portfolio, type PortfolioHolding, type PortfolioHoldingInput } from "@shared/schema";
+
+export interface ExposureBucket {
+  key: string;
+  asset_count: number;
+  adjusted_value_usd: number;
+  portfolio_weight_percent: number;
+  exposure_usd: number | null;
+}
+
+export interface HoldingSummary {
+  isin: string;
+  name: string | null;
+  company_name: string | null;
+  weight_percent: number;
+  market_value: number | null;
+  asset_count: number;
+  adjusted_value_usd: number;
+}
+
+export interface PortfolioReport {
+  portfolio: Portfolio;
+  weight_basis: "weight" | "marketValue";
+  total_market_value: number | null;
+  holdings_count: number;
+  covered_holdings_count: number;
+  coverage_weight_percent: number;
+  total_adjusted_value_usd: number;
+  holdings: HoldingSummary[];
+  missing_holdings: Array<{ isin: string; name: string | null; weight_percent: number }>;
+  by_country: ExposureBucket[];
+  by_asset_type: ExposureBucket[];
+  by_sector: ExposureBucket[];
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Collapses repeated ISINs (e.g. several share lines in an upload) into one holding. */
+export function mergeHoldings(holdings: PortfolioHoldingInput[]): PortfolioHoldingInput[] {
+  const merged = new Map<string, PortfolioHoldingInput>();
+  for (const h of holdings) {
+    const existing = merged.get(h.isin);
+    if (!existing) {
+      merged.set(h.isin, { ...h });
+      continue;
+    }
+    if (h.weight !== undefined) existing.weight = (existing.weight ?? 0) + h.weight;
+    if (h.marketValue !== undefined) existing.marketValue = (existing.marketValue ?? 0) + h.marketValue;
+    existing.name = existing.name || h.name;
+  }
+  return Array.from(merged.values());
+}
+
+export async function buildPortfolioReport(portfolio: Portfolio, holdings: PortfolioHolding[]): Promise<PortfolioReport> {
+  const weightBasis = holdings.every(h => h.weight != null) ? "weight" : "marketValue";
+  const basisOf = (h: PortfolioHolding) => (weightBasis === "weight" ? h.weight : h.marketValue) ?? 0;
+  const basisTotal = holdings.reduce((sum, h) => sum + basisOf(h), 0);
+  const totalMarketValue = holdings.every(h => h.marketValue != null)
+    ? holdings.reduce((sum, h) => sum + (h.marketValue ?? 0), 0)
+    : null;
+
+  const heldAssets = holdings.length > 0 ? await storage.getAssets({ isin: holdings.map(h => h.isin) }) : [];
+  const assetsByIsin = new Map<string, Asset[]>();
+  for (const a of heldAssets) {
+    if (!a.isin) continue;
+    const list = assetsByIsin.get(a.isin) ?? [];
+    list.push(a);
+    assetsByIsin.set(a.isin, list);
+  }
+
+  const buckets = {
+    country: new Map<string, ExposureBucket>(),
+    assetType: new Map<string, ExposureBucket>(),
+    sector: new Map<string, ExposureBucket>(),
+  };
+  const addToBucket = (map: Map<string, ExposureBucket>, key: string | null, value: number, weightShare: number, exposureUsd: number | null) => {
+    const k = key || "Unknown";
+    const bucket = map.get(k) ?? { key: k, asset_count: 0, adjusted_value_usd: 0, portfolio_weight_percent: 0, exposure_usd: exposureUsd === null ? null : 0 };
+    bucket.asset_count++;
+    bucket.adjusted_value_usd += value;
+    bucket.portfolio_weight_percent += weightShare * 100;
+    if (exposureUsd !== null) bucket.exposure_usd = (bucket.exposure_usd ?? 0) + exposureUsd;
+    map.set(k, bucket);
+  };
+
+  const summaries: HoldingSummary[] = [];
+  const missing: PortfolioReport["missing_holdings"] = [];
+  let coveredWeight = 0;
+  let totalAdjusted = 0;
+
+  for (const h of holdings) {
+    const weight = basisTotal > 0 ? basisOf(h) / basisTotal : 0;
+    const companyAssets = assetsByIsin.get(h.isin) ?? [];
+    const companyAdjusted = companyAssets.reduce((sum, a) => sum + attributableValue(a), 0);
+
+    summaries.push({
+      isin: h.isin,
+      name: h.name,
+      company_name: companyAssets[0]?.companyName ?? null,
+      weight_percent: round2(weight * 100),
+      market_value: h.marketValue,
+      asset_count: companyAssets.length,
+      adjusted_value_usd: companyAdjusted,
+    });
+
+    if (companyAssets.length === 0) {
+      missing.push({ isin: h.isin, name: h.name, weight_percent: round2(weight * 100) });
+      continue;
+    }
+    coveredWeight += weight;
+    totalAdjusted += companyAdjusted;
+
+    for (const a of companyAssets) {
+      const value = attributableValue(a);
+      // Assets carry the holding's weight in proportion to their share of the company's
+      // attributable value; fall back to an equal split when no asset is valued.
+      const share = companyAdjusted > 0 ? value / companyAdjusted : 1 / companyAssets.length;
+      const exposureUsd = h.marketValue != null && totalMarketValue !== null ? h.marketValue * share : null;
+      addToBucket(buckets.country, a.country, value, weight * share, exposureUsd);
+      addToBucket(buckets.assetType, a.assetType, value, weight * share, exposureUsd);
+      addToBucket(buckets.sector, a.sector, value, weight * share, exposureUsd);
+    }
+  }
+
+  const finish = (map: Map<string, ExposureBucket>) =>
+    Array.from(map.values())
+      .map(b => ({ ...b, portfolio_weight_percent: round2(b.portfolio_weight_percent) }))
+      .sort((a, b) => b.portfolio_weight_percent - a.portfolio_weight_percent);
+
+  return {
+    portfolio,
+    weight_basis: weightBasis,
+    total_market_value: totalMarketValue,
+    holdings_count: holdings.length,
+    covered_holdings_count: holdings.length - missing.length,
+    coverage_weight_percent: round2(coveredWeight * 100),
+    total_adjusted_value_usd: totalAdjusted,
+    holdings: summaries,
+    missing_holdings: missing,
+    by_country: finish(buckets.country),
+    by_asset_type: finish(buckets.assetType),
+    by_sector: finish(buckets.sector),
+  };
+}
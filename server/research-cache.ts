@@ -0,0 +1,85 @@
+import { createHash } from "crypto";
+import { storage, type ResearchCacheStats } from "./storage";
+import { getCassetteMode } from "./cassette";
+
+const DEFAULT_TTL_HOURS = 7 * 24;
+
+/** One search result as it reaches the prompt; knowledge-graph facts have no title or link. */
+export interface SearchSnippet {
+  text: string;
+  title?: string;
+  link?: string;
+}
+
+export interface CachedSearch {
+  snippets: SearchSnippet[];
+  cached: boolean;
+  fetchedAt: Date;
+}
+
+export interface ResearchCacheStatus extends ResearchCacheStats {
+  ttlHours: number;
+  enabled: boolean;
+}
+
+/** RESEARCH_CACHE_TTL_HOURS sets how long a search stays fresh; 0 turns the cache off. */
+export function getResearchCacheTtlHours(): number {
+  const raw = process.env.RESEARCH_CACHE_TTL_HOURS;
+  const value = raw ? parseFloat(raw) : NaN;
+  return isNaN(value) || value < 0 ? DEFAULT_TTL_HOURS : value;
+}
+
+/** Case, surrounding space and runs of whitespace don't change what a search engine returns. */
+export function normalizeQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+export function researchCacheKey(backend: string, query: string, num: number): string {
+  return createHash("sha256").update(`${backend}|${num}|${normalizeQuery(query)}`).digest("hex");
+}
+
+/**
+ * Serves a search from the cache while it is fresh, else runs `live` and stores its snippets.
+ * Cassette recording and replay bypass the cache so every request still reaches its cassette.
+ * A cache that can't be read or written never fails the search.
+ */
+export async function cachedSearch(
+  backend: string,
+  query: string,
+  num: number,
+  live: () => Promise<SearchSnippet[]>,
+): Promise<CachedSearch> {
+  const ttlHours = getResearchCacheTtlHours();
+  if (ttlHours === 0 || getCassetteMode() !== "off") {
+    return { snippets: await live(), cached: false, fetchedAt: new Date() };
+  }
+
+  const queryKey = researchCacheKey(backend, query, num);
+  try {
+    const hit = await storage.getResearchCacheEntry(queryKey);
+    if (hit) return { snippets: JSON.parse(hit.snippets), cached: true, fetchedAt: hit.fetchedAt };
+  } catch (err) {
+    console.warn(`[ResearchCache] Lookup failed for "${query}":`, err instanceof Error ? err.message : err);
+  }
+
+  const snippets = await live();
+  const fetchedAt = new Date();
+  try {
+    await storage.saveResearchCacheEntry({
+      queryKey,
+      backend,
+      query: normalizeQuery(query),
+      snippets: JSON.stringify(snippets),
+      fetchedAt,
+      expiresAt: new Date(fetchedAt.getTime() + ttlHours * 60 * 60 * 1000),
+    });
+  } catch (err) {
+    console.warn(`[ResearchCache] Store failed for "${query}":`, err instanceof Error ? err.message : err);
+  }
+  return { snippets, cached: false, fetchedAt };
+}
+
+export async function getResearchCacheStatus(): Promise<ResearchCacheStatus> {
+  const ttlHours = getResearchCacheTtlHours();
+  return { ...(await storage.getResearchCacheStats()), ttlHours, enabled: ttlHours > 0 };
+}
@@ -1,26 +1,163 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertAssetSchema, insertCompanySchema } from "@shared/schema";
+import { insertAssetSchema, insertCompanySchema, bulkReviewSchema, reviewQueueQuerySchema, assetQuerySchema, statsQuerySchema, assetFilterSchema, radiusQuerySchema, bboxQuerySchema, polygonQuerySchema, hazardExposureQuerySchema, portfolioInputSchema, siteMatchSchema, siteLinkSchema, mergeClusterSchema, quarantineAcceptSchema, jobBudgetSchema, jobPrioritySchema, jobItemQuerySchema, jobItemRetrySchema, jobRerunSchema, monthlyBudgetSchema, searchQuotaSchema, companyClassificationSchema, sourceCheckRequestSchema, attributableValue, isValidIsin, SITE_LINK_STATUSES, DUPLICATE_CLUSTER_STATUSES, JOB_RERUN_KINDS, type SiteLinkStatus, type DuplicateClusterStatus, type Asset, type DiscoveryJob, type DiscoveryJobItem, type JobRerunSettings, type SearchBackendId } from "@shared/schema";
 import { discoverCompany, saveDiscoveredCompany, normalizeAssetValues, type MultiPassDiscoveryResult, type ProgressCallback } from "./discovery";
-import { getAvailableProviders } from "./llm-providers";
-import { isSerperAvailable } from "./serper";
-import { startJobRunner, cancelJob, resumeJob, isJobRunnerBusy, getActiveWorkerCount } from "./job-runner";
+import { getAvailableProviders, isKnownProvider, reloadProviderRegistry } from "./llm-providers";
+import type { WebResearch } from "./web-research";
+import { getSearchBackendStatuses, getDefaultSearchOrder, isSearchBackendId, isWebSearchAvailable, setSearchQuota } from "./search-backends";
+import { getResearchCacheStatus } from "./research-cache";
+import { getFilingSource, getFilingStatus, findCikMapping, getAnnualFiling } from "./sec-filings";
+import { GICS_SECTORS, GICS_INDUSTRY_GROUPS, classifySectorText, getGicsSector, getIndustryFactor, normalizeGicsCode } from "./sectors";
+import { queueDiscoveryJob, cancelJob, resumeJob, retryFailedItems, setJobPriority, getActiveWorkerCount, getBusyWorkers, parseEnsembleProviders, type JobResult } from "./job-runner";
+import { MIN_ENSEMBLE_PROVIDERS, MAX_ENSEMBLE_PROVIDERS } from "./ensemble";
+import { getJobEventsSince } from "./job-events";
+import { estimateDiscoveryCost, getBudgetStatus, getBudgetStopReason, setMonthlyBudgetUsd } from "./budget";
 import { getParallelApiKeys } from "./llm-providers";
+import { diffAssetVersions, parseVersionAssets } from "./asset-history";
+import { assetsToGeoJSON, assetsToKML, assetsToShapefileZip } from "./geo-export";
+import { geometryBoundingBox, pointInGeometry, summarizeExposure } from "./spatial";
+import { buildPortfolioReport, mergeHoldings } from "./portfolios";
+import { proposeSiteLinks, planSiteLink, checkSiteOwnership, siteFromAsset } from "./sites";
+import { startSourceCheck, isSourceCheckRunning, getSourceCheckRun, getSourceCheckTtlHours } from "./source-checks";
+import { startDedupScan, isDedupScanRunning, parseDuplicateCluster, suggestSurvivor, mergeDuplicateCluster } from "./dedup";
+import { getHazardLayers, reloadHazardLayers, describeHazardLayers, selectHazardLayers, scoreAssetExposure, summarizeHazardExposure } from "./hazards";
+
+function parseSiteLinkStatus(value: unknown): SiteLinkStatus | undefined {
+  return SITE_LINK_STATUSES.find(s => s === value);
+}
+
+function parseDuplicateClusterStatus(value: unknown): DuplicateClusterStatus | undefined {
+  return DUPLICATE_CLUSTER_STATUSES.find(s => s === value);
+}
+
+// Company names listed with each job in GET /api/discover/jobs.
+const JOB_COMPANY_PREVIEW = 3;
+// How often an open job event stream checks the database for new events.
+const EVENT_POLL_MS = 1000;
+
+interface DiscoverRequest {
+  entries: Array<{ name: string; isin?: string; totalValue?: number; gicsCode?: string }>;
+  providerId: string;
+  supplementaryProvider?: string;
+  overrideManualEdits?: boolean;
+  ensemble: string[] | null;
+  budgetUsd: number | null;
+  priority: number;
+  searchBackend: SearchBackendId | null;
+}
+
+/** Shared by POST /api/discover and its estimate; returns the 400 body when the request is invalid. */
+function parseDiscoverRequest(body: any): { request: DiscoverRequest } | { error: Record<string, unknown> } {
+  const { companies: companyEntries, provider: providerId = "openai", supplementaryProvider, overrideManualEdits, ensembleProviders, budgetUsd, priority = 0, searchBackend = null } = body ?? {};
+  if (!companyEntries || !Array.isArray(companyEntries) || companyEntries.length === 0) {
+    return { error: { message: "Provide an array of companies" } };
+  }
+  let ensemble: string[] | null = null;
+  if (ensembleProviders !== undefined && ensembleProviders !== null) {
+    if (!Array.isArray(ensembleProviders) || ensembleProviders.some((p: unknown) => typeof p !== "string")) {
+      return { error: { message: "ensembleProviders must be an array of provider ids" } };
+    }
+    ensemble = Array.from(new Set(ensembleProviders as string[]));
+    if (ensemble.length < MIN_ENSEMBLE_PROVIDERS || ensemble.length > MAX_ENSEMBLE_PROVIDERS) {
+      return { error: { message: `Ensemble discovery needs ${MIN_ENSEMBLE_PROVIDERS} to ${MAX_ENSEMBLE_PROVIDERS} different providers` } };
+    }
+  }
+  const unknownProvider = [providerId, supplementaryProvider, ...(ensemble ?? [])].find(p => p && !isKnownProvider(p));
+  if (unknownProvider) return { error: { message: `Unknown provider: ${unknownProvider}` } };
+  if (budgetUsd !== undefined && budgetUsd !== null && !(typeof budgetUsd === "number" && budgetUsd > 0)) {
+    return { error: { message: "budgetUsd must be a positive number" } };
+  }
+  if (searchBackend !== null && !isSearchBackendId(searchBackend)) {
+    return { error: { message: `Unknown search backend: ${searchBackend}` } };
+  }
+  const parsedPriority = jobPrioritySchema.safeParse({ priority });
+  if (!parsedPriority.success) {
+    return { error: { message: "priority must be an integer from -100 to 100" } };
+  }
+
+  const entries: DiscoverRequest["entries"] = companyEntries.map((entry: any) => {
+    if (typeof entry === "string") {
+      return { name: entry.trim() };
+    }
+    const rawIsin = (entry.isin || "").trim().toUpperCase();
+    const totalValue = typeof entry.totalValue === "number" && entry.totalValue > 0 ? entry.totalValue : undefined;
+    // A code or sector name the taxonomy doesn't know is dropped, leaving classification to the model.
+    const gicsCode = classifySectorText(typeof entry.sector === "string" ? entry.sector : typeof entry.gicsCode === "string" ? entry.gicsCode : null);
+    return { name: (entry.name || "").trim(), isin: rawIsin || undefined, totalValue, gicsCode: gicsCode ?? undefined };
+  }).filter((e: { name: string }) => e.name.length > 0);
+
+  if (entries.length === 0) {
+    return { error: { message: "No valid company entries provided" } };
+  }
+  const invalidIsins = entries.filter(e => e.isin && !isValidIsin(e.isin));
+  if (invalidIsins.length > 0) {
+    return {
+      error: {
+        message: `Invalid ISIN for ${invalidIsins.length} ${invalidIsins.length === 1 ? "company" : "companies"}`,
+        invalid: invalidIsins.map(e => ({ name: e.name, isin: e.isin })),
+      },
+    };
+  }
+  return { request: { entries, providerId, supplementaryProvider, overrideManualEdits, ensemble, budgetUsd: budgetUsd ?? null, priority: parsedPriority.data.priority, searchBackend } };
+}
+
+/** A discover request body for rerunning `items`: the original job's settings, overridden by `settings`. */
+function rerunRequestBody(job: DiscoveryJob, items: DiscoveryJobItem[], settings: JobRerunSettings) {
+  const providerChanged = settings.provider !== undefined || settings.ensembleProviders !== undefined;
+  return {
+    companies: items.map(i => ({ name: i.companyName, isin: i.isin ?? undefined, totalValue: i.totalValue ?? undefined, gicsCode: i.gicsCode ?? undefined })),
+    provider: settings.provider ?? job.modelProvider ?? "openai",
+    ensembleProviders: providerChanged ? settings.ensembleProviders ?? null : parseEnsembleProviders(job),
+    supplementaryProvider: settings.supplementaryProvider !== undefined ? settings.supplementaryProvider : job.supplementaryProvider,
+    budgetUsd: settings.budgetUsd !== undefined ? settings.budgetUsd : job.budgetUsd,
+    priority: settings.priority ?? job.priority,
+    overrideManualEdits: settings.overrideManualEdits ?? job.overrideManualEdits,
+    searchBackend: settings.searchBackend !== undefined ? settings.searchBackend : job.searchBackend,
+  };
+}
+
+/** The web context an item's model saw, or null when the item kept none (not yet run, failed, or from before research was stored). */
+function webResearchResponse(item: DiscoveryJobItem) {
+  if (!item.webResearch) return null;
+  const research: WebResearch = JSON.parse(item.webResearch);
+  return {
+    job_id: item.jobId,
+    item_id: item.id,
+    company_name: item.companyName,
+    isin: item.isin,
+    provider: item.provider,
+    status: item.status,
+    gathered_at: research.gatheredAt,
+    query_count: research.queries.length,
+    cached_queries: research.queries.filter(q => q.cached).length,
+    snippet_count: research.snippets.length,
+    queries: research.queries,
+    snippets: research.snippets,
+  };
+}
 
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
-  app.get("/api/assets", async (_req, res) => {
+  app.get("/api/assets", async (req, res) => {
     try {
-      const allAssets = await storage.getAssets();
+      const query = assetQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: query.error.flatten() });
+      }
+      const { assets: matching, total } = await storage.queryAssets(query.data);
       const stats = await storage.getStats();
       res.json({
         total_assets: stats.total_assets,
         assets_with_coordinates: stats.assets_with_coordinates,
         coordinate_coverage_percent: stats.coordinate_coverage_percent,
-        assets: allAssets,
+        total_matching: total,
+        page: query.data.page,
+        page_size: query.data.pageSize,
+        total_pages: Math.ceil(total / query.data.pageSize),
+        assets: matching,
       });
     } catch (err) {
       console.error("Error fetching assets:", err);
@@ -51,6 +188,7 @@ export async function registerRoutes(
         company_name: company?.name || (isinAssets.length > 0 ? isinAssets[0].companyName : null),
         sector: company?.sector || (isinAssets.length > 0 ? isinAssets[0].sector : null),
         total_estimated_value: isinAssets.reduce((sum, a) => sum + (a.valueUsd || 0), 0),
+        total_attributable_value: isinAssets.reduce((sum, a) => sum + attributableValue(a), 0),
         asset_count: isinAssets.length,
         assets: isinAssets.map(a => ({
           facility_name: a.facilityName,
@@ -64,9 +202,11 @@ export async function registerRoutes(
           estimated_value_usd: a.valueUsd,
           valuation_confidence: a.valuationConfidence,
           ownership_share: a.ownershipShare,
+          attributable_value_usd: a.attributableValueUsd,
           data_source: a.dataSource,
           source_document: a.sourceDocument,
           source_url: a.sourceUrl,
+          source_status: a.sourceStatus,
         })),
       });
     } catch (err) {
@@ -85,19 +225,361 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/stats", async (_req, res) => {
+  app.get("/api/companies/:isin/history", async (req, res) => {
     try {
-      const stats = await storage.getStats();
-      res.json(stats);
+      const versions = await storage.getAssetVersions(req.params.isin);
+      res.json({
+        isin: req.params.isin,
+        version_count: versions.length,
+        versions: versions.map(v => ({
+          version: v.version,
+          company_name: v.companyName,
+          data_source: v.dataSource,
+          asset_count: v.assetCount,
+          total_value: v.totalValue,
+          created_at: v.createdAt,
+        })),
+      });
+    } catch (err) {
+      console.error("Error fetching company history:", err);
+      res.status(500).json({ message: "Failed to fetch company history" });
+    }
+  });
+
+  app.get("/api/companies/:isin/research", async (req, res) => {
+    try {
+      const item = await storage.getLatestCompanyResearchItem(req.params.isin);
+      const research = item ? webResearchResponse(item) : null;
+      if (!research) return res.status(404).json({ message: "No web research recorded for this company" });
+      res.json(research);
+    } catch (err) {
+      console.error("Error fetching company web research:", err);
+      res.status(500).json({ message: "Failed to fetch web research" });
+    }
+  });
+
+  app.put("/api/companies/:isin/classification", async (req, res) => {
+    try {
+      const parsed = companyClassificationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
+      }
+      const gicsCode = parsed.data.gicsCode === null ? null : normalizeGicsCode(parsed.data.gicsCode);
+      if (parsed.data.gicsCode !== null && !gicsCode) {
+        return res.status(400).json({ message: `Unknown GICS code: ${parsed.data.gicsCode}` });
+      }
+      const existing = await storage.getCompanyByIsin(req.params.isin);
+      if (!existing) return res.status(404).json({ message: "Company not found" });
+      // Clearing the code keeps the sector name, so the next discovery can classify the company again.
+      const updated = await storage.setCompanyClassification(req.params.isin, {
+        gicsCode,
+        sector: gicsCode ? getGicsSector(gicsCode)!.name : existing.sector,
+        sectorSource: gicsCode ? "manual" : null,
+        industryFactor: getIndustryFactor(gicsCode),
+      });
+      console.log(`[Sectors] ${existing.name} (${req.params.isin}) classified as ${gicsCode ?? "unclassified"}`);
+      res.json(updated);
+    } catch (err) {
+      console.error("Error classifying company:", err);
+      res.status(500).json({ message: "Failed to classify company" });
+    }
+  });
+
+  app.get("/api/sectors", async (_req, res) => {
+    try {
+      res.json({
+        sectors: GICS_SECTORS.map(s => ({
+          code: s.code,
+          name: s.name,
+          industry_factor: s.industryFactor,
+          search_queries: s.queries.length,
+          industry_groups: GICS_INDUSTRY_GROUPS.filter(g => g.sectorCode === s.code).map(g => ({
+            code: g.code,
+            name: g.name,
+            industry_factor: g.industryFactor ?? s.industryFactor,
+          })),
+        })),
+      });
+    } catch (err) {
+      console.error("Error fetching sectors:", err);
+      res.status(500).json({ message: "Failed to fetch sectors" });
+    }
+  });
+
+  app.get("/api/companies/:isin/filing", async (req, res) => {
+    try {
+      if (!getFilingSource()) return res.status(404).json({ message: "No SEC filing source configured" });
+      const company = await storage.getCompanyByIsin(req.params.isin);
+      if (!company) return res.status(404).json({ message: "Company not found" });
+      const mapping = await findCikMapping(company.name, company.isin);
+      if (!mapping) return res.status(404).json({ message: `No CIK mapping for ${company.name}` });
+      const filing = await getAnnualFiling(mapping.cik);
+      if (!filing) return res.status(404).json({ message: `No 10-K or 20-F on file for CIK ${mapping.cik}` });
+      res.json({
+        isin: company.isin,
+        company_name: company.name,
+        cik: filing.cik,
+        form: filing.form,
+        filing_date: filing.filingDate,
+        accession: filing.accession,
+        url: filing.url,
+        passages: filing.passages,
+      });
+    } catch (err) {
+      console.error("Error fetching company filing:", err);
+      res.status(500).json({ message: "Failed to fetch SEC filing" });
+    }
+  });
+
+  app.get("/api/companies/:isin/history/diff", async (req, res) => {
+    try {
+      const from = parseInt(String(req.query.from), 10);
+      const to = parseInt(String(req.query.to), 10);
+      if (isNaN(from) || isNaN(to)) {
+        return res.status(400).json({ message: "Provide numeric 'from' and 'to' version query parameters" });
+      }
+      const [fromVersion, toVersion] = await Promise.all([
+        storage.getAssetVersion(req.params.isin, from),
+        storage.getAssetVersion(req.params.isin, to),
+      ]);
+      if (!fromVersion || !toVersion) return res.status(404).json({ message: "Version not found" });
+      const diff = diffAssetVersions(parseVersionAssets(fromVersion), parseVersionAssets(toVersion));
+      res.json({
+        isin: req.params.isin,
+        from,
+        to,
+        added_count: diff.added.length,
+        removed_count: diff.removed.length,
+        changed_count: diff.changed.length,
+        unchanged_count: diff.unchangedCount,
+        added: diff.added,
+        removed: diff.removed,
+        changed: diff.changed,
+      });
+    } catch (err) {
+      console.error("Error diffing company history:", err);
+      res.status(500).json({ message: "Failed to diff company history" });
+    }
+  });
+
+  app.get("/api/companies/:isin/history/:version", async (req, res) => {
+    try {
+      const version = parseInt(req.params.version, 10);
+      if (isNaN(version)) return res.status(400).json({ message: "Invalid version" });
+      const found = await storage.getAssetVersion(req.params.isin, version);
+      if (!found) return res.status(404).json({ message: "Version not found" });
+      res.json({
+        isin: found.isin,
+        version: found.version,
+        company_name: found.companyName,
+        data_source: found.dataSource,
+        asset_count: found.assetCount,
+        total_value: found.totalValue,
+        created_at: found.createdAt,
+        assets: parseVersionAssets(found),
+      });
+    } catch (err) {
+      console.error("Error fetching company version:", err);
+      res.status(500).json({ message: "Failed to fetch company version" });
+    }
+  });
+
+  app.get("/api/stats", async (req, res) => {
+    try {
+      const query = statsQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: query.error.flatten() });
+      }
+      const { basis, top, ...filter } = query.data;
+      const [stats, bySector, topCompanies] = await Promise.all([
+        storage.getStats(filter),
+        storage.getAssetValueGroups("sector", filter, basis, top),
+        storage.getAssetValueGroups("companyName", filter, basis, top),
+      ]);
+      res.json({ ...stats, basis, by_sector: bySector, top_companies: topCompanies });
     } catch (err) {
       console.error("Error fetching stats:", err);
       res.status(500).json({ message: "Failed to fetch stats" });
     }
   });
 
-  app.get("/api/assets/export/csv", async (_req, res) => {
+  app.get("/api/assets/facets", async (_req, res) => {
+    try {
+      res.json(await storage.getAssetFacets());
+    } catch (err) {
+      console.error("Error fetching asset facets:", err);
+      res.status(500).json({ message: "Failed to fetch asset facets" });
+    }
+  });
+
+  app.get("/api/assets/spatial/radius", async (req, res) => {
+    try {
+      const parsed = radiusQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: parsed.error.flatten() });
+      }
+      const { lat, lon, radiusKm } = parsed.data;
+      const matches = await storage.getAssetsWithinRadius(lat, lon, radiusKm, parsed.data);
+      res.json({
+        query: { type: "radius", lat, lon, radius_km: radiusKm },
+        total_assets: matches.length,
+        total_value_usd: matches.reduce((sum, a) => sum + (a.valueUsd || 0), 0),
+        total_attributable_value_usd: matches.reduce((sum, a) => sum + attributableValue(a), 0),
+        companies: summarizeExposure(matches),
+        assets: matches.map(({ distanceKm, ...a }) => ({ ...a, distance_km: Math.round(distanceKm * 100) / 100 })),
+      });
+    } catch (err) {
+      console.error("Error running radius query:", err);
+      res.status(500).json({ message: "Failed to run radius query" });
+    }
+  });
+
+  app.get("/api/assets/spatial/bbox", async (req, res) => {
+    try {
+      const parsed = bboxQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: parsed.error.flatten() });
+      }
+      const { minLat, minLon, maxLat, maxLon } = parsed.data;
+      const matches = await storage.getAssetsInBoundingBox({ minLat, minLon, maxLat, maxLon }, parsed.data);
+      res.json({
+        query: { type: "bbox", min_lat: minLat, min_lon: minLon, max_lat: maxLat, max_lon: maxLon },
+        total_assets: matches.length,
+        total_value_usd: matches.reduce((sum, a) => sum + (a.valueUsd || 0), 0),
+        total_attributable_value_usd: matches.reduce((sum, a) => sum + attributableValue(a), 0),
+        companies: summarizeExposure(matches),
+        assets: matches,
+      });
+    } catch (err) {
+      console.error("Error running bounding box query:", err);
+      res.status(500).json({ message: "Failed to run bounding box query" });
+    }
+  });
+
+  app.post("/api/assets/spatial/polygon", async (req, res) => {
+    try {
+      const filter = assetFilterSchema.safeParse(req.query);
+      if (!filter.success) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: filter.error.flatten() });
+      }
+      const parsed = polygonQuerySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Body must contain a GeoJSON Polygon or MultiPolygon geometry", errors: parsed.error.flatten() });
+      }
+      const { geometry } = parsed.data;
+      const candidates = await storage.getAssetsInBoundingBox(geometryBoundingBox(geometry), filter.data);
+      const matches = candidates.filter(a => pointInGeometry(a.longitude!, a.latitude!, geometry));
+      res.json({
+        query: { type: geometry.type },
+        total_assets: matches.length,
+        total_value_usd: matches.reduce((sum, a) => sum + (a.valueUsd || 0), 0),
+        total_attributable_value_usd: matches.reduce((sum, a) => sum + attributableValue(a), 0),
+        companies: summarizeExposure(matches),
+        assets: matches,
+      });
+    } catch (err) {
+      console.error("Error running polygon query:", err);
+      res.status(500).json({ message: "Failed to run polygon query" });
+    }
+  });
+
+  app.get("/api/hazards/layers", async (_req, res) => {
+    try {
+      res.json(describeHazardLayers(await getHazardLayers()));
+    } catch (err) {
+      console.error("Error loading hazard layers:", err);
+      res.status(500).json({ message: "Failed to load hazard layers" });
+    }
+  });
+
+  app.post("/api/hazards/reload", async (_req, res) => {
+    try {
+      res.json(describeHazardLayers(await reloadHazardLayers()));
+    } catch (err) {
+      console.error("Error reloading hazard layers:", err);
+      res.status(500).json({ message: "Failed to reload hazard layers" });
+    }
+  });
+
+  app.get("/api/hazards/exposure/assets", async (req, res) => {
+    try {
+      const parsed = hazardExposureQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: parsed.error.flatten() });
+      }
+      const layers = selectHazardLayers(await getHazardLayers(), parsed.data.layer, parsed.data.hazard);
+      const scored = (await storage.getAssets(parsed.data))
+        .map(a => scoreAssetExposure(a, layers))
+        .sort((a, b) => b.value_at_risk_usd - a.value_at_risk_usd);
+      res.json({
+        layers: layers.map(l => l.id),
+        total_assets: scored.length,
+        total_value_at_risk_usd: scored.reduce((sum, a) => sum + a.value_at_risk_usd, 0),
+        total_attributable_value_at_risk_usd: scored.reduce((sum, a) => sum + a.attributable_value_at_risk_usd, 0),
+        assets: scored,
+      });
+    } catch (err) {
+      console.error("Error scoring hazard exposure:", err);
+      res.status(500).json({ message: "Failed to score hazard exposure" });
+    }
+  });
+
+  app.get("/api/hazards/exposure/companies", async (req, res) => {
+    try {
+      const parsed = hazardExposureQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: parsed.error.flatten() });
+      }
+      const layers = selectHazardLayers(await getHazardLayers(), parsed.data.layer, parsed.data.hazard);
+      const scored = (await storage.getAssets(parsed.data)).map(a => scoreAssetExposure(a, layers));
+      const companies = summarizeHazardExposure(scored);
+      res.json({
+        layers: layers.map(l => l.id),
+        total_value_usd: companies.reduce((sum, c) => sum + c.total_value_usd, 0),
+        total_attributable_value_usd: companies.reduce((sum, c) => sum + c.total_attributable_value_usd, 0),
+        total_value_at_risk_usd: companies.reduce((sum, c) => sum + c.value_at_risk_usd, 0),
+        total_attributable_value_at_risk_usd: companies.reduce((sum, c) => sum + c.attributable_value_at_risk_usd, 0),
+        companies,
+      });
+    } catch (err) {
+      console.error("Error rolling up hazard exposure:", err);
+      res.status(500).json({ message: "Failed to roll up hazard exposure" });
+    }
+  });
+
+  app.get("/api/hazards/exposure/isin/:isin", async (req, res) => {
+    try {
+      const parsed = hazardExposureQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: parsed.error.flatten() });
+      }
+      const isin = req.params.isin.toUpperCase();
+      const companyAssets = await storage.getAssets({ ...parsed.data, isin: [isin] });
+      if (companyAssets.length === 0) {
+        return res.status(404).json({ message: `No assets found for ISIN ${isin}` });
+      }
+      const layers = selectHazardLayers(await getHazardLayers(), parsed.data.layer, parsed.data.hazard);
+      const scored = companyAssets
+        .map(a => scoreAssetExposure(a, layers))
+        .sort((a, b) => b.value_at_risk_usd - a.value_at_risk_usd);
+      res.json({
+        layers: layers.map(l => l.id),
+        summary: summarizeHazardExposure(scored)[0],
+        assets: scored,
+      });
+    } catch (err) {
+      console.error("Error scoring hazard exposure for ISIN:", err);
+      res.status(500).json({ message: "Failed to score hazard exposure" });
+    }
+  });
+
+  app.get("/api/assets/export/csv", async (req, res) => {
     try {
-      const allAssets = await storage.getAssets();
+      const filter = assetFilterSchema.safeParse(req.query);
+      if (!filter.success) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: filter.error.flatten() });
+      }
+      const allAssets = await storage.getAssets(filter.data);
       const headers = [
         "Company Name",
         "ISIN",
@@ -111,6 +593,7 @@ export async function registerRoutes(
         "Coordinate Certainty",
         "Value (USD)",
         "Ownership Share (%)",
+        "Attributable Value (USD)",
         "Size Factor",
         "Geo Factor",
         "Type Weight",
@@ -120,6 +603,8 @@ export async function registerRoutes(
         "Data Source",
         "Source Document",
         "Source URL",
+        "Review Status",
+        "Source Status",
       ];
 
       const rows = allAssets.map((a) => [
@@ -135,6 +620,7 @@ export async function registerRoutes(
         a.coordinateCertainty?.toString() || "",
         a.valueUsd?.toString() || "",
         a.ownershipShare?.toString() || "100",
+        a.attributableValueUsd?.toString() || "",
         a.sizeFactor?.toString() || "",
         a.geoFactor?.toString() || "",
         a.typeWeight?.toString() || "",
@@ -144,6 +630,8 @@ export async function registerRoutes(
         a.dataSource || "",
         a.sourceDocument || "",
         a.sourceUrl || "",
+        a.reviewStatus,
+        a.sourceStatus || "",
       ]);
 
       const csvContent = [
@@ -162,13 +650,66 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/assets/export/geojson", async (req, res) => {
+    try {
+      const filter = assetFilterSchema.safeParse(req.query);
+      if (!filter.success) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: filter.error.flatten() });
+      }
+      const allAssets = await storage.getAssets(filter.data);
+      res.setHeader("Content-Type", "application/geo+json");
+      res.setHeader("Content-Disposition", 'attachment; filename="corporate_assets.geojson"');
+      res.send(JSON.stringify(assetsToGeoJSON(allAssets)));
+    } catch (err) {
+      console.error("Error exporting GeoJSON:", err);
+      res.status(500).json({ message: "Failed to export GeoJSON" });
+    }
+  });
+
+  app.get("/api/assets/export/kml", async (req, res) => {
+    try {
+      const filter = assetFilterSchema.safeParse(req.query);
+      if (!filter.success) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: filter.error.flatten() });
+      }
+      const allAssets = await storage.getAssets(filter.data);
+      res.setHeader("Content-Type", "application/vnd.google-earth.kml+xml");
+      res.setHeader("Content-Disposition", 'attachment; filename="corporate_assets.kml"');
+      res.send(assetsToKML(allAssets));
+    } catch (err) {
+      console.error("Error exporting KML:", err);
+      res.status(500).json({ message: "Failed to export KML" });
+    }
+  });
+
+  app.get("/api/assets/export/shapefile", async (req, res) => {
+    try {
+      const filter = assetFilterSchema.safeParse(req.query);
+      if (!filter.success) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: filter.error.flatten() });
+      }
+      const allAssets = await storage.getAssets(filter.data);
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader("Content-Disposition", 'attachment; filename="corporate_assets_shp.zip"');
+      res.send(assetsToShapefileZip(allAssets));
+    } catch (err) {
+      console.error("Error exporting shapefile:", err);
+      res.status(500).json({ message: "Failed to export shapefile" });
+    }
+  });
+
   app.post("/api/assets", async (req, res) => {
     try {
       const parsed = insertAssetSchema.safeParse(req.body);
       if (!parsed.success) {
         return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
       }
-      const created = await storage.createAsset(parsed.data);
+      const created = await storage.createAsset({
+        ...parsed.data,
+        manuallyEdited: parsed.data.manuallyEdited ?? true,
+        reviewStatus: parsed.data.reviewStatus ?? "approved",
+      });
+      if (created.isin) await storage.refreshCompanyTotals(created.isin);
       res.status(201).json(created);
     } catch (err) {
       console.error("Error creating asset:", err);
@@ -176,6 +717,55 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/review/queue", async (req, res) => {
+    try {
+      const query = reviewQueueQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: query.error.flatten() });
+      }
+      const { status, page, pageSize } = query.data;
+      const { assets: queued, total } = await storage.queryAssets({
+        reviewStatus: status,
+        page,
+        pageSize,
+        sort: "companyName",
+        order: "asc",
+      });
+      const byCompany = new Map<string, { company_name: string; isin: string | null; assets: Asset[] }>();
+      for (const a of queued) {
+        const key = a.isin || a.companyName;
+        if (!byCompany.has(key)) byCompany.set(key, { company_name: a.companyName, isin: a.isin, assets: [] });
+        byCompany.get(key)!.assets.push(a);
+      }
+      res.json({
+        status,
+        total_assets: total,
+        page,
+        page_size: pageSize,
+        total_pages: Math.ceil(total / pageSize),
+        companies: Array.from(byCompany.values()),
+      });
+    } catch (err) {
+      console.error("Error fetching review queue:", err);
+      res.status(500).json({ message: "Failed to fetch review queue" });
+    }
+  });
+
+  app.post("/api/review/bulk", async (req, res) => {
+    try {
+      const parsed = bulkReviewSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
+      }
+      const updated = await storage.bulkUpdateReviewStatus(parsed.data.ids, parsed.data.status, parsed.data.note);
+      console.log(`[Review] Marked ${updated} assets as ${parsed.data.status}`);
+      res.json({ updated, status: parsed.data.status });
+    } catch (err) {
+      console.error("Error updating review status:", err);
+      res.status(500).json({ message: "Failed to update review status" });
+    }
+  });
+
   app.put("/api/assets/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id, 10);
@@ -186,7 +776,17 @@ export async function registerRoutes(
       if (!partial.success) {
         return res.status(400).json({ message: "Validation failed", errors: partial.error.flatten() });
       }
-      const updated = await storage.updateAsset(id, partial.data);
+      if (existing.siteId != null && partial.data.ownershipShare !== undefined) {
+        const plan = await planSiteLink([existing], new Map([[id, { ownershipShare: partial.data.ownershipShare }]]));
+        if (!plan.ownership.valid) {
+          return res.status(409).json({ message: `Ownership shares for site ${existing.siteId} would total ${plan.ownership.total_share}%`, ownership: plan.ownership });
+        }
+      }
+      const updated = await storage.updateAsset(id, { ...partial.data, manuallyEdited: partial.data.manuallyEdited ?? true });
+      // A changed ISIN moves the asset between companies, so both totals change.
+      for (const isin of Array.from(new Set([existing.isin, updated?.isin]))) {
+        if (isin) await storage.refreshCompanyTotals(isin);
+      }
       res.json(updated);
     } catch (err) {
       console.error("Error updating asset:", err);
@@ -198,8 +798,9 @@ export async function registerRoutes(
     try {
       const id = parseInt(req.params.id, 10);
       if (isNaN(id)) return res.status(400).json({ message: "Invalid asset ID" });
-      const deleted = await storage.deleteAsset(id);
-      if (!deleted) return res.status(404).json({ message: "Asset not found" });
+      const existing = await storage.getAssetById(id);
+      if (!existing || !(await storage.deleteAsset(id))) return res.status(404).json({ message: "Asset not found" });
+      if (existing.isin) await storage.refreshCompanyTotals(existing.isin);
       res.json({ message: "Asset deleted" });
     } catch (err) {
       console.error("Error deleting asset:", err);
@@ -207,6 +808,18 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/assets/:id/merges", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ message: "Invalid asset ID" });
+      const merges = await storage.getAssetMerges(id);
+      res.json(merges.map(m => ({ ...m, snapshot: JSON.parse(m.snapshot) })));
+    } catch (err) {
+      console.error("Error fetching asset merges:", err);
+      res.status(500).json({ message: "Failed to fetch asset merges" });
+    }
+  });
+
   app.post("/api/companies", async (req, res) => {
     try {
       const parsed = insertCompanySchema.safeParse(req.body);
@@ -339,6 +952,16 @@ export async function registerRoutes(
               [scaleIsins, scaleFactors]
             );
           }
+
+          // Re-sum after scaling so the equity-share total follows the rescaled values.
+          if (updateIsins.length > 0) {
+            await client.query(
+              `UPDATE companies SET attributable_assets = COALESCE(
+                (SELECT SUM(attributable_value_usd) FROM assets WHERE assets.isin = companies.isin), 0)
+              WHERE companies.isin = ANY($1)`,
+              [updateIsins]
+            );
+          }
         }
 
         await client.query('COMMIT');
@@ -374,15 +997,104 @@ export async function registerRoutes(
     res.json(getAvailableProviders());
   });
 
+  app.post("/api/llm-providers/reload", (_req, res) => {
+    try {
+      res.json(reloadProviderRegistry());
+    } catch (err) {
+      console.error("Error reloading LLM providers:", err);
+      res.status(500).json({ message: "Failed to reload LLM providers" });
+    }
+  });
+
   app.get("/api/serper/status", (_req, res) => {
-    res.json({ available: isSerperAvailable() });
+    res.json({ available: isWebSearchAvailable() });
+  });
+
+  app.get("/api/sec-filings/status", async (_req, res) => {
+    try {
+      res.json(await getFilingStatus());
+    } catch (err) {
+      console.error("Error fetching SEC filings status:", err);
+      res.status(500).json({ message: "Failed to fetch SEC filings status" });
+    }
+  });
+
+  app.get("/api/search-backends", async (_req, res) => {
+    try {
+      const backends = await getSearchBackendStatuses();
+      res.json({
+        available: backends.some(b => b.configured),
+        default_order: getDefaultSearchOrder(),
+        backends: backends.map(b => ({
+          id: b.id,
+          name: b.name,
+          config_env: b.configEnv,
+          configured: b.configured,
+          monthly_quota: b.monthlyQuota,
+          month_queries: b.monthQueries,
+          month_errors: b.monthErrors,
+          quota_remaining: b.quotaRemaining,
+          cooling_down_until: b.coolingDownUntil,
+        })),
+      });
+    } catch (err) {
+      console.error("Error fetching search backends:", err);
+      res.status(500).json({ message: "Failed to fetch search backends" });
+    }
+  });
+
+  app.put("/api/search-backends/:id/quota", async (req, res) => {
+    try {
+      const { id } = req.params;
+      if (!isSearchBackendId(id)) return res.status(404).json({ message: "Unknown search backend" });
+      const parsed = searchQuotaSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
+      }
+      await setSearchQuota(id, parsed.data.monthlyQuota);
+      console.log(`[Search] Monthly quota for ${id} set to ${parsed.data.monthlyQuota ?? "unlimited"}`);
+      const status = (await getSearchBackendStatuses()).find(b => b.id === id)!;
+      res.json({ id, monthly_quota: status.monthlyQuota, month_queries: status.monthQueries, quota_remaining: status.quotaRemaining });
+    } catch (err) {
+      console.error("Error updating search quota:", err);
+      res.status(500).json({ message: "Failed to update search quota" });
+    }
+  });
+
+  app.get("/api/research-cache", async (_req, res) => {
+    try {
+      const status = await getResearchCacheStatus();
+      res.json({
+        enabled: status.enabled,
+        ttl_hours: status.ttlHours,
+        entries: status.entries,
+        expired: status.expired,
+        oldest_fetched_at: status.oldestFetchedAt,
+        newest_fetched_at: status.newestFetchedAt,
+      });
+    } catch (err) {
+      console.error("Error fetching research cache status:", err);
+      res.status(500).json({ message: "Failed to fetch research cache status" });
+    }
+  });
+
+  app.delete("/api/research-cache", async (req, res) => {
+    try {
+      const expiredOnly = req.query.expired === "true";
+      const deleted = await storage.clearResearchCache(expiredOnly);
+      console.log(`[ResearchCache] Cleared ${deleted} ${expiredOnly ? "expired " : ""}entries`);
+      res.json({ deleted, expired_only: expiredOnly });
+    } catch (err) {
+      console.error("Error clearing research cache:", err);
+      res.status(500).json({ message: "Failed to clear research cache" });
+    }
   });
 
   app.get("/api/parallel-status", (_req, res) => {
-    const providers: Record<string, { available: boolean; workerCount: number }> = {};
-    for (const pid of ["deepseek", "minimax"]) {
-      const keys = getParallelApiKeys(pid);
-      providers[pid] = { available: keys.length >= 2, workerCount: keys.length };
+    const providers: Record<string, { available: boolean; workerCount: number; busyWorkers: number }> = {};
+    for (const { id } of getAvailableProviders()) {
+      const keys = getParallelApiKeys(id);
+      providers[id] = { available: keys.length >= 2, workerCount: keys.length, busyWorkers: getBusyWorkers(id) };
     }
     res.json({
       providers,
@@ -394,20 +1106,19 @@ export async function registerRoutes(
     const providers = getAvailableProviders();
     const results: Record<string, { available: boolean; keySet: boolean; keyPreview?: string }> = {};
     for (const p of providers) {
-      const keyName = p.id === "openai" ? "OPENAI_API_KEY / AI_INTEGRATIONS_OPENAI_API_KEY"
-        : p.id === "deepseek" ? "DEEPSEEK_API_KEY"
-        : p.id === "gemini" ? "GEMINI_API_KEY"
-        : p.id === "claude" ? "CLAUDE_API_KEY"
-        : p.id === "minimax" ? "MINIMAX_API_KEY" : "unknown";
+      if (!p.requiresKey) {
+        results[p.id] = { available: p.available, keySet: false, keyPreview: `no key required (${p.baseUrl})` };
+        continue;
+      }
       results[p.id] = {
         available: p.available,
         keySet: p.available,
-        keyPreview: p.available ? `${keyName} = ...${("set").slice(-3)}` : `${keyName} = not set`,
+        keyPreview: p.available ? `${p.keyEnv} = ...${("set").slice(-3)}` : `${p.keyEnv} = not set`,
       };
     }
     res.json({
       providers: results,
-      serperAvailable: isSerperAvailable(),
+      serperAvailable: isWebSearchAvailable(),
       nodeEnv: process.env.NODE_ENV || "not set",
       databaseConnected: true,
     });
@@ -421,48 +1132,407 @@ export async function registerRoutes(
     });
   });
 
-  app.post("/api/discover", async (req, res) => {
+  app.get("/api/portfolios", async (_req, res) => {
+    try {
+      res.json(await storage.getPortfolios());
+    } catch (err) {
+      console.error("Error fetching portfolios:", err);
+      res.status(500).json({ message: "Failed to fetch portfolios" });
+    }
+  });
+
+  app.post("/api/portfolios", async (req, res) => {
     try {
-      const { companies: companyEntries, provider: providerId = "openai", supplementaryProvider } = req.body;
-      if (!companyEntries || !Array.isArray(companyEntries) || companyEntries.length === 0) {
-        return res.status(400).json({ message: "Provide an array of companies" });
+      const parsed = portfolioInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
       }
+      const portfolio = await storage.createPortfolio({ ...parsed.data, holdings: mergeHoldings(parsed.data.holdings) });
+      res.status(201).json(portfolio);
+    } catch (err) {
+      console.error("Error creating portfolio:", err);
+      res.status(500).json({ message: "Failed to create portfolio" });
+    }
+  });
 
-      const entries: Array<{ name: string; isin?: string; totalValue?: number }> = companyEntries.map((entry: any) => {
-        if (typeof entry === "string") {
-          return { name: entry.trim() };
-        }
-        const rawIsin = (entry.isin || "").trim().toUpperCase();
-        const totalValue = typeof entry.totalValue === "number" && entry.totalValue > 0 ? entry.totalValue : undefined;
-        return { name: (entry.name || "").trim(), isin: rawIsin || undefined, totalValue };
-      }).filter((e: { name: string }) => e.name.length > 0);
-
-      if (entries.length === 0) {
-        return res.status(400).json({ message: "No valid company entries provided" });
-      }
-
-      const names = entries.map((e) => e.name);
-
-      const job = await storage.createDiscoveryJob({
-        status: "pending",
-        modelProvider: providerId,
-        supplementaryProvider: supplementaryProvider || null,
-        totalCompanies: entries.length,
-        completedCompanies: 0,
-        failedCompanies: 0,
-        companyNames: JSON.stringify(names),
-        companyEntries: JSON.stringify(entries),
-        results: null,
-        totalInputTokens: 0,
-        totalOutputTokens: 0,
-        totalCostUsd: 0,
-      });
+  app.get("/api/portfolios/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ message: "Invalid portfolio ID" });
+      const portfolio = await storage.getPortfolio(id);
+      if (!portfolio) return res.status(404).json({ message: "Portfolio not found" });
+      res.json({ ...portfolio, holdings: await storage.getPortfolioHoldings(id) });
+    } catch (err) {
+      console.error("Error fetching portfolio:", err);
+      res.status(500).json({ message: "Failed to fetch portfolio" });
+    }
+  });
+
+  app.put("/api/portfolios/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ message: "Invalid portfolio ID" });
+      const parsed = portfolioInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
+      }
+      const portfolio = await storage.updatePortfolio(id, { ...parsed.data, holdings: mergeHoldings(parsed.data.holdings) });
+      if (!portfolio) return res.status(404).json({ message: "Portfolio not found" });
+      res.json(portfolio);
+    } catch (err) {
+      console.error("Error updating portfolio:", err);
+      res.status(500).json({ message: "Failed to update portfolio" });
+    }
+  });
+
+  app.delete("/api/portfolios/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ message: "Invalid portfolio ID" });
+      const deleted = await storage.deletePortfolio(id);
+      if (!deleted) return res.status(404).json({ message: "Portfolio not found" });
+      res.json({ success: true });
+    } catch (err) {
+      console.error("Error deleting portfolio:", err);
+      res.status(500).json({ message: "Failed to delete portfolio" });
+    }
+  });
+
+  app.get("/api/portfolios/:id/report", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ message: "Invalid portfolio ID" });
+      const portfolio = await storage.getPortfolio(id);
+      if (!portfolio) return res.status(404).json({ message: "Portfolio not found" });
+      res.json(await buildPortfolioReport(portfolio, await storage.getPortfolioHoldings(id)));
+    } catch (err) {
+      console.error("Error building portfolio report:", err);
+      res.status(500).json({ message: "Failed to build portfolio report" });
+    }
+  });
 
-      console.log(`[Discovery] Created background job ${job.id} for ${entries.length} companies with provider ${providerId}${supplementaryProvider ? ` + supplementary: ${supplementaryProvider}` : ""}`);
+  app.post("/api/portfolios/:id/discover-missing", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ message: "Invalid portfolio ID" });
+      const portfolio = await storage.getPortfolio(id);
+      if (!portfolio) return res.status(404).json({ message: "Portfolio not found" });
 
-      startJobRunner();
+      const report = await buildPortfolioReport(portfolio, await storage.getPortfolioHoldings(id));
+      if (report.missing_holdings.length === 0) {
+        return res.json({ jobId: null, total: 0, message: "Every holding already has assets" });
+      }
 
+      const { provider: providerId = "openai", supplementaryProvider, searchBackend = null } = req.body ?? {};
+      const unknownProvider = [providerId, supplementaryProvider].find(p => p && !isKnownProvider(p));
+      if (unknownProvider) return res.status(400).json({ message: `Unknown provider: ${unknownProvider}` });
+      if (searchBackend !== null && !isSearchBackendId(searchBackend)) {
+        return res.status(400).json({ message: `Unknown search backend: ${searchBackend}` });
+      }
+      const budget = await getBudgetStatus();
+      if (budget.monthly_remaining_usd === 0) {
+        return res.status(409).json({ message: `Monthly budget of $${budget.monthly_budget_usd!.toFixed(2)} is used up; raise it to start new discovery jobs` });
+      }
+      const entries = report.missing_holdings.map(h => ({ name: h.name || h.isin, isin: h.isin }));
+      const job = await queueDiscoveryJob(entries, providerId, { supplementaryProvider, searchBackend });
       res.json({ jobId: job.id, total: entries.length, provider: providerId, status: "pending" });
+    } catch (err) {
+      console.error("Error queueing discovery for portfolio:", err);
+      res.status(500).json({ message: "Failed to queue discovery for missing holdings" });
+    }
+  });
+
+  app.get("/api/sites", async (_req, res) => {
+    try {
+      const allSites = await storage.getSites();
+      res.json(allSites.map(site => ({ ...site, overAllocated: site.ownershipTotal > 100 })));
+    } catch (err) {
+      console.error("Error fetching sites:", err);
+      res.status(500).json({ message: "Failed to fetch sites" });
+    }
+  });
+
+  app.post("/api/sites/match", async (req, res) => {
+    try {
+      const parsed = siteMatchSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
+      }
+      const pool = await storage.getAssets();
+      const targets = parsed.data.isin ? pool.filter(a => a.isin === parsed.data.isin) : pool;
+      const proposals = proposeSiteLinks(targets, pool, parsed.data.minScore);
+      const created = await storage.createSiteLinkCandidates(proposals);
+      console.log(`[Sites] Matcher proposed ${proposals.length} links across ${targets.length} assets, ${created} new`);
+      res.json({ assets_checked: targets.length, proposed: proposals.length, created });
+    } catch (err) {
+      console.error("Error matching sites:", err);
+      res.status(500).json({ message: "Failed to match sites" });
+    }
+  });
+
+  app.get("/api/sites/candidates", async (req, res) => {
+    try {
+      const status = parseSiteLinkStatus(req.query.status) ?? "pending";
+      const candidates = await storage.getSiteLinkCandidates(status);
+      const linked = await storage.getAssetsByIds(Array.from(new Set(candidates.flatMap(c => [c.assetId, c.candidateAssetId]))));
+      const byId = new Map(linked.map(a => [a.id, a]));
+      res.json({
+        status,
+        total: candidates.length,
+        candidates: candidates.map(c => ({ ...c, asset: byId.get(c.assetId), candidateAsset: byId.get(c.candidateAssetId) })),
+      });
+    } catch (err) {
+      console.error("Error fetching site link candidates:", err);
+      res.status(500).json({ message: "Failed to fetch site link candidates" });
+    }
+  });
+
+  app.post("/api/sites/candidates/:id/confirm", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ message: "Invalid candidate ID" });
+      const candidate = await storage.getSiteLinkCandidate(id);
+      if (!candidate) return res.status(404).json({ message: "Link candidate not found" });
+      const pair = await storage.getAssetsByIds([candidate.assetId, candidate.candidateAssetId]);
+      if (pair.length < 2) return res.status(404).json({ message: "Linked asset no longer exists" });
+
+      const plan = await planSiteLink(pair);
+      if (!plan.ownership.valid) {
+        return res.status(409).json({ message: `Ownership shares would total ${plan.ownership.total_share}%`, ownership: plan.ownership });
+      }
+      const site = await storage.linkAssetsToSite(plan.members.map(a => a.id), plan.siteId ?? siteFromAsset(pair[0]));
+      await storage.updateSiteLinkCandidateStatus(id, "confirmed");
+      console.log(`[Sites] Linked ${plan.members.length} assets to site ${site.id} (${site.name})`);
+      res.json({ site, assets: plan.members.map(a => ({ ...a, siteId: site.id })), ownership: plan.ownership });
+    } catch (err) {
+      console.error("Error confirming site link:", err);
+      res.status(500).json({ message: "Failed to confirm site link" });
+    }
+  });
+
+  app.post("/api/sites/candidates/:id/reject", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ message: "Invalid candidate ID" });
+      const updated = await storage.updateSiteLinkCandidateStatus(id, "rejected");
+      if (!updated) return res.status(404).json({ message: "Link candidate not found" });
+      res.json(updated);
+    } catch (err) {
+      console.error("Error rejecting site link:", err);
+      res.status(500).json({ message: "Failed to reject site link" });
+    }
+  });
+
+  app.post("/api/sites/link", async (req, res) => {
+    try {
+      const parsed = siteLinkSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
+      }
+      const linked = await storage.getAssetsByIds(parsed.data.assetIds);
+      if (linked.length !== new Set(parsed.data.assetIds).size) {
+        return res.status(404).json({ message: "One or more assets not found" });
+      }
+      const plan = await planSiteLink(linked);
+      if (!plan.ownership.valid) {
+        return res.status(409).json({ message: `Ownership shares would total ${plan.ownership.total_share}%`, ownership: plan.ownership });
+      }
+      const site = await storage.linkAssetsToSite(plan.members.map(a => a.id), plan.siteId ?? siteFromAsset(linked[0]));
+      console.log(`[Sites] Linked ${plan.members.length} assets to site ${site.id} (${site.name})`);
+      res.json({ site, assets: plan.members.map(a => ({ ...a, siteId: site.id })), ownership: plan.ownership });
+    } catch (err) {
+      console.error("Error linking assets to site:", err);
+      res.status(500).json({ message: "Failed to link assets to site" });
+    }
+  });
+
+  app.delete("/api/sites/assets/:assetId", async (req, res) => {
+    try {
+      const assetId = parseInt(req.params.assetId, 10);
+      if (isNaN(assetId)) return res.status(400).json({ message: "Invalid asset ID" });
+      const updated = await storage.unlinkAssetFromSite(assetId);
+      if (!updated) return res.status(404).json({ message: "Asset not found" });
+      res.json(updated);
+    } catch (err) {
+      console.error("Error unlinking asset from site:", err);
+      res.status(500).json({ message: "Failed to unlink asset from site" });
+    }
+  });
+
+  app.get("/api/sites/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ message: "Invalid site ID" });
+      const site = await storage.getSite(id);
+      if (!site) return res.status(404).json({ message: "Site not found" });
+      const members = await storage.getAssetsBySite(id);
+      res.json({ ...site, assets: members, ownership: checkSiteOwnership(members) });
+    } catch (err) {
+      console.error("Error fetching site:", err);
+      res.status(500).json({ message: "Failed to fetch site" });
+    }
+  });
+
+  app.post("/api/source-checks", async (req, res) => {
+    try {
+      const parsed = sourceCheckRequestSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
+      }
+      if (isSourceCheckRunning()) {
+        return res.status(409).json({ message: "A source check is already running" });
+      }
+      res.status(202).json(startSourceCheck(parsed.data));
+    } catch (err) {
+      console.error("Error starting source check:", err);
+      res.status(500).json({ message: "Failed to start source check" });
+    }
+  });
+
+  app.get("/api/source-checks", async (_req, res) => {
+    try {
+      res.json({
+        running: isSourceCheckRunning(),
+        ttl_hours: getSourceCheckTtlHours(),
+        counts: await storage.getSourceCheckCounts(),
+        last_run: getSourceCheckRun(),
+      });
+    } catch (err) {
+      console.error("Error fetching source check status:", err);
+      res.status(500).json({ message: "Failed to fetch source check status" });
+    }
+  });
+
+  app.post("/api/dedup/scans", async (_req, res) => {
+    try {
+      if (isDedupScanRunning()) {
+        return res.status(409).json({ message: "A duplicate scan is already running" });
+      }
+      const scan = await startDedupScan();
+      res.status(202).json(scan);
+    } catch (err) {
+      console.error("Error starting duplicate scan:", err);
+      res.status(500).json({ message: "Failed to start duplicate scan" });
+    }
+  });
+
+  app.get("/api/dedup/scans", async (_req, res) => {
+    try {
+      const scans = await storage.getDedupScans();
+      res.json(scans);
+    } catch (err) {
+      console.error("Error fetching duplicate scans:", err);
+      res.status(500).json({ message: "Failed to fetch duplicate scans" });
+    }
+  });
+
+  app.get("/api/dedup/clusters", async (req, res) => {
+    try {
+      const status = parseDuplicateClusterStatus(req.query.status) ?? "pending";
+      let scanId = req.query.scanId !== undefined ? parseInt(String(req.query.scanId), 10) : undefined;
+      if (scanId !== undefined && isNaN(scanId)) return res.status(400).json({ message: "Invalid scan ID" });
+      if (scanId === undefined) {
+        const scans = await storage.getDedupScans();
+        scanId = scans.find(s => s.status === "completed")?.id;
+      }
+      if (scanId === undefined) {
+        return res.json({ scan_id: null, status, total: 0, clusters: [] });
+      }
+
+      const clusters = (await storage.getDuplicateClusters(scanId, status)).map(parseDuplicateCluster);
+      const members = await storage.getAssetsByIds(Array.from(new Set(clusters.flatMap(c => c.asset_ids))));
+      const byId = new Map(members.map(a => [a.id, a]));
+      res.json({
+        scan_id: scanId,
+        status,
+        total: clusters.length,
+        clusters: clusters.map(c => {
+          const clusterAssets = c.asset_ids.map(id => byId.get(id)).filter((a): a is Asset => !!a);
+          return { ...c, assets: clusterAssets, suggested_survivor_id: suggestSurvivor(clusterAssets)?.id ?? null };
+        }),
+      });
+    } catch (err) {
+      console.error("Error fetching duplicate clusters:", err);
+      res.status(500).json({ message: "Failed to fetch duplicate clusters" });
+    }
+  });
+
+  app.post("/api/dedup/clusters/:id/merge", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ message: "Invalid cluster ID" });
+      const parsed = mergeClusterSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
+      }
+      const cluster = await storage.getDuplicateCluster(id);
+      if (!cluster) return res.status(404).json({ message: "Duplicate cluster not found" });
+      if (cluster.status !== "pending") {
+        return res.status(409).json({ message: `Cluster is already ${cluster.status}` });
+      }
+      const { asset_ids } = parseDuplicateCluster(cluster);
+      if (!asset_ids.includes(parsed.data.survivorId)) {
+        return res.status(400).json({ message: "Survivor must be a member of the cluster" });
+      }
+
+      // Members may have been deleted or merged elsewhere since the scan ran.
+      const members = await storage.getAssetsByIds(asset_ids);
+      const survivor = members.find(a => a.id === parsed.data.survivorId);
+      if (!survivor) return res.status(409).json({ message: "Survivor asset no longer exists" });
+      const merged = members.filter(a => a.id !== survivor.id);
+      if (merged.length === 0) return res.status(409).json({ message: "No other cluster members remain to merge" });
+
+      const result = await mergeDuplicateCluster(cluster, survivor, merged);
+      res.json({ asset: result, merged_asset_ids: merged.map(a => a.id) });
+    } catch (err) {
+      console.error("Error merging duplicate cluster:", err);
+      res.status(500).json({ message: "Failed to merge duplicate cluster" });
+    }
+  });
+
+  app.post("/api/dedup/clusters/:id/dismiss", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ message: "Invalid cluster ID" });
+      const cluster = await storage.getDuplicateCluster(id);
+      if (!cluster) return res.status(404).json({ message: "Duplicate cluster not found" });
+      if (cluster.status !== "pending") {
+        return res.status(409).json({ message: `Cluster is already ${cluster.status}` });
+      }
+      const updated = await storage.updateDuplicateClusterStatus(id, "dismissed");
+      res.json(updated);
+    } catch (err) {
+      console.error("Error dismissing duplicate cluster:", err);
+      res.status(500).json({ message: "Failed to dismiss duplicate cluster" });
+    }
+  });
+
+  app.post("/api/discover/estimate", async (req, res) => {
+    try {
+      const parsed = parseDiscoverRequest(req.body);
+      if ("error" in parsed) return res.status(400).json(parsed.error);
+      const { entries, providerId, supplementaryProvider, ensemble, budgetUsd } = parsed.request;
+      res.json(await estimateDiscoveryCost(entries.length, { provider: providerId, supplementaryProvider, ensembleProviders: ensemble, budgetUsd }));
+    } catch (err) {
+      console.error("Error estimating discovery cost:", err);
+      res.status(500).json({ message: "Failed to estimate discovery cost" });
+    }
+  });
+
+  app.post("/api/discover", async (req, res) => {
+    try {
+      const parsed = parseDiscoverRequest(req.body);
+      if ("error" in parsed) return res.status(400).json(parsed.error);
+      const { entries, providerId, supplementaryProvider, overrideManualEdits, ensemble, budgetUsd, priority, searchBackend } = parsed.request;
+
+      const estimate = await estimateDiscoveryCost(entries.length, { provider: providerId, supplementaryProvider, ensembleProviders: ensemble, budgetUsd });
+      if (estimate.monthly_remaining_usd === 0) {
+        return res.status(409).json({ message: `Monthly budget of $${estimate.monthly_budget_usd!.toFixed(2)} is used up; raise it to start new discovery jobs`, estimate });
+      }
+
+      const job = await queueDiscoveryJob(entries, providerId, { supplementaryProvider, overrideManualEdits, ensembleProviders: ensemble, budgetUsd, priority, searchBackend });
+
+      res.json({ jobId: job.id, total: entries.length, provider: job.modelProvider, ensemble_providers: ensemble, budget_usd: job.budgetUsd, priority: job.priority, search_backend: job.searchBackend, classified_companies: entries.filter(e => e.gicsCode).length, estimate, status: "pending" });
     } catch (err) {
       const errorDetail = err instanceof Error ? err.message : String(err);
       console.error("Error creating discovery job:", errorDetail, err);
@@ -486,6 +1556,11 @@ export async function registerRoutes(
     try {
       const id = parseInt(req.params.id, 10);
       if (isNaN(id)) return res.status(400).json({ message: "Invalid job ID" });
+      const job = await storage.getDiscoveryJob(id);
+      if (job?.status === "budget_exceeded") {
+        const reason = await getBudgetStopReason(job);
+        if (reason) return res.status(409).json({ message: `${reason}; raise the budget before resuming` });
+      }
       const success = await resumeJob(id);
       if (!success) return res.status(400).json({ message: "Job cannot be resumed" });
       res.json({ success: true });
@@ -494,10 +1569,70 @@ export async function registerRoutes(
     }
   });
 
+  app.put("/api/discover/jobs/:id/budget", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ message: "Invalid job ID" });
+      const parsed = jobBudgetSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
+      }
+      const job = await storage.getDiscoveryJob(id);
+      if (!job) return res.status(404).json({ message: "Job not found" });
+      const updated = await storage.updateDiscoveryJob(id, { budgetUsd: parsed.data.budgetUsd, updatedAt: new Date() });
+      res.json(updated);
+    } catch (err) {
+      console.error("Error updating job budget:", err);
+      res.status(500).json({ message: "Failed to update job budget" });
+    }
+  });
+
+  app.put("/api/discover/jobs/:id/priority", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ message: "Invalid job ID" });
+      const parsed = jobPrioritySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
+      }
+      const job = await setJobPriority(id, parsed.data.priority);
+      if (!job) return res.status(404).json({ message: "Job not found" });
+      res.json(job);
+    } catch (err) {
+      console.error("Error updating job priority:", err);
+      res.status(500).json({ message: "Failed to update job priority" });
+    }
+  });
+
+  app.get("/api/budget", async (_req, res) => {
+    try {
+      res.json(await getBudgetStatus());
+    } catch (err) {
+      console.error("Error fetching budget:", err);
+      res.status(500).json({ message: "Failed to fetch budget" });
+    }
+  });
+
+  app.put("/api/budget", async (req, res) => {
+    try {
+      const parsed = monthlyBudgetSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
+      }
+      await setMonthlyBudgetUsd(parsed.data.monthlyBudgetUsd);
+      console.log(`[Budget] Monthly budget set to ${parsed.data.monthlyBudgetUsd === null ? "none" : `$${parsed.data.monthlyBudgetUsd.toFixed(2)}`}`);
+      res.json(await getBudgetStatus());
+    } catch (err) {
+      console.error("Error updating budget:", err);
+      res.status(500).json({ message: "Failed to update budget" });
+    }
+  });
+
   app.get("/api/discover/jobs", async (_req, res) => {
     try {
       const jobs = await storage.getDiscoveryJobs();
-      res.json(jobs);
+      const previews = await storage.getDiscoveryJobCompanyPreviews(jobs.map(j => j.id), JOB_COMPANY_PREVIEW);
+      res.json(jobs.map(job => ({ ...job, companyPreview: previews.get(job.id) ?? [] })));
     } catch (err) {
       console.error("Error fetching discovery jobs:", err);
       res.status(500).json({ message: "Failed to fetch discovery jobs" });
@@ -517,5 +1652,268 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/discover/jobs/:id/events", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ message: "Invalid job ID" });
+      const job = await storage.getDiscoveryJob(id);
+      if (!job) return res.status(404).json({ message: "Job not found" });
+
+      // EventSource sends Last-Event-ID on reconnect; ?since= lets a fresh page skip what it has.
+      const lastEventId = parseInt(String(req.headers["last-event-id"] ?? req.query.since ?? "0"), 10) || 0;
+
+      res.setHeader("Content-Type", "text/event-stream");
+      res.setHeader("Cache-Control", "no-cache");
+      res.setHeader("Connection", "keep-alive");
+      res.flushHeaders();
+
+      const isActive = (status: string) => status === "running" || status === "pending";
+      let lastId = lastEventId;
+      // Sends stored events after lastId; true once one of them says the job stopped.
+      const sendNewEvents = async () => {
+        let stopped = false;
+        for (const event of await getJobEventsSince(id, lastId)) {
+          res.write(`id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`);
+          lastId = event.id;
+          if (event.type === "job_status" && event.status && !isActive(event.status)) stopped = true;
+        }
+        return stopped;
+      };
+
+      res.write(`event: snapshot\ndata: ${JSON.stringify(job)}\n\n`);
+      if ((await sendNewEvents()) || !isActive(job.status)) {
+        res.end();
+        return;
+      }
+
+      // Events come from every process through the database, so poll it. A job can also stop
+      // without a job_status event reaching us (e.g. its process died), so watch the job row too.
+      let closed = false;
+      let timer: NodeJS.Timeout | undefined;
+      const poll = async () => {
+        if (closed) return;
+        try {
+          let stopped = await sendNewEvents();
+          if (!stopped) {
+            const current = await storage.getDiscoveryJob(id);
+            if (!current || !isActive(current.status)) {
+              // Catch events stored just before it stopped; else tell the client with a fresh snapshot.
+              if (!(await sendNewEvents()) && current) res.write(`event: snapshot\ndata: ${JSON.stringify(current)}\n\n`);
+              stopped = true;
+            }
+          }
+          if (stopped) {
+            cleanup();
+            res.end();
+            return;
+          }
+        } catch (err) {
+          console.warn(`[JobEvents] Polling events for job ${id} failed:`, err instanceof Error ? err.message : err);
+        }
+        if (!closed) timer = setTimeout(poll, EVENT_POLL_MS);
+      };
+      timer = setTimeout(poll, EVENT_POLL_MS);
+      const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), 25000);
+      const cleanup = () => {
+        closed = true;
+        clearTimeout(timer);
+        clearInterval(heartbeat);
+      };
+      req.on("close", cleanup);
+    } catch (err) {
+      console.error("Error streaming discovery job events:", err);
+      if (res.headersSent) res.end();
+      else res.status(500).json({ message: "Failed to stream job events" });
+    }
+  });
+
+  // Rerun a chosen subset of a job's companies, or clone the whole job, as a new linked job.
+  for (const kind of JOB_RERUN_KINDS) {
+    app.post(`/api/discover/jobs/:id/${kind}`, async (req, res) => {
+      try {
+        const id = parseInt(req.params.id, 10);
+        if (isNaN(id)) return res.status(400).json({ message: "Invalid job ID" });
+        const settings = jobRerunSchema.safeParse(req.body ?? {});
+        if (!settings.success) {
+          return res.status(400).json({ message: "Validation failed", errors: settings.error.flatten() });
+        }
+        if (kind === "rerun" && !settings.data.itemIds) {
+          return res.status(400).json({ message: "Choose the companies to rerun (itemIds)" });
+        }
+        const job = await storage.getDiscoveryJob(id);
+        if (!job) return res.status(404).json({ message: "Job not found" });
+
+        const items = kind === "rerun"
+          ? await storage.getDiscoveryJobItemsByIds(id, settings.data.itemIds!)
+          : await storage.getDiscoveryJobItems(id);
+        if (items.length === 0) return res.status(404).json({ message: "No matching companies in this job" });
+        const busy = kind === "rerun" ? items.filter(i => i.status === "pending" || i.status === "running") : [];
+        if (busy.length > 0) {
+          return res.status(409).json({ message: `Wait for ${busy.map(i => i.companyName).join(", ")} to finish before rerunning` });
+        }
+
+        const parsed = parseDiscoverRequest(rerunRequestBody(job, items, settings.data));
+        if ("error" in parsed) return res.status(400).json(parsed.error);
+        const { entries, providerId, supplementaryProvider, overrideManualEdits, ensemble, budgetUsd, priority, searchBackend } = parsed.request;
+
+        const estimate = await estimateDiscoveryCost(entries.length, { provider: providerId, supplementaryProvider, ensembleProviders: ensemble, budgetUsd });
+        if (estimate.monthly_remaining_usd === 0) {
+          return res.status(409).json({ message: `Monthly budget of $${estimate.monthly_budget_usd!.toFixed(2)} is used up; raise it to start new discovery jobs`, estimate });
+        }
+
+        // Every item has a name, so parsing keeps entries in item order.
+        const linked = entries.map((e, i) => ({ ...e, sourceItemId: items[i].id }));
+        const created = await queueDiscoveryJob(linked, providerId, {
+          supplementaryProvider, overrideManualEdits, ensembleProviders: ensemble, budgetUsd, priority, searchBackend,
+          parentJobId: job.id,
+          rerunKind: kind,
+        });
+        res.json({
+          jobId: created.id,
+          parent_job_id: job.id,
+          rerun_kind: kind,
+          total: entries.length,
+          provider: created.modelProvider,
+          ensemble_providers: ensemble,
+          budget_usd: created.budgetUsd,
+          priority: created.priority,
+          search_backend: created.searchBackend,
+          estimate,
+          status: "pending",
+        });
+      } catch (err) {
+        console.error(`Error creating ${kind} job:`, err);
+        res.status(500).json({ message: `Failed to ${kind} job` });
+      }
+    });
+  }
+
+  app.get("/api/discover/jobs/:id/items", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ message: "Invalid job ID" });
+      const query = jobItemQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: query.error.flatten() });
+      }
+      const job = await storage.getDiscoveryJob(id);
+      if (!job) return res.status(404).json({ message: "Job not found" });
+      const [{ items, total }, counts] = await Promise.all([
+        storage.queryDiscoveryJobItems(id, query.data),
+        storage.getDiscoveryJobItemCounts(id),
+      ]);
+      const reruns = await storage.getLatestRerunItems(items.map(i => i.id));
+      res.json({
+        job_id: id,
+        counts,
+        total_matching: total,
+        page: query.data.page,
+        page_size: query.data.pageSize,
+        total_pages: Math.ceil(total / query.data.pageSize),
+        items: items.map(({ webResearch, ...item }) => {
+          const rerun = reruns.get(item.id);
+          return {
+            ...item,
+            hasWebResearch: webResearch !== null,
+            latestRerun: rerun ? { jobId: rerun.jobId, itemId: rerun.id, status: rerun.status, assetsFound: rerun.assetsFound } : null,
+          };
+        }),
+      });
+    } catch (err) {
+      console.error("Error fetching discovery job items:", err);
+      res.status(500).json({ message: "Failed to fetch discovery job items" });
+    }
+  });
+
+  app.get("/api/discover/jobs/:id/items/:itemId/research", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const itemId = parseInt(req.params.itemId, 10);
+      if (isNaN(id) || isNaN(itemId)) return res.status(400).json({ message: "Invalid job ID or item ID" });
+      const item = await storage.getDiscoveryJobItem(itemId);
+      if (!item || item.jobId !== id) return res.status(404).json({ message: "Item not found" });
+      const research = webResearchResponse(item);
+      if (!research) return res.status(404).json({ message: "No web research was recorded for this item" });
+      res.json(research);
+    } catch (err) {
+      console.error("Error fetching item web research:", err);
+      res.status(500).json({ message: "Failed to fetch web research" });
+    }
+  });
+
+  app.post("/api/discover/jobs/:id/items/retry", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ message: "Invalid job ID" });
+      const parsed = jobItemRetrySchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
+      }
+      const job = await storage.getDiscoveryJob(id);
+      if (!job) return res.status(404).json({ message: "Job not found" });
+      if (job.status === "cancelled") {
+        return res.status(409).json({ message: "Job was cancelled; resume it to run its cancelled companies, or rerun or clone it to retry failed ones" });
+      }
+      const reason = await getBudgetStopReason(job);
+      if (reason) return res.status(409).json({ message: `${reason}; raise the budget before retrying` });
+      const retried = await retryFailedItems(id, parsed.data.itemIds);
+      res.json({ job_id: id, retried });
+    } catch (err) {
+      console.error("Error retrying discovery job items:", err);
+      res.status(500).json({ message: "Failed to retry failed items" });
+    }
+  });
+
+  app.post("/api/discover/jobs/:id/items/:itemId/:action", async (req, res) => {
+    try {
+      const { action } = req.params;
+      if (action !== "accept" && action !== "discard") return res.status(404).json({ message: "Unknown review action" });
+      const id = parseInt(req.params.id, 10);
+      const itemId = parseInt(req.params.itemId, 10);
+      if (isNaN(id) || isNaN(itemId)) return res.status(400).json({ message: "Invalid job ID or item ID" });
+      const parsed = quarantineAcceptSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
+      }
+      const job = await storage.getDiscoveryJob(id);
+      if (!job) return res.status(404).json({ message: "Job not found" });
+      const item = await storage.getDiscoveryJobItem(itemId);
+      if (!item || item.jobId !== id) return res.status(404).json({ message: "Item not found" });
+      const result: JobResult | null = item.result ? JSON.parse(item.result) : null;
+      if (item.status !== "quarantined" || !result?.quarantine) {
+        return res.status(409).json({ message: "Item is not quarantined" });
+      }
+
+      const { quarantine, ...rest } = result;
+      let reviewed: JobResult;
+      let saved: Awaited<ReturnType<typeof saveDiscoveredCompany>> | null = null;
+      if (action === "accept") {
+        const isin = parsed.data.isin ?? quarantine.requested_isin ?? quarantine.returned_isin;
+        if (!isin || !isValidIsin(isin)) {
+          return res.status(400).json({ message: "Provide a valid ISIN to save this result under" });
+        }
+        saved = await saveDiscoveredCompany({ ...quarantine.company, isin }, parseEnsembleProviders(job) ?? job.modelProvider ?? "openai", job.overrideManualEdits, item.gicsCode);
+        reviewed = { ...rest, name: quarantine.company.name, isin, status: "success", error: undefined, assetsFound: saved.assetCount };
+        console.log(`[Discovery] Accepted quarantined item ${itemId} of job ${id} as ${isin}: ${saved.assetCount} assets`);
+      } else {
+        reviewed = { ...rest, status: "failed", error: `${quarantine.message} (discarded)` };
+        console.log(`[Discovery] Discarded quarantined item ${itemId} of job ${id}`);
+      }
+
+      const accepted = action === "accept";
+      const updated = await storage.recordDiscoveryJobItemResult(item, {
+        status: accepted ? "success" : "failed",
+        isin: accepted ? reviewed.isin : item.isin,
+        assetsFound: reviewed.assetsFound ?? null,
+        error: reviewed.error ?? null,
+        result: JSON.stringify(reviewed),
+      }, { completed: accepted ? 1 : 0, failed: accepted ? -1 : 0 });
+      res.json({ job: updated, item: await storage.getDiscoveryJobItem(itemId), company: saved?.company ?? null });
+    } catch (err) {
+      console.error("Error reviewing quarantined item:", err);
+      res.status(500).json({ message: "Failed to review quarantined item" });
+    }
+  });
+
   return httpServer;
 }
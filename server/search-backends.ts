@@ -0,0 +1,328 @@
+import { existsSync, readdirSync, readFileSync } from "fs";
+import path from "path";
+import { z } from "zod";
+import { storage } from "./storage";
+import { getCassetteMode, hasCassettes, withCassette, type CassetteKind } from "./cassette";
+import { getMonthStart } from "./budget";
+import { cachedSearch, type CachedSearch, type SearchSnippet } from "./research-cache";
+import { SEARCH_BACKEND_IDS, type SearchBackendId } from "@shared/schema";
+
+/**
+ * One web search service. `fetch` is the call to the service and `extract` turns its response (R)
+ * into snippets. Backends with a cassette are remote: they are cached, metered against their quota
+ * and recorded by cassettes. The fixture backend has none and is read fresh every time.
+ */
+interface SearchBackend<R = unknown> {
+  id: SearchBackendId;
+  name: string;
+  // Env var that switches the backend on: an API key, the SearXNG instance URL or the fixtures dir.
+  configEnv: string;
+  quotaEnv: string | null;
+  cassette: { kind: CassetteKind; scope: string } | null;
+  fetch(query: string, num: number): Promise<R>;
+  extract(response: R, num: number): SearchSnippet[];
+}
+
+export interface SearchBackendStatus {
+  id: SearchBackendId;
+  name: string;
+  configEnv: string;
+  configured: boolean;
+  monthlyQuota: number | null;
+  monthQueries: number;
+  monthErrors: number;
+  quotaRemaining: number | null;
+  coolingDownUntil: string | null;
+}
+
+export type WebSearchResult = CachedSearch & { backend: SearchBackendId };
+
+// A backend that errors is skipped for this long, so one outage doesn't cost a failed call per query.
+const BACKEND_COOLDOWN_MS = 60 * 1000;
+const QUOTA_SETTING_PREFIX = "search_quota_";
+
+const cooldownUntil = new Map<SearchBackendId, number>();
+
+async function fetchJson<R>(url: string, init: RequestInit, name: string): Promise<R> {
+  const response = await fetch(url, init);
+  if (!response.ok) throw new Error(`${name} API error (${response.status})`);
+  return response.json();
+}
+
+function requireEnv(name: string, label: string): string {
+  const value = process.env[name];
+  if (!value) throw new Error(`${name} not configured for ${label}`);
+  return value;
+}
+
+interface SerperResponse {
+  organic?: Array<{ title: string; link: string; snippet: string }>;
+  knowledgeGraph?: {
+    title?: string;
+    description?: string;
+    attributes?: Record<string, string>;
+  };
+}
+
+interface BraveResponse {
+  web?: { results?: Array<{ title: string; url: string; description?: string }> };
+}
+
+interface BingResponse {
+  webPages?: { value?: Array<{ name: string; url: string; snippet?: string }> };
+}
+
+interface SearxngResponse {
+  results?: Array<{ title: string; url: string; content?: string }>;
+  infoboxes?: Array<{ infobox?: string; content?: string }>;
+}
+
+// The raw response each backend's fetch resolves to.
+interface BackendResponses {
+  serper: SerperResponse;
+  brave: BraveResponse;
+  bing: BingResponse;
+  searxng: SearxngResponse;
+  fixtures: SearchSnippet[];
+}
+
+/**
+ * A canned result set for the fixture backend. It answers a query when every `match` string
+ * appears in it (case-insensitively), e.g. ["acme industries", "refineries"].
+ */
+const searchFixtureSchema = z.object({
+  match: z.array(z.string().min(1)).min(1),
+  results: z.array(z.object({
+    snippet: z.string().min(1),
+    title: z.string().optional(),
+    link: z.string().optional(),
+  })),
+});
+
+export function getSearchFixturesDir(): string {
+  return process.env.SEARCH_FIXTURES_DIR || path.resolve(process.cwd(), "data", "search-fixtures");
+}
+
+/** Fixture files are re-read per query, like the fake LLM's, so tests can swap them freely. */
+function searchFixtures(query: string, num: number): SearchSnippet[] {
+  const dir = getSearchFixturesDir();
+  if (!existsSync(dir)) throw new Error(`Search fixtures directory not found: ${dir}`);
+  const lower = query.toLowerCase();
+  for (const file of readdirSync(dir).filter(f => f.endsWith(".json")).sort()) {
+    const parsed = JSON.parse(readFileSync(path.join(dir, file), "utf-8"));
+    for (const entry of Array.isArray(parsed) ? parsed : [parsed]) {
+      const fixture = searchFixtureSchema.safeParse(entry);
+      if (!fixture.success) throw new Error(`Invalid search fixture in ${file}: ${fixture.error.issues[0].message}`);
+      if (fixture.data.match.every(m => lower.includes(m.toLowerCase()))) {
+        return fixture.data.results.slice(0, num).map(r => ({ text: r.snippet, title: r.title, link: r.link }));
+      }
+    }
+  }
+  return [];
+}
+
+const BACKENDS: { [Id in SearchBackendId]: SearchBackend<BackendResponses[Id]> } = {
+  serper: {
+    id: "serper",
+    name: "Serper (Google)",
+    configEnv: "SERPER_API_KEY",
+    quotaEnv: "SERPER_MONTHLY_QUOTA",
+    cassette: { kind: "serper", scope: "google" },
+    fetch: (query, num) => fetchJson("https://google.serper.dev/search", {
+      method: "POST",
+      headers: { "X-API-KEY": requireEnv("SERPER_API_KEY", "Serper"), "Content-Type": "application/json" },
+      body: JSON.stringify({ q: query, num, gl: "us", hl: "en" }),
+    }, "Serper"),
+    extract: (response) => {
+      const snippets: SearchSnippet[] = [];
+      const kg = response.knowledgeGraph;
+      if (kg?.description) snippets.push({ text: kg.description });
+      for (const [key, value] of Object.entries(kg?.attributes ?? {})) {
+        snippets.push({ text: `${key}: ${value}` });
+      }
+      for (const r of response.organic ?? []) {
+        if (r.snippet) snippets.push({ text: r.snippet, title: r.title, link: r.link });
+      }
+      return snippets;
+    },
+  },
+  brave: {
+    id: "brave",
+    name: "Brave Search",
+    configEnv: "BRAVE_SEARCH_API_KEY",
+    quotaEnv: "BRAVE_SEARCH_MONTHLY_QUOTA",
+    cassette: { kind: "search", scope: "brave" },
+    fetch: (query, num) => fetchJson(`https://api.search.brave.com/res/v1/web/search?${new URLSearchParams({ q: query, count: String(num), country: "us", search_lang: "en" })}`, {
+      headers: { "X-Subscription-Token": requireEnv("BRAVE_SEARCH_API_KEY", "Brave Search"), Accept: "application/json" },
+    }, "Brave Search"),
+    extract: (response) =>
+      (response.web?.results ?? []).filter(r => r.description).map(r => ({ text: r.description!, title: r.title, link: r.url })),
+  },
+  bing: {
+    id: "bing",
+    name: "Bing Web Search",
+    configEnv: "BING_SEARCH_API_KEY",
+    quotaEnv: "BING_SEARCH_MONTHLY_QUOTA",
+    cassette: { kind: "search", scope: "bing" },
+    fetch: (query, num) => {
+      const endpoint = process.env.BING_SEARCH_ENDPOINT || "https://api.bing.microsoft.com/v7.0/search";
+      return fetchJson(`${endpoint}?${new URLSearchParams({ q: query, count: String(num), mkt: "en-US" })}`, {
+        headers: { "Ocp-Apim-Subscription-Key": requireEnv("BING_SEARCH_API_KEY", "Bing Web Search") },
+      }, "Bing Web Search");
+    },
+    extract: (response) =>
+      (response.webPages?.value ?? []).filter(r => r.snippet).map(r => ({ text: r.snippet!, title: r.name, link: r.url })),
+  },
+  searxng: {
+    id: "searxng",
+    name: "SearXNG",
+    configEnv: "SEARXNG_URL",
+    quotaEnv: null,
+    cassette: { kind: "search", scope: "searxng" },
+    fetch: (query) => {
+      const base = requireEnv("SEARXNG_URL", "SearXNG").replace(/\/+$/, "");
+      return fetchJson(`${base}/search?${new URLSearchParams({ q: query, format: "json", language: "en" })}`, {
+        headers: { Accept: "application/json" },
+      }, "SearXNG");
+    },
+    extract: (response, num) => [
+      ...(response.infoboxes ?? []).filter(b => b.content).map(b => ({ text: b.content! })),
+      ...(response.results ?? []).filter(r => r.content).slice(0, num).map(r => ({ text: r.content!, title: r.title, link: r.url })),
+    ],
+  },
+  fixtures: {
+    id: "fixtures",
+    name: "Local fixtures",
+    configEnv: "SEARCH_FIXTURES_DIR",
+    quotaEnv: null,
+    cassette: null,
+    fetch: async (query, num) => searchFixtures(query, num),
+    extract: (snippets) => snippets,
+  },
+};
+
+function isConfigured(backend: SearchBackend): boolean {
+  if (backend.id === "fixtures") return !!process.env.SEARCH_FIXTURES_DIR && existsSync(getSearchFixturesDir());
+  if (backend.cassette && getCassetteMode() === "replay") return hasCassettes(backend.cassette.kind, backend.cassette.scope);
+  return !!process.env[backend.configEnv];
+}
+
+export function isSearchBackendId(value: unknown): value is SearchBackendId {
+  return (SEARCH_BACKEND_IDS as readonly unknown[]).includes(value);
+}
+
+/** SEARCH_BACKENDS (comma-separated ids) sets the fallback order; backends it leaves out are not used. */
+export function getDefaultSearchOrder(): SearchBackendId[] {
+  const configured = (process.env.SEARCH_BACKENDS || "").split(",").map(s => s.trim().toLowerCase()).filter(isSearchBackendId);
+  return configured.length > 0 ? Array.from(new Set(configured)) : [...SEARCH_BACKEND_IDS];
+}
+
+export function isWebSearchAvailable(): boolean {
+  return getDefaultSearchOrder().some(id => isConfigured(BACKENDS[id]));
+}
+
+/** The monthly query quota set through the API, else the backend's env var; null means unlimited. */
+export async function getSearchQuota(id: SearchBackendId): Promise<number | null> {
+  const stored = await storage.getSetting(`${QUOTA_SETTING_PREFIX}${id}`);
+  const quotaEnv = BACKENDS[id].quotaEnv;
+  const raw = stored ?? (quotaEnv ? process.env[quotaEnv] : undefined);
+  const value = raw ? parseInt(raw, 10) : NaN;
+  return value > 0 ? value : null;
+}
+
+export async function setSearchQuota(id: SearchBackendId, value: number | null): Promise<void> {
+  await storage.setSetting(`${QUOTA_SETTING_PREFIX}${id}`, value === null ? null : String(value));
+}
+
+/** Like the research cache, quota bookkeeping that can't reach the database never blocks a search. */
+async function quotaReason(backend: SearchBackend): Promise<string | null> {
+  try {
+    const quota = await getSearchQuota(backend.id);
+    if (quota === null) return null;
+    const usage = (await storage.getSearchUsage(getMonthStart())).find(u => u.backend === backend.id);
+    return usage && usage.queries >= quota ? `${backend.name} monthly quota of ${quota} queries reached` : null;
+  } catch (err) {
+    console.warn(`[Search] Quota check failed for ${backend.name}:`, err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+async function recordUsage(backend: SearchBackend, errors: number): Promise<void> {
+  try {
+    await storage.recordSearchUsage(backend.id, getMonthStart(), { queries: 1, errors });
+  } catch (err) {
+    console.warn(`[Search] Could not record usage for ${backend.name}:`, err instanceof Error ? err.message : err);
+  }
+}
+
+/** A remote call that counts against the backend's quota; cassette replays never get here. */
+async function fetchMetered<R>(backend: SearchBackend<R>, query: string, num: number): Promise<R> {
+  const reason = await quotaReason(backend);
+  if (reason) throw new Error(reason);
+  let response: R;
+  try {
+    response = await backend.fetch(query, num);
+  } catch (err) {
+    cooldownUntil.set(backend.id, Date.now() + BACKEND_COOLDOWN_MS);
+    await recordUsage(backend, 1);
+    throw err;
+  }
+  await recordUsage(backend, 0);
+  return response;
+}
+
+async function runBackend<R>(backend: SearchBackend<R>, query: string, num: number): Promise<WebSearchResult> {
+  const { cassette } = backend;
+  if (!cassette) {
+    return { snippets: backend.extract(await backend.fetch(query, num), num), cached: false, fetchedAt: new Date(), backend: backend.id };
+  }
+  const search = await cachedSearch(backend.id, query, num, async () =>
+    backend.extract(await withCassette(cassette.kind, cassette.scope, { query, num }, () => fetchMetered(backend, query, num)), num));
+  return { ...search, backend: backend.id };
+}
+
+/**
+ * Runs one query on the preferred backend, falling back through the default order when a backend
+ * errors, is over quota or is cooling down after an error. Each backend's results are cached
+ * separately. Throws the last error when no backend could answer.
+ */
+export async function webSearch(query: string, num: number, preferred?: string | null): Promise<WebSearchResult> {
+  const order = getDefaultSearchOrder();
+  const ids = isSearchBackendId(preferred) ? [preferred, ...order.filter(id => id !== preferred)] : order;
+  const configured: SearchBackend[] = ids.map(id => BACKENDS[id]).filter(isConfigured);
+  if (configured.length === 0) throw new Error("No web search backend is configured");
+
+  // If every backend is cooling down, try them anyway rather than give up.
+  const ready = configured.filter(b => (cooldownUntil.get(b.id) ?? 0) <= Date.now());
+  let lastError: unknown;
+  for (const backend of ready.length > 0 ? ready : configured) {
+    try {
+      return await runBackend(backend, query, num);
+    } catch (err) {
+      lastError = err;
+      console.warn(`[Search] ${backend.name} failed for "${query}":`, err instanceof Error ? err.message : err);
+    }
+  }
+  throw lastError instanceof Error ? lastError : new Error(String(lastError));
+}
+
+export async function getSearchBackendStatuses(): Promise<SearchBackendStatus[]> {
+  const usage = await storage.getSearchUsage(getMonthStart());
+  return Promise.all(SEARCH_BACKEND_IDS.map(async id => {
+    const backend = BACKENDS[id];
+    const monthly = usage.find(u => u.backend === id);
+    const quota = await getSearchQuota(id);
+    const until = cooldownUntil.get(id) ?? 0;
+    return {
+      id,
+      name: backend.name,
+      configEnv: backend.configEnv,
+      configured: isConfigured(backend),
+      monthlyQuota: quota,
+      monthQueries: monthly?.queries ?? 0,
+      monthErrors: monthly?.errors ?? 0,
+      quotaRemaining: quota === null ? null : Math.max(0, quota - (monthly?.queries ?? 0)),
+      coolingDownUntil: until > Date.now() ? new Date(until).toISOString() : null,
+    };
+  }));
+}
@@ -0,0 +1,38 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { extractFilingPassages } from "./sec-filings";
+
+const TEN_K = [
+  "Table of Contents",
+  "Item 2. Properties 14",
+  "Item 3. Legal Proceedings 15",
+  "Item 1. Business",
+  "We make steel.",
+  "Item 2. Properties",
+  "Our principal facilities are Gary Works in Gary, Indiana and Mon Valley Works in Pennsylvania.",
+  "Item 3. Legal Proceedings",
+  "None.",
+  "Note 9. Property, Plant and Equipment",
+  "Land 1,200 Buildings 3,400 Machinery 12,500",
+  "Note 10. Debt",
+].join("\n");
+
+test("extractFilingPassages takes the Item 2 body, not the table of contents entry", () => {
+  const passages = extractFilingPassages(TEN_K, "10-K");
+  assert.deepEqual(passages.map(p => p.section), ["properties", "ppe"]);
+  assert.equal(passages[0].heading, "Item 2. Properties");
+  assert.match(passages[0].text, /^Our principal facilities are Gary Works/);
+  assert.doesNotMatch(passages[0].text, /Legal Proceedings/);
+  assert.equal(passages[1].text, "Land 1,200 Buildings 3,400 Machinery 12,500");
+});
+
+test("extractFilingPassages reads Item 4.D from a 20-F", () => {
+  const text = "Item 4.D Property, Plants and Equipment\nOur mines are in the Pilbara.\nItem 5. Operating and Financial Review";
+  const passages = extractFilingPassages(text, "20-F");
+  assert.equal(passages.length, 1);
+  assert.equal(passages[0].text, "Our mines are in the Pilbara.");
+});
+
+test("extractFilingPassages returns nothing when no section is found", () => {
+  assert.deepEqual(extractFilingPassages("Annual report without the usual items.", "10-K"), []);
+});
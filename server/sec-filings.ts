@@ -0,0 +1,384 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import { storage } from "./storage";
+import { companyNameKey, companyNamesMatch } from "./company-names";
+import type { SecFiling } from "@shared/schema";
+import type { DiscoveredAsset } from "./discovery-validation";
+
+const EDGAR_WWW_URL = "https://www.sec.gov";
+const EDGAR_DATA_URL = "https://data.sec.gov";
+const ANNUAL_FORMS = ["10-K", "20-F"];
+// A stored filing is reused for this long before the company's submissions are checked again.
+const FILING_REFRESH_DAYS = 7;
+const FETCH_TIMEOUT_MS = 30 * 1000;
+const MAX_PROPERTIES_CHARS = 12000;
+const MAX_PPE_CHARS = 6000;
+// A section whose end marker is further away than this is a cross-reference, not the section.
+const MAX_SECTION_SPAN = 100000;
+
+export type FilingSource = "mirror" | "edgar";
+export type FilingSection = "properties" | "ppe";
+
+export interface FilingPassage {
+  section: FilingSection;
+  heading: string;
+  text: string;
+}
+
+export interface CikMapping {
+  cik: string;
+  name: string;
+  ticker: string | null;
+  isin: string | null;
+}
+
+/** The passages of a company's latest annual filing, with what's needed to cite it. */
+export interface FilingExtract {
+  cik: string;
+  form: string;
+  filingDate: string;
+  accession: string;
+  url: string;
+  passages: FilingPassage[];
+}
+
+/** What a job item's result records about the filing its prompt quoted. */
+export interface FilingSummary {
+  cik: string;
+  form: string;
+  filing_date: string;
+  accession: string;
+  url: string;
+  sections: FilingSection[];
+  chars: number;
+  cited_assets: number;
+}
+
+export interface FilingStatus {
+  source: FilingSource | null;
+  configured: boolean;
+  cik_map_file: string | null;
+  cik_mappings: number | null;
+}
+
+/**
+ * SEC_FILINGS_DIR points at a local mirror laid out like EDGAR (files/company_tickers.json,
+ * submissions/CIK##########.json, Archives/edgar/data/...). Otherwise EDGAR itself is read once
+ * SEC_EDGAR_USER_AGENT is set, since EDGAR refuses requests without a declared user agent;
+ * SEC_EDGAR_URL sends those requests to a stand-in serving the same paths.
+ */
+export function getFilingSource(): FilingSource | null {
+  if (process.env.SEC_FILINGS_DIR) return "mirror";
+  if (process.env.SEC_EDGAR_USER_AGENT) return "edgar";
+  return null;
+}
+
+/** Reads an EDGAR path from the mirror or over HTTP; null when the file doesn't exist. */
+async function readEdgarFile(relativePath: string, host: "www" | "data"): Promise<string | null> {
+  const dir = process.env.SEC_FILINGS_DIR;
+  if (dir) {
+    try {
+      return await readFile(path.join(dir, relativePath), "utf-8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw err;
+    }
+  }
+
+  const base = (process.env.SEC_EDGAR_URL || (host === "data" ? EDGAR_DATA_URL : EDGAR_WWW_URL)).replace(/\/+$/, "");
+  const response = await fetch(`${base}/${relativePath}`, {
+    headers: { "User-Agent": process.env.SEC_EDGAR_USER_AGENT || "" },
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error(`EDGAR returned ${response.status} for ${relativePath}`);
+  return response.text();
+}
+
+// SEC_CIK_MAP_FILE lists { cik, name, ticker?, isin? } entries; EDGAR's company_tickers.json
+// ({ "0": { cik_str, ticker, title } }) is read from the source as well.
+const cikMapSchema = z.union([
+  z.array(z.object({
+    cik: z.union([z.string(), z.number()]),
+    name: z.string(),
+    ticker: z.string().nullish(),
+    isin: z.string().nullish(),
+  })),
+  z.record(z.object({
+    cik_str: z.union([z.string(), z.number()]),
+    ticker: z.string().nullish(),
+    title: z.string(),
+  })),
+]);
+
+function padCik(cik: string | number): string {
+  return String(cik).replace(/\D/g, "").padStart(10, "0");
+}
+
+function parseCikMap(raw: string, source: string): CikMapping[] {
+  const parsed = cikMapSchema.safeParse(JSON.parse(raw));
+  if (!parsed.success) throw new Error(`Invalid CIK mapping in ${source}: ${parsed.error.issues[0].message}`);
+  if (Array.isArray(parsed.data)) {
+    return parsed.data.map(e => ({ cik: padCik(e.cik), name: e.name, ticker: e.ticker?.toUpperCase() ?? null, isin: e.isin?.toUpperCase() ?? null }));
+  }
+  return Object.values(parsed.data).map(e => ({ cik: padCik(e.cik_str), name: e.title, ticker: e.ticker?.toUpperCase() ?? null, isin: null }));
+}
+
+let cikMap: CikMapping[] | null = null;
+
+/** The mapping file's entries, then EDGAR's ticker list; loaded once per process. */
+async function loadCikMap(): Promise<CikMapping[]> {
+  if (cikMap) return cikMap;
+  const mappings: CikMapping[] = [];
+  const file = process.env.SEC_CIK_MAP_FILE;
+  if (file) mappings.push(...parseCikMap(await readFile(file, "utf-8"), file));
+  const tickers = await readEdgarFile("files/company_tickers.json", "www");
+  if (tickers) mappings.push(...parseCikMap(tickers, "company_tickers.json"));
+  cikMap = mappings;
+  return mappings;
+}
+
+/**
+ * Finds a company's CIK by ISIN, then ticker (when the name given is one), then name: an exact
+ * match of the distinctive words, else the single entry whose name extends or shortens it.
+ */
+export async function findCikMapping(companyName: string, isin?: string | null): Promise<CikMapping | null> {
+  const mappings = await loadCikMap();
+  const byIsin = isin ? mappings.find(m => m.isin === isin.toUpperCase()) : undefined;
+  if (byIsin) return byIsin;
+  const byTicker = mappings.find(m => m.ticker === companyName.trim().toUpperCase());
+  if (byTicker) return byTicker;
+  const key = companyNameKey(companyName);
+  const exact = mappings.find(m => companyNameKey(m.name) === key);
+  if (exact) return exact;
+  const partial = mappings.filter(m => companyNamesMatch(m.name, companyName));
+  return new Set(partial.map(m => m.cik)).size === 1 ? partial[0] : null;
+}
+
+const submissionsSchema = z.object({
+  filings: z.object({
+    recent: z.object({
+      accessionNumber: z.array(z.string()),
+      form: z.array(z.string()),
+      filingDate: z.array(z.string()),
+      primaryDocument: z.array(z.string()),
+    }),
+  }),
+});
+
+const ENTITIES: Record<string, string> = {
+  nbsp: " ", amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'",
+  rsquo: "'", lsquo: "'", rdquo: "\"", ldquo: "\"", mdash: "—", ndash: "–", bull: "•",
+};
+
+/** Filing HTML (or plain text) as text: block elements become line breaks, tags and entities go. */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|ix:header)\b[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|tr|li|h[1-6]|table)>/gi, "\n")
+    .replace(/<\/t[dh]>/gi, " ")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&([a-z]+);/gi, (match, name) => ENTITIES[name.toLowerCase()] ?? match)
+    .replace(/[ \t\u00a0]+/g, " ")
+    .split("\n")
+    .map(line => line.trim())
+    .filter((line, i, lines) => line.length > 0 || (i > 0 && lines[i - 1].trim().length > 0))
+    .join("\n")
+    .trim();
+}
+
+function tidyHeading(match: string): string {
+  return match.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * The longest stretch from a `start` match to the next `end` match. Tables of contents and
+ * cross-references also match `start`, but the real section is the one with a body.
+ */
+function longestSection(text: string, start: RegExp, end: RegExp, maxChars: number): { heading: string; text: string } | null {
+  let best: { heading: string; text: string; length: number } | null = null;
+  for (const match of Array.from(text.matchAll(start))) {
+    const bodyStart = match.index! + match[0].length;
+    const endMatch = end.exec(text.slice(bodyStart, bodyStart + MAX_SECTION_SPAN));
+    if (!endMatch) continue;
+    const length = endMatch.index;
+    if (!best || length > best.length) {
+      best = { heading: tidyHeading(match[0]), text: text.slice(bodyStart, bodyStart + length).trim(), length };
+    }
+  }
+  if (!best || best.text.length === 0) return null;
+  return { heading: best.heading, text: best.text.slice(0, maxChars) };
+}
+
+/** The PP&E note with the most figures in it: the note body, not a passing mention. */
+function ppeNote(text: string): { heading: string; text: string } | null {
+  const start = /note\s+\d+\s*[.:\-–—]?\s*property,?\s+(?:plant,?\s+)?and\s+equipment[^\n]*/gi;
+  const nextNote = /\n\s*note\s+\d+\s*[.:\-–—]/i;
+  let best: { heading: string; text: string; figures: number } | null = null;
+  for (const match of Array.from(text.matchAll(start))) {
+    const bodyStart = match.index! + match[0].length;
+    const rest = text.slice(bodyStart, bodyStart + MAX_PPE_CHARS);
+    const end = nextNote.exec(rest);
+    const body = (end ? rest.slice(0, end.index) : rest).trim();
+    const figures = (body.match(/\d[\d,.]{2,}/g) || []).length;
+    if (body && (!best || figures > best.figures)) best = { heading: tidyHeading(match[0]), text: body, figures };
+  }
+  return best && best.figures > 0 ? { heading: best.heading, text: best.text } : null;
+}
+
+/** Item 2 "Properties" (10-K) or Item 4.D "Property, Plants and Equipment" (20-F), plus the PP&E note. */
+export function extractFilingPassages(text: string, form: string): FilingPassage[] {
+  const passages: FilingPassage[] = [];
+  const properties = form.startsWith("20-F")
+    ? longestSection(
+      text,
+      /item\s*4\s*\.?\s*d\s*[.:\-–—]?\s*property,?\s+plants?\s+and\s+equipment/gi,
+      /item\s*4\s*a\b|item\s*5\s*[.:\-–—]?\s*operating/i,
+      MAX_PROPERTIES_CHARS,
+    )
+    : longestSection(
+      text,
+      /item\s*2\s*[.:\-–—]?\s*properties/gi,
+      /item\s*3\s*[.:\-–—]?\s*legal\s+proceedings/i,
+      MAX_PROPERTIES_CHARS,
+    );
+  if (properties) passages.push({ section: "properties", ...properties });
+  const note = ppeNote(text);
+  if (note) passages.push({ section: "ppe", ...note });
+  return passages;
+}
+
+function toExtract(filing: SecFiling): FilingExtract {
+  return {
+    cik: filing.cik,
+    form: filing.form,
+    filingDate: filing.filingDate,
+    accession: filing.accession,
+    url: filing.documentUrl,
+    passages: JSON.parse(filing.passages),
+  };
+}
+
+/**
+ * The company's latest 10-K or 20-F, parsed once and stored; null when it has none. Citations
+ * always use the document's sec.gov address, whichever source it was read from.
+ */
+export async function getAnnualFiling(cik: string): Promise<FilingExtract | null> {
+  const since = new Date(Date.now() - FILING_REFRESH_DAYS * 24 * 60 * 60 * 1000);
+  try {
+    const stored = await storage.getLatestSecFiling(cik, since);
+    if (stored) return toExtract(stored);
+  } catch (err) {
+    console.warn(`[SecFilings] Lookup failed for CIK ${cik}:`, err instanceof Error ? err.message : err);
+  }
+
+  const raw = await readEdgarFile(`submissions/CIK${cik}.json`, "data");
+  if (!raw) return null;
+  const submissions = submissionsSchema.safeParse(JSON.parse(raw));
+  if (!submissions.success) throw new Error(`Invalid EDGAR submissions for CIK ${cik}: ${submissions.error.issues[0].message}`);
+  const recent = submissions.data.filings.recent;
+  const annual = recent.form
+    .map((form, i) => ({ form, i }))
+    .filter(f => ANNUAL_FORMS.includes(f.form))
+    .sort((a, b) => recent.filingDate[b.i].localeCompare(recent.filingDate[a.i]))[0];
+  if (!annual) return null;
+
+  const accession = recent.accessionNumber[annual.i];
+  const documentPath = `Archives/edgar/data/${Number(cik)}/${accession.replace(/-/g, "")}/${recent.primaryDocument[annual.i]}`;
+  const document = await readEdgarFile(documentPath, "www");
+  if (!document) throw new Error(`EDGAR document not found: ${documentPath}`);
+  const passages = extractFilingPassages(htmlToText(document), annual.form);
+  const filing: SecFiling = {
+    accession,
+    cik,
+    form: annual.form,
+    filingDate: recent.filingDate[annual.i],
+    documentUrl: `${EDGAR_WWW_URL}/${documentPath}`,
+    passages: JSON.stringify(passages),
+    fetchedAt: new Date(),
+  };
+  console.log(`[SecFilings] CIK ${cik}: ${filing.form} filed ${filing.filingDate}, ${passages.map(p => `${p.section} ${p.text.length} chars`).join(", ") || "no passages found"}`);
+  try {
+    await storage.saveSecFiling(filing);
+  } catch (err) {
+    console.warn(`[SecFilings] Store failed for ${accession}:`, err instanceof Error ? err.message : err);
+  }
+  return toExtract(filing);
+}
+
+export function filingLabel(filing: FilingExtract): string {
+  return `Form ${filing.form} filed ${filing.filingDate}`;
+}
+
+/** The prompt block for a filing: its label and URL, then each passage under its heading. */
+export function formatFilingContext(filing: FilingExtract): string {
+  const passages = filing.passages.map(p => `${p.heading}\n${p.text}`).join("\n\n");
+  return passages ? `Source: ${filingLabel(filing)}\nURL: ${filing.url}\n\n${passages}` : "";
+}
+
+function phraseKey(value: string | undefined): string {
+  return (value ?? "").toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function isSecUrl(url: string | undefined): boolean {
+  if (!url) return false;
+  try {
+    const host = new URL(url).hostname.toLowerCase();
+    return host === "sec.gov" || host.endsWith(".sec.gov");
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Cites the filing on every asset its passages name by facility name. A city match is weaker, so it
+ * only fills in a citation for an asset with no source of its own. An asset that already cites an
+ * SEC document keeps its own citation. Returns how many assets were cited.
+ */
+export function citeFilingAssets(assets: DiscoveredAsset[], filing: FilingExtract): number {
+  const passages = filing.passages.map(p => ({ heading: p.heading, words: ` ${phraseKey(p.text)} ` }));
+  if (passages.length === 0) return 0;
+  const mentions = (phrase: string) => phrase.length >= 4 ? passages.find(p => p.words.includes(` ${phrase} `)) : undefined;
+
+  let cited = 0;
+  for (const asset of assets) {
+    if (isSecUrl(asset.source_url)) continue;
+    const unsourced = !asset.source_url && !asset.source_document;
+    const passage = mentions(phraseKey(asset.facility_name)) ?? (unsourced ? mentions(phraseKey(asset.city)) : undefined);
+    if (!passage) continue;
+    asset.source_document = `${filingLabel(filing)}, ${passage.heading}`;
+    asset.source_url = filing.url;
+    cited++;
+  }
+  return cited;
+}
+
+export function summarizeFiling(filing: FilingExtract, citedAssets: number): FilingSummary {
+  return {
+    cik: filing.cik,
+    form: filing.form,
+    filing_date: filing.filingDate,
+    accession: filing.accession,
+    url: filing.url,
+    sections: filing.passages.map(p => p.section),
+    chars: filing.passages.reduce((sum, p) => sum + p.text.length, 0),
+    cited_assets: citedAssets,
+  };
+}
+
+export async function getFilingStatus(): Promise<FilingStatus> {
+  const source = getFilingSource();
+  let mappings: number | null = null;
+  if (source) {
+    try {
+      mappings = (await loadCikMap()).length;
+    } catch (err) {
+      console.warn("[SecFilings] CIK mapping failed to load:", err instanceof Error ? err.message : err);
+    }
+  }
+  return { source, configured: source !== null, cik_map_file: process.env.SEC_CIK_MAP_FILE || null, cik_mappings: mappings };
+}
@@ -0,0 +1,33 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { resolveCompanyClassification } from "./sectors";
+
+test("resolveCompanyClassification prefers an uploaded code", () => {
+  assert.deepEqual(
+    resolveCompanyClassification({ uploaded: "151040", stored: "4510", storedSource: "manual", llmCode: "20" }),
+    { gicsCode: "1510", source: "upload" },
+  );
+});
+
+test("resolveCompanyClassification keeps a person's stored choice over the model", () => {
+  assert.deepEqual(
+    resolveCompanyClassification({ stored: "4510", storedSource: "manual", llmCode: "20" }),
+    { gicsCode: "4510", source: "manual" },
+  );
+});
+
+test("resolveCompanyClassification replaces a stored model code with a new model answer", () => {
+  assert.deepEqual(
+    resolveCompanyClassification({ stored: "4510", storedSource: "llm", llmCode: "2030" }),
+    { gicsCode: "2030", source: "llm" },
+  );
+  assert.deepEqual(
+    resolveCompanyClassification({ llmSector: "Utilities" }),
+    { gicsCode: "5510", source: "llm" },
+  );
+});
+
+test("resolveCompanyClassification falls back to the stored code, else null", () => {
+  assert.deepEqual(resolveCompanyClassification({ stored: "60", llmSector: "unknown" }), { gicsCode: "60", source: "llm" });
+  assert.equal(resolveCompanyClassification({ llmCode: "99" }), null);
+});
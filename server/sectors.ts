@@ -0,0 +1,299 @@
+import type { SectorSource } from "@shared/schema";
+
+/**
+ * GICS-style classification: 2-digit sectors and 4-digit industry groups. Companies store the most
+ * specific code known, which picks the sector's web search queries and the assets' industry factor.
+ */
+export interface GicsSector {
+  code: string;
+  name: string;
+  industryFactor: number;
+  queries: string[];
+}
+
+export interface GicsIndustryGroup {
+  code: string;
+  name: string;
+  sectorCode: string;
+  // Overrides the sector's factor for groups that are much more or less asset-heavy.
+  industryFactor?: number;
+}
+
+export interface SectorClassification {
+  gicsCode: string;
+  source: SectorSource;
+}
+
+const MATERIALS_QUERIES = [
+  "mines operations mining sites locations worldwide complete list",
+  "smelters refineries processing plants concentrators pellet plants",
+  "chemical plants production complexes mills manufacturing sites",
+  "joint ventures minority stakes mining partnerships ownership percentage",
+  "port terminals rail networks shipping infrastructure logistics",
+  "exploration projects development pipeline new mines under construction",
+];
+
+const ENERGY_QUERIES = [
+  "refineries oil gas operations platforms fields worldwide list",
+  "LNG terminals pipelines processing plants gas facilities",
+  "offshore drilling rigs production facilities deepwater",
+  "petrochemical plants chemical facilities downstream operations",
+  "renewable energy solar wind power generation assets",
+  "tank farms storage terminals fuel depots logistics",
+];
+
+const UTILITIES_QUERIES = [
+  "power plants generating stations nuclear solar wind complete list",
+  "transmission substations grid infrastructure facilities",
+  "renewable energy farms solar wind hydro facilities worldwide",
+  "natural gas plants LNG storage distribution facilities",
+  "water treatment desalination plants infrastructure",
+];
+
+const TECHNOLOGY_QUERIES = [
+  "data centers campus offices worldwide locations complete list",
+  "research labs R&D facilities engineering centers",
+  "cloud infrastructure server farms colocation facilities",
+  "manufacturing plants chip fabrication semiconductor foundries",
+  "distribution warehouses fulfillment centers logistics",
+];
+
+const COMMUNICATION_QUERIES = [
+  "data centers network operations centers offices worldwide complete list",
+  "cell towers fiber networks subsea cables exchanges infrastructure",
+  "studios production facilities broadcast centers",
+  "research labs R&D facilities engineering centers",
+  "regional offices headquarters locations worldwide",
+];
+
+const INDUSTRIALS_QUERIES = [
+  "manufacturing plants factories production facilities worldwide complete list",
+  "warehouses distribution centers logistics hubs supply chain",
+  "shipyards rail yards assembly plants fabrication shops",
+  "research development centers testing facilities laboratories",
+  "service centers maintenance repair overhaul facilities",
+];
+
+const HEALTHCARE_QUERIES = [
+  "manufacturing plants pharmaceutical production facilities worldwide",
+  "research centers laboratories R&D campuses clinical trials",
+  "distribution centers warehouses global operations logistics",
+  "office headquarters regional offices worldwide locations",
+  "biotechnology facilities vaccine production sites",
+];
+
+const CONSUMER_QUERIES = [
+  "manufacturing plants factories production sites worldwide complete list",
+  "distribution centers warehouses logistics network supply chain",
+  "research innovation centers R&D facilities labs",
+  "bottling plants brewing facilities food processing sites",
+  "regional offices headquarters locations worldwide",
+];
+
+const FINANCIAL_QUERIES = [
+  "offices headquarters towers regional centers worldwide",
+  "data centers technology infrastructure facilities",
+  "operations centers trading floors campuses locations",
+  "branches offices worldwide locations real estate",
+];
+
+const REAL_ESTATE_QUERIES = [
+  "property portfolio buildings complete list locations",
+  "office towers shopping centers malls logistics parks",
+  "residential developments apartments projects under construction",
+  "joint ventures property partnerships ownership stakes",
+  "hotels data centers healthcare properties owned",
+];
+
+export const GICS_SECTORS: GicsSector[] = [
+  { code: "10", name: "Energy", industryFactor: 1.3, queries: ENERGY_QUERIES },
+  { code: "15", name: "Materials", industryFactor: 1.3, queries: MATERIALS_QUERIES },
+  { code: "20", name: "Industrials", industryFactor: 1.1, queries: INDUSTRIALS_QUERIES },
+  { code: "25", name: "Consumer Discretionary", industryFactor: 1.0, queries: CONSUMER_QUERIES },
+  { code: "30", name: "Consumer Staples", industryFactor: 1.0, queries: CONSUMER_QUERIES },
+  { code: "35", name: "Health Care", industryFactor: 1.0, queries: HEALTHCARE_QUERIES },
+  { code: "40", name: "Financials", industryFactor: 0.7, queries: FINANCIAL_QUERIES },
+  { code: "45", name: "Information Technology", industryFactor: 0.9, queries: TECHNOLOGY_QUERIES },
+  { code: "50", name: "Communication Services", industryFactor: 0.9, queries: COMMUNICATION_QUERIES },
+  { code: "55", name: "Utilities", industryFactor: 1.4, queries: UTILITIES_QUERIES },
+  { code: "60", name: "Real Estate", industryFactor: 1.2, queries: REAL_ESTATE_QUERIES },
+];
+
+export const GICS_INDUSTRY_GROUPS: GicsIndustryGroup[] = [
+  { code: "1010", name: "Energy", sectorCode: "10" },
+  { code: "1510", name: "Materials", sectorCode: "15" },
+  { code: "2010", name: "Capital Goods", sectorCode: "20" },
+  { code: "2020", name: "Commercial & Professional Services", sectorCode: "20", industryFactor: 0.8 },
+  { code: "2030", name: "Transportation", sectorCode: "20", industryFactor: 1.3 },
+  { code: "2510", name: "Automobiles & Components", sectorCode: "25", industryFactor: 1.1 },
+  { code: "2520", name: "Consumer Durables & Apparel", sectorCode: "25" },
+  { code: "2530", name: "Consumer Services", sectorCode: "25", industryFactor: 1.1 },
+  { code: "2550", name: "Consumer Discretionary Distribution & Retail", sectorCode: "25" },
+  { code: "3010", name: "Consumer Staples Distribution & Retail", sectorCode: "30" },
+  { code: "3020", name: "Food, Beverage & Tobacco", sectorCode: "30" },
+  { code: "3030", name: "Household & Personal Products", sectorCode: "30" },
+  { code: "3510", name: "Health Care Equipment & Services", sectorCode: "35" },
+  { code: "3520", name: "Pharmaceuticals, Biotechnology & Life Sciences", sectorCode: "35" },
+  { code: "4010", name: "Banks", sectorCode: "40" },
+  { code: "4020", name: "Financial Services", sectorCode: "40" },
+  { code: "4030", name: "Insurance", sectorCode: "40" },
+  { code: "4510", name: "Software & Services", sectorCode: "45", industryFactor: 0.8 },
+  { code: "4520", name: "Technology Hardware & Equipment", sectorCode: "45" },
+  { code: "4530", name: "Semiconductors & Semiconductor Equipment", sectorCode: "45", industryFactor: 1.2 },
+  { code: "5010", name: "Telecommunication Services", sectorCode: "50", industryFactor: 1.1 },
+  { code: "5020", name: "Media & Entertainment", sectorCode: "50" },
+  { code: "5510", name: "Utilities", sectorCode: "55" },
+  { code: "6010", name: "Equity Real Estate Investment Trusts (REITs)", sectorCode: "60" },
+  { code: "6020", name: "Real Estate Management & Development", sectorCode: "60" },
+];
+
+// Other names for sectors and groups: common model answers and the ICB sector names used in index
+// constituent lists such as the ACWI export (including its abbreviations). Official names match too.
+const ALIASES: Record<string, string> = {
+  "oil and gas": "1010",
+  "oil gas and coal": "1010",
+  "basic materials": "15",
+  "basic resources": "15",
+  "mining": "1510",
+  "metals and mining": "1510",
+  "ind metals and mining": "1510",
+  "prec metals and mining": "1510",
+  "industrial materials": "1510",
+  "chemicals": "1510",
+  "construction and mats": "2010",
+  "aerospace and defense": "2010",
+  "alternative energy": "2010",
+  "elec and electrical eq": "2010",
+  "general industrials": "2010",
+  "ind engineering": "2010",
+  "ind support services": "2020",
+  "waste and disposal svs": "2020",
+  "ind transportation": "2030",
+  "automobiles and parts": "2510",
+  "automotive": "2510",
+  "consumer discretion": "25",
+  "hhold gds and home con": "2520",
+  "leisure goods": "2520",
+  "personal goods": "2520",
+  "travel and leisure": "2530",
+  "retailers": "2550",
+  "retail": "2550",
+  "drug and grocery stores": "3010",
+  "food producers": "3020",
+  "beverages": "3020",
+  "tobacco": "3020",
+  "healthcare": "35",
+  "health care providers": "3510",
+  "medical eq services": "3510",
+  "pharm and biotech": "3520",
+  "pharmaceuticals": "3520",
+  "biotechnology": "3520",
+  "finance and credit svs": "4020",
+  "inv banking and broker": "4020",
+  "closed end invest": "4020",
+  "mortgage reits": "4020",
+  "life insurance": "4030",
+  "non life insurance": "4030",
+  "technology": "45",
+  "software and comp svs": "4510",
+  "tech hardware equip": "4520",
+  "telecom equipment": "4520",
+  "semiconductors": "4530",
+  "telecommunications": "50",
+  "telecom svs prvds": "5010",
+  "media": "5020",
+  "electricity": "5510",
+  "gas water and mul util": "5510",
+  "reits": "6010",
+  "real estate inv and svs": "6020",
+};
+
+function normalizeName(value: string): string {
+  return value.toLowerCase().replace(/&/g, " and ").replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+const sectorsByCode = new Map(GICS_SECTORS.map(s => [s.code, s]));
+const groupsByCode = new Map(GICS_INDUSTRY_GROUPS.map(g => [g.code, g]));
+const codesByName = new Map<string, string>([
+  ...GICS_SECTORS.map(s => [normalizeName(s.name), s.code] as [string, string]),
+  ...GICS_INDUSTRY_GROUPS.map(g => [normalizeName(g.name), g.code] as [string, string]),
+  ...Object.entries(ALIASES),
+]);
+
+/**
+ * A 2-digit sector or 4-digit group code from the taxonomy, or null. Longer GICS codes (industry,
+ * sub-industry) are cut back to their industry group.
+ */
+export function normalizeGicsCode(code: string | null | undefined): string | null {
+  const digits = (code ?? "").trim();
+  if (!/^\d{2}(\d{2}){0,3}$/.test(digits)) return null;
+  const group = digits.slice(0, 4);
+  if (digits.length >= 4 && groupsByCode.has(group)) return group;
+  return sectorsByCode.has(digits.slice(0, 2)) ? digits.slice(0, 2) : null;
+}
+
+/**
+ * Classifies free text: a GICS code, a sector or group name, or a path of levels such as
+ * "Industrials > Ind. Goods & Services > Ind. Transportation > Railroads". The most specific level
+ * that matches wins; null when nothing does.
+ */
+export function classifySectorText(text: string | null | undefined): string | null {
+  if (!text) return null;
+  const code = normalizeGicsCode(text);
+  if (code) return code;
+  const levels = text.split(/[>|/]/).map(normalizeName).filter(Boolean);
+  for (const level of levels.reverse()) {
+    const match = codesByName.get(level) ?? normalizeGicsCode(level);
+    if (match) return match;
+  }
+  return null;
+}
+
+export function getGicsSector(code: string | null | undefined): GicsSector | undefined {
+  return code ? sectorsByCode.get(code.slice(0, 2)) : undefined;
+}
+
+export function getGicsIndustryGroup(code: string | null | undefined): GicsIndustryGroup | undefined {
+  return code && code.length >= 4 ? groupsByCode.get(code.slice(0, 4)) : undefined;
+}
+
+/** Sector-specific web searches for a classified company; none for an unclassified one. */
+export function getSectorQueries(gicsCode: string | null | undefined): string[] {
+  return getGicsSector(gicsCode)?.queries ?? [];
+}
+
+/** The industry factor every asset of a classified company gets, or null to keep the model's. */
+export function getIndustryFactor(gicsCode: string | null | undefined): number | null {
+  const sector = getGicsSector(gicsCode);
+  if (!sector) return null;
+  return getGicsIndustryGroup(gicsCode)?.industryFactor ?? sector.industryFactor;
+}
+
+/**
+ * Picks a company's classification. An uploaded code wins, then a stored one a person chose (upload
+ * or manual), then the model's code, then the model's free-text sector, then whatever was stored.
+ */
+export function resolveCompanyClassification(input: {
+  uploaded?: string | null;
+  stored?: string | null;
+  storedSource?: string | null;
+  llmCode?: string | null;
+  llmSector?: string | null;
+}): SectorClassification | null {
+  const uploaded = normalizeGicsCode(input.uploaded);
+  if (uploaded) return { gicsCode: uploaded, source: "upload" };
+  const stored = normalizeGicsCode(input.stored);
+  const storedSource = input.storedSource === "upload" || input.storedSource === "manual" ? input.storedSource : "llm";
+  if (stored && storedSource !== "llm") return { gicsCode: stored, source: storedSource };
+  const fromModel = normalizeGicsCode(input.llmCode) ?? classifySectorText(input.llmSector);
+  if (fromModel) return { gicsCode: fromModel, source: "llm" };
+  return stored ? { gicsCode: stored, source: "llm" } : null;
+}
+
+/** The taxonomy as the discovery prompt lists it: one industry group per line, under its sector. */
+export function formatGicsTaxonomyForPrompt(): string {
+  return GICS_SECTORS.map(s => {
+    const groups = GICS_INDUSTRY_GROUPS.filter(g => g.sectorCode === s.code).map(g => `${g.code} ${g.name}`);
+    return `${s.code} ${s.name}: ${groups.join("; ")}`;
+  }).join("\n");
+}
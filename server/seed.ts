@@ -180,6 +180,7 @@ function generateAssets(): InsertAsset[] {
         industryFactor: f.industryFactor || null,
         valuationConfidence: f.valuationConfidence || null,
         dataSource: f.dataSource || null,
+        reviewStatus: "approved",
       });
     });
   }
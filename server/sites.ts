@@ -0,0 +1,189 @@
+import type { Asset, InsertSite, InsertSiteLinkCandidate } from "@shared/schema";
+import { storage } from "./storage";
+import { isProximityDuplicate, toProximityInput } from "./discovery";
+import { haversineDistanceKm } from "./spatial";
+
+export interface SiteLinkPlan {
+  siteId: number | null;
+  members: Asset[];
+  ownership: SiteOwnershipCheck;
+}
+
+export interface SiteOwnershipCheck {
+  valid: boolean;
+  total_share: number;
+  shares: Array<{ asset_id: number; company_name: string; isin: string | null; ownership_share: number }>;
+}
+
+const MAX_LINK_DISTANCE_KM = 5;
+// Co-owners value the same site independently, so allow more spread than the in-company dedup.
+const MAX_LINK_VALUE_RATIO = 10;
+const KM_PER_DEGREE_LAT = 111.32;
+export const DEFAULT_MIN_LINK_SCORE = 0.45;
+
+const GENERIC_SITE_WORDS = new Set([
+  "the", "of", "and", "at", "de", "la", "site", "project", "operation", "operations", "facility",
+  "complex", "mine", "mines", "mining", "plant", "jv", "joint", "venture", "ltd", "inc", "plc", "co",
+]);
+
+function siteNameTokens(asset: Asset): string[] {
+  const companyTokens = new Set(normalize(asset.companyName).split(" "));
+  const tokens = normalize(asset.facilityName).split(" ").filter(t => t.length > 0);
+  const specific = tokens.filter(t => !GENERIC_SITE_WORDS.has(t) && !companyTokens.has(t));
+  return (specific.length > 0 ? specific : tokens).sort();
+}
+
+function normalize(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function bigrams(value: string): Map<string, number> {
+  const grams = new Map<string, number>();
+  for (let i = 0; i < value.length - 1; i++) {
+    const gram = value.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) ?? 0) + 1);
+  }
+  return grams;
+}
+
+/**
+ * Sørensen–Dice similarity of facility names after dropping the owner's own name and generic
+ * words, so "BHP Olympic Dam Mine" and "Olympic Dam Operations" compare as "dam olympic".
+ */
+export function siteNameSimilarity(a: Asset, b: Asset): number {
+  const left = siteNameTokens(a).join(" ");
+  const right = siteNameTokens(b).join(" ");
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  const leftGrams = bigrams(left);
+  const rightGrams = bigrams(right);
+  let overlap = 0;
+  for (const [gram, count] of Array.from(leftGrams.entries())) {
+    overlap += Math.min(count, rightGrams.get(gram) ?? 0);
+  }
+  return (2 * overlap) / (left.length - 1 + right.length - 1);
+}
+
+export const ownerKey = (a: Asset) => a.isin || a.companyName;
+
+/**
+ * Proposes links between assets of different companies that look like the same physical site.
+ * Geolocated pairs must pass the discovery proximity check; pairs missing coordinates need the
+ * same country and asset type and a near-identical name. Pairs already on one site are skipped.
+ */
+export function proposeSiteLinks(targets: Asset[], pool: Asset[], minScore: number = DEFAULT_MIN_LINK_SCORE): InsertSiteLinkCandidate[] {
+  const proposals = new Map<string, InsertSiteLinkCandidate>();
+  const consider = (a: Asset, b: Asset) => {
+    if (a.id === b.id || ownerKey(a) === ownerKey(b)) return;
+    if (a.siteId != null && a.siteId === b.siteId) return;
+    const [first, second] = a.id < b.id ? [a, b] : [b, a];
+    const key = `${first.id}:${second.id}`;
+    if (proposals.has(key)) return;
+
+    const nameSimilarity = siteNameSimilarity(a, b);
+    let distanceKm: number | null = null;
+    let score: number;
+    if (a.latitude != null && a.longitude != null && b.latitude != null && b.longitude != null) {
+      if (!isProximityDuplicate(toProximityInput(a), toProximityInput(b), MAX_LINK_DISTANCE_KM, MAX_LINK_VALUE_RATIO)) return;
+      distanceKm = haversineDistanceKm(a.latitude, a.longitude, b.latitude, b.longitude);
+      score = 0.6 * nameSimilarity + 0.4 * (1 - distanceKm / MAX_LINK_DISTANCE_KM);
+    } else {
+      if (!a.country || a.country !== b.country || (a.assetType || "") !== (b.assetType || "")) return;
+      if (nameSimilarity < 0.85) return;
+      score = 0.6 * nameSimilarity;
+    }
+    if (score < minScore) return;
+
+    proposals.set(key, {
+      assetId: first.id,
+      candidateAssetId: second.id,
+      nameSimilarity: Math.round(nameSimilarity * 1000) / 1000,
+      distanceKm: distanceKm === null ? null : Math.round(distanceKm * 100) / 100,
+      score: Math.round(score * 1000) / 1000,
+      status: "pending",
+    });
+  };
+
+  // Sweep by latitude so each geolocated target is only compared with the band it can reach.
+  const located = pool
+    .filter(a => a.latitude != null && a.longitude != null)
+    .sort((a, b) => a.latitude! - b.latitude!);
+  const band = MAX_LINK_DISTANCE_KM / KM_PER_DEGREE_LAT;
+  const byCountry = new Map<string, Asset[]>();
+  const unlocatedByCountry = new Map<string, Asset[]>();
+  const addTo = (map: Map<string, Asset[]>, a: Asset) => {
+    const list = map.get(a.country!) ?? [];
+    list.push(a);
+    map.set(a.country!, list);
+  };
+  for (const a of pool) {
+    if (!a.country) continue;
+    addTo(byCountry, a);
+    if (a.latitude == null || a.longitude == null) addTo(unlocatedByCountry, a);
+  }
+
+  for (const target of targets) {
+    if (target.latitude != null && target.longitude != null) {
+      let lo = 0;
+      let hi = located.length;
+      while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (located[mid].latitude! < target.latitude - band) lo = mid + 1;
+        else hi = mid;
+      }
+      for (let i = lo; i < located.length && located[i].latitude! <= target.latitude + band; i++) {
+        consider(target, located[i]);
+      }
+    }
+    if (target.country) {
+      const sameCountry = (target.latitude == null || target.longitude == null ? byCountry : unlocatedByCountry).get(target.country) ?? [];
+      for (const other of sameCountry) consider(target, other);
+    }
+  }
+
+  return Array.from(proposals.values()).sort((a, b) => b.score - a.score);
+}
+
+/** Equity shares in one physical site cannot add up to more than the whole site. */
+export function checkSiteOwnership(members: Asset[]): SiteOwnershipCheck {
+  const shares = members.map(a => ({
+    asset_id: a.id,
+    company_name: a.companyName,
+    isin: a.isin,
+    ownership_share: a.ownershipShare ?? 100,
+  }));
+  const total = shares.reduce((sum, s) => sum + s.ownership_share, 0);
+  return { valid: total <= 100 + 1e-6, total_share: Math.round(total * 100) / 100, shares };
+}
+
+/** Seeds a new site's descriptive fields from the first asset linked to it. */
+export function siteFromAsset(asset: Asset): InsertSite {
+  return {
+    name: asset.facilityName,
+    assetType: asset.assetType,
+    country: asset.country,
+    latitude: asset.latitude,
+    longitude: asset.longitude,
+  };
+}
+
+/**
+ * Works out what linking the given assets would produce: every asset already on one of their
+ * sites comes along, and the lowest existing site id survives a merge. Nothing is written.
+ */
+export async function planSiteLink(linked: Asset[], overrides: Map<number, Partial<Asset>> = new Map()): Promise<SiteLinkPlan> {
+  const siteIds = Array.from(new Set(linked.map(a => a.siteId).filter((id): id is number => id != null))).sort((a, b) => a - b);
+  const members = new Map<number, Asset>(linked.map(a => [a.id, a]));
+  for (const siteId of siteIds) {
+    for (const a of await storage.getAssetsBySite(siteId)) {
+      if (!members.has(a.id)) members.set(a.id, a);
+    }
+  }
+  const merged = Array.from(members.values()).map(a => ({ ...a, ...overrides.get(a.id) }));
+  return { siteId: siteIds[0] ?? null, members: merged, ownership: checkSiteOwnership(merged) };
+}
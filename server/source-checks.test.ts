@@ -0,0 +1,24 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { assessSource } from "./source-checks";
+
+const asset = { facilityName: "Acme Gary Steel Works", companyName: "Acme", city: "Gary" };
+const page = (body: string) => ({ status: 200, contentType: "text/html", body });
+
+test("assessSource verifies a page that names the facility, with or without the owner's name", () => {
+  const result = assessSource(asset, page("<p>Production at the Gary Steel Works rose 4%.</p>"));
+  assert.equal(result.status, "verified");
+  assert.equal(result.evidence, "Production at the Gary Steel Works rose 4%.");
+});
+
+test("assessSource falls back to location_only when only the city is named", () => {
+  assert.equal(assessSource(asset, page("<p>Jobs in Gary, Indiana.</p>")).status, "location_only");
+  assert.equal(assessSource(asset, page("<p>Quarterly results.</p>")).status, "unsupported");
+});
+
+test("assessSource rates failed fetches as dead or unreadable", () => {
+  assert.deepEqual(assessSource(asset, new Error("Timed out")), { status: "dead", evidence: "Timed out" });
+  assert.equal(assessSource(asset, { status: 404, contentType: "text/html", body: null }).status, "dead");
+  assert.equal(assessSource(asset, { status: 403, contentType: "text/html", body: null }).status, "unreadable");
+  assert.equal(assessSource(asset, { status: 200, contentType: "application/zip", body: null }).status, "unreadable");
+});
@@ -0,0 +1,342 @@
+import http, { type IncomingMessage } from "http";
+import https from "https";
+import dns from "dns";
+import { BlockList, isIP, type LookupFunction } from "net";
+import zlib from "zlib";
+import type { Asset, SourceCheckRequest, SourceCheckStatus } from "@shared/schema";
+import { storage, type AssetSourceCheck } from "./storage";
+import { htmlToText } from "./sec-filings";
+import { companyNameKey } from "./company-names";
+
+const DEFAULT_TIMEOUT_MS = 15 * 1000;
+const DEFAULT_TTL_HOURS = 7 * 24;
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_USER_AGENT = "Mozilla/5.0 (compatible; CorporateAssetDatabase/1.0; source check)";
+const MAX_BODY_BYTES = 2 * 1024 * 1024;
+const MAX_EVIDENCE_CHARS = 300;
+const MAX_REDIRECTS = 5;
+const ALLOWED_PORTS = new Set(["", "80", "443"]);
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// Cited URLs come from model output and API edits, so a check must never reach this server's
+// own network: loopback, private, link-local (cloud metadata), shared, multicast and reserved ranges.
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16], ["172.16.0.0", 12],
+  ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [["::", 128], ["::1", 128], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8], ["64:ff9b::", 96]] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+const TEXT_CONTENT_TYPES = ["text/html", "text/plain", "application/xhtml+xml", "text/xml", "application/xml", "application/json"];
+// Sites that refuse automated requests say nothing about whether the page exists.
+const BLOCKED_STATUSES = new Set([401, 403, 429]);
+
+export interface SourceResponse {
+  status: number;
+  contentType: string | null;
+  /** Page text for readable content types; null when the body wasn't read. */
+  body: string | null;
+}
+
+/** Fetches one cited URL. Throws when the request itself fails (DNS, refused, timeout). */
+export type SourceHttpClient = (url: string) => Promise<SourceResponse>;
+
+export interface SourceHttpClientOptions {
+  baseUrl?: string;
+  timeoutMs?: number;
+  userAgent?: string;
+}
+
+export interface SourceAssessment {
+  status: SourceCheckStatus;
+  evidence: string | null;
+}
+
+export interface SourceCheckRun {
+  id: number;
+  status: "running" | "completed" | "failed";
+  recheck: boolean;
+  isins: string[] | null;
+  started_at: Date;
+  finished_at: Date | null;
+  urls: number;
+  checked_urls: number;
+  assets: number;
+  saved_assets: number;
+  counts: Record<SourceCheckStatus, number>;
+  error: string | null;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || "");
+  return isNaN(value) || value < 0 ? fallback : value;
+}
+
+/** SOURCE_CHECK_TTL_HOURS sets how long a check stands before a run fetches the URL again. */
+export function getSourceCheckTtlHours(): number {
+  return envNumber("SOURCE_CHECK_TTL_HOURS", DEFAULT_TTL_HOURS);
+}
+
+function isReadable(contentType: string | null): boolean {
+  const type = (contentType || "text/html").split(";")[0].trim().toLowerCase();
+  return TEXT_CONTENT_TYPES.includes(type);
+}
+
+export function isBlockedAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return BLOCKED_ADDRESSES.check(mapped[1], "ipv4");
+  const family = isIP(address);
+  if (family === 0) return true;
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/** dns.lookup that fails when the host resolves to a blocked address, so the socket can't connect there. */
+const guardedLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "", 0);
+    const blocked = addresses.find(a => isBlockedAddress(a.address));
+    if (blocked) return callback(new Error(`${hostname} resolves to a non-public address (${blocked.address})`), "", 0);
+    if (options.all) return (callback as unknown as (err: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/** Refuses a URL the check must not request: other schemes, non-web ports, or a non-public IP literal. */
+function assertPublicTarget(target: URL): void {
+  if (target.protocol !== "http:" && target.protocol !== "https:") throw new Error(`Not an http(s) URL: ${target.protocol}`);
+  if (!ALLOWED_PORTS.has(target.port)) throw new Error(`Port ${target.port} is not checked`);
+  const host = target.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(host) && isBlockedAddress(host)) throw new Error(`${host} is a non-public address`);
+}
+
+function requestOnce(url: URL, headers: Record<string, string>, signal: AbortSignal, guarded: boolean): Promise<IncomingMessage> {
+  const client = url.protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = client.request(url, { headers, signal, lookup: guarded ? guardedLookup : undefined }, resolve);
+    request.on("error", reject);
+    request.end();
+  });
+}
+
+async function readCapped(response: IncomingMessage): Promise<string> {
+  const encoding = String(response.headers["content-encoding"] || "").toLowerCase();
+  const stream = encoding === "gzip" ? response.pipe(zlib.createGunzip())
+    : encoding === "deflate" ? response.pipe(zlib.createInflate())
+    : encoding === "br" ? response.pipe(zlib.createBrotliDecompress())
+    : response;
+  const chunks: Buffer[] = [];
+  let bytes = 0;
+  try {
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+      bytes += (chunk as Buffer).length;
+      if (bytes >= MAX_BODY_BYTES) break;
+    }
+  } finally {
+    response.destroy();
+  }
+  return Buffer.concat(chunks).subarray(0, MAX_BODY_BYTES).toString("utf-8");
+}
+
+/**
+ * The HTTP client source checks go through. Only public addresses on ports 80 and 443 are
+ * requested, and each redirect hop is checked again. SOURCE_CHECK_BASE_URL (or `baseUrl`) sends
+ * every request to a stand-in as `<base>/<host><path>?<query>` instead, so a local test server can
+ * answer for any cited site; those requests skip the address checks. sec.gov URLs carry
+ * SEC_EDGAR_USER_AGENT when set, since EDGAR refuses anonymous clients.
+ */
+export function createSourceHttpClient(options: SourceHttpClientOptions = {}): SourceHttpClient {
+  const baseUrl = (options.baseUrl ?? process.env.SOURCE_CHECK_BASE_URL ?? "").replace(/\/+$/, "");
+  const timeoutMs = options.timeoutMs ?? envNumber("SOURCE_CHECK_TIMEOUT_MS", DEFAULT_TIMEOUT_MS);
+  const userAgent = options.userAgent ?? process.env.SOURCE_CHECK_USER_AGENT ?? DEFAULT_USER_AGENT;
+
+  return async (url: string) => {
+    const signal = AbortSignal.timeout(timeoutMs);
+    let target = new URL(url);
+    for (let hop = 0; ; hop++) {
+      if (!baseUrl) assertPublicTarget(target);
+      const isSec = target.hostname === "sec.gov" || target.hostname.endsWith(".sec.gov");
+      const requestUrl = baseUrl ? new URL(`${baseUrl}/${target.host}${target.pathname}${target.search}`) : target;
+      const response = await requestOnce(requestUrl, {
+        "User-Agent": isSec && process.env.SEC_EDGAR_USER_AGENT ? process.env.SEC_EDGAR_USER_AGENT : userAgent,
+        Accept: "text/html,application/xhtml+xml,text/plain;q=0.9,*/*;q=0.5",
+        "Accept-Encoding": "gzip, deflate, br",
+      }, signal, !baseUrl);
+      const status = response.statusCode ?? 0;
+      const location = response.headers.location;
+      if (REDIRECT_STATUSES.has(status) && location) {
+        response.destroy();
+        if (hop >= MAX_REDIRECTS) throw new Error(`More than ${MAX_REDIRECTS} redirects`);
+        target = new URL(location, target);
+        continue;
+      }
+      const contentType = response.headers["content-type"] ?? null;
+      if (status < 200 || status >= 300 || !isReadable(contentType)) {
+        response.destroy();
+        return { status, contentType, body: null };
+      }
+      return { status, contentType, body: await readCapped(response) };
+    }
+  };
+}
+
+function textKey(value: string | null | undefined): string {
+  return (value ?? "")
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/** The facility name as written, and without the owner's own name ("Acme Gary Steel Works" → "gary steel works"). */
+function facilityPhrases(asset: Pick<Asset, "facilityName" | "companyName">): string[] {
+  const full = textKey(asset.facilityName);
+  const owner = new Set(companyNameKey(asset.companyName).split(" "));
+  const distinctive = full.split(" ").filter(word => !owner.has(word));
+  const phrases = [full];
+  if (distinctive.length >= 2 && distinctive.length < full.split(" ").length) phrases.push(distinctive.join(" "));
+  return phrases.filter(p => p.length >= 4);
+}
+
+function clip(line: string, phrase: string): string {
+  if (line.length <= MAX_EVIDENCE_CHARS) return line;
+  const at = Math.max(0, line.toLowerCase().indexOf(phrase.split(" ")[0]));
+  const start = Math.max(0, Math.min(at - MAX_EVIDENCE_CHARS / 3, line.length - MAX_EVIDENCE_CHARS));
+  const end = start + MAX_EVIDENCE_CHARS;
+  return `${start > 0 ? "…" : ""}${line.slice(start, end).trim()}${end < line.length ? "…" : ""}`;
+}
+
+/** Page text split into lines and sentences, each with its match key. */
+function pageLines(body: string, contentType: string | null): Array<{ line: string; key: string }> {
+  const text = /html|xml/i.test(contentType || "text/html") ? htmlToText(body) : body;
+  return text
+    .split(/\n+|(?<=[.!?])\s+(?=[A-Z])/)
+    .map(line => line.replace(/\s+/g, " ").trim())
+    .filter(line => line.length > 0)
+    .map(line => ({ line, key: ` ${textKey(line)} ` }));
+}
+
+/**
+ * Rates one asset's citation against the fetched page: verified when the page names the facility,
+ * location_only when it names only the city. For dead and unreadable pages the evidence says why.
+ */
+export function assessSource(
+  asset: Pick<Asset, "facilityName" | "companyName" | "city">,
+  response: SourceResponse | Error,
+  lines: Array<{ line: string; key: string }> | null = null,
+): SourceAssessment {
+  if (response instanceof Error) return { status: "dead", evidence: response.message };
+  if (BLOCKED_STATUSES.has(response.status)) return { status: "unreadable", evidence: `HTTP ${response.status}: the site refused the request` };
+  if (response.status >= 400) return { status: "dead", evidence: `HTTP ${response.status}` };
+  if (response.body === null) return { status: "unreadable", evidence: `${response.contentType || "Unknown content type"} is not checked` };
+
+  const keyed = lines ?? pageLines(response.body, response.contentType);
+  const find = (phrase: string) => keyed.find(l => l.key.includes(` ${phrase} `));
+  for (const phrase of facilityPhrases(asset)) {
+    const hit = find(phrase);
+    if (hit) return { status: "verified", evidence: clip(hit.line, phrase) };
+  }
+  const city = textKey(asset.city);
+  const cityHit = city.length >= 3 ? find(city) : undefined;
+  if (cityHit) return { status: "location_only", evidence: clip(cityHit.line, city) };
+  return { status: "unsupported", evidence: null };
+}
+
+async function fetchSource(client: SourceHttpClient, url: string): Promise<SourceResponse | Error> {
+  try {
+    if (!/^https?:\/\//i.test(url)) return new Error("Not an http(s) URL");
+    return await client(url);
+  } catch (err) {
+    if (err instanceof Error && (err.name === "TimeoutError" || err.name === "AbortError")) return new Error("Timed out");
+    const cause = err instanceof Error && err.cause instanceof Error ? `: ${err.cause.message}` : "";
+    return new Error(`${err instanceof Error ? err.message : String(err)}${cause}`);
+  }
+}
+
+let nextRunId = 1;
+let currentRun: SourceCheckRun | null = null;
+
+export function getSourceCheckRun(): SourceCheckRun | null {
+  return currentRun;
+}
+
+export function isSourceCheckRunning(): boolean {
+  return currentRun?.status === "running";
+}
+
+async function runSourceCheck(run: SourceCheckRun, client: SourceHttpClient): Promise<void> {
+  try {
+    const ttlHours = getSourceCheckTtlHours();
+    const checkedBefore = run.recheck ? null : new Date(Date.now() - ttlHours * 60 * 60 * 1000);
+    const assetList = await storage.getAssetsForSourceCheck(checkedBefore, run.isins ?? undefined);
+    const byUrl = new Map<string, Asset[]>();
+    for (const asset of assetList) {
+      const url = asset.sourceUrl!.trim();
+      byUrl.set(url, [...(byUrl.get(url) ?? []), asset]);
+    }
+    run.urls = byUrl.size;
+    run.assets = assetList.length;
+
+    const queue = Array.from(byUrl.entries());
+    const worker = async () => {
+      for (let next = queue.shift(); next; next = queue.shift()) {
+        const [url, citing] = next;
+        const response = await fetchSource(client, url);
+        const lines = response instanceof Error || response.body === null ? null : pageLines(response.body, response.contentType);
+        const checkedAt = new Date();
+        const checks: AssetSourceCheck[] = citing.map(asset => {
+          const { status, evidence } = assessSource(asset, response, lines);
+          run.counts[status]++;
+          return {
+            id: asset.id,
+            sourceUrl: asset.sourceUrl!,
+            sourceStatus: status,
+            sourceHttpStatus: response instanceof Error ? null : response.status,
+            sourceContentType: response instanceof Error ? null : response.contentType?.slice(0, 100) ?? null,
+            sourceEvidence: evidence,
+            sourceCheckedAt: checkedAt,
+          };
+        });
+        run.saved_assets += await storage.saveAssetSourceChecks(checks);
+        run.checked_urls++;
+      }
+    };
+    const concurrency = Math.max(1, Math.floor(envNumber("SOURCE_CHECK_CONCURRENCY", DEFAULT_CONCURRENCY)));
+    await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+
+    run.status = "completed";
+    console.log(`[SourceCheck] Run ${run.id} checked ${run.checked_urls} URLs for ${run.assets} assets: ${JSON.stringify(run.counts)}`);
+  } catch (err) {
+    console.error(`[SourceCheck] Run ${run.id} failed:`, err);
+    run.status = "failed";
+    run.error = err instanceof Error ? err.message : String(err);
+  } finally {
+    run.finished_at = new Date();
+  }
+}
+
+/** Starts a check of cited URLs in the background; only one run goes at a time. */
+export function startSourceCheck(request: SourceCheckRequest, client: SourceHttpClient = createSourceHttpClient()): SourceCheckRun {
+  const run: SourceCheckRun = {
+    id: nextRunId++,
+    status: "running",
+    recheck: request.recheck,
+    isins: request.isins ?? null,
+    started_at: new Date(),
+    finished_at: null,
+    urls: 0,
+    checked_urls: 0,
+    assets: 0,
+    saved_assets: 0,
+    counts: { verified: 0, location_only: 0, unsupported: 0, unreadable: 0, dead: 0 },
+    error: null,
+  };
+  currentRun = run;
+  runSourceCheck(run, client);
+  return run;
+}
@@ -0,0 +1,99 @@
+import { attributableValue, type Asset, type PolygonGeometry } from "@shared/schema";
+
+const EARTH_RADIUS_KM = 6371;
+
+/** Longitude range may wrap the antimeridian, in which case minLon > maxLon. */
+export interface BoundingBox {
+  minLat: number;
+  minLon: number;
+  maxLat: number;
+  maxLon: number;
+}
+
+export interface CompanyExposure {
+  company_name: string;
+  isin: string | null;
+  asset_count: number;
+  total_value_usd: number;
+  total_attributable_value_usd: number;
+}
+
+const toRadians = (deg: number) => deg * Math.PI / 180;
+const toDegrees = (rad: number) => rad * 180 / Math.PI;
+
+export function haversineDistanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) *
+    Math.sin(dLon / 2) ** 2;
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+export function boundingBoxForRadius(lat: number, lon: number, radiusKm: number): BoundingBox {
+  const angular = radiusKm / EARTH_RADIUS_KM;
+  const minLat = lat - toDegrees(angular);
+  const maxLat = lat + toDegrees(angular);
+
+  if (minLat <= -90 || maxLat >= 90 || angular >= Math.PI / 2) {
+    return { minLat: Math.max(minLat, -90), maxLat: Math.min(maxLat, 90), minLon: -180, maxLon: 180 };
+  }
+
+  const ratio = Math.sin(angular) / Math.cos(toRadians(lat));
+  if (ratio >= 1) return { minLat, maxLat, minLon: -180, maxLon: 180 };
+
+  const dLon = toDegrees(Math.asin(ratio));
+  let minLon = lon - dLon;
+  let maxLon = lon + dLon;
+  if (minLon < -180) minLon += 360;
+  if (maxLon > 180) maxLon -= 360;
+  return { minLat, maxLat, minLon, maxLon };
+}
+
+function polygonsOf(geometry: PolygonGeometry): number[][][][] {
+  return geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+}
+
+export function geometryBoundingBox(geometry: PolygonGeometry): BoundingBox {
+  const box = { minLat: 90, minLon: 180, maxLat: -90, maxLon: -180 };
+  for (const polygon of polygonsOf(geometry)) {
+    for (const [lon, lat] of polygon[0]) {
+      box.minLat = Math.min(box.minLat, lat);
+      box.maxLat = Math.max(box.maxLat, lat);
+      box.minLon = Math.min(box.minLon, lon);
+      box.maxLon = Math.max(box.maxLon, lon);
+    }
+  }
+  return box;
+}
+
+function pointInRing(lon: number, lat: number, ring: number[][]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lon < (xj - xi) * (lat - yi) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function pointInGeometry(lon: number, lat: number, geometry: PolygonGeometry): boolean {
+  return polygonsOf(geometry).some(([outer, ...holes]) =>
+    pointInRing(lon, lat, outer) && !holes.some(hole => pointInRing(lon, lat, hole))
+  );
+}
+
+export function summarizeExposure(assetList: Asset[]): CompanyExposure[] {
+  const byCompany = new Map<string, CompanyExposure>();
+  for (const a of assetList) {
+    const key = a.isin || a.companyName;
+    const entry = byCompany.get(key) ?? { company_name: a.companyName, isin: a.isin, asset_count: 0, total_value_usd: 0, total_attributable_value_usd: 0 };
+    entry.asset_count++;
+    entry.total_value_usd += a.valueUsd || 0;
+    entry.total_attributable_value_usd += attributableValue(a);
+    byCompany.set(key, entry);
+  }
+  return Array.from(byCompany.values()).sort((a, b) => b.total_value_usd - a.total_value_usd);
+}
@@ -5,12 +5,59 @@ import {
   type InsertAsset,
   type DiscoveryJob,
   type InsertDiscoveryJob,
+  type ReviewStatus,
+  type AssetFilter,
+  type AssetQuery,
+  type ValueBasis,
+  type AssetSortField,
+  type AssetVersion,
+  type InsertAssetVersion,
+  type Portfolio,
+  type PortfolioHolding,
+  type PortfolioInput,
+  type Site,
+  type InsertSite,
+  type SiteLinkCandidate,
+  type InsertSiteLinkCandidate,
+  type SiteLinkStatus,
+  type DedupScan,
+  type DuplicateCluster,
+  type InsertDuplicateCluster,
+  type DuplicateClusterStatus,
+  type AssetMerge,
+  type DiscoveryJobItem,
+  type InsertDiscoveryJobItem,
+  type DiscoveryItemStatus,
+  type DiscoveryJobEvent,
+  type JobItemQuery,
+  type ResearchCacheEntry,
+  type SearchUsage,
+  type SectorSource,
+  type SecFiling,
+  type SourceCheckStatus,
   companies,
   assets,
+  assetVersions,
+  portfolios,
+  portfolioHoldings,
+  sites,
+  siteLinkCandidates,
+  dedupScans,
+  duplicateClusters,
+  assetMerges,
   discoveryJobs,
+  discoveryJobItems,
+  discoverySpend,
+  discoveryJobEvents,
+  appSettings,
+  researchCache,
+  searchUsage,
+  secFilings,
 } from "@shared/schema";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
 import { db } from "./db";
-import { eq, desc, sql } from "drizzle-orm";
+import { boundingBoxForRadius, type BoundingBox } from "./spatial";
+import { eq, desc, asc, sql, and, or, inArray, notInArray, gte, lte, lt, ilike, isNull, isNotNull, ne, type SQL } from "drizzle-orm";
 
 export interface IStorage {
   getCompanies(): Promise<Company[]>;
@@ -21,28 +68,243 @@ export interface IStorage {
   updateCompany(id: number, data: Partial<InsertCompany>): Promise<Company | undefined>;
   deleteCompany(id: number): Promise<boolean>;
   upsertCompany(company: InsertCompany): Promise<Company>;
+  refreshCompanyTotals(isin: string): Promise<Company | undefined>;
+  setCompanyClassification(isin: string, classification: CompanyClassificationUpdate): Promise<Company | undefined>;
 
-  getAssets(): Promise<Asset[]>;
+  getAssets(filter?: AssetFilter): Promise<Asset[]>;
+  queryAssets(query: AssetQuery): Promise<{ assets: Asset[]; total: number }>;
+  getAssetFacets(): Promise<{ countries: string[]; assetTypes: string[]; sectors: string[] }>;
+  getAssetsInBoundingBox(bbox: BoundingBox, filter?: AssetFilter): Promise<Asset[]>;
+  getAssetsWithinRadius(lat: number, lon: number, radiusKm: number, filter?: AssetFilter): Promise<Array<Asset & { distanceKm: number }>>;
   getAssetById(id: number): Promise<Asset | undefined>;
+  getAssetsByIds(ids: number[]): Promise<Asset[]>;
   getAssetsByCompany(companyName: string): Promise<Asset[]>;
   getAssetsByIsin(isin: string): Promise<Asset[]>;
   createAsset(asset: InsertAsset): Promise<Asset>;
   updateAsset(id: number, data: Partial<InsertAsset>): Promise<Asset | undefined>;
   deleteAsset(id: number): Promise<boolean>;
+  getAssetsForSourceCheck(checkedBefore: Date | null, isins?: string[]): Promise<Asset[]>;
+  saveAssetSourceChecks(checks: AssetSourceCheck[]): Promise<number>;
+  getSourceCheckCounts(): Promise<Record<SourceCheckStatus | "unchecked", number>>;
   deleteAssetsByCompany(companyName: string): Promise<number>;
   deleteAssetsByIsin(isin: string): Promise<number>;
+  deleteDiscoveredAssetsByIsin(isin: string): Promise<number>;
   bulkCreateAssets(assetList: InsertAsset[]): Promise<void>;
+  bulkUpdateReviewStatus(ids: number[], status: ReviewStatus, note?: string): Promise<number>;
   getAssetCount(): Promise<number>;
-  getStats(): Promise<{
-    total_assets: number;
-    assets_with_coordinates: number;
-    coordinate_coverage_percent: string;
-  }>;
+  getStats(filter?: AssetFilter): Promise<AssetStats>;
+  getAssetValueGroups(groupBy: "sector" | "companyName", filter: AssetFilter, basis: ValueBasis, limit: number): Promise<AssetValueGroup[]>;
+
+  createAssetVersion(version: Omit<InsertAssetVersion, "version">): Promise<AssetVersion>;
+  getAssetVersions(isin: string): Promise<AssetVersion[]>;
+  getAssetVersion(isin: string, version: number): Promise<AssetVersion | undefined>;
+
+  getPortfolios(): Promise<Array<Portfolio & { holdingCount: number }>>;
+  getPortfolio(id: number): Promise<Portfolio | undefined>;
+  getPortfolioHoldings(portfolioId: number): Promise<PortfolioHolding[]>;
+  createPortfolio(input: PortfolioInput): Promise<Portfolio>;
+  updatePortfolio(id: number, input: PortfolioInput): Promise<Portfolio | undefined>;
+  deletePortfolio(id: number): Promise<boolean>;
+
+  getSites(): Promise<Array<Site & { assetCount: number; ownershipTotal: number }>>;
+  getSite(id: number): Promise<Site | undefined>;
+  getAssetsBySite(siteId: number): Promise<Asset[]>;
+  linkAssetsToSite(assetIds: number[], site: number | InsertSite): Promise<Site>;
+  unlinkAssetFromSite(assetId: number): Promise<Asset | undefined>;
+  getSiteLinkCandidates(status?: SiteLinkStatus): Promise<SiteLinkCandidate[]>;
+  getSiteLinkCandidate(id: number): Promise<SiteLinkCandidate | undefined>;
+  createSiteLinkCandidates(candidates: InsertSiteLinkCandidate[]): Promise<number>;
+  updateSiteLinkCandidateStatus(id: number, status: SiteLinkStatus): Promise<SiteLinkCandidate | undefined>;
+
+  createDedupScan(): Promise<DedupScan>;
+  getDedupScans(): Promise<DedupScan[]>;
+  getDedupScan(id: number): Promise<DedupScan | undefined>;
+  updateDedupScan(id: number, data: Partial<Omit<DedupScan, "id" | "createdAt">>): Promise<DedupScan | undefined>;
+  createDuplicateClusters(clusters: InsertDuplicateCluster[]): Promise<void>;
+  getDuplicateClusters(scanId: number, status?: DuplicateClusterStatus): Promise<DuplicateCluster[]>;
+  getDuplicateCluster(id: number): Promise<DuplicateCluster | undefined>;
+  updateDuplicateClusterStatus(id: number, status: DuplicateClusterStatus, survivorId?: number): Promise<DuplicateCluster | undefined>;
+  mergeAssets(survivorId: number, mergedIds: number[], patch: Partial<InsertAsset>, clusterId?: number): Promise<Asset | undefined>;
+  getAssetMerges(survivorId: number): Promise<AssetMerge[]>;
 
   createDiscoveryJob(job: InsertDiscoveryJob): Promise<DiscoveryJob>;
   getDiscoveryJob(id: number): Promise<DiscoveryJob | undefined>;
   getDiscoveryJobs(): Promise<DiscoveryJob[]>;
   updateDiscoveryJob(id: number, data: Partial<InsertDiscoveryJob> & { updatedAt?: Date }): Promise<DiscoveryJob | undefined>;
+  getDiscoverySpendSince(since: Date): Promise<number>;
+
+  getDiscoveryTokenHistory(providerId: string | undefined, jobLimit: number): Promise<DiscoveryTokenHistory>;
+  getDiscoveryJobIdsWithoutItems(): Promise<number[]>;
+
+  createDiscoveryJobItems(items: InsertDiscoveryJobItem[]): Promise<DiscoveryJobItem[]>;
+  getDiscoveryJobItem(id: number): Promise<DiscoveryJobItem | undefined>;
+  getDiscoveryJobItems(jobId: number): Promise<DiscoveryJobItem[]>;
+  getDiscoveryJobItemsByIds(jobId: number, ids: number[]): Promise<DiscoveryJobItem[]>;
+  getLatestRerunItems(sourceItemIds: number[]): Promise<Map<number, DiscoveryJobItem>>;
+  queryDiscoveryJobItems(jobId: number, query: JobItemQuery): Promise<{ items: DiscoveryJobItem[]; total: number }>;
+  getDiscoveryJobItemCounts(jobId: number): Promise<Record<string, number>>;
+  getDiscoveryJobCompanyPreviews(jobIds: number[], limit: number): Promise<Map<number, string[]>>;
+  updateDiscoveryJobItem(id: number, data: Partial<InsertDiscoveryJobItem>): Promise<DiscoveryJobItem | undefined>;
+  updateDiscoveryJobItemsStatus(jobId: number, from: DiscoveryItemStatus[], to: DiscoveryItemStatus): Promise<number>;
+  claimDiscoveryJobItem(providers: string[], workerId: string): Promise<DiscoveryJobItem | undefined>;
+  recordDiscoveryJobItemResult(item: DiscoveryJobItem, data: Partial<InsertDiscoveryJobItem>, delta: DiscoveryJobDelta): Promise<DiscoveryJob | undefined>;
+  startDiscoveryJob(jobId: number): Promise<boolean>;
+  completeFinishedDiscoveryJobs(): Promise<DiscoveryJob[]>;
+  requeueStaleDiscoveryJobItems(heartbeatBefore: Date, maxAttempts: number): Promise<StaleDiscoveryJobItems>;
+  finishUnclaimableDiscoveryJobItems(providers: string[]): Promise<UnclaimableDiscoveryJobItems>;
+  retryFailedDiscoveryJobItems(jobId: number, itemIds?: number[]): Promise<number>;
+  getLatestCompanyResearchItem(isin: string): Promise<DiscoveryJobItem | undefined>;
+
+  createDiscoveryJobEvent(event: Omit<DiscoveryJobEvent, "id" | "createdAt">): Promise<void>;
+  getDiscoveryJobEvents(jobId: number, afterId: number, limit: number): Promise<DiscoveryJobEvent[]>;
+  deleteDiscoveryJobEventsBefore(before: Date): Promise<number>;
+
+  getResearchCacheEntry(queryKey: string): Promise<ResearchCacheEntry | undefined>;
+  saveResearchCacheEntry(entry: ResearchCacheEntry): Promise<void>;
+  getResearchCacheStats(): Promise<ResearchCacheStats>;
+  clearResearchCache(expiredOnly: boolean): Promise<number>;
+
+  getSearchUsage(monthStart: Date): Promise<SearchUsage[]>;
+  recordSearchUsage(backend: string, monthStart: Date, delta: { queries: number; errors: number }): Promise<void>;
+
+  getLatestSecFiling(cik: string, fetchedSince: Date): Promise<SecFiling | undefined>;
+  saveSecFiling(filing: SecFiling): Promise<void>;
+
+  getSetting(key: string): Promise<string | null>;
+  setSetting(key: string, value: string | null): Promise<void>;
+}
+
+export interface DiscoveryTokenHistory {
+  companies: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/** A company's new GICS classification; its assets take the sector name and, when set, the industry factor. */
+export interface CompanyClassificationUpdate {
+  gicsCode: string | null;
+  sector: string | null;
+  sectorSource: SectorSource | null;
+  industryFactor: number | null;
+}
+
+/** One asset's verdict from fetching its source_url; only saved if the asset still cites that URL. */
+export interface AssetSourceCheck {
+  id: number;
+  sourceUrl: string;
+  sourceStatus: SourceCheckStatus;
+  sourceHttpStatus: number | null;
+  sourceContentType: string | null;
+  sourceEvidence: string | null;
+  sourceCheckedAt: Date;
+}
+
+export interface AssetStats {
+  total_assets: number;
+  assets_with_coordinates: number;
+  coordinate_coverage_percent: string;
+  total_value_usd: number;
+  total_attributable_value_usd: number;
+  total_companies: number;
+  countries_count: number;
+}
+
+/** One sector's or company's share of the matching assets; `name` is null for assets without a sector. */
+export interface AssetValueGroup {
+  name: string | null;
+  asset_count: number;
+  value_usd: number;
+  attributable_value_usd: number;
+}
+
+export interface ResearchCacheStats {
+  entries: number;
+  expired: number;
+  oldestFetchedAt: Date | null;
+  newestFetchedAt: Date | null;
+}
+
+/** Items whose worker stopped responding: put back in the queue, or failed once out of attempts. */
+export interface StaleDiscoveryJobItems {
+  requeued: DiscoveryJobItem[];
+  failed: DiscoveryJobItem[];
+}
+
+/** Increments applied to a job's counters when one of its items finishes a stage. */
+/** Queued items whose provider left the registry: primary ones failed, supplementary ones finished without the pass. */
+export interface UnclaimableDiscoveryJobItems {
+  failed: DiscoveryJobItem[];
+  skipped: DiscoveryJobItem[];
+}
+
+export interface DiscoveryJobDelta {
+  completed?: number;
+  failed?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  costUsd?: number;
+}
+
+const assetSortColumns: Record<AssetSortField, AnyPgColumn> = {
+  id: assets.id,
+  companyName: assets.companyName,
+  facilityName: assets.facilityName,
+  assetType: assets.assetType,
+  city: assets.city,
+  country: assets.country,
+  sector: assets.sector,
+  valueUsd: assets.valueUsd,
+  attributableValueUsd: assets.attributableValueUsd,
+  valuationConfidence: assets.valuationConfidence,
+  coordinateCertainty: assets.coordinateCertainty,
+};
+
+function assetFilterConditions(filter: AssetFilter): SQL | undefined {
+  const conditions: (SQL | undefined)[] = [];
+  if (filter.country?.length) conditions.push(inArray(assets.country, filter.country));
+  if (filter.assetType?.length) conditions.push(inArray(assets.assetType, filter.assetType));
+  if (filter.sector?.length) conditions.push(inArray(assets.sector, filter.sector));
+  if (filter.isin?.length) conditions.push(inArray(assets.isin, filter.isin.map(i => i.toUpperCase())));
+  if (filter.companyName) conditions.push(eq(assets.companyName, filter.companyName));
+  if (filter.search) {
+    const pattern = `%${filter.search}%`;
+    conditions.push(or(
+      ilike(assets.facilityName, pattern),
+      ilike(assets.companyName, pattern),
+      ilike(assets.city, pattern),
+      ilike(assets.country, pattern),
+      ilike(assets.assetType, pattern),
+    ));
+  }
+  if (filter.minValue !== undefined) conditions.push(gte(assets.valueUsd, filter.minValue));
+  if (filter.maxValue !== undefined) conditions.push(lte(assets.valueUsd, filter.maxValue));
+  if (filter.minValuationConfidence !== undefined) conditions.push(gte(assets.valuationConfidence, filter.minValuationConfidence));
+  if (filter.maxValuationConfidence !== undefined) conditions.push(lte(assets.valuationConfidence, filter.maxValuationConfidence));
+  if (filter.minCoordinateCertainty !== undefined) conditions.push(gte(assets.coordinateCertainty, filter.minCoordinateCertainty));
+  if (filter.maxCoordinateCertainty !== undefined) conditions.push(lte(assets.coordinateCertainty, filter.maxCoordinateCertainty));
+  if (filter.reviewStatus) conditions.push(eq(assets.reviewStatus, filter.reviewStatus));
+  if (filter.sourceStatus?.length) conditions.push(sourceStatusCondition(filter.sourceStatus));
+  // A NULL comparison would drop unchecked rows from an exclusion, so count it as "not listed".
+  if (filter.excludeSourceStatus?.length) conditions.push(sql`NOT COALESCE(${sourceStatusCondition(filter.excludeSourceStatus)}, false)`);
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+function sourceStatusCondition(statuses: Array<SourceCheckStatus | "unchecked">): SQL | undefined {
+  const checked = statuses.filter((s): s is SourceCheckStatus => s !== "unchecked");
+  return or(
+    checked.length > 0 ? inArray(assets.sourceStatus, checked) : undefined,
+    statuses.includes("unchecked") ? isNull(assets.sourceStatus) : undefined,
+  );
+}
+
+// Cleared when an edit points the asset at a different source_url.
+const sourceCheckColumns = ["sourceStatus", "sourceHttpStatus", "sourceContentType", "sourceEvidence", "sourceCheckedAt"] as const;
+
+function boundingBoxCondition(bbox: BoundingBox): SQL | undefined {
+  const longitude = bbox.minLon <= bbox.maxLon
+    ? and(gte(assets.longitude, bbox.minLon), lte(assets.longitude, bbox.maxLon))
+    : or(gte(assets.longitude, bbox.minLon), lte(assets.longitude, bbox.maxLon));
+  return and(gte(assets.latitude, bbox.minLat), lte(assets.latitude, bbox.maxLat), longitude);
 }
 
 export class DatabaseStorage implements IStorage {
@@ -89,7 +351,10 @@ export class DatabaseStorage implements IStorage {
         set: {
           name: company.name,
           sector: company.sector,
+          gicsCode: company.gicsCode,
+          sectorSource: company.sectorSource,
           totalAssets: company.totalAssets,
+          attributableAssets: company.attributableAssets,
           assetCount: company.assetCount,
         },
       })
@@ -97,8 +362,99 @@ export class DatabaseStorage implements IStorage {
     return upserted;
   }
 
-  async getAssets(): Promise<Asset[]> {
-    return db.select().from(assets).orderBy(assets.companyName, assets.facilityName);
+  async refreshCompanyTotals(isin: string): Promise<Company | undefined> {
+    const [totals] = await db
+      .select({
+        count: sql<number>`count(*)`,
+        value: sql<number>`coalesce(sum(${assets.valueUsd}), 0)`,
+        attributable: sql<number>`coalesce(sum(${assets.attributableValueUsd}), 0)`,
+      })
+      .from(assets)
+      .where(eq(assets.isin, isin));
+    const [updated] = await db
+      .update(companies)
+      .set({ assetCount: Number(totals.count), totalAssets: Number(totals.value), attributableAssets: Number(totals.attributable) })
+      .where(eq(companies.isin, isin))
+      .returning();
+    return updated;
+  }
+
+  async setCompanyClassification(isin: string, classification: CompanyClassificationUpdate): Promise<Company | undefined> {
+    return db.transaction(async (tx) => {
+      const { industryFactor, ...columns } = classification;
+      const [updated] = await tx.update(companies).set(columns).where(eq(companies.isin, isin)).returning();
+      if (!updated) return undefined;
+      await tx
+        .update(assets)
+        .set(industryFactor === null ? { sector: columns.sector } : { sector: columns.sector, industryFactor })
+        .where(eq(assets.isin, isin));
+      return updated;
+    });
+  }
+
+  async getAssets(filter: AssetFilter = {}): Promise<Asset[]> {
+    return db
+      .select()
+      .from(assets)
+      .where(assetFilterConditions(filter))
+      .orderBy(assets.companyName, assets.facilityName);
+  }
+
+  async queryAssets(query: AssetQuery): Promise<{ assets: Asset[]; total: number }> {
+    const where = assetFilterConditions(query);
+    const column = assetSortColumns[query.sort];
+    const direction = query.order === "desc" ? sql`${column} DESC NULLS LAST` : sql`${column} ASC NULLS LAST`;
+
+    const [rows, [count]] = await Promise.all([
+      db
+        .select()
+        .from(assets)
+        .where(where)
+        .orderBy(direction, asc(assets.facilityName), asc(assets.id))
+        .limit(query.pageSize)
+        .offset((query.page - 1) * query.pageSize),
+      db.select({ count: sql<number>`count(*)` }).from(assets).where(where),
+    ]);
+    return { assets: rows, total: Number(count.count) };
+  }
+
+  async getAssetFacets(): Promise<{ countries: string[]; assetTypes: string[]; sectors: string[] }> {
+    const distinct = async (column: AnyPgColumn) => {
+      const rows = await db
+        .selectDistinct({ value: column })
+        .from(assets)
+        .where(sql`${column} IS NOT NULL`)
+        .orderBy(column);
+      return rows.map(r => r.value as string);
+    };
+    const [countries, assetTypes, sectors] = await Promise.all([
+      distinct(assets.country),
+      distinct(assets.assetType),
+      distinct(assets.sector),
+    ]);
+    return { countries, assetTypes, sectors };
+  }
+
+  async getAssetsInBoundingBox(bbox: BoundingBox, filter: AssetFilter = {}): Promise<Asset[]> {
+    return db
+      .select()
+      .from(assets)
+      .where(and(boundingBoxCondition(bbox), assetFilterConditions(filter)))
+      .orderBy(assets.companyName, assets.facilityName);
+  }
+
+  async getAssetsWithinRadius(lat: number, lon: number, radiusKm: number, filter: AssetFilter = {}): Promise<Array<Asset & { distanceKm: number }>> {
+    const distance = sql<number>`6371 * 2 * asin(least(1, sqrt(
+      power(sin(radians(${assets.latitude} - ${lat}::double precision) / 2), 2) +
+      cos(radians(${lat}::double precision)) * cos(radians(${assets.latitude})) *
+      power(sin(radians(${assets.longitude} - ${lon}::double precision) / 2), 2)
+    )))`;
+    const rows = await db
+      .select({ asset: assets, distanceKm: distance })
+      .from(assets)
+      .where(and(boundingBoxCondition(boundingBoxForRadius(lat, lon, radiusKm)), assetFilterConditions(filter), sql`${distance} <= ${radiusKm}`))
+      .orderBy(distance);
+    return rows.map(r => ({ ...r.asset, distanceKm: Number(r.distanceKm) }));
   }
 
   async getAssetById(id: number): Promise<Asset | undefined> {
@@ -106,6 +462,11 @@ export class DatabaseStorage implements IStorage {
     return asset;
   }
 
+  async getAssetsByIds(ids: number[]): Promise<Asset[]> {
+    if (ids.length === 0) return [];
+    return db.select().from(assets).where(inArray(assets.id, ids));
+  }
+
   async getAssetsByCompany(companyName: string): Promise<Asset[]> {
     return db.select().from(assets).where(eq(assets.companyName, companyName));
   }
@@ -120,10 +481,58 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateAsset(id: number, data: Partial<InsertAsset>): Promise<Asset | undefined> {
-    const [updated] = await db.update(assets).set(data).where(eq(assets.id, id)).returning();
+    const reset: Record<string, SQL> = {};
+    if (data.sourceUrl !== undefined) {
+      for (const column of sourceCheckColumns) {
+        reset[column] = sql`CASE WHEN ${assets.sourceUrl} IS DISTINCT FROM ${data.sourceUrl} THEN NULL ELSE ${assets[column]} END`;
+      }
+    }
+    const [updated] = await db.update(assets).set({ ...data, ...reset }).where(eq(assets.id, id)).returning();
     return updated;
   }
 
+  async getAssetsForSourceCheck(checkedBefore: Date | null, isins?: string[]): Promise<Asset[]> {
+    return db
+      .select()
+      .from(assets)
+      .where(and(
+        isNotNull(assets.sourceUrl),
+        ne(assets.sourceUrl, ""),
+        checkedBefore ? or(isNull(assets.sourceCheckedAt), lt(assets.sourceCheckedAt, checkedBefore)) : undefined,
+        isins?.length ? inArray(assets.isin, isins) : undefined,
+      ))
+      .orderBy(assets.sourceUrl, assets.id);
+  }
+
+  async saveAssetSourceChecks(checks: AssetSourceCheck[]): Promise<number> {
+    if (checks.length === 0) return 0;
+    return db.transaction(async (tx) => {
+      let saved = 0;
+      for (const { id, sourceUrl, ...check } of checks) {
+        const rows = await tx
+          .update(assets)
+          .set(check)
+          .where(and(eq(assets.id, id), eq(assets.sourceUrl, sourceUrl)))
+          .returning({ id: assets.id });
+        saved += rows.length;
+      }
+      return saved;
+    });
+  }
+
+  async getSourceCheckCounts(): Promise<Record<SourceCheckStatus | "unchecked", number>> {
+    const rows = await db
+      .select({ status: assets.sourceStatus, count: sql<number>`count(*)` })
+      .from(assets)
+      .where(and(isNotNull(assets.sourceUrl), ne(assets.sourceUrl, "")))
+      .groupBy(assets.sourceStatus);
+    const counts: Record<SourceCheckStatus | "unchecked", number> = {
+      verified: 0, location_only: 0, unsupported: 0, unreadable: 0, dead: 0, unchecked: 0,
+    };
+    for (const row of rows) counts[(row.status as SourceCheckStatus | null) ?? "unchecked"] += Number(row.count);
+    return counts;
+  }
+
   async deleteAsset(id: number): Promise<boolean> {
     const result = await db.delete(assets).where(eq(assets.id, id)).returning();
     return result.length > 0;
@@ -139,6 +548,20 @@ export class DatabaseStorage implements IStorage {
     return result.length;
   }
 
+  /** Deletes the company's discovered rows, keeping manual edits, reviewed rows and rows linked to a joint-venture site. */
+  async deleteDiscoveredAssetsByIsin(isin: string): Promise<number> {
+    const result = await db
+      .delete(assets)
+      .where(and(
+        eq(assets.isin, isin),
+        eq(assets.manuallyEdited, false),
+        eq(assets.reviewStatus, "pending"),
+        isNull(assets.siteId),
+      ))
+      .returning();
+    return result.length;
+  }
+
   async bulkCreateAssets(assetList: InsertAsset[]): Promise<void> {
     if (assetList.length === 0) return;
     const batchSize = 100;
@@ -148,31 +571,297 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async bulkUpdateReviewStatus(ids: number[], status: ReviewStatus, note?: string): Promise<number> {
+    if (ids.length === 0) return 0;
+    const result = await db
+      .update(assets)
+      .set({ reviewStatus: status, reviewNote: note ?? null, reviewedAt: new Date() })
+      .where(inArray(assets.id, ids))
+      .returning({ id: assets.id });
+    return result.length;
+  }
+
   async getAssetCount(): Promise<number> {
     const [result] = await db.select({ count: sql<number>`count(*)` }).from(assets);
     return Number(result.count);
   }
 
-  async getStats(): Promise<{
-    total_assets: number;
-    assets_with_coordinates: number;
-    coordinate_coverage_percent: string;
-  }> {
-    const [total] = await db.select({ count: sql<number>`count(*)` }).from(assets);
-    const [withCoords] = await db
-      .select({ count: sql<number>`count(*)` })
+  async getStats(filter: AssetFilter = {}): Promise<AssetStats> {
+    const [total] = await db
+      .select({
+        count: sql<number>`count(*)`,
+        withCoords: sql<number>`count(*) FILTER (WHERE ${assets.latitude} IS NOT NULL AND ${assets.longitude} IS NOT NULL)`,
+        value: sql<number>`coalesce(sum(${assets.valueUsd}), 0)`,
+        attributable: sql<number>`coalesce(sum(${assets.attributableValueUsd}), 0)`,
+        companies: sql<number>`count(DISTINCT ${assets.companyName})`,
+        countries: sql<number>`count(DISTINCT ${assets.country})`,
+      })
       .from(assets)
-      .where(sql`${assets.latitude} IS NOT NULL AND ${assets.longitude} IS NOT NULL`);
+      .where(assetFilterConditions(filter));
     const totalCount = Number(total.count);
-    const coordCount = Number(withCoords.count);
+    const coordCount = Number(total.withCoords);
     return {
       total_assets: totalCount,
       assets_with_coordinates: coordCount,
       coordinate_coverage_percent:
         totalCount > 0 ? ((coordCount / totalCount) * 100).toFixed(1) : "0.0",
+      total_value_usd: Number(total.value),
+      total_attributable_value_usd: Number(total.attributable),
+      total_companies: Number(total.companies),
+      countries_count: Number(total.countries),
     };
   }
 
+  /** Matching assets summed per sector or company: the `limit` largest on the chosen value basis. */
+  async getAssetValueGroups(groupBy: "sector" | "companyName", filter: AssetFilter, basis: ValueBasis, limit: number): Promise<AssetValueGroup[]> {
+    const column = assets[groupBy];
+    const value = sql<number>`coalesce(sum(${assets.valueUsd}), 0)`;
+    const attributable = sql<number>`coalesce(sum(${assets.attributableValueUsd}), 0)`;
+    const rows = await db
+      .select({ name: column, count: sql<number>`count(*)`, value, attributable })
+      .from(assets)
+      .where(assetFilterConditions(filter))
+      .groupBy(column)
+      .orderBy(desc(basis === "attributable" ? attributable : value), asc(column))
+      .limit(limit);
+    return rows.map(r => ({
+      name: r.name,
+      asset_count: Number(r.count),
+      value_usd: Number(r.value),
+      attributable_value_usd: Number(r.attributable),
+    }));
+  }
+
+  /**
+   * Records the company's next version. A transaction-scoped advisory lock on the ISIN serialises
+   * concurrent saves, so two workers cannot both read the same max(version) and collide.
+   */
+  async createAssetVersion(version: Omit<InsertAssetVersion, "version">): Promise<AssetVersion> {
+    return db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`asset_versions:${version.isin}`}))`);
+      const [created] = await tx
+        .insert(assetVersions)
+        .values({
+          ...version,
+          version: sql`(SELECT coalesce(max(${assetVersions.version}), 0) + 1 FROM ${assetVersions} WHERE ${assetVersions.isin} = ${version.isin})`,
+        })
+        .returning();
+      return created;
+    });
+  }
+
+  async getAssetVersions(isin: string): Promise<AssetVersion[]> {
+    return db.select().from(assetVersions).where(eq(assetVersions.isin, isin)).orderBy(desc(assetVersions.version));
+  }
+
+  async getAssetVersion(isin: string, version: number): Promise<AssetVersion | undefined> {
+    const [found] = await db
+      .select()
+      .from(assetVersions)
+      .where(and(eq(assetVersions.isin, isin), eq(assetVersions.version, version)));
+    return found;
+  }
+
+  async getPortfolios(): Promise<Array<Portfolio & { holdingCount: number }>> {
+    const rows = await db
+      .select({ portfolio: portfolios, holdingCount: sql<number>`count(${portfolioHoldings.id})` })
+      .from(portfolios)
+      .leftJoin(portfolioHoldings, eq(portfolioHoldings.portfolioId, portfolios.id))
+      .groupBy(portfolios.id)
+      .orderBy(portfolios.name);
+    return rows.map(r => ({ ...r.portfolio, holdingCount: Number(r.holdingCount) }));
+  }
+
+  async getPortfolio(id: number): Promise<Portfolio | undefined> {
+    const [found] = await db.select().from(portfolios).where(eq(portfolios.id, id));
+    return found;
+  }
+
+  async getPortfolioHoldings(portfolioId: number): Promise<PortfolioHolding[]> {
+    return db.select().from(portfolioHoldings).where(eq(portfolioHoldings.portfolioId, portfolioId)).orderBy(portfolioHoldings.id);
+  }
+
+  async createPortfolio(input: PortfolioInput): Promise<Portfolio> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(portfolios)
+        .values({ name: input.name, description: input.description ?? null })
+        .returning();
+      await tx.insert(portfolioHoldings).values(input.holdings.map(h => ({ ...h, portfolioId: created.id })));
+      return created;
+    });
+  }
+
+  async updatePortfolio(id: number, input: PortfolioInput): Promise<Portfolio | undefined> {
+    return db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(portfolios)
+        .set({ name: input.name, description: input.description ?? null, updatedAt: new Date() })
+        .where(eq(portfolios.id, id))
+        .returning();
+      if (!updated) return undefined;
+      await tx.delete(portfolioHoldings).where(eq(portfolioHoldings.portfolioId, id));
+      await tx.insert(portfolioHoldings).values(input.holdings.map(h => ({ ...h, portfolioId: id })));
+      return updated;
+    });
+  }
+
+  async deletePortfolio(id: number): Promise<boolean> {
+    const result = await db.delete(portfolios).where(eq(portfolios.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getSites(): Promise<Array<Site & { assetCount: number; ownershipTotal: number }>> {
+    const rows = await db
+      .select({
+        site: sites,
+        assetCount: sql<number>`count(${assets.id})`,
+        ownershipTotal: sql<number>`coalesce(sum(coalesce(${assets.ownershipShare}, 100)), 0)`,
+      })
+      .from(sites)
+      .leftJoin(assets, eq(assets.siteId, sites.id))
+      .groupBy(sites.id)
+      .orderBy(sites.name);
+    return rows.map(r => ({ ...r.site, assetCount: Number(r.assetCount), ownershipTotal: Number(r.ownershipTotal) }));
+  }
+
+  async getSite(id: number): Promise<Site | undefined> {
+    const [found] = await db.select().from(sites).where(eq(sites.id, id));
+    return found;
+  }
+
+  async getAssetsBySite(siteId: number): Promise<Asset[]> {
+    return db.select().from(assets).where(eq(assets.siteId, siteId)).orderBy(assets.companyName);
+  }
+
+  async linkAssetsToSite(assetIds: number[], site: number | InsertSite): Promise<Site> {
+    return db.transaction(async (tx) => {
+      const [target] = typeof site === "number"
+        ? await tx.select().from(sites).where(eq(sites.id, site))
+        : await tx.insert(sites).values(site).returning();
+      await tx.update(assets).set({ siteId: target.id }).where(inArray(assets.id, assetIds));
+      // Linking can pull every asset off a previously confirmed site when two sites merge.
+      await tx.delete(sites).where(sql`not exists (select 1 from ${assets} where ${assets.siteId} = ${sites.id})`);
+      return target;
+    });
+  }
+
+  async unlinkAssetFromSite(assetId: number): Promise<Asset | undefined> {
+    return db.transaction(async (tx) => {
+      const [updated] = await tx.update(assets).set({ siteId: null }).where(eq(assets.id, assetId)).returning();
+      await tx.delete(sites).where(sql`not exists (select 1 from ${assets} where ${assets.siteId} = ${sites.id})`);
+      return updated;
+    });
+  }
+
+  async getSiteLinkCandidates(status?: SiteLinkStatus): Promise<SiteLinkCandidate[]> {
+    return db
+      .select()
+      .from(siteLinkCandidates)
+      .where(status ? eq(siteLinkCandidates.status, status) : undefined)
+      .orderBy(desc(siteLinkCandidates.score));
+  }
+
+  async getSiteLinkCandidate(id: number): Promise<SiteLinkCandidate | undefined> {
+    const [found] = await db.select().from(siteLinkCandidates).where(eq(siteLinkCandidates.id, id));
+    return found;
+  }
+
+  async createSiteLinkCandidates(candidates: InsertSiteLinkCandidate[]): Promise<number> {
+    let inserted = 0;
+    const batchSize = 100;
+    for (let i = 0; i < candidates.length; i += batchSize) {
+      const batch = candidates.slice(i, i + batchSize);
+      const rows = await db.insert(siteLinkCandidates).values(batch).onConflictDoNothing().returning({ id: siteLinkCandidates.id });
+      inserted += rows.length;
+    }
+    return inserted;
+  }
+
+  async updateSiteLinkCandidateStatus(id: number, status: SiteLinkStatus): Promise<SiteLinkCandidate | undefined> {
+    const [updated] = await db
+      .update(siteLinkCandidates)
+      .set({ status, reviewedAt: new Date() })
+      .where(eq(siteLinkCandidates.id, id))
+      .returning();
+    return updated;
+  }
+
+  async createDedupScan(): Promise<DedupScan> {
+    const [created] = await db.insert(dedupScans).values({ status: "running" }).returning();
+    return created;
+  }
+
+  async getDedupScans(): Promise<DedupScan[]> {
+    return db.select().from(dedupScans).orderBy(desc(dedupScans.createdAt)).limit(20);
+  }
+
+  async getDedupScan(id: number): Promise<DedupScan | undefined> {
+    const [found] = await db.select().from(dedupScans).where(eq(dedupScans.id, id));
+    return found;
+  }
+
+  async updateDedupScan(id: number, data: Partial<Omit<DedupScan, "id" | "createdAt">>): Promise<DedupScan | undefined> {
+    const [updated] = await db.update(dedupScans).set(data).where(eq(dedupScans.id, id)).returning();
+    return updated;
+  }
+
+  async createDuplicateClusters(clusters: InsertDuplicateCluster[]): Promise<void> {
+    const batchSize = 100;
+    for (let i = 0; i < clusters.length; i += batchSize) {
+      await db.insert(duplicateClusters).values(clusters.slice(i, i + batchSize));
+    }
+  }
+
+  async getDuplicateClusters(scanId: number, status?: DuplicateClusterStatus): Promise<DuplicateCluster[]> {
+    return db
+      .select()
+      .from(duplicateClusters)
+      .where(and(eq(duplicateClusters.scanId, scanId), status ? eq(duplicateClusters.status, status) : undefined))
+      .orderBy(desc(duplicateClusters.score), duplicateClusters.companyName);
+  }
+
+  async getDuplicateCluster(id: number): Promise<DuplicateCluster | undefined> {
+    const [found] = await db.select().from(duplicateClusters).where(eq(duplicateClusters.id, id));
+    return found;
+  }
+
+  async updateDuplicateClusterStatus(id: number, status: DuplicateClusterStatus, survivorId?: number): Promise<DuplicateCluster | undefined> {
+    const [updated] = await db
+      .update(duplicateClusters)
+      .set({ status, survivorId: survivorId ?? null, resolvedAt: new Date() })
+      .where(eq(duplicateClusters.id, id))
+      .returning();
+    return updated;
+  }
+
+  async mergeAssets(survivorId: number, mergedIds: number[], patch: Partial<InsertAsset>, clusterId?: number): Promise<Asset | undefined> {
+    return db.transaction(async (tx) => {
+      const merged = await tx.select().from(assets).where(inArray(assets.id, mergedIds));
+      if (merged.length > 0) {
+        await tx.insert(assetMerges).values(merged.map(a => ({
+          survivorId,
+          clusterId: clusterId ?? null,
+          mergedAssetId: a.id,
+          snapshot: JSON.stringify(a),
+        })));
+      }
+      const [survivor] = await tx.update(assets).set(patch).where(eq(assets.id, survivorId)).returning();
+      await tx.delete(assets).where(inArray(assets.id, mergedIds));
+      if (clusterId !== undefined) {
+        await tx
+          .update(duplicateClusters)
+          .set({ status: "merged", survivorId, resolvedAt: new Date() })
+          .where(eq(duplicateClusters.id, clusterId));
+      }
+      return survivor;
+    });
+  }
+
+  async getAssetMerges(survivorId: number): Promise<AssetMerge[]> {
+    return db.select().from(assetMerges).where(eq(assetMerges.survivorId, survivorId)).orderBy(desc(assetMerges.createdAt));
+  }
+
   async createDiscoveryJob(job: InsertDiscoveryJob): Promise<DiscoveryJob> {
     const [created] = await db.insert(discoveryJobs).values(job).returning();
     return created;
@@ -191,6 +880,485 @@ export class DatabaseStorage implements IStorage {
     const [updated] = await db.update(discoveryJobs).set(data).where(eq(discoveryJobs.id, id)).returning();
     return updated;
   }
+
+  async getDiscoverySpendSince(since: Date): Promise<number> {
+    const [row] = await db
+      .select({ total: sql<number>`coalesce(sum(${discoverySpend.costUsd}), 0)::float` })
+      .from(discoverySpend)
+      .where(gte(discoverySpend.recordedAt, since));
+    return row?.total ?? 0;
+  }
+
+  /**
+   * Token usage of successful companies in the most recent complete single-provider jobs without a
+   * supplementary pass, so each sample is one plain two-pass discovery.
+   */
+  async getDiscoveryTokenHistory(providerId: string | undefined, jobLimit: number): Promise<DiscoveryTokenHistory> {
+    const recentJobs = db
+      .select({ id: discoveryJobs.id })
+      .from(discoveryJobs)
+      .where(and(
+        eq(discoveryJobs.status, "complete"),
+        sql`${discoveryJobs.ensembleProviders} IS NULL`,
+        sql`${discoveryJobs.supplementaryProvider} IS NULL`,
+        providerId ? eq(discoveryJobs.modelProvider, providerId) : undefined,
+      ))
+      .orderBy(desc(discoveryJobs.createdAt))
+      .limit(jobLimit);
+    const [row] = await db
+      .select({
+        companies: sql<number>`count(*)::int`,
+        inputTokens: sql<number>`coalesce(sum(${discoveryJobItems.inputTokens}), 0)::float`,
+        outputTokens: sql<number>`coalesce(sum(${discoveryJobItems.outputTokens}), 0)::float`,
+      })
+      .from(discoveryJobItems)
+      .where(and(
+        inArray(discoveryJobItems.jobId, recentJobs),
+        eq(discoveryJobItems.status, "success"),
+        sql`${discoveryJobItems.inputTokens} > 0`,
+      ));
+    return { companies: row?.companies ?? 0, inputTokens: row?.inputTokens ?? 0, outputTokens: row?.outputTokens ?? 0 };
+  }
+
+  async getDiscoveryJobIdsWithoutItems(): Promise<number[]> {
+    const rows = await db
+      .select({ id: discoveryJobs.id })
+      .from(discoveryJobs)
+      .where(sql`NOT EXISTS (SELECT 1 FROM discovery_job_items i WHERE i.job_id = ${discoveryJobs.id})`)
+      .orderBy(asc(discoveryJobs.id));
+    return rows.map(r => r.id);
+  }
+
+  async createDiscoveryJobItems(items: InsertDiscoveryJobItem[]): Promise<DiscoveryJobItem[]> {
+    if (items.length === 0) return [];
+    return db.insert(discoveryJobItems).values(items).returning();
+  }
+
+  async getDiscoveryJobItem(id: number): Promise<DiscoveryJobItem | undefined> {
+    const [item] = await db.select().from(discoveryJobItems).where(eq(discoveryJobItems.id, id));
+    return item;
+  }
+
+  async getDiscoveryJobItems(jobId: number): Promise<DiscoveryJobItem[]> {
+    return db.select().from(discoveryJobItems).where(eq(discoveryJobItems.jobId, jobId)).orderBy(asc(discoveryJobItems.position));
+  }
+
+  async getDiscoveryJobItemsByIds(jobId: number, ids: number[]): Promise<DiscoveryJobItem[]> {
+    if (ids.length === 0) return [];
+    return db
+      .select()
+      .from(discoveryJobItems)
+      .where(and(eq(discoveryJobItems.jobId, jobId), inArray(discoveryJobItems.id, ids)))
+      .orderBy(asc(discoveryJobItems.position));
+  }
+
+  /** The most recent rerun or clone of each source item, keyed by the source item's id. */
+  async getLatestRerunItems(sourceItemIds: number[]): Promise<Map<number, DiscoveryJobItem>> {
+    const latest = new Map<number, DiscoveryJobItem>();
+    if (sourceItemIds.length === 0) return latest;
+    const rows = await db
+      .selectDistinctOn([discoveryJobItems.sourceItemId])
+      .from(discoveryJobItems)
+      .where(inArray(discoveryJobItems.sourceItemId, sourceItemIds))
+      .orderBy(discoveryJobItems.sourceItemId, desc(discoveryJobItems.id));
+    for (const row of rows) latest.set(row.sourceItemId!, row);
+    return latest;
+  }
+
+  async queryDiscoveryJobItems(jobId: number, query: JobItemQuery): Promise<{ items: DiscoveryJobItem[]; total: number }> {
+    const conditions: (SQL | undefined)[] = [eq(discoveryJobItems.jobId, jobId)];
+    if (query.status?.length) conditions.push(inArray(discoveryJobItems.status, query.status));
+    if (query.stage) conditions.push(eq(discoveryJobItems.stage, query.stage));
+    if (query.search) {
+      const pattern = `%${query.search}%`;
+      conditions.push(or(ilike(discoveryJobItems.companyName, pattern), ilike(discoveryJobItems.isin, pattern)));
+    }
+    const where = and(...conditions);
+
+    const [rows, [count]] = await Promise.all([
+      db.select().from(discoveryJobItems).where(where)
+        .orderBy(asc(discoveryJobItems.position))
+        .limit(query.pageSize)
+        .offset((query.page - 1) * query.pageSize),
+      db.select({ count: sql<number>`count(*)` }).from(discoveryJobItems).where(where),
+    ]);
+    return { items: rows, total: Number(count.count) };
+  }
+
+  async getDiscoveryJobItemCounts(jobId: number): Promise<Record<string, number>> {
+    const rows = await db
+      .select({ status: discoveryJobItems.status, count: sql<number>`count(*)::int` })
+      .from(discoveryJobItems)
+      .where(eq(discoveryJobItems.jobId, jobId))
+      .groupBy(discoveryJobItems.status);
+    return Object.fromEntries(rows.map(r => [r.status, r.count]));
+  }
+
+  /** The first `limit` company names of each job, for job lists. */
+  async getDiscoveryJobCompanyPreviews(jobIds: number[], limit: number): Promise<Map<number, string[]>> {
+    const previews = new Map<number, string[]>();
+    if (jobIds.length === 0) return previews;
+    const rows = await db
+      .select({ jobId: discoveryJobItems.jobId, companyName: discoveryJobItems.companyName })
+      .from(discoveryJobItems)
+      .where(and(inArray(discoveryJobItems.jobId, jobIds), sql`${discoveryJobItems.position} < ${limit}`))
+      .orderBy(asc(discoveryJobItems.jobId), asc(discoveryJobItems.position));
+    for (const row of rows) {
+      previews.set(row.jobId, [...(previews.get(row.jobId) ?? []), row.companyName]);
+    }
+    return previews;
+  }
+
+  async updateDiscoveryJobItem(id: number, data: Partial<InsertDiscoveryJobItem>): Promise<DiscoveryJobItem | undefined> {
+    const [updated] = await db
+      .update(discoveryJobItems)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(discoveryJobItems.id, id))
+      .returning();
+    return updated;
+  }
+
+  async updateDiscoveryJobItemsStatus(jobId: number, from: DiscoveryItemStatus[], to: DiscoveryItemStatus): Promise<number> {
+    const updated = await db
+      .update(discoveryJobItems)
+      .set({ status: to, updatedAt: new Date() })
+      .where(and(eq(discoveryJobItems.jobId, jobId), inArray(discoveryJobItems.status, from)))
+      .returning({ id: discoveryJobItems.id });
+    return updated.length;
+  }
+
+  /**
+   * Claims the next pending item for one of `providers`: highest job priority first, then oldest
+   * job, then input order. SKIP LOCKED lets several processes claim from the same queue without
+   * blocking on, or double-claiming, each other's rows.
+   */
+  async claimDiscoveryJobItem(providers: string[], workerId: string): Promise<DiscoveryJobItem | undefined> {
+    if (providers.length === 0) return undefined;
+    const now = new Date();
+    const next = sql`(
+      SELECT i.id FROM discovery_job_items i
+      JOIN discovery_jobs j ON j.id = i.job_id
+      WHERE i.status = 'pending'
+        AND i.provider IN (${sql.join(providers.map(p => sql`${p}`), sql`, `)})
+        AND j.status IN ('pending', 'running')
+      ORDER BY j.priority DESC, j.id ASC, i.position ASC
+      LIMIT 1
+      FOR UPDATE OF i SKIP LOCKED
+    )`;
+    const [claimed] = await db
+      .update(discoveryJobItems)
+      .set({
+        status: "running",
+        workerId,
+        attempts: sql`${discoveryJobItems.attempts} + 1`,
+        claimedAt: now,
+        heartbeatAt: now,
+        updatedAt: now,
+      })
+      .where(sql`${discoveryJobItems.id} = ${next}`)
+      .returning();
+    return claimed;
+  }
+
+  /**
+   * Saves an item's outcome and bumps its own and the job's counters in one transaction. Counters
+   * are incremented in SQL so workers in other processes never overwrite each other's totals.
+   */
+  async recordDiscoveryJobItemResult(item: DiscoveryJobItem, data: Partial<InsertDiscoveryJobItem>, delta: DiscoveryJobDelta): Promise<DiscoveryJob | undefined> {
+    return db.transaction(async (tx) => {
+      const now = new Date();
+      await tx
+        .update(discoveryJobItems)
+        .set({
+          ...data,
+          workerId: null,
+          inputTokens: sql`${discoveryJobItems.inputTokens} + ${delta.inputTokens ?? 0}`,
+          outputTokens: sql`${discoveryJobItems.outputTokens} + ${delta.outputTokens ?? 0}`,
+          costUsd: sql`${discoveryJobItems.costUsd} + ${delta.costUsd ?? 0}`,
+          updatedAt: now,
+        })
+        .where(eq(discoveryJobItems.id, item.id));
+      const [job] = await tx
+        .update(discoveryJobs)
+        .set({
+          completedCompanies: sql`${discoveryJobs.completedCompanies} + ${delta.completed ?? 0}`,
+          failedCompanies: sql`${discoveryJobs.failedCompanies} + ${delta.failed ?? 0}`,
+          totalInputTokens: sql`coalesce(${discoveryJobs.totalInputTokens}, 0) + ${delta.inputTokens ?? 0}`,
+          totalOutputTokens: sql`coalesce(${discoveryJobs.totalOutputTokens}, 0) + ${delta.outputTokens ?? 0}`,
+          totalCostUsd: sql`coalesce(${discoveryJobs.totalCostUsd}, 0) + ${delta.costUsd ?? 0}`,
+          updatedAt: now,
+        })
+        .where(eq(discoveryJobs.id, item.jobId))
+        .returning();
+      if (delta.costUsd) {
+        await tx.insert(discoverySpend).values({ jobId: item.jobId, itemId: item.id, costUsd: delta.costUsd, recordedAt: now });
+      }
+      return job;
+    });
+  }
+
+  async startDiscoveryJob(jobId: number): Promise<boolean> {
+    const started = await db
+      .update(discoveryJobs)
+      .set({ status: "running", updatedAt: new Date() })
+      .where(and(eq(discoveryJobs.id, jobId), eq(discoveryJobs.status, "pending")))
+      .returning({ id: discoveryJobs.id });
+    return started.length > 0;
+  }
+
+  /** Marks running jobs complete once none of their items is pending or running. */
+  async completeFinishedDiscoveryJobs(): Promise<DiscoveryJob[]> {
+    return db
+      .update(discoveryJobs)
+      .set({ status: "complete", updatedAt: new Date() })
+      .where(and(
+        eq(discoveryJobs.status, "running"),
+        sql`NOT EXISTS (
+          SELECT 1 FROM discovery_job_items i
+          WHERE i.job_id = ${discoveryJobs.id} AND i.status IN ('pending', 'running')
+        )`,
+      ))
+      .returning();
+  }
+
+  /**
+   * Releases running items whose heartbeat is older than `heartbeatBefore`. Items already claimed
+   * `maxAttempts` times are failed instead, so a company that keeps killing its worker cannot loop
+   * forever; their jobs' failed counts go up in the same transaction.
+   */
+  async requeueStaleDiscoveryJobItems(heartbeatBefore: Date, maxAttempts: number): Promise<StaleDiscoveryJobItems> {
+    return db.transaction(async (tx) => {
+      const now = new Date();
+      const stale = and(eq(discoveryJobItems.status, "running"), sql`${discoveryJobItems.heartbeatAt} < ${heartbeatBefore}`);
+      const failed = await tx
+        .update(discoveryJobItems)
+        .set({
+          status: "failed",
+          workerId: null,
+          error: sql`'Worker stopped responding on each of ' || ${discoveryJobItems.attempts} || ' attempts'`,
+          finishedAt: now,
+          updatedAt: now,
+        })
+        .where(and(stale, gte(discoveryJobItems.attempts, maxAttempts)))
+        .returning();
+      const failedPerJob = new Map<number, number>();
+      for (const item of failed) failedPerJob.set(item.jobId, (failedPerJob.get(item.jobId) ?? 0) + 1);
+      for (const [jobId, count] of Array.from(failedPerJob)) {
+        await tx
+          .update(discoveryJobs)
+          .set({ failedCompanies: sql`${discoveryJobs.failedCompanies} + ${count}`, updatedAt: now })
+          .where(eq(discoveryJobs.id, jobId));
+      }
+      const requeued = await tx
+        .update(discoveryJobItems)
+        .set({ status: "pending", workerId: null, updatedAt: now })
+        .where(stale)
+        .returning();
+      return { requeued, failed };
+    });
+  }
+
+  /**
+   * Ends the pending items of active jobs whose provider is not in `providers`, since no worker
+   * would ever claim them and their jobs would never finish. Primary items fail and count against
+   * their job. Supplementary items keep the company's saved result and finish without the extra
+   * pass, as they do when the pass itself fails.
+   */
+  async finishUnclaimableDiscoveryJobItems(providers: string[]): Promise<UnclaimableDiscoveryJobItems> {
+    return db.transaction(async (tx) => {
+      const now = new Date();
+      const unclaimable = and(
+        eq(discoveryJobItems.status, "pending"),
+        notInArray(discoveryJobItems.provider, providers),
+        sql`${discoveryJobItems.jobId} IN (SELECT id FROM discovery_jobs WHERE status IN ('pending', 'running'))`,
+      );
+      const error = sql`'Provider ' || ${discoveryJobItems.provider} || ' is no longer configured'`;
+      const failed = await tx
+        .update(discoveryJobItems)
+        .set({ status: "failed", workerId: null, error, finishedAt: now, updatedAt: now })
+        .where(and(unclaimable, eq(discoveryJobItems.stage, "primary")))
+        .returning();
+      const failedPerJob = new Map<number, number>();
+      for (const item of failed) failedPerJob.set(item.jobId, (failedPerJob.get(item.jobId) ?? 0) + 1);
+      for (const [jobId, count] of Array.from(failedPerJob)) {
+        await tx
+          .update(discoveryJobs)
+          .set({ failedCompanies: sql`${discoveryJobs.failedCompanies} + ${count}`, updatedAt: now })
+          .where(eq(discoveryJobs.id, jobId));
+      }
+      const skipped = await tx
+        .update(discoveryJobItems)
+        .set({ status: "success", workerId: null, finishedAt: now, updatedAt: now })
+        .where(and(unclaimable, eq(discoveryJobItems.stage, "supplementary")))
+        .returning();
+      return { failed, skipped };
+    });
+  }
+
+  /**
+   * Queues a job's failed items (or the failed ones among `itemIds`) for another primary attempt, with
+   * a fresh attempt count, and takes them off the job's failed count. Tokens and cost already spent
+   * stay on the item.
+   */
+  async retryFailedDiscoveryJobItems(jobId: number, itemIds?: number[]): Promise<number> {
+    return db.transaction(async (tx) => {
+      const now = new Date();
+      const retried = await tx
+        .update(discoveryJobItems)
+        .set({
+          status: "pending",
+          stage: "primary",
+          attempts: 0,
+          error: null,
+          assetsFound: null,
+          supplementaryAssetsFound: null,
+          result: null,
+          webResearch: null,
+          finishedAt: null,
+          updatedAt: now,
+        })
+        .where(and(
+          eq(discoveryJobItems.jobId, jobId),
+          eq(discoveryJobItems.status, "failed"),
+          itemIds ? inArray(discoveryJobItems.id, itemIds) : undefined,
+        ))
+        .returning({ id: discoveryJobItems.id });
+      if (retried.length > 0) {
+        await tx
+          .update(discoveryJobs)
+          .set({ failedCompanies: sql`greatest(${discoveryJobs.failedCompanies} - ${retried.length}, 0)`, updatedAt: now })
+          .where(eq(discoveryJobs.id, jobId));
+      }
+      return retried.length;
+    });
+  }
+
+  /** The newest discovery that saved this company's assets and kept its web research; supplementary-stage items already saved theirs. */
+  async getLatestCompanyResearchItem(isin: string): Promise<DiscoveryJobItem | undefined> {
+    const [item] = await db
+      .select()
+      .from(discoveryJobItems)
+      .where(and(
+        eq(discoveryJobItems.isin, isin),
+        or(eq(discoveryJobItems.status, "success"), eq(discoveryJobItems.stage, "supplementary")),
+        sql`${discoveryJobItems.webResearch} IS NOT NULL`,
+      ))
+      .orderBy(desc(discoveryJobItems.id))
+      .limit(1);
+    return item;
+  }
+
+  async createDiscoveryJobEvent(event: Omit<DiscoveryJobEvent, "id" | "createdAt">): Promise<void> {
+    await db.insert(discoveryJobEvents).values(event);
+  }
+
+  /** The newest `limit` events after `afterId`, oldest first. */
+  async getDiscoveryJobEvents(jobId: number, afterId: number, limit: number): Promise<DiscoveryJobEvent[]> {
+    const rows = await db
+      .select()
+      .from(discoveryJobEvents)
+      .where(and(eq(discoveryJobEvents.jobId, jobId), sql`${discoveryJobEvents.id} > ${afterId}`))
+      .orderBy(desc(discoveryJobEvents.id))
+      .limit(limit);
+    return rows.reverse();
+  }
+
+  async deleteDiscoveryJobEventsBefore(before: Date): Promise<number> {
+    const deleted = await db
+      .delete(discoveryJobEvents)
+      .where(lt(discoveryJobEvents.createdAt, before))
+      .returning({ id: discoveryJobEvents.id });
+    return deleted.length;
+  }
+
+  async getResearchCacheEntry(queryKey: string): Promise<ResearchCacheEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(researchCache)
+      .where(and(eq(researchCache.queryKey, queryKey), sql`${researchCache.expiresAt} > now()`));
+    return entry;
+  }
+
+  async saveResearchCacheEntry(entry: ResearchCacheEntry): Promise<void> {
+    const { queryKey, ...rest } = entry;
+    await db
+      .insert(researchCache)
+      .values(entry)
+      .onConflictDoUpdate({ target: researchCache.queryKey, set: rest });
+  }
+
+  async getResearchCacheStats(): Promise<ResearchCacheStats> {
+    const [row] = await db
+      .select({
+        entries: sql<number>`count(*)`,
+        expired: sql<number>`count(*) FILTER (WHERE ${researchCache.expiresAt} <= now())`,
+        oldest: sql<string | null>`min(${researchCache.fetchedAt})`,
+        newest: sql<string | null>`max(${researchCache.fetchedAt})`,
+      })
+      .from(researchCache);
+    return {
+      entries: Number(row.entries),
+      expired: Number(row.expired),
+      oldestFetchedAt: row.oldest ? new Date(row.oldest) : null,
+      newestFetchedAt: row.newest ? new Date(row.newest) : null,
+    };
+  }
+
+  async clearResearchCache(expiredOnly: boolean): Promise<number> {
+    const deleted = await db
+      .delete(researchCache)
+      .where(expiredOnly ? sql`${researchCache.expiresAt} <= now()` : undefined)
+      .returning({ queryKey: researchCache.queryKey });
+    return deleted.length;
+  }
+
+  async getLatestSecFiling(cik: string, fetchedSince: Date): Promise<SecFiling | undefined> {
+    const [filing] = await db
+      .select()
+      .from(secFilings)
+      .where(and(eq(secFilings.cik, cik), gte(secFilings.fetchedAt, fetchedSince)))
+      .orderBy(desc(secFilings.filingDate))
+      .limit(1);
+    return filing;
+  }
+
+  async saveSecFiling(filing: SecFiling): Promise<void> {
+    const { accession, ...rest } = filing;
+    await db
+      .insert(secFilings)
+      .values(filing)
+      .onConflictDoUpdate({ target: secFilings.accession, set: rest });
+  }
+
+  async getSearchUsage(monthStart: Date): Promise<SearchUsage[]> {
+    return db.select().from(searchUsage).where(eq(searchUsage.monthStart, monthStart));
+  }
+
+  async recordSearchUsage(backend: string, monthStart: Date, delta: { queries: number; errors: number }): Promise<void> {
+    await db
+      .insert(searchUsage)
+      .values({ backend, monthStart, queries: delta.queries, errors: delta.errors })
+      .onConflictDoUpdate({
+        target: [searchUsage.backend, searchUsage.monthStart],
+        set: {
+          queries: sql`${searchUsage.queries} + ${delta.queries}`,
+          errors: sql`${searchUsage.errors} + ${delta.errors}`,
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+  async getSetting(key: string): Promise<string | null> {
+    const [row] = await db.select().from(appSettings).where(eq(appSettings.key, key));
+    return row?.value ?? null;
+  }
+
+  async setSetting(key: string, value: string | null): Promise<void> {
+    await db
+      .insert(appSettings)
+      .values({ key, value })
+      .onConflictDoUpdate({ target: appSettings.key, set: { value, updatedAt: new Date() } });
+  }
 }
 
 export const storage = new DatabaseStorage();
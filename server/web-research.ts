@@ -0,0 +1,75 @@
+import { webSearch } from "./search-backends";
+import { getSectorQueries } from "./sectors";
+import type { SearchSnippet } from "./research-cache";
+
+function formatSnippet(snippet: SearchSnippet): string {
+  return snippet.title ? `${snippet.text} [Source: ${snippet.title}]` : snippet.text;
+}
+
+export interface WebResearchQuery {
+  query: string;
+  // The backend that answered, after any fallback; null when every backend failed.
+  backend: string | null;
+  snippets: number;
+  cached: boolean;
+  fetchedAt: string | null;
+  error?: string;
+}
+
+/** The searches run for one company and the snippets that went into its prompt, in prompt order. */
+export interface WebResearch {
+  gatheredAt: string;
+  queries: WebResearchQuery[];
+  snippets: Array<SearchSnippet & { query: string }>;
+}
+
+const MAX_SNIPPETS = 60;
+
+/**
+ * Runs the company's searches on `searchBackend` (falling back to the others) or the default order.
+ * A GICS code adds its sector's searches.
+ */
+export async function searchCompanyAssets(companyName: string, isin?: string, searchBackend?: string | null, gicsCode?: string | null): Promise<WebResearch> {
+  const baseSearches = [
+    `"${companyName}" major facilities headquarters offices locations worldwide`,
+    `"${companyName}" manufacturing plants factories production sites global operations`,
+    `"${companyName}" annual report property plant equipment PP&E total assets`,
+    `"${companyName}" operations locations subsidiaries facilities complete list`,
+    `"${companyName}" joint ventures partnerships ownership stakes percentage`,
+  ];
+
+  if (isin) {
+    baseSearches.push(`${isin} ${companyName} SEC filing 10-K property assets facilities`);
+  }
+
+  const sectorQueries = getSectorQueries(gicsCode);
+  for (const sq of sectorQueries) {
+    baseSearches.push(`"${companyName}" ${sq}`);
+  }
+
+  const queries: WebResearchQuery[] = [];
+  const snippets: WebResearch["snippets"] = [];
+  const seen = new Set<string>();
+
+  for (const query of baseSearches) {
+    try {
+      const search = await webSearch(query, 6, searchBackend);
+      queries.push({ query, backend: search.backend, snippets: search.snippets.length, cached: search.cached, fetchedAt: search.fetchedAt.toISOString() });
+      for (const snippet of search.snippets) {
+        const formatted = formatSnippet(snippet);
+        if (seen.has(formatted) || snippets.length >= MAX_SNIPPETS) continue;
+        seen.add(formatted);
+        snippets.push({ ...snippet, query });
+      }
+    } catch (err) {
+      queries.push({ query, backend: null, snippets: 0, cached: false, fetchedAt: null, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  return { gatheredAt: new Date().toISOString(), queries, snippets };
+}
+
+/** The prompt block built from a company's research; "" when no search returned anything. */
+export function formatWebResearch(research: WebResearch): string {
+  return research.snippets.map(formatSnippet).join("\n\n");
+}
@@ -0,0 +1,23 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { insertAssetSchema, isValidIsin } from "./schema";
+
+test("isValidIsin accepts ISINs with a correct check digit", () => {
+  assert.equal(isValidIsin("US0378331005"), true);
+  assert.equal(isValidIsin("AU000000BHP4"), true);
+  assert.equal(isValidIsin(" us88160r1014 "), true);
+});
+
+test("isValidIsin rejects a wrong check digit or a malformed code", () => {
+  assert.equal(isValidIsin("US0378331006"), false);
+  assert.equal(isValidIsin("US037833100"), false);
+  assert.equal(isValidIsin("1S0378331005"), false);
+  assert.equal(isValidIsin(""), false);
+});
+
+test("insertAssetSchema only accepts the known review statuses", () => {
+  const asset = { companyName: "Acme Steel", facilityName: "Gary Works" };
+  assert.equal(insertAssetSchema.safeParse({ ...asset, reviewStatus: "needs-edit" }).success, true);
+  assert.equal(insertAssetSchema.safeParse(asset).success, true);
+  assert.equal(insertAssetSchema.safeParse({ ...asset, reviewStatus: "aproved" }).success, false);
+});
@@ -1,17 +1,110 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, doublePrecision, integer, timestamp, serial } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, doublePrecision, integer, timestamp, serial, boolean, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+export const REVIEW_STATUSES = ["pending", "approved", "rejected", "needs-edit"] as const;
+export type ReviewStatus = typeof REVIEW_STATUSES[number];
+
+export const SITE_LINK_STATUSES = ["pending", "confirmed", "rejected"] as const;
+export type SiteLinkStatus = typeof SITE_LINK_STATUSES[number];
+
+export const DEDUP_SCAN_STATUSES = ["running", "completed", "failed"] as const;
+export type DedupScanStatus = typeof DEDUP_SCAN_STATUSES[number];
+
+export const DUPLICATE_CLUSTER_STATUSES = ["pending", "merged", "dismissed"] as const;
+export type DuplicateClusterStatus = typeof DUPLICATE_CLUSTER_STATUSES[number];
+
+export const DISCOVERY_ITEM_STATUSES = ["pending", "running", "success", "failed", "quarantined", "cancelled"] as const;
+export type DiscoveryItemStatus = typeof DISCOVERY_ITEM_STATUSES[number];
+
+export const DISCOVERY_ITEM_STAGES = ["primary", "supplementary"] as const;
+export type DiscoveryItemStage = typeof DISCOVERY_ITEM_STAGES[number];
+
+// How a job was derived from an earlier one: a chosen subset of its companies, or all of them.
+export const JOB_RERUN_KINDS = ["rerun", "clone"] as const;
+export type JobRerunKind = typeof JOB_RERUN_KINDS[number];
+
+// Progress events a discovery job streams to the page over SSE.
+export const JOB_EVENT_TYPES = [
+  "job_status",
+  "web_research",
+  "web_research_done",
+  "filing",
+  "filing_done",
+  "pass1",
+  "pass1_done",
+  "pass2",
+  "pass2_done",
+  "pass2_failed",
+  "supplementary",
+  "supplementary_done",
+  "retry",
+  "saved",
+  "quarantined",
+  "failed",
+] as const;
+export type JobEventType = typeof JOB_EVENT_TYPES[number];
+
+export interface JobEvent {
+  id: number;
+  job_id: number;
+  type: JobEventType;
+  at: string;
+  status?: string;
+  company?: string;
+  worker?: string;
+  detail?: string;
+  input_tokens?: number;
+  output_tokens?: number;
+  cost_usd?: number;
+  assets_found?: number;
+  completed?: number;
+  failed?: number;
+  total_cost_usd?: number;
+}
+
+// Web search backends for discovery research, in the default fallback order.
+export const SEARCH_BACKEND_IDS = ["serper", "brave", "bing", "searxng", "fixtures"] as const;
+export type SearchBackendId = typeof SEARCH_BACKEND_IDS[number];
+
+// What fetching an asset's source_url showed: the page names the facility, only its city,
+// neither, can't be read as text (e.g. a PDF), or didn't load at all.
+export const SOURCE_CHECK_STATUSES = ["verified", "location_only", "unsupported", "unreadable", "dead"] as const;
+export type SourceCheckStatus = typeof SOURCE_CHECK_STATUSES[number];
+
+// Where a company's GICS code came from: the uploaded company list, a person, or the discovery model.
+export const SECTOR_SOURCES = ["upload", "manual", "llm"] as const;
+export type SectorSource = typeof SECTOR_SOURCES[number];
+
+export const DUPLICATE_REASONS = ["name", "city+type", "proximity"] as const;
+export type DuplicateReason = typeof DUPLICATE_REASONS[number];
+
+export const HAZARD_TYPES = ["flood", "cyclone", "heat", "wildfire", "sea-level-rise"] as const;
+export type HazardType = typeof HAZARD_TYPES[number];
+
 export const companies = pgTable("companies", {
   id: serial("id").primaryKey(),
   isin: varchar("isin", { length: 12 }).notNull().unique(),
   name: varchar("name", { length: 255 }).notNull(),
   sector: varchar("sector", { length: 100 }),
+  gicsCode: varchar("gics_code", { length: 8 }),
+  sectorSource: varchar("sector_source", { length: 20 }),
   totalAssets: doublePrecision("total_assets"),
+  attributableAssets: doublePrecision("attributable_assets"),
   assetCount: integer("asset_count").default(0),
 });
 
+export const sites = pgTable("sites", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  assetType: varchar("asset_type", { length: 100 }),
+  country: varchar("country", { length: 255 }),
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
 export const assets = pgTable("assets", {
   id: serial("id").primaryKey(),
   companyName: varchar("company_name", { length: 255 }).notNull(),
@@ -31,10 +124,104 @@ export const assets = pgTable("assets", {
   industryFactor: doublePrecision("industry_factor"),
   valuationConfidence: integer("valuation_confidence"),
   ownershipShare: doublePrecision("ownership_share").default(100),
+  attributableValueUsd: doublePrecision("attributable_value_usd").generatedAlwaysAs(
+    sql`value_usd * COALESCE(ownership_share, 100) / 100`,
+  ),
   sector: varchar("sector", { length: 100 }),
   dataSource: text("data_source"),
   sourceDocument: text("source_document"),
   sourceUrl: text("source_url"),
+  manuallyEdited: boolean("manually_edited").notNull().default(false),
+  reviewStatus: varchar("review_status", { length: 20 }).notNull().default("pending"),
+  reviewNote: text("review_note"),
+  reviewedAt: timestamp("reviewed_at"),
+  siteId: integer("site_id").references(() => sites.id, { onDelete: "set null" }),
+  consensusCount: integer("consensus_count"),
+  consensusTotal: integer("consensus_total"),
+  consensusProviders: text("consensus_providers"),
+  valueLowUsd: doublePrecision("value_low_usd"),
+  valueHighUsd: doublePrecision("value_high_usd"),
+  coordinateSpreadKm: doublePrecision("coordinate_spread_km"),
+  sourceStatus: varchar("source_status", { length: 20 }),
+  sourceHttpStatus: integer("source_http_status"),
+  sourceContentType: varchar("source_content_type", { length: 100 }),
+  sourceEvidence: text("source_evidence"),
+  sourceCheckedAt: timestamp("source_checked_at"),
+});
+
+export const siteLinkCandidates = pgTable("site_link_candidates", {
+  id: serial("id").primaryKey(),
+  assetId: integer("asset_id").notNull().references(() => assets.id, { onDelete: "cascade" }),
+  candidateAssetId: integer("candidate_asset_id").notNull().references(() => assets.id, { onDelete: "cascade" }),
+  nameSimilarity: doublePrecision("name_similarity").notNull(),
+  distanceKm: doublePrecision("distance_km"),
+  score: doublePrecision("score").notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("pending"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  reviewedAt: timestamp("reviewed_at"),
+});
+
+export const assetVersions = pgTable("asset_versions", {
+  id: serial("id").primaryKey(),
+  isin: varchar("isin", { length: 12 }).notNull(),
+  version: integer("version").notNull(),
+  companyName: varchar("company_name", { length: 255 }).notNull(),
+  dataSource: text("data_source"),
+  assetCount: integer("asset_count").notNull().default(0),
+  totalValue: doublePrecision("total_value"),
+  assets: text("assets").notNull(),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+export const portfolios = pgTable("portfolios", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+export const portfolioHoldings = pgTable("portfolio_holdings", {
+  id: serial("id").primaryKey(),
+  portfolioId: integer("portfolio_id").notNull().references(() => portfolios.id, { onDelete: "cascade" }),
+  isin: varchar("isin", { length: 12 }).notNull(),
+  name: varchar("name", { length: 255 }),
+  weight: doublePrecision("weight"),
+  marketValue: doublePrecision("market_value"),
+});
+
+export const dedupScans = pgTable("dedup_scans", {
+  id: serial("id").primaryKey(),
+  status: varchar("status", { length: 20 }).notNull().default("running"),
+  totalAssets: integer("total_assets").notNull().default(0),
+  clusterCount: integer("cluster_count").notNull().default(0),
+  error: text("error"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const duplicateClusters = pgTable("duplicate_clusters", {
+  id: serial("id").primaryKey(),
+  scanId: integer("scan_id").notNull().references(() => dedupScans.id, { onDelete: "cascade" }),
+  companyName: varchar("company_name", { length: 255 }).notNull(),
+  isin: varchar("isin", { length: 12 }),
+  assetIds: text("asset_ids").notNull(),
+  score: doublePrecision("score").notNull(),
+  reasons: text("reasons").notNull(),
+  pairs: text("pairs").notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("pending"),
+  survivorId: integer("survivor_id"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  resolvedAt: timestamp("resolved_at"),
+});
+
+export const assetMerges = pgTable("asset_merges", {
+  id: serial("id").primaryKey(),
+  survivorId: integer("survivor_id").notNull().references(() => assets.id, { onDelete: "cascade" }),
+  clusterId: integer("cluster_id").references(() => duplicateClusters.id, { onDelete: "set null" }),
+  mergedAssetId: integer("merged_asset_id").notNull(),
+  snapshot: text("snapshot").notNull(),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
 
 export const discoveryJobs = pgTable("discovery_jobs", {
@@ -42,28 +229,406 @@ export const discoveryJobs = pgTable("discovery_jobs", {
   status: varchar("status", { length: 50 }).notNull().default("pending"),
   modelProvider: varchar("model_provider", { length: 50 }).default("openai"),
   supplementaryProvider: varchar("supplementary_provider", { length: 50 }),
+  ensembleProviders: text("ensemble_providers"),
   totalCompanies: integer("total_companies").notNull().default(0),
   completedCompanies: integer("completed_companies").notNull().default(0),
   failedCompanies: integer("failed_companies").notNull().default(0),
-  companyNames: text("company_names").notNull(),
+  companyNames: text("company_names"),
   companyEntries: text("company_entries"),
+  overrideManualEdits: boolean("override_manual_edits").notNull().default(false),
   results: text("results"),
   totalInputTokens: integer("total_input_tokens").default(0),
   totalOutputTokens: integer("total_output_tokens").default(0),
   totalCostUsd: doublePrecision("total_cost_usd").default(0),
+  budgetUsd: doublePrecision("budget_usd"),
+  pausedReason: text("paused_reason"),
+  priority: integer("priority").notNull().default(0),
+  parentJobId: integer("parent_job_id").references((): AnyPgColumn => discoveryJobs.id, { onDelete: "set null" }),
+  rerunKind: varchar("rerun_kind", { length: 20 }),
+  searchBackend: varchar("search_backend", { length: 20 }),
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
   updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
 
-export const insertCompanySchema = createInsertSchema(companies).omit({ id: true });
-export const insertAssetSchema = createInsertSchema(assets).omit({ id: true });
+// One queued company of a discovery job. `provider` is the worker pool that runs the item's
+// current stage: the job's provider, "ensemble", or the supplementary provider.
+export const discoveryJobItems = pgTable("discovery_job_items", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull().references(() => discoveryJobs.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  companyName: varchar("company_name", { length: 255 }).notNull(),
+  isin: varchar("isin", { length: 12 }),
+  totalValue: doublePrecision("total_value"),
+  // GICS code given with the company in the request, e.g. from an uploaded list's sector columns.
+  gicsCode: varchar("gics_code", { length: 8 }),
+  stage: varchar("stage", { length: 20 }).notNull().default("primary"),
+  provider: varchar("provider", { length: 50 }).notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  workerId: varchar("worker_id", { length: 100 }),
+  worker: varchar("worker", { length: 120 }),
+  inputTokens: integer("input_tokens").notNull().default(0),
+  outputTokens: integer("output_tokens").notNull().default(0),
+  costUsd: doublePrecision("cost_usd").notNull().default(0),
+  assetsFound: integer("assets_found"),
+  supplementaryAssetsFound: integer("supplementary_assets_found"),
+  error: text("error"),
+  result: text("result"),
+  sourceItemId: integer("source_item_id"),
+  webResearch: text("web_research"),
+  claimedAt: timestamp("claimed_at"),
+  heartbeatAt: timestamp("heartbeat_at"),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+// A job's progress events, written by whichever process ran the step. The serial id orders them
+// across processes and is the SSE event id; `payload` holds the event's other fields as JSON.
+export const discoveryJobEvents = pgTable("discovery_job_events", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull().references(() => discoveryJobs.id, { onDelete: "cascade" }),
+  type: varchar("type", { length: 30, enum: JOB_EVENT_TYPES }).notNull(),
+  payload: text("payload").notNull(),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+// Discovery spend as it is incurred, one row per finished stage, so monthly budgets count each
+// dollar in the month it was spent rather than the month its job was created.
+export const discoverySpend = pgTable("discovery_spend", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").references(() => discoveryJobs.id, { onDelete: "set null" }),
+  itemId: integer("item_id"),
+  costUsd: doublePrecision("cost_usd").notNull(),
+  recordedAt: timestamp("recorded_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+// Snippets from one search, keyed by a hash of the backend, result count and normalised query.
+export const researchCache = pgTable("research_cache", {
+  queryKey: varchar("query_key", { length: 64 }).primaryKey(),
+  backend: varchar("backend", { length: 50 }).notNull(),
+  query: text("query").notNull(),
+  snippets: text("snippets").notNull(),
+  fetchedAt: timestamp("fetched_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+// Live queries sent to each search backend per calendar month (UTC); cache hits aren't counted.
+export const searchUsage = pgTable("search_usage", {
+  id: serial("id").primaryKey(),
+  backend: varchar("backend", { length: 20 }).notNull(),
+  monthStart: timestamp("month_start").notNull(),
+  queries: integer("queries").notNull().default(0),
+  errors: integer("errors").notNull().default(0),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+// Passages pulled from one 10-K/20-F (Item 2 "Properties", PP&E notes), so each filing is parsed once.
+export const secFilings = pgTable("sec_filings", {
+  accession: varchar("accession", { length: 25 }).primaryKey(),
+  cik: varchar("cik", { length: 10 }).notNull(),
+  form: varchar("form", { length: 10 }).notNull(),
+  filingDate: varchar("filing_date", { length: 10 }).notNull(),
+  documentUrl: text("document_url").notNull(),
+  passages: text("passages").notNull(),
+  fetchedAt: timestamp("fetched_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+export const appSettings = pgTable("app_settings", {
+  key: varchar("key", { length: 100 }).primaryKey(),
+  value: text("value"),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+const ISIN_PATTERN = /^[A-Z]{2}[A-Z0-9]{9}[0-9]$/;
+
+/**
+ * ISO 6166 check: two-letter country prefix, nine alphanumerics and a Luhn check digit computed
+ * over the code with letters expanded to two digits (A=10 … Z=35).
+ */
+export function isValidIsin(value: string): boolean {
+  const isin = value.trim().toUpperCase();
+  if (!ISIN_PATTERN.test(isin)) return false;
+  const digits = isin
+    .split("")
+    .map((c) => (c >= "A" && c <= "Z" ? String(c.charCodeAt(0) - 55) : c))
+    .join("");
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+export const isinSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .refine(isValidIsin, { message: "Invalid ISIN: expected a 2-letter country code, 9 alphanumeric characters and a valid check digit" });
+
+export const insertCompanySchema = createInsertSchema(companies, { isin: isinSchema }).omit({ id: true });
+export const insertAssetSchema = createInsertSchema(assets, { reviewStatus: z.enum(REVIEW_STATUSES).optional() }).omit({
+  id: true,
+  siteId: true,
+  sourceStatus: true,
+  sourceHttpStatus: true,
+  sourceContentType: true,
+  sourceEvidence: true,
+  sourceCheckedAt: true,
+});
+export const bulkReviewSchema = z.object({
+  ids: z.array(z.number().int()).min(1),
+  status: z.enum(REVIEW_STATUSES),
+  note: z.string().optional(),
+});
+/**
+ * Equity-share-adjusted value of an asset: valueUsd × ownershipShare / 100, with a missing
+ * share treated as 100%. Mirrors the generated `attributable_value_usd` column so rows that
+ * have not been written yet (e.g. freshly discovered inserts) are valued the same way.
+ */
+export function attributableValue(asset: { valueUsd?: number | null; ownershipShare?: number | null }): number {
+  return (asset.valueUsd || 0) * (asset.ownershipShare ?? 100) / 100;
+}
+
+const csvList = z
+  .string()
+  .transform((v) => v.split(",").map((s) => s.trim()).filter((s) => s.length > 0))
+  .optional();
+
+export const ASSET_SORT_FIELDS = [
+  "id",
+  "companyName",
+  "facilityName",
+  "assetType",
+  "city",
+  "country",
+  "sector",
+  "valueUsd",
+  "attributableValueUsd",
+  "valuationConfidence",
+  "coordinateCertainty",
+] as const;
+export type AssetSortField = typeof ASSET_SORT_FIELDS[number];
+
+// "unchecked" selects assets whose source_url has not been fetched yet.
+const sourceStatusList = z
+  .string()
+  .transform((v) => v.split(",").map((s) => s.trim()).filter((s) => s.length > 0))
+  .pipe(z.array(z.enum([...SOURCE_CHECK_STATUSES, "unchecked"])))
+  .optional();
+
+export const assetFilterSchema = z.object({
+  country: csvList,
+  assetType: csvList,
+  sector: csvList,
+  isin: csvList,
+  companyName: z.string().optional(),
+  search: z.string().optional(),
+  minValue: z.coerce.number().optional(),
+  maxValue: z.coerce.number().optional(),
+  minValuationConfidence: z.coerce.number().optional(),
+  maxValuationConfidence: z.coerce.number().optional(),
+  minCoordinateCertainty: z.coerce.number().optional(),
+  maxCoordinateCertainty: z.coerce.number().optional(),
+  reviewStatus: z.enum(REVIEW_STATUSES).optional(),
+  sourceStatus: sourceStatusList,
+  excludeSourceStatus: sourceStatusList,
+});
+
+export const assetQuerySchema = assetFilterSchema.extend({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(500).default(50),
+  sort: z.enum(ASSET_SORT_FIELDS).default("companyName"),
+  order: z.enum(["asc", "desc"]).default("asc"),
+});
+
+// Which value the stats total and rank by: the full asset value or the owned share of it.
+export const VALUE_BASES = ["gross", "attributable"] as const;
+export type ValueBasis = typeof VALUE_BASES[number];
+
+export const statsQuerySchema = assetFilterSchema.extend({
+  basis: z.enum(VALUE_BASES).default("gross"),
+  top: z.coerce.number().int().min(1).max(100).default(10),
+});
+
+export const radiusQuerySchema = assetFilterSchema.extend({
+  lat: z.coerce.number().min(-90).max(90),
+  lon: z.coerce.number().min(-180).max(180),
+  radiusKm: z.coerce.number().positive().max(20000),
+});
+
+export const bboxQuerySchema = assetFilterSchema
+  .extend({
+    minLat: z.coerce.number().min(-90).max(90),
+    minLon: z.coerce.number().min(-180).max(180),
+    maxLat: z.coerce.number().min(-90).max(90),
+    maxLon: z.coerce.number().min(-180).max(180),
+  })
+  .refine((b) => b.minLat <= b.maxLat, { message: "minLat must not exceed maxLat", path: ["minLat"] });
+
+const position = z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)]).rest(z.number());
+const linearRing = z.array(position).min(4);
+
+export const polygonGeometrySchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("Polygon"), coordinates: z.array(linearRing).min(1) }),
+  z.object({ type: z.literal("MultiPolygon"), coordinates: z.array(z.array(linearRing).min(1)).min(1) }),
+]);
+
+export const polygonQuerySchema = z.object({
+  geometry: polygonGeometrySchema,
+});
+
+export const hazardExposureQuerySchema = assetFilterSchema.extend({
+  layer: csvList,
+  hazard: csvList,
+});
+
+export const portfolioHoldingInputSchema = z
+  .object({
+    isin: z.string().trim().toUpperCase().length(12),
+    name: z.string().trim().max(255).optional(),
+    weight: z.number().positive().optional(),
+    marketValue: z.number().positive().optional(),
+  })
+  .refine((h) => h.weight !== undefined || h.marketValue !== undefined, { message: "Each holding needs a weight or marketValue" });
+
+export const portfolioInputSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  description: z.string().optional(),
+  holdings: z
+    .array(portfolioHoldingInputSchema)
+    .min(1)
+    .refine((hs) => hs.every((h) => h.weight !== undefined) || hs.every((h) => h.marketValue !== undefined), {
+      message: "Give every holding a weight, or every holding a marketValue",
+    }),
+});
+
+export const siteMatchSchema = z.object({
+  isin: z.string().trim().toUpperCase().length(12).optional(),
+  minScore: z.number().min(0).max(1).optional(),
+});
+
+export const siteLinkSchema = z.object({
+  assetIds: z.array(z.number().int()).min(2),
+});
+
+export const insertSiteSchema = createInsertSchema(sites).omit({ id: true, createdAt: true });
+export const insertSiteLinkCandidateSchema = createInsertSchema(siteLinkCandidates).omit({ id: true, createdAt: true, reviewedAt: true });
+export const quarantineAcceptSchema = z.object({
+  isin: isinSchema.optional(),
+});
+
+export const mergeClusterSchema = z.object({
+  survivorId: z.number().int(),
+});
+
+export const jobBudgetSchema = z.object({
+  budgetUsd: z.number().positive().nullable(),
+});
+
+export const jobPrioritySchema = z.object({
+  priority: z.number().int().min(-100).max(100),
+});
+
+export const jobItemQuerySchema = z.object({
+  status: z
+    .string()
+    .transform((v) => v.split(",").map((s) => s.trim()).filter((s) => s.length > 0))
+    .pipe(z.array(z.enum(DISCOVERY_ITEM_STATUSES)))
+    .optional(),
+  stage: z.enum(DISCOVERY_ITEM_STAGES).optional(),
+  search: z.string().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+export const reviewQueueQuerySchema = z.object({
+  status: z.enum(REVIEW_STATUSES).default("pending"),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export const jobItemRetrySchema = z.object({
+  itemIds: z.array(z.number().int().positive()).min(1).optional(),
+});
+
+// Settings for a rerun or clone; anything left out is copied from the original job.
+export const jobRerunSchema = z.object({
+  itemIds: z.array(z.number().int().positive()).min(1).optional(),
+  provider: z.string().optional(),
+  supplementaryProvider: z.string().nullable().optional(),
+  ensembleProviders: z.array(z.string()).nullable().optional(),
+  budgetUsd: z.number().positive().nullable().optional(),
+  priority: z.number().int().min(-100).max(100).optional(),
+  overrideManualEdits: z.boolean().optional(),
+  searchBackend: z.enum(SEARCH_BACKEND_IDS).nullable().optional(),
+});
+
+export const searchQuotaSchema = z.object({
+  monthlyQuota: z.number().int().positive().nullable(),
+});
+
+// Which citations a source check fetches; without `recheck`, only those never checked or past the TTL.
+export const sourceCheckRequestSchema = z.object({
+  isins: z.array(z.string().trim().toUpperCase()).min(1).optional(),
+  recheck: z.boolean().default(false),
+});
+
+export const companyClassificationSchema = z.object({
+  gicsCode: z.string().trim().regex(/^\d{2,8}$/, "GICS codes are 2 to 8 digits").nullable(),
+});
+
+export const monthlyBudgetSchema = z.object({
+  monthlyBudgetUsd: z.number().positive().nullable(),
+});
+
+export const insertDuplicateClusterSchema = createInsertSchema(duplicateClusters).omit({ id: true, createdAt: true, resolvedAt: true });
+export const insertAssetVersionSchema = createInsertSchema(assetVersions).omit({ id: true, createdAt: true });
 export const insertDiscoveryJobSchema = createInsertSchema(discoveryJobs).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertDiscoveryJobItemSchema = createInsertSchema(discoveryJobItems).omit({ id: true, createdAt: true, updatedAt: true });
 
 export type InsertCompany = z.infer<typeof insertCompanySchema>;
 export type Company = typeof companies.$inferSelect;
 export type InsertAsset = z.infer<typeof insertAssetSchema>;
 export type Asset = typeof assets.$inferSelect;
+export type AssetFilter = z.infer<typeof assetFilterSchema>;
+export type AssetQuery = z.infer<typeof assetQuerySchema>;
+export type StatsQuery = z.infer<typeof statsQuerySchema>;
+export type JobItemQuery = z.infer<typeof jobItemQuerySchema>;
+export type JobRerunSettings = z.infer<typeof jobRerunSchema>;
+export type SourceCheckRequest = z.infer<typeof sourceCheckRequestSchema>;
+export type BulkReview = z.infer<typeof bulkReviewSchema>;
+export type RadiusQuery = z.infer<typeof radiusQuerySchema>;
+export type BboxQuery = z.infer<typeof bboxQuerySchema>;
+export type PolygonGeometry = z.infer<typeof polygonGeometrySchema>;
+export type Site = typeof sites.$inferSelect;
+export type InsertSite = z.infer<typeof insertSiteSchema>;
+export type SiteLinkCandidate = typeof siteLinkCandidates.$inferSelect;
+export type InsertSiteLinkCandidate = z.infer<typeof insertSiteLinkCandidateSchema>;
+export type AssetVersion = typeof assetVersions.$inferSelect;
+export type InsertAssetVersion = z.infer<typeof insertAssetVersionSchema>;
+export type Portfolio = typeof portfolios.$inferSelect;
+export type PortfolioHolding = typeof portfolioHoldings.$inferSelect;
+export type PortfolioHoldingInput = z.infer<typeof portfolioHoldingInputSchema>;
+export type PortfolioInput = z.infer<typeof portfolioInputSchema>;
+export type DedupScan = typeof dedupScans.$inferSelect;
+export type DuplicateCluster = typeof duplicateClusters.$inferSelect;
+export type InsertDuplicateCluster = z.infer<typeof insertDuplicateClusterSchema>;
+export type AssetMerge = typeof assetMerges.$inferSelect;
 export type DiscoveryJob = typeof discoveryJobs.$inferSelect;
 export type InsertDiscoveryJob = z.infer<typeof insertDiscoveryJobSchema>;
+export type DiscoveryJobItem = typeof discoveryJobItems.$inferSelect;
+export type InsertDiscoveryJobItem = z.infer<typeof insertDiscoveryJobItemSchema>;
+export type DiscoveryJobEvent = typeof discoveryJobEvents.$inferSelect;
+export type AppSetting = typeof appSettings.$inferSelect;
+export type ResearchCacheEntry = typeof researchCache.$inferSelect;
+export type SearchUsage = typeof searchUsage.$inferSelect;
+export type SecFiling = typeof secFilings.$inferSelect;
 
 export * from "./models/chat";